@@ -3,13 +3,30 @@ import { supabase } from './supabaseClient';
 import Login from './components/Login';
 import Dashboard from './components/Dashboard';
 import MonthlyDashboard from './components/MonthlyDashboard';
+import AnalyticsDashboard from './components/AnalyticsDashboard';
+import LeaveManager from './components/LeaveManager';
+import NotificationSettings from './components/NotificationSettings';
+import PublicHolidayManager from './components/PublicHolidayManager';
+import FleetOverview from './components/FleetOverview';
+import CorrectionReview from './components/CorrectionReview';
+import ClaimReview from './components/ClaimReview';
+import TimesheetReview from './components/TimesheetReview';
+import SiteManager from './components/SiteManager';
+import RosterManager from './components/RosterManager';
+import RecalculationTool from './components/RecalculationTool';
+import { UserProfile, Language } from './types';
+import { fetchCurrentProfile, canViewFleet, getDisplayName, updateProfileLanguage } from './services/profileService';
+import { getStoredLanguage, storeLanguage, isLanguage } from './services/i18nService';
 
-type Page = 'dashboard' | 'monthly';
+type Page = 'dashboard' | 'monthly' | 'leaves' | 'holidays' | 'fleet' | 'driverMonthly' | 'driverLeaves' | 'corrections' | 'sites' | 'roster' | 'claims' | 'timesheets' | 'analytics' | 'driverAnalytics' | 'notifications' | 'recalculation';
 
 const App: React.FC = () => {
   const [session, setSession] = useState<any>(null);
   const [loading, setLoading] = useState(true);
   const [currentPage, setCurrentPage] = useState<Page>('dashboard');
+  const [profile, setProfile] = useState<UserProfile | null>(null);
+  const [selectedDriver, setSelectedDriver] = useState<UserProfile | null>(null);
+  const [language, setLanguage] = useState<Language>(getStoredLanguage());
 
   useEffect(() => {
     // Check active session
@@ -28,6 +45,43 @@ const App: React.FC = () => {
     return () => subscription.unsubscribe();
   }, []);
 
+  // Load the user's role whenever the logged-in user changes
+  useEffect(() => {
+    if (!session) {
+      setProfile(null);
+      setCurrentPage('dashboard');
+      return;
+    }
+    fetchCurrentProfile(session)
+      .then((current) => {
+        setProfile(current);
+        // A language saved to the profile follows the user to every device
+        if (isLanguage(current.language)) {
+          setLanguage(current.language);
+          storeLanguage(current.language);
+        }
+      })
+      .catch((err) => {
+        console.error('Error fetching profile:', err);
+        setProfile(null);
+      });
+  }, [session?.user?.id]);
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  const handleLanguageChange = (next: Language) => {
+    setLanguage(next);
+    storeLanguage(next);
+    if (!session) return;
+    updateProfileLanguage(session.user.id, next)
+      .then(setProfile)
+      .catch((err) => console.error('Error saving language:', err));
+  };
+
+  const role = profile?.role || 'driver';
+
   if (loading) {
     return (
       <div className="min-h-screen bg-gray-50 flex items-center justify-center">
@@ -40,15 +94,106 @@ const App: React.FC = () => {
   }
 
   if (!session) {
-    return <Login />;
+    return <Login language={language} onLanguageChange={handleLanguageChange} />;
   }
 
   return (
     <>
-      {currentPage === 'dashboard' ? (
-        <Dashboard session={session} onNavigateToMonthly={() => setCurrentPage('monthly')} />
-      ) : (
-        <MonthlyDashboard session={session} onBack={() => setCurrentPage('dashboard')} />
+      {currentPage === 'dashboard' && (
+        <Dashboard
+          session={session}
+          language={language}
+          onLanguageChange={handleLanguageChange}
+          onNavigateToMonthly={() => setCurrentPage('monthly')}
+          onNavigateToLeaves={() => setCurrentPage('leaves')}
+          onNavigateToHolidays={role === 'admin' ? () => setCurrentPage('holidays') : undefined}
+          onNavigateToFleet={canViewFleet(role) ? () => setCurrentPage('fleet') : undefined}
+          onNavigateToNotifications={() => setCurrentPage('notifications')}
+        />
+      )}
+      {currentPage === 'monthly' && (
+        <MonthlyDashboard
+          session={session}
+          language={language}
+          onBack={() => setCurrentPage('dashboard')}
+          onViewAnalytics={() => setCurrentPage('analytics')}
+        />
+      )}
+      {currentPage === 'analytics' && (
+        <AnalyticsDashboard session={session} onBack={() => setCurrentPage('monthly')} />
+      )}
+      {currentPage === 'notifications' && (
+        <NotificationSettings session={session} onBack={() => setCurrentPage('dashboard')} />
+      )}
+      {currentPage === 'leaves' && (
+        <LeaveManager session={session} onBack={() => setCurrentPage('dashboard')} />
+      )}
+      {currentPage === 'holidays' && (
+        <PublicHolidayManager onBack={() => setCurrentPage('dashboard')} />
+      )}
+      {currentPage === 'fleet' && profile && (
+        <FleetOverview
+          currentProfile={profile}
+          onBack={() => setCurrentPage('dashboard')}
+          onViewDriver={(driver) => {
+            setSelectedDriver(driver);
+            setCurrentPage('driverMonthly');
+          }}
+          onManageLeaves={(driver) => {
+            setSelectedDriver(driver);
+            setCurrentPage('driverLeaves');
+          }}
+          onReviewCorrections={() => setCurrentPage('corrections')}
+          onReviewClaims={() => setCurrentPage('claims')}
+          onReviewTimesheets={() => setCurrentPage('timesheets')}
+          onManageSites={() => setCurrentPage('sites')}
+          onManageRoster={() => setCurrentPage('roster')}
+          onRecalculate={() => setCurrentPage('recalculation')}
+        />
+      )}
+      {currentPage === 'driverMonthly' && selectedDriver && (
+        <MonthlyDashboard
+          session={session}
+          language={language}
+          driverId={selectedDriver.id}
+          driverName={getDisplayName(selectedDriver)}
+          onBack={() => setCurrentPage('fleet')}
+          onViewAnalytics={() => setCurrentPage('driverAnalytics')}
+        />
+      )}
+      {currentPage === 'driverAnalytics' && selectedDriver && (
+        <AnalyticsDashboard
+          session={session}
+          driverId={selectedDriver.id}
+          driverName={getDisplayName(selectedDriver)}
+          onBack={() => setCurrentPage('driverMonthly')}
+        />
+      )}
+      {currentPage === 'driverLeaves' && selectedDriver && (
+        <LeaveManager
+          session={session}
+          driverId={selectedDriver.id}
+          driverName={getDisplayName(selectedDriver)}
+          onBack={() => setCurrentPage('fleet')}
+        />
+      )}
+      {currentPage === 'corrections' && (
+        <CorrectionReview onBack={() => setCurrentPage('fleet')} />
+      )}
+      {currentPage === 'claims' && (
+        <ClaimReview onBack={() => setCurrentPage('fleet')} />
+      )}
+      {currentPage === 'timesheets' && (
+        <TimesheetReview onBack={() => setCurrentPage('fleet')} />
+      )}
+      {currentPage === 'sites' && (
+        <SiteManager onBack={() => setCurrentPage('fleet')} />
+      )}
+      {currentPage === 'recalculation' && (
+        <RecalculationTool onBack={() => setCurrentPage('fleet')} />
+      )}
+      {currentPage === 'roster' && (
+        <RosterManager session={session} onBack={() => setCurrentPage('fleet')} />
       )}
     </>
   );
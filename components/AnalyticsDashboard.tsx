@@ -0,0 +1,269 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { format, getYear } from 'date-fns';
+import { ArrowLeft, Calendar, DollarSign, Clock, MapPin, AlertCircle, TrendingUp } from 'lucide-react';
+import { MonthlyAnalytics, YearAnalytics } from '../types';
+import { fetchYearAnalytics } from '../services/analyticsService';
+
+interface AnalyticsDashboardProps {
+  session: any;
+  onBack: () => void;
+  driverId?: string; // Driver whose year is shown (defaults to the logged-in user)
+  driverName?: string;
+}
+
+// Years offered in the selector, counting back from this year
+const YEARS_SHOWN = 3;
+
+/**
+ * Format minutes to "Xh Ym" format
+ */
+const formatMinutes = (totalMinutes: number): string => {
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = Math.round(totalMinutes % 60);
+  if (hours === 0) return `${minutes}m`;
+  if (minutes === 0) return `${hours}h`;
+  return `${hours}h ${minutes}m`;
+};
+
+const monthLabel = (year: number, month: number): string => format(new Date(year, month - 1, 1), 'MMM');
+
+interface BarChartProps {
+  title: string;
+  year: number;
+  months: MonthlyAnalytics[];
+  // One or more stacked series per month
+  series: { label: string; color: string; value: (month: MonthlyAnalytics) => number }[];
+  formatValue: (value: number) => string;
+}
+
+/**
+ * Simple month-by-month bar chart; series are stacked on top of each other
+ */
+const BarChart: React.FC<BarChartProps> = ({ title, year, months, series, formatValue }) => {
+  const totals = months.map((month) => series.reduce((sum, s) => sum + s.value(month), 0));
+  const max = Math.max(...totals, 0);
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-5">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900">{title}</h2>
+        {series.length > 1 && (
+          <div className="flex items-center gap-3">
+            {series.map((s) => (
+              <span key={s.label} className="flex items-center gap-1 text-xs text-gray-500">
+                <span className={`w-3 h-3 rounded-sm ${s.color}`}></span>
+                {s.label}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-end gap-2 h-40">
+        {months.map((month, index) => (
+          <div key={month.month} className="flex-1 h-full flex flex-col justify-end items-center gap-1">
+            <span className="text-[10px] text-gray-500 whitespace-nowrap">
+              {totals[index] > 0 ? formatValue(totals[index]) : ''}
+            </span>
+            <div
+              className="w-full flex flex-col-reverse rounded-t overflow-hidden bg-gray-100"
+              style={{ height: max > 0 ? `${(totals[index] / max) * 100}%` : '0%' }}
+              title={series.map((s) => `${s.label}: ${formatValue(s.value(month))}`).join('\n')}
+            >
+              {series.map((s) => {
+                const value = s.value(month);
+                return value > 0 && totals[index] > 0 ? (
+                  <div key={s.label} className={s.color} style={{ height: `${(value / totals[index]) * 100}%` }}></div>
+                ) : null;
+              })}
+            </div>
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-2 mt-2 border-t border-gray-100 pt-2">
+        {months.map((month) => (
+          <span key={month.month} className="flex-1 text-center text-xs text-gray-500">
+            {monthLabel(year, month.month)}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const AnalyticsDashboard: React.FC<AnalyticsDashboardProps> = ({ session, onBack, driverId, driverName }) => {
+  const [loading, setLoading] = useState(true);
+  const [selectedYear, setSelectedYear] = useState<number>(getYear(new Date()));
+  const [analytics, setAnalytics] = useState<YearAnalytics | null>(null);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+
+  const userId = driverId || session.user.id;
+  const yearOptions = Array.from({ length: YEARS_SHOWN }, (_, i) => getYear(new Date()) - i);
+
+  const fetchAnalytics = useCallback(async () => {
+    try {
+      setLoading(true);
+      setErrorMsg(null);
+      setAnalytics(await fetchYearAnalytics(userId, selectedYear));
+    } catch (err: any) {
+      console.error('Error fetching analytics:', err);
+      setErrorMsg(err.message || 'Failed to load analytics.');
+      setAnalytics(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, selectedYear]);
+
+  useEffect(() => {
+    fetchAnalytics();
+  }, [fetchAnalytics]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-indigo-600"></div>
+      </div>
+    );
+  }
+
+  const totals = analytics?.totals;
+  const months = analytics?.months || [];
+  const totalOTMinutes = totals ? totals.paidMinutes1_5x + totals.paidMinutes2x + totals.paidMinutes3x : 0;
+
+  return (
+    <div className="min-h-screen bg-gray-50 max-w-6xl mx-auto shadow-xl border-x border-gray-200">
+      {/* Header */}
+      <header className="bg-white px-6 py-5 border-b border-gray-100 sticky top-0 z-10">
+        <div className="flex items-center gap-4 mb-4">
+          <button
+            onClick={onBack}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <ArrowLeft size={24} className="text-gray-600" />
+          </button>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Year to Date</h1>
+            {driverName && <p className="text-sm text-gray-500">{driverName}</p>}
+          </div>
+        </div>
+
+        {/* Year Selector */}
+        <div className="flex items-center gap-3">
+          <Calendar size={20} className="text-gray-500" />
+          <select
+            value={selectedYear}
+            onChange={(e) => setSelectedYear(Number(e.target.value))}
+            className="px-4 py-2 border border-gray-300 rounded-lg bg-white text-gray-900 font-medium focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+          >
+            {yearOptions.map((year) => (
+              <option key={year} value={year}>{year}</option>
+            ))}
+          </select>
+        </div>
+      </header>
+
+      <main className="p-6 space-y-6">
+        {errorMsg && (
+          <div className="bg-red-50 text-red-700 p-4 rounded-xl flex items-start gap-3">
+            <AlertCircle size={20} className="mt-0.5 shrink-0" />
+            <p>{errorMsg}</p>
+          </div>
+        )}
+
+        {totals && (
+          <>
+            {/* Year-to-date Cards */}
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4">
+              <div className="bg-gradient-to-br from-indigo-600 to-indigo-700 rounded-xl p-5 text-white shadow-lg">
+                <div className="flex items-center justify-between mb-2">
+                  <DollarSign size={24} className="opacity-80" />
+                </div>
+                <p className="text-indigo-100 text-sm font-medium mb-1">Total Earnings</p>
+                <h3 className="text-2xl font-bold">RM {totals.summary.grandTotal.toFixed(2)}</h3>
+                <p className="text-xs text-indigo-100 mt-1">
+                  OT RM {totals.summary.totalOTPay.toFixed(2)} · Claims RM {totals.summary.approvedClaims.toFixed(2)}
+                </p>
+              </div>
+
+              <div className="bg-gradient-to-br from-green-500 to-green-600 rounded-xl p-5 text-white shadow-lg">
+                <div className="flex items-center justify-between mb-2">
+                  <TrendingUp size={24} className="opacity-80" />
+                </div>
+                <p className="text-green-100 text-sm font-medium mb-1">Paid OT</p>
+                <h3 className="text-2xl font-bold">{formatMinutes(totalOTMinutes)}</h3>
+                <p className="text-xs text-green-100 mt-1">
+                  1.5x {formatMinutes(totals.paidMinutes1_5x)} · 2x {formatMinutes(totals.paidMinutes2x)} · 3x {formatMinutes(totals.paidMinutes3x)}
+                </p>
+              </div>
+
+              <div className="bg-gradient-to-br from-blue-500 to-blue-600 rounded-xl p-5 text-white shadow-lg">
+                <div className="flex items-center justify-between mb-2">
+                  <Clock size={24} className="opacity-80" />
+                </div>
+                <p className="text-blue-100 text-sm font-medium mb-1">Shifts</p>
+                <h3 className="text-2xl font-bold">{totals.shiftCount}</h3>
+                <p className="text-xs text-blue-100 mt-1">
+                  Average {formatMinutes(totals.averageShiftMinutes)} worked
+                </p>
+              </div>
+
+              <div className="bg-gradient-to-br from-amber-500 to-amber-600 rounded-xl p-5 text-white shadow-lg">
+                <div className="flex items-center justify-between mb-2">
+                  <MapPin size={24} className="opacity-80" />
+                </div>
+                <p className="text-amber-100 text-sm font-medium mb-1">Outstation Trips</p>
+                <h3 className="text-2xl font-bold">{totals.outstationCount}</h3>
+                <p className="text-xs text-amber-100 mt-1">
+                  Meal allowances RM {totals.summary.outstationMealAllowances.toFixed(2)}
+                </p>
+              </div>
+            </div>
+
+            {months.length === 0 ? (
+              <div className="bg-white rounded-xl shadow-sm border border-gray-200 px-6 py-12 text-center text-gray-500">
+                No records found for {selectedYear}.
+              </div>
+            ) : (
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <BarChart
+                  title="OT Hours by Rate"
+                  year={selectedYear}
+                  months={months}
+                  series={[
+                    { label: '1.5x', color: 'bg-green-500', value: (m) => m.paidMinutes1_5x },
+                    { label: '2x', color: 'bg-orange-400', value: (m) => m.paidMinutes2x },
+                    { label: '3x', color: 'bg-red-500', value: (m) => m.paidMinutes3x },
+                  ]}
+                  formatValue={formatMinutes}
+                />
+                <BarChart
+                  title="Outstation Trips"
+                  year={selectedYear}
+                  months={months}
+                  series={[{ label: 'Trips', color: 'bg-amber-500', value: (m) => m.outstationCount }]}
+                  formatValue={(value) => String(value)}
+                />
+                <BarChart
+                  title="Average Shift Length"
+                  year={selectedYear}
+                  months={months}
+                  series={[{ label: 'Average', color: 'bg-blue-500', value: (m) => m.averageShiftMinutes }]}
+                  formatValue={formatMinutes}
+                />
+                <BarChart
+                  title="Attendance Allowance"
+                  year={selectedYear}
+                  months={months}
+                  series={[{ label: 'Allowance', color: 'bg-pink-500', value: (m) => m.summary.fullAttendanceReward }]}
+                  formatValue={(value) => `RM ${value.toFixed(0)}`}
+                />
+              </div>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default AnalyticsDashboard;
@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { X, AlertCircle, Car, Camera } from 'lucide-react';
+import { WorkLog, ClaimCategory } from '../types';
+import { submitClaim, CLAIM_CATEGORY_LABELS } from '../services/claimService';
+
+interface ClaimFormProps {
+  workLog: WorkLog;
+  mileageRatePerKm: number; // Rate from the pay profile, for the estimate shown while typing
+  suggestedDistanceKm?: number; // Distance from the recorded route, if any
+  onClose: () => void;
+  onSubmitted: () => void;
+}
+
+const ClaimForm: React.FC<ClaimFormProps> = ({
+  workLog,
+  mileageRatePerKm,
+  suggestedDistanceKm,
+  onClose,
+  onSubmitted,
+}) => {
+  const [category, setCategory] = useState<ClaimCategory>('toll');
+  const [distanceKm, setDistanceKm] = useState<string>(suggestedDistanceKm ? suggestedDistanceKm.toFixed(1) : '');
+  const [amount, setAmount] = useState<string>('');
+  const [description, setDescription] = useState<string>('');
+  const [receipt, setReceipt] = useState<File | null>(null);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [actionLoading, setActionLoading] = useState(false);
+
+  const isMileage = category === 'mileage';
+  const estimatedMileage = (Number(distanceKm) || 0) * mileageRatePerKm;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setActionLoading(true);
+      setErrorMsg(null);
+      await submitClaim(workLog, {
+        category,
+        distance_km: isMileage ? Number(distanceKm) : undefined,
+        amount: isMileage ? undefined : Number(amount),
+        description,
+        receipt,
+      });
+      onSubmitted();
+      onClose();
+    } catch (err: any) {
+      setErrorMsg(err.message || 'Failed to submit claim');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+            <Car size={18} />
+            New Claim
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+          >
+            <X size={20} className="text-gray-600" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="flex-1 overflow-y-auto p-6 space-y-4">
+          {errorMsg && (
+            <div className="bg-red-50 text-red-700 p-4 rounded-xl flex items-start gap-3 text-sm">
+              <AlertCircle size={18} className="mt-0.5 shrink-0" />
+              <p>{errorMsg}</p>
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+            <select
+              value={category}
+              onChange={(e) => setCategory(e.target.value as ClaimCategory)}
+              disabled={actionLoading}
+              className="w-full px-4 py-3 rounded-lg border border-gray-300 bg-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+            >
+              {(Object.keys(CLAIM_CATEGORY_LABELS) as ClaimCategory[]).map((value) => (
+                <option key={value} value={value}>{CLAIM_CATEGORY_LABELS[value]}</option>
+              ))}
+            </select>
+          </div>
+
+          {isMileage ? (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Distance (km)</label>
+              <input
+                type="number"
+                min="0.1"
+                step="0.1"
+                value={distanceKm}
+                onChange={(e) => setDistanceKm(e.target.value)}
+                required
+                disabled={actionLoading}
+                className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                RM {mileageRatePerKm.toFixed(2)}/km ≈ RM {estimatedMileage.toFixed(2)}
+                {suggestedDistanceKm ? ' · prefilled from the recorded route' : ''}
+              </p>
+            </div>
+          ) : (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Amount (RM)</label>
+              <input
+                type="number"
+                min="0.01"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                required
+                disabled={actionLoading}
+                className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+              />
+            </div>
+          )}
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Receipt Photo{isMileage ? ' (optional)' : ''}
+            </label>
+            <label className="w-full flex items-center gap-2 px-4 py-3 rounded-lg border border-dashed border-gray-300 text-sm text-gray-600 hover:bg-gray-50 cursor-pointer">
+              <Camera size={16} className="shrink-0" />
+              <span className="truncate">{receipt ? receipt.name : 'Take or choose a photo'}</span>
+              <input
+                type="file"
+                accept="image/*,application/pdf"
+                capture="environment"
+                onChange={(e) => setReceipt(e.target.files?.[0] || null)}
+                disabled={actionLoading}
+                className="hidden"
+              />
+            </label>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+            <input
+              type="text"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              disabled={actionLoading}
+              className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+              placeholder="e.g. PLUS toll Seremban – KL"
+            />
+          </div>
+
+          <button
+            type="submit"
+            disabled={actionLoading}
+            className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-3 px-6 rounded-xl transition-colors disabled:opacity-50"
+          >
+            {actionLoading ? 'Sending...' : 'Send for Approval'}
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default ClaimForm;
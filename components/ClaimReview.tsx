@@ -0,0 +1,178 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { ArrowLeft, Car, AlertCircle, Check, X, Paperclip } from 'lucide-react';
+import { UserProfile, Claim } from '../types';
+import { fetchPendingClaims, reviewClaim, getReceiptUrl, CLAIM_CATEGORY_LABELS } from '../services/claimService';
+import { fetchProfiles, getDisplayName } from '../services/profileService';
+
+interface ClaimReviewProps {
+  onBack: () => void;
+}
+
+const ClaimReview: React.FC<ClaimReviewProps> = ({ onBack }) => {
+  const [loading, setLoading] = useState(true);
+  const [claims, setClaims] = useState<Claim[]>([]);
+  const [profiles, setProfiles] = useState<Map<string, UserProfile>>(new Map());
+  const [reviewNotes, setReviewNotes] = useState<Record<string, string>>({});
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [actionLoading, setActionLoading] = useState(false);
+
+  const refreshClaims = useCallback(async () => {
+    try {
+      setLoading(true);
+      setErrorMsg(null);
+      const [pending, allProfiles] = await Promise.all([
+        fetchPendingClaims(),
+        fetchProfiles(),
+      ]);
+      setClaims(pending);
+      setProfiles(new Map(allProfiles.map((profile) => [profile.id, profile])));
+    } catch (err: any) {
+      console.error('Error fetching claims:', err);
+      setErrorMsg(err.message || 'Failed to load claims.');
+      setClaims([]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshClaims();
+  }, [refreshClaims]);
+
+  const handleReview = async (claim: Claim, approve: boolean) => {
+    try {
+      setActionLoading(true);
+      setErrorMsg(null);
+      await reviewClaim(claim.id, approve, reviewNotes[claim.id]);
+      await refreshClaims();
+    } catch (err: any) {
+      setErrorMsg(err.message || 'Failed to review claim');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleViewReceipt = async (receiptPath: string) => {
+    try {
+      setErrorMsg(null);
+      window.open(await getReceiptUrl(receiptPath), '_blank', 'noopener');
+    } catch (err: any) {
+      setErrorMsg(err.message || 'Failed to open receipt');
+    }
+  };
+
+  const getDriverName = (userId: string): string => {
+    const profile = profiles.get(userId);
+    return profile ? getDisplayName(profile) : 'Unknown driver';
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 max-w-md mx-auto shadow-xl border-x border-gray-200 flex flex-col">
+      {/* Header */}
+      <header className="bg-white px-6 py-5 border-b border-gray-100 sticky top-0 z-10">
+        <div className="flex items-center gap-4">
+          <button
+            onClick={onBack}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <ArrowLeft size={24} className="text-gray-600" />
+          </button>
+          <h1 className="text-xl font-bold text-gray-900">Claims</h1>
+        </div>
+      </header>
+
+      <main className="flex-1 p-6 space-y-6 overflow-y-auto">
+        {errorMsg && (
+          <div className="bg-red-50 text-red-700 p-4 rounded-xl flex items-start gap-3 text-sm">
+            <AlertCircle size={18} className="mt-0.5 shrink-0" />
+            <p>{errorMsg}</p>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+          </div>
+        ) : claims.length === 0 ? (
+          <div className="text-center py-8">
+            <Car size={32} className="mx-auto text-gray-300 mb-2" />
+            <p className="text-gray-400 text-sm">No claims waiting for review.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {claims.map((claim) => (
+              <div key={claim.id} className="bg-white rounded-2xl p-5 shadow-sm border border-gray-100 space-y-3">
+                <div className="flex items-start justify-between gap-3">
+                  <div>
+                    <p className="font-semibold text-gray-900">{getDriverName(claim.user_id)}</p>
+                    <p className="text-xs text-gray-400">
+                      Submitted {format(new Date(claim.created_at), 'd MMM yyyy, h:mm a')}
+                    </p>
+                  </div>
+                  <p className="font-bold text-gray-900 whitespace-nowrap">RM {claim.amount.toFixed(2)}</p>
+                </div>
+
+                <div className="text-sm space-y-1">
+                  <p className="text-gray-900">
+                    <span className="font-medium">{CLAIM_CATEGORY_LABELS[claim.category]}</span>
+                    {claim.distance_km != null && ` · ${claim.distance_km.toFixed(1)} km`}
+                  </p>
+                  {claim.work_log && (
+                    <p className="text-gray-500">
+                      <span className="font-medium">Session:</span>{' '}
+                      {format(new Date(claim.work_log.clock_in), 'd MMM, h:mm a')} –{' '}
+                      {claim.work_log.clock_out ? format(new Date(claim.work_log.clock_out), 'd MMM, h:mm a') : 'still open'}
+                    </p>
+                  )}
+                  {claim.description && <p className="text-gray-600 italic">"{claim.description}"</p>}
+                  {claim.receipt_path ? (
+                    <button
+                      onClick={() => handleViewReceipt(claim.receipt_path!)}
+                      className="flex items-center gap-1 text-xs font-medium text-indigo-600 hover:text-indigo-700"
+                    >
+                      <Paperclip size={12} />
+                      View receipt
+                    </button>
+                  ) : (
+                    <p className="text-xs text-gray-400">No receipt attached</p>
+                  )}
+                </div>
+
+                <input
+                  type="text"
+                  value={reviewNotes[claim.id] || ''}
+                  onChange={(e) => setReviewNotes({ ...reviewNotes, [claim.id]: e.target.value })}
+                  disabled={actionLoading}
+                  className="w-full px-3 py-2 rounded-lg border border-gray-300 text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+                  placeholder="Notes for the driver (optional)"
+                />
+
+                <div className="flex gap-3">
+                  <button
+                    onClick={() => handleReview(claim, false)}
+                    disabled={actionLoading}
+                    className="flex-1 flex items-center justify-center gap-2 py-2 rounded-xl border border-red-200 text-red-600 hover:bg-red-50 font-semibold text-sm transition-colors disabled:opacity-50"
+                  >
+                    <X size={16} />
+                    Reject
+                  </button>
+                  <button
+                    onClick={() => handleReview(claim, true)}
+                    disabled={actionLoading}
+                    className="flex-1 flex items-center justify-center gap-2 py-2 rounded-xl bg-emerald-500 hover:bg-emerald-600 text-white font-semibold text-sm transition-colors disabled:opacity-50"
+                  >
+                    <Check size={16} />
+                    Approve
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default ClaimReview;
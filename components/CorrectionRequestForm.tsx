@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { X, AlertCircle, CheckCircle, PencilLine } from 'lucide-react';
+import { WorkLog } from '../types';
+import { requestCorrection } from '../services/correctionService';
+
+interface CorrectionRequestFormProps {
+  workLog: WorkLog;
+  onClose: () => void;
+  onSubmitted: () => void;
+}
+
+// Format an ISO timestamp for a datetime-local input
+const toInputValue = (iso: string | null): string =>
+  iso ? format(new Date(iso), "yyyy-MM-dd'T'HH:mm") : '';
+
+const CorrectionRequestForm: React.FC<CorrectionRequestFormProps> = ({ workLog, onClose, onSubmitted }) => {
+  const [clockIn, setClockIn] = useState<string>(toInputValue(workLog.clock_in));
+  const [clockOut, setClockOut] = useState<string>(toInputValue(workLog.clock_out));
+  const [reason, setReason] = useState<string>(workLog.clock_out ? '' : 'Forgot to clock out');
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [submitted, setSubmitted] = useState(false);
+  const [actionLoading, setActionLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setActionLoading(true);
+      setErrorMsg(null);
+      await requestCorrection(workLog, {
+        requested_clock_in: new Date(clockIn).toISOString(),
+        requested_clock_out: new Date(clockOut).toISOString(),
+        reason,
+      });
+      setSubmitted(true);
+      onSubmitted();
+    } catch (err: any) {
+      setErrorMsg(err.message || 'Failed to submit correction');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+            <PencilLine size={18} />
+            Request Correction
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+          >
+            <X size={20} className="text-gray-600" />
+          </button>
+        </div>
+
+        {submitted ? (
+          <div className="p-6 space-y-4">
+            <div className="bg-green-50 text-green-700 p-4 rounded-xl flex items-start gap-3 text-sm">
+              <CheckCircle size={18} className="mt-0.5 shrink-0" />
+              <p>Correction sent. Your supervisor will review it and OT will be recalculated once approved.</p>
+            </div>
+            <button
+              onClick={onClose}
+              className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-3 px-6 rounded-xl transition-colors"
+            >
+              Close
+            </button>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="flex-1 overflow-y-auto p-6 space-y-4">
+            <p className="text-sm text-gray-600">
+              Enter the times you actually started and finished work. The log keeps its current times until a
+              supervisor approves the change.
+            </p>
+
+            {errorMsg && (
+              <div className="bg-red-50 text-red-700 p-4 rounded-xl flex items-start gap-3 text-sm">
+                <AlertCircle size={18} className="mt-0.5 shrink-0" />
+                <p>{errorMsg}</p>
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Clock In</label>
+              <input
+                type="datetime-local"
+                value={clockIn}
+                onChange={(e) => setClockIn(e.target.value)}
+                required
+                disabled={actionLoading}
+                className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Clock Out</label>
+              <input
+                type="datetime-local"
+                value={clockOut}
+                onChange={(e) => setClockOut(e.target.value)}
+                required
+                disabled={actionLoading}
+                className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+              />
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+              <textarea
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                required
+                rows={3}
+                disabled={actionLoading}
+                className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+                placeholder="e.g. Forgot to clock out after returning to depot"
+              />
+            </div>
+
+            <button
+              type="submit"
+              disabled={actionLoading}
+              className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-3 px-6 rounded-xl transition-colors disabled:opacity-50"
+            >
+              {actionLoading ? 'Sending...' : 'Send for Approval'}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CorrectionRequestForm;
@@ -0,0 +1,163 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { ArrowLeft, ClipboardCheck, AlertCircle, Check, X } from 'lucide-react';
+import { UserProfile, WorkLogCorrection } from '../types';
+import { fetchPendingCorrections, approveCorrection, rejectCorrection } from '../services/correctionService';
+import { fetchProfiles, getDisplayName } from '../services/profileService';
+
+interface CorrectionReviewProps {
+  onBack: () => void;
+}
+
+// Format a start/end pair, e.g. "5 Jan, 8:00 AM – 6:30 PM"
+const formatRange = (start: string, end: string | null): string =>
+  `${format(new Date(start), 'd MMM, h:mm a')} – ${end ? format(new Date(end), 'd MMM, h:mm a') : 'still open'}`;
+
+const CorrectionReview: React.FC<CorrectionReviewProps> = ({ onBack }) => {
+  const [loading, setLoading] = useState(true);
+  const [corrections, setCorrections] = useState<WorkLogCorrection[]>([]);
+  const [profiles, setProfiles] = useState<Map<string, UserProfile>>(new Map());
+  const [reviewNotes, setReviewNotes] = useState<Record<string, string>>({});
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [actionLoading, setActionLoading] = useState(false);
+
+  const refreshCorrections = useCallback(async () => {
+    try {
+      setLoading(true);
+      setErrorMsg(null);
+      const [pending, allProfiles] = await Promise.all([
+        fetchPendingCorrections(),
+        fetchProfiles(),
+      ]);
+      setCorrections(pending);
+      setProfiles(new Map(allProfiles.map((profile) => [profile.id, profile])));
+    } catch (err: any) {
+      console.error('Error fetching corrections:', err);
+      setErrorMsg(err.message || 'Failed to load corrections.');
+      setCorrections([]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshCorrections();
+  }, [refreshCorrections]);
+
+  const handleReview = async (correction: WorkLogCorrection, approve: boolean) => {
+    try {
+      setActionLoading(true);
+      setErrorMsg(null);
+      const notes = reviewNotes[correction.id];
+      if (approve) {
+        await approveCorrection(correction, notes);
+      } else {
+        await rejectCorrection(correction.id, notes);
+      }
+      await refreshCorrections();
+    } catch (err: any) {
+      setErrorMsg(err.message || 'Failed to review correction');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const getDriverName = (userId: string): string => {
+    const profile = profiles.get(userId);
+    return profile ? getDisplayName(profile) : 'Unknown driver';
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 max-w-md mx-auto shadow-xl border-x border-gray-200 flex flex-col">
+      {/* Header */}
+      <header className="bg-white px-6 py-5 border-b border-gray-100 sticky top-0 z-10">
+        <div className="flex items-center gap-4">
+          <button
+            onClick={onBack}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <ArrowLeft size={24} className="text-gray-600" />
+          </button>
+          <h1 className="text-xl font-bold text-gray-900">Correction Requests</h1>
+        </div>
+      </header>
+
+      <main className="flex-1 p-6 space-y-6 overflow-y-auto">
+        {errorMsg && (
+          <div className="bg-red-50 text-red-700 p-4 rounded-xl flex items-start gap-3 text-sm">
+            <AlertCircle size={18} className="mt-0.5 shrink-0" />
+            <p>{errorMsg}</p>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+          </div>
+        ) : corrections.length === 0 ? (
+          <div className="text-center py-8">
+            <ClipboardCheck size={32} className="mx-auto text-gray-300 mb-2" />
+            <p className="text-gray-400 text-sm">No corrections waiting for review.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {corrections.map((correction) => (
+              <div key={correction.id} className="bg-white rounded-2xl p-5 shadow-sm border border-gray-100 space-y-3">
+                <div>
+                  <p className="font-semibold text-gray-900">{getDriverName(correction.user_id)}</p>
+                  <p className="text-xs text-gray-400">
+                    Requested {format(new Date(correction.created_at), 'd MMM yyyy, h:mm a')}
+                  </p>
+                </div>
+
+                <div className="text-sm space-y-1">
+                  {correction.work_log && (
+                    <p className="text-gray-500">
+                      <span className="font-medium">Recorded:</span>{' '}
+                      {formatRange(correction.work_log.clock_in, correction.work_log.clock_out)}
+                    </p>
+                  )}
+                  <p className="text-gray-900">
+                    <span className="font-medium">Requested:</span>{' '}
+                    {formatRange(correction.requested_clock_in, correction.requested_clock_out)}
+                  </p>
+                  <p className="text-gray-600 italic">"{correction.reason}"</p>
+                </div>
+
+                <input
+                  type="text"
+                  value={reviewNotes[correction.id] || ''}
+                  onChange={(e) => setReviewNotes({ ...reviewNotes, [correction.id]: e.target.value })}
+                  disabled={actionLoading}
+                  className="w-full px-3 py-2 rounded-lg border border-gray-300 text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+                  placeholder="Notes for the driver (optional)"
+                />
+
+                <div className="flex gap-3">
+                  <button
+                    onClick={() => handleReview(correction, false)}
+                    disabled={actionLoading}
+                    className="flex-1 flex items-center justify-center gap-2 py-2 rounded-xl border border-red-200 text-red-600 hover:bg-red-50 font-semibold text-sm transition-colors disabled:opacity-50"
+                  >
+                    <X size={16} />
+                    Reject
+                  </button>
+                  <button
+                    onClick={() => handleReview(correction, true)}
+                    disabled={actionLoading}
+                    className="flex-1 flex items-center justify-center gap-2 py-2 rounded-xl bg-emerald-500 hover:bg-emerald-600 text-white font-semibold text-sm transition-colors disabled:opacity-50"
+                  >
+                    <Check size={16} />
+                    Approve
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default CorrectionReview;
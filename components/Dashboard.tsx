@@ -1,34 +1,87 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { format } from 'date-fns';
-import { LogOut, Clock, DollarSign, History, AlertCircle, MapPin, Calendar, Home, BarChart3 } from 'lucide-react';
+import { differenceInMinutes } from 'date-fns';
+import { LogOut, Clock, DollarSign, History, AlertCircle, MapPin, Calendar, CalendarDays, CalendarX, Home, BarChart3, Users, WifiOff, CloudUpload, Coffee, CalendarClock, Bell } from 'lucide-react';
 import { supabase } from '../supabaseClient';
 import {
   performClockIn,
   performClockOut,
   fetchActiveSession,
-  fetchMonthlySummary,
-  fetchRecentLogs,
   getDayType,
-  getFullLocationAddress,
-  OT_CONSTANTS,
+  getOpenBreak,
+  startBreak,
+  endBreak,
 } from '../services/timeService';
-import { WorkLog } from '../types';
+import { reverseGeocode, regeocodeUnknownPunches } from '../services/geocodingService';
+import { fetchMonthlySummary, fetchRecentLogs } from '../services/payrollService';
+import { fetchPayProfileForDate, DEFAULT_PAY_PROFILE } from '../services/payProfileService';
+import { getStateFromPostcode } from '../services/holidayService';
+import {
+  enqueuePunch,
+  getQueuedPunches,
+  dismissPunch,
+  resolveActiveSession,
+  storeServerSession,
+  getStoredServerSession,
+  syncPunchQueue,
+  isNetworkError,
+  isLocalSessionId,
+} from '../services/punchQueueService';
+import { fetchSessionLimits, DEFAULT_SESSION_LIMITS } from '../services/sessionLimitService';
+import { fetchSites, isOutsideAllSites } from '../services/siteService';
+import {
+  fetchHomeSite,
+  fetchOutstationSettings,
+  suggestOutstation,
+  DEFAULT_OUTSTATION_SETTINGS,
+} from '../services/outstationService';
+import { fetchRouteSettings, DEFAULT_ROUTE_SETTINGS } from '../services/routeService';
+import { fetchTodayShifts } from '../services/rosterService';
+import { getTranslator, formatDate, formatCurrency, TranslationKey } from '../services/i18nService';
+import { WorkLog, PayProfile, QueuedPunch, SessionLimits, Site, PunchType, OutstationSettings, RouteSettings, PlannedShift, Language } from '../types';
 import Timer from './Timer';
 import WorkLogDetail from './WorkLogDetail';
+import CorrectionRequestForm from './CorrectionRequestForm';
+import OffSiteReasonForm from './OffSiteReasonForm';
+import LanguageSelect from './LanguageSelect';
+
+// A punch held back until the driver explains why they are outside every site
+interface OffSitePunch {
+  type: PunchType;
+  location: { lat: number; lng: number };
+  timestamp: string;
+  reason?: string;
+}
 
 interface DashboardProps {
   session: any;
+  language: Language;
+  onLanguageChange: (language: Language) => void;
   onNavigateToMonthly?: () => void;
+  onNavigateToLeaves?: () => void;
+  onNavigateToHolidays?: () => void;
+  onNavigateToFleet?: () => void;
+  onNavigateToNotifications?: () => void;
 }
 
-const Dashboard: React.FC<DashboardProps> = ({ session, onNavigateToMonthly }) => {
+const Dashboard: React.FC<DashboardProps> = ({ session, language, onLanguageChange, onNavigateToMonthly, onNavigateToLeaves, onNavigateToHolidays, onNavigateToFleet, onNavigateToNotifications }) => {
   const [loading, setLoading] = useState(true);
   const [activeLog, setActiveLog] = useState<WorkLog | null>(null);
   const [monthlyTotal, setMonthlyTotal] = useState<number>(0);
   const [recentLogs, setRecentLogs] = useState<WorkLog[]>([]);
+  const [payProfile, setPayProfile] = useState<PayProfile>(DEFAULT_PAY_PROFILE);
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
   const [actionLoading, setActionLoading] = useState(false);
   const [selectedWorkLog, setSelectedWorkLog] = useState<WorkLog | null>(null);
+  const [showCorrectionForm, setShowCorrectionForm] = useState(false);
+  const [queuedPunches, setQueuedPunches] = useState<QueuedPunch[]>([]);
+  const [isOnline, setIsOnline] = useState<boolean>(navigator.onLine);
+  const [syncing, setSyncing] = useState(false);
+  const [sessionLimits, setSessionLimits] = useState<SessionLimits>(DEFAULT_SESSION_LIMITS);
+  const [sites, setSites] = useState<Site[]>([]);
+  const [offSitePunch, setOffSitePunch] = useState<OffSitePunch | null>(null);
+  const [homeSite, setHomeSite] = useState<Site | null>(null);
+  const [outstationSettings, setOutstationSettings] = useState<OutstationSettings>(DEFAULT_OUTSTATION_SETTINGS);
+  const [routeSettings, setRouteSettings] = useState<RouteSettings>(DEFAULT_ROUTE_SETTINGS);
   
   // Check-in state
   const [isPublicHoliday, setIsPublicHoliday] = useState<boolean>(false);
@@ -36,46 +89,131 @@ const Dashboard: React.FC<DashboardProps> = ({ session, onNavigateToMonthly }) =
   // Check-out state
   const [isOutstation, setIsOutstation] = useState<boolean>(false);
 
+  // Today's planned shifts from the roster
+  const [todayShifts, setTodayShifts] = useState<PlannedShift[]>([]);
+
   const userId = session.user.id;
   const userEmail = session.user.email;
+  const t = getTranslator(language);
 
   const refreshData = useCallback(async () => {
     try {
       setLoading(true);
-      const [active, total, recent] = await Promise.all([
+      const [active, total, recent, profile, limits, activeSites, home, outstationRule, route, shifts] = await Promise.all([
         fetchActiveSession(userId),
         fetchMonthlySummary(userId),
-        fetchRecentLogs(userId)
+        fetchRecentLogs(userId),
+        fetchPayProfileForDate(userId, new Date()),
+        fetchSessionLimits().catch(() => DEFAULT_SESSION_LIMITS),
+        fetchSites().catch(() => [] as Site[]),
+        fetchHomeSite(userId).catch(() => null),
+        fetchOutstationSettings().catch(() => DEFAULT_OUTSTATION_SETTINGS),
+        fetchRouteSettings().catch(() => DEFAULT_ROUTE_SETTINGS),
+        fetchTodayShifts(userId).catch(() => [] as PlannedShift[])
       ]);
 
       setActiveLog(active);
+      storeServerSession(userId, active);
       setMonthlyTotal(total);
       setRecentLogs(recent);
+      setPayProfile(profile);
+      setSessionLimits(limits);
+      setSites(activeSites);
+      setHomeSite(home);
+      setOutstationSettings(outstationRule);
+      setRouteSettings(route);
+      setTodayShifts(shifts);
     } catch (err: any) {
       console.error(err);
-      setErrorMsg("Failed to load data.");
+      if (isNetworkError(err)) {
+        // Queued punches are resolved on top of the last session seen online
+        setActiveLog(getStoredServerSession(userId));
+        setErrorMsg(t('dashboard.offlineError'));
+      } else {
+        setErrorMsg(t('dashboard.loadFailed'));
+      }
     } finally {
+      setQueuedPunches(getQueuedPunches(userId));
       setLoading(false);
     }
   }, [userId]);
 
+  // Replay punches recorded offline, then reload from the server
+  const syncQueue = useCallback(async () => {
+    if (!navigator.onLine || getQueuedPunches(userId).every((punch) => punch.status !== 'pending')) return;
+    try {
+      setSyncing(true);
+      await syncPunchQueue(userId);
+    } catch (err: any) {
+      console.error('Error syncing punches:', err);
+      setErrorMsg(err.message || t('dashboard.syncFailed'));
+    } finally {
+      setSyncing(false);
+      await refreshData();
+    }
+  }, [userId, refreshData]);
+
+  useEffect(() => {
+    refreshData().then(syncQueue);
+  }, [refreshData, syncQueue]);
+
+  // Fill in addresses of punches made while geocoding was unavailable
   useEffect(() => {
-    refreshData();
-  }, [refreshData]);
+    if (!isOnline) return;
+    regeocodeUnknownPunches(userId)
+      .then((updated) => {
+        if (updated > 0) refreshData();
+      })
+      .catch((err) => console.error('Error re-geocoding punches:', err));
+  }, [isOnline, userId, refreshData]);
 
-  // Auto-detect public holiday status when component mounts or activeLog changes
+  // Track connectivity and sync as soon as the device is back online
   useEffect(() => {
-    if (!activeLog) {
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncQueue();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [syncQueue]);
+
+  // The driver's current session, including punches that have not synced yet
+  const currentSession = resolveActiveSession(activeLog, queuedPunches);
+  const pendingPunches = queuedPunches.filter((punch) => punch.status === 'pending');
+  const openBreak = activeLog && currentSession?.id === activeLog.id ? getOpenBreak(activeLog) : null;
+  const conflictPunches = queuedPunches.filter((punch) => punch.status === 'conflict');
+
+  // Auto-detect public holiday status when component mounts or the current session changes
+  // The state is taken from the most recent clock-in until a new location is known
+  useEffect(() => {
+    if (!currentSession) {
       const today = new Date();
-      const detectedDayType = getDayType(today);
+      const detectedDayType = getDayType(today, undefined, getStateFromPostcode(recentLogs[0]?.clock_in_postcode));
       setIsPublicHoliday(detectedDayType === 'public_holiday');
     }
-  }, [activeLog]);
+  }, [currentSession?.id, recentLogs]);
+
+  // Outstation is detected from the distance to the home depot; preview it from the clock-in location
+  const outstationSuggestion = currentSession
+    ? suggestOutstation(currentSession, new Date(), homeSite, outstationSettings)
+    : null;
+
+  useEffect(() => {
+    if (outstationSuggestion) {
+      setIsOutstation(outstationSuggestion.isOutstation);
+    }
+  }, [currentSession?.id, outstationSuggestion?.isOutstation]);
 
   const getLocation = (): Promise<{ lat: number; lng: number }> => {
     return new Promise((resolve, reject) => {
       if (!navigator.geolocation) {
-        reject(new Error("Geolocation is not supported by your browser"));
+        reject(new Error(t('dashboard.geolocationUnsupported')));
       } else {
         navigator.geolocation.getCurrentPosition(
           (position) => {
@@ -85,69 +223,143 @@ const Dashboard: React.FC<DashboardProps> = ({ session, onNavigateToMonthly }) =
             });
           },
           (error) => {
-            reject(new Error("Unable to retrieve your location"));
+            reject(new Error(t('dashboard.locationUnavailable')));
           }
         );
       }
     });
   };
 
-  const getPostcode = async (lat: number, lng: number): Promise<string> => {
-    try {
-      const response = await fetch(`https://nominatim.openstreetmap.org/reverse?format=json&lat=${lat}&lon=${lng}`);
-      const data = await response.json();
-      return data.address?.postcode || "Unknown";
-    } catch (error) {
-      console.error("Error fetching postcode:", error);
-      return "Unknown";
-    }
+  // Save a punch locally when it cannot reach the server
+  const queuePunch = (punch: Omit<QueuedPunch, 'id' | 'status'>) => {
+    enqueuePunch(punch);
+    setQueuedPunches(getQueuedPunches(userId));
   };
 
-  const handleClockIn = async () => {
+  const handleClockIn = async (offSite?: OffSitePunch) => {
     try {
       setActionLoading(true);
       setErrorMsg(null);
 
-      // Get Location
-      const location = await getLocation();
-      const postcode = await getPostcode(location.lat, location.lng);
-      const fullAddress = await getFullLocationAddress(location.lat, location.lng);
+      // Get Location (GPS works without a data connection)
+      const location = offSite?.location ?? await getLocation();
+      const timestamp = offSite?.timestamp ?? new Date().toISOString();
+
+      // Ask for a reason before punching outside every known site
+      if (!offSite && isOutsideAllSites(sites, location.lat, location.lng)) {
+        setOffSitePunch({ type: 'clock_in', location, timestamp });
+        return;
+      }
 
-      await performClockIn(userId, { ...location, postcode }, fullAddress, isPublicHoliday);
+      const punch = {
+        user_id: userId,
+        type: 'clock_in' as const,
+        timestamp,
+        location,
+        is_public_holiday: isPublicHoliday,
+        outside_reason: offSite?.reason,
+      };
+
+      // Earlier offline punches must reach the server first, so queue behind them
+      if (!navigator.onLine || pendingPunches.length > 0) {
+        queuePunch(punch);
+      } else {
+        try {
+          const { address: fullAddress, postcode } = await reverseGeocode(location.lat, location.lng);
+          await performClockIn(userId, { ...location, postcode }, fullAddress, isPublicHoliday, new Date(punch.timestamp), punch.outside_reason);
+        } catch (err) {
+          if (!isNetworkError(err)) throw err;
+          queuePunch(punch);
+        }
+      }
       
       // Reset state after successful clock in
       setIsPublicHoliday(false);
       await refreshData();
     } catch (err: any) {
-      setErrorMsg(err.message || "Failed to clock in");
+      setErrorMsg(err.message || t('dashboard.clockInFailed'));
     } finally {
       setActionLoading(false);
     }
   };
 
-  const handleClockOut = async () => {
-    if (!activeLog) return;
+  const handleClockOut = async (offSite?: OffSitePunch) => {
+    if (!currentSession) return;
     try {
       setActionLoading(true);
       setErrorMsg(null);
 
-      // Get Location
-      const location = await getLocation();
-      const postcode = await getPostcode(location.lat, location.lng);
-      const fullAddress = await getFullLocationAddress(location.lat, location.lng);
+      // Get Location (GPS works without a data connection)
+      const location = offSite?.location ?? await getLocation();
+      const timestamp = offSite?.timestamp ?? new Date().toISOString();
+
+      // Ask for a reason before punching outside every known site
+      if (!offSite && isOutsideAllSites(sites, location.lat, location.lng)) {
+        setOffSitePunch({ type: 'clock_out', location, timestamp });
+        return;
+      }
+
+      const punch = {
+        user_id: userId,
+        type: 'clock_out' as const,
+        timestamp,
+        location,
+        work_log_id: currentSession.id,
+        is_outstation: isOutstation,
+        outside_reason: offSite?.reason,
+      };
 
-      await performClockOut(activeLog.id, activeLog.clock_in, { ...location, postcode }, isOutstation, fullAddress);
+      if (!navigator.onLine || pendingPunches.length > 0 || isLocalSessionId(currentSession.id)) {
+        queuePunch(punch);
+      } else {
+        try {
+          const { address: fullAddress, postcode } = await reverseGeocode(location.lat, location.lng);
+          await performClockOut(currentSession.id, { ...location, postcode }, isOutstation, fullAddress, new Date(punch.timestamp), punch.outside_reason);
+        } catch (err) {
+          if (!isNetworkError(err)) throw err;
+          queuePunch(punch);
+        }
+      }
       
       // Reset state after successful clock out
       setIsOutstation(false);
       await refreshData();
     } catch (err: any) {
-      setErrorMsg(err.message || "Failed to clock out");
+      setErrorMsg(err.message || t('dashboard.clockOutFailed'));
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleBreak = async () => {
+    if (!activeLog) return;
+    try {
+      setActionLoading(true);
+      setErrorMsg(null);
+      setActiveLog(getOpenBreak(activeLog) ? await endBreak(activeLog.id) : await startBreak(activeLog.id));
+    } catch (err: any) {
+      setErrorMsg(err.message || t('dashboard.breakFailed'));
     } finally {
       setActionLoading(false);
     }
   };
 
+  const handleOffSiteReason = (reason: string) => {
+    if (!offSitePunch) return;
+    const confirmed = { ...offSitePunch, reason };
+    setOffSitePunch(null);
+    if (confirmed.type === 'clock_in') {
+      handleClockIn(confirmed);
+    } else {
+      handleClockOut(confirmed);
+    }
+  };
+
+  const handleDismissConflict = (punchId: string) => {
+    dismissPunch(punchId);
+    setQueuedPunches(getQueuedPunches(userId));
+  };
+
   const handleLogout = async () => {
     await supabase.auth.signOut();
   };
@@ -160,24 +372,61 @@ const Dashboard: React.FC<DashboardProps> = ({ session, onNavigateToMonthly }) =
     );
   }
 
-  const currentDate = format(new Date(), 'EEEE, d MMM yyyy');
-  const weekdayWeekendRatePer30Min = (OT_CONSTANTS.BASE_HOURLY_RATE * OT_CONSTANTS.RATE_1_5X) / 2;
+  const currentDate = formatDate(new Date(), 'date.full', language);
+  const weekdayWeekendRatePer30Min =
+    (payProfile.base_hourly_rate * payProfile.rate_weekday_ot * payProfile.block_minutes) / 60;
 
   return (
     <div className="min-h-screen bg-gray-50 max-w-md mx-auto shadow-xl border-x border-gray-200 flex flex-col">
       {/* Header */}
       <header className="bg-white px-6 py-5 border-b border-gray-100 sticky top-0 z-10">
         <div className="flex justify-between items-center mb-2">
-          <h1 className="text-xl font-bold text-gray-900">Driver OT Tracker</h1>
+          <h1 className="text-xl font-bold text-gray-900">{t('dashboard.title')}</h1>
           <div className="flex items-center gap-2">
             {onNavigateToMonthly && (
               <button
                 onClick={onNavigateToMonthly}
                 className="text-indigo-600 hover:text-indigo-700 hover:bg-indigo-50 transition-colors p-2 rounded-lg flex items-center gap-2"
-                title="View Monthly Dashboard"
+                title={t('dashboard.viewMonthly')}
               >
                 <BarChart3 size={20} />
-                <span className="text-sm font-medium hidden sm:inline">Monthly Report</span>
+                <span className="text-sm font-medium hidden sm:inline">{t('dashboard.monthlyReport')}</span>
+              </button>
+            )}
+            {onNavigateToLeaves && (
+              <button
+                onClick={onNavigateToLeaves}
+                className="text-indigo-600 hover:text-indigo-700 hover:bg-indigo-50 transition-colors p-2 rounded-lg"
+                title={t('dashboard.leaveRecords')}
+              >
+                <CalendarX size={20} />
+              </button>
+            )}
+            {onNavigateToHolidays && (
+              <button
+                onClick={onNavigateToHolidays}
+                className="text-indigo-600 hover:text-indigo-700 hover:bg-indigo-50 transition-colors p-2 rounded-lg"
+                title={t('dashboard.publicHolidays')}
+              >
+                <CalendarDays size={20} />
+              </button>
+            )}
+            {onNavigateToNotifications && (
+              <button
+                onClick={onNavigateToNotifications}
+                className="text-indigo-600 hover:text-indigo-700 hover:bg-indigo-50 transition-colors p-2 rounded-lg"
+                title={t('dashboard.notifications')}
+              >
+                <Bell size={20} />
+              </button>
+            )}
+            {onNavigateToFleet && (
+              <button
+                onClick={onNavigateToFleet}
+                className="text-indigo-600 hover:text-indigo-700 hover:bg-indigo-50 transition-colors p-2 rounded-lg"
+                title={t('dashboard.fleetOverview')}
+              >
+                <Users size={20} />
               </button>
             )}
             <button onClick={handleLogout} className="text-gray-500 hover:text-red-600 transition-colors p-2">
@@ -185,8 +434,17 @@ const Dashboard: React.FC<DashboardProps> = ({ session, onNavigateToMonthly }) =
             </button>
           </div>
         </div>
-        <p className="text-gray-500 text-sm font-medium">{currentDate}</p>
-        <p className="text-xs text-gray-400 mt-1 truncate">Logged in as: {userEmail}</p>
+        <div className="flex justify-between items-center gap-2">
+          <p className="text-gray-500 text-sm font-medium">{currentDate}</p>
+          <LanguageSelect language={language} onChange={onLanguageChange} />
+        </div>
+        <p className="text-xs text-gray-400 mt-1 truncate">{t('dashboard.loggedInAs', { email: userEmail })}</p>
+        {!isOnline && (
+          <p className="text-xs text-amber-700 mt-2 flex items-center gap-1.5 font-medium">
+            <WifiOff size={14} />
+            {t('dashboard.offline')}
+          </p>
+        )}
       </header>
 
       <main className="flex-1 p-6 space-y-6 overflow-y-auto">
@@ -198,27 +456,109 @@ const Dashboard: React.FC<DashboardProps> = ({ session, onNavigateToMonthly }) =
           </div>
         )}
 
+        {/* Offline Punch Queue */}
+        {(pendingPunches.length > 0 || conflictPunches.length > 0) && (
+          <div className="bg-amber-50 rounded-2xl p-4 border border-amber-200 space-y-3">
+            {pendingPunches.length > 0 && (
+              <div className="flex items-center justify-between gap-3">
+                <p className="text-sm text-amber-900 flex items-center gap-2">
+                  <CloudUpload size={18} className="shrink-0" />
+                  {t(pendingPunches.length === 1 ? 'dashboard.punchWaiting' : 'dashboard.punchesWaiting', { count: pendingPunches.length })}
+                </p>
+                <button
+                  onClick={syncQueue}
+                  disabled={!isOnline || syncing}
+                  className="text-sm font-semibold text-amber-800 hover:text-amber-900 disabled:opacity-50"
+                >
+                  {syncing ? t('dashboard.syncing') : t('dashboard.syncNow')}
+                </button>
+              </div>
+            )}
+            {conflictPunches.map((punch) => (
+              <div key={punch.id} className="text-sm text-red-700 bg-white rounded-xl p-3 border border-red-200">
+                <p className="font-medium">
+                  {t(punch.type === 'clock_in' ? 'dashboard.clockInNotApplied' : 'dashboard.clockOutNotApplied', {
+                    time: formatDate(new Date(punch.timestamp), 'date.dayMonthTime', language),
+                  })}
+                </p>
+                <p className="text-xs mt-1">{punch.conflict_message}</p>
+                <button
+                  onClick={() => handleDismissConflict(punch.id)}
+                  className="text-xs font-semibold text-red-800 hover:underline mt-2"
+                >
+                  {t('dashboard.dismiss')}
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Today's Shift */}
+        {todayShifts.map((shift) => {
+          const siteName = sites.find((site) => site.id === shift.site_id)?.name;
+          return (
+            <div key={shift.id} className="bg-white rounded-2xl p-4 shadow-sm border border-gray-100 flex items-start gap-3">
+              <div className="p-2 rounded-full bg-indigo-50 text-indigo-600 shrink-0">
+                <CalendarClock size={18} />
+              </div>
+              <div className="min-w-0">
+                <p className="text-xs font-medium text-gray-500">{t('dashboard.todayShift')}</p>
+                <p className="font-semibold text-gray-900">
+                  {formatDate(new Date(shift.shift_start), 'date.time', language)} – {formatDate(new Date(shift.shift_end), 'date.time', language)}
+                </p>
+                {(shift.route || siteName) && (
+                  <p className="text-sm text-gray-600 truncate">{[shift.route, siteName].filter(Boolean).join(' · ')}</p>
+                )}
+                {shift.expected_outstation && (
+                  <span className="inline-flex items-center mt-1 px-2 py-0.5 rounded text-xs font-semibold bg-amber-100 text-amber-800 border border-amber-200">
+                    {t('dashboard.outstationExpected')}
+                  </span>
+                )}
+                {shift.notes && <p className="text-xs text-gray-500 italic mt-1">{shift.notes}</p>}
+              </div>
+            </div>
+          );
+        })}
+
         {/* Status Card */}
         <div className="bg-white rounded-2xl p-6 shadow-sm border border-gray-100 text-center">
           <div className="mb-6">
-            <div className={`inline-flex items-center justify-center p-3 rounded-full mb-4 ${activeLog ? 'bg-green-100 text-green-600' : 'bg-gray-100 text-gray-500'}`}>
+            <div className={`inline-flex items-center justify-center p-3 rounded-full mb-4 ${currentSession ? 'bg-green-100 text-green-600' : 'bg-gray-100 text-gray-500'}`}>
               <Clock size={32} />
             </div>
-            {activeLog ? (
+            {currentSession ? (
               <div>
-                <h2 className="text-gray-500 text-sm font-medium uppercase tracking-wide mb-1">Current Status</h2>
-                <Timer startTime={activeLog.clock_in} />
-                <p className="text-xs text-gray-400 mt-2">Started at {format(new Date(activeLog.clock_in), 'h:mm a')}</p>
+                <h2 className="text-gray-500 text-sm font-medium uppercase tracking-wide mb-1">{t('dashboard.currentStatus')}</h2>
+                <Timer
+                  startTime={currentSession.clock_in}
+                  routeLogging={routeSettings.enabled && !isLocalSessionId(currentSession.id)
+                    ? { workLogId: currentSession.id, userId, intervalSeconds: routeSettings.sample_interval_seconds }
+                    : undefined}
+                />
+                <p className="text-xs text-gray-400 mt-2">{t('dashboard.startedAt', { time: formatDate(new Date(currentSession.clock_in), 'date.time', language) })}</p>
+                {openBreak && (
+                  <p className="text-xs text-sky-700 bg-sky-50 border border-sky-200 rounded-lg px-3 py-2 mt-3 inline-flex items-center gap-1">
+                    <Coffee size={12} /> {t('dashboard.onBreakSince', { time: formatDate(new Date(openBreak.start), 'date.time', language) })}
+                  </p>
+                )}
+                {differenceInMinutes(new Date(), new Date(currentSession.clock_in)) > sessionLimits.max_session_hours * 60 && (
+                  <p className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-lg px-3 py-2 mt-3">
+                    {t('dashboard.longSessionWarning', {
+                      maxHours: sessionLimits.max_session_hours,
+                      capHours: sessionLimits.hard_cap_hours,
+                    })}
+                  </p>
+                )}
               </div>
             ) : (
               <div>
-                <h2 className="text-gray-500 text-sm font-medium uppercase tracking-wide mb-1">Status</h2>
-                <p className="font-mono text-xl font-bold text-gray-800">Not Working</p>
+                <h2 className="text-gray-500 text-sm font-medium uppercase tracking-wide mb-1">{t('dashboard.status')}</h2>
+                <p className="font-mono text-xl font-bold text-gray-800">{t('dashboard.notWorking')}</p>
               </div>
             )}
           </div>
 
-          {!activeLog ? (
+          {!currentSession ? (
             <>
               {/* Public Holiday Checkbox for Check-in */}
               <div className="mb-4 p-4 bg-gray-50 rounded-xl border border-gray-200">
@@ -248,68 +588,111 @@ const Dashboard: React.FC<DashboardProps> = ({ session, onNavigateToMonthly }) =
                   <div className="flex items-center gap-2 flex-1">
                     <Calendar size={18} className={isPublicHoliday ? 'text-indigo-600' : 'text-gray-500'} />
                     <span className={`text-sm font-medium ${isPublicHoliday ? 'text-indigo-900' : 'text-gray-700'}`}>
-                      Is Today a Public Holiday?
+                      {t('dashboard.isPublicHoliday')}
                     </span>
                   </div>
                 </label>
               </div>
 
               <button
-                onClick={handleClockIn}
+                onClick={() => handleClockIn()}
                 disabled={actionLoading}
                 className="w-full bg-emerald-500 hover:bg-emerald-600 text-white font-bold py-4 px-6 rounded-xl shadow-lg shadow-emerald-200 transition-all transform hover:scale-[1.02] active:scale-95 disabled:opacity-50 disabled:pointer-events-none"
               >
-                {actionLoading ? 'Processing...' : 'CLOCK IN'}
+                {actionLoading ? t('dashboard.processing') : t('dashboard.clockIn')}
               </button>
             </>
           ) : (
             <>
-              {/* Outstation Checkbox for Check-out */}
-              <div className="mb-4 p-4 bg-amber-50 rounded-xl border border-amber-200">
-                <label className="flex items-center gap-3 cursor-pointer group">
-                  <div className="relative">
-                    <input
-                      type="checkbox"
-                      checked={isOutstation}
-                      onChange={(e) => setIsOutstation(e.target.checked)}
-                      disabled={actionLoading}
-                      className="sr-only"
-                    />
-                    <div
-                      className={`w-11 h-6 rounded-full transition-colors duration-200 ease-in-out ${
-                        isOutstation
-                          ? 'bg-amber-600'
-                          : 'bg-gray-300'
-                      } ${actionLoading ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer group-hover:bg-opacity-80'}`}
-                    >
-                      <div
-                        className={`w-5 h-5 bg-white rounded-full shadow-md transform transition-transform duration-200 ease-in-out ${
-                          isOutstation ? 'translate-x-5' : 'translate-x-0.5'
-                        } mt-0.5`}
-                      />
-                    </div>
-                  </div>
-                  <div className="flex items-center gap-2 flex-1">
-                    <Home size={18} className={isOutstation ? 'text-amber-600' : 'text-gray-500'} />
-                    <span className={`text-sm font-medium ${isOutstation ? 'text-amber-900' : 'text-gray-700'}`}>
-                      Did you stay overnight (Outstation)?
+              {/* Outstation detected from GPS, or the driver's own answer without a home depot */}
+              {outstationSuggestion ? (
+                <div className="mb-4 p-4 bg-amber-50 rounded-xl border border-amber-200">
+                  <div className="flex items-center gap-2">
+                    <Home size={18} className={outstationSuggestion.isOutstation ? 'text-amber-600' : 'text-gray-500'} />
+                    <span className={`text-sm font-medium ${outstationSuggestion.isOutstation ? 'text-amber-900' : 'text-gray-700'}`}>
+                      {outstationSuggestion.isOutstation ? t('dashboard.outstationDetected') : t('dashboard.notOutstationYet')}
                     </span>
                   </div>
-                </label>
-                {isOutstation && (
-                  <p className="text-xs text-amber-700 mt-2 ml-14">
-                    RM 30 meal allowance will be added
+                  <p className="text-xs text-amber-700 mt-2">
+                    {t(outstationSuggestion.overnight ? 'dashboard.outstationDistanceOvernight' : 'dashboard.outstationDistance', {
+                      distance: outstationSuggestion.distanceKm,
+                      site: outstationSuggestion.homeSite.name,
+                    })}
                   </p>
-                )}
-              </div>
+                  {outstationSuggestion.isOutstation && (
+                    <p className="text-xs text-amber-700 mt-1">
+                      {t('dashboard.mealAllowanceAdded', { amount: formatCurrency(payProfile.meal_allowance, language) })}
+                    </p>
+                  )}
+                </div>
+              ) : (
+                <div className="mb-4 p-4 bg-amber-50 rounded-xl border border-amber-200">
+                  <label className="flex items-center gap-3 cursor-pointer group">
+                    <div className="relative">
+                      <input
+                        type="checkbox"
+                        checked={isOutstation}
+                        onChange={(e) => setIsOutstation(e.target.checked)}
+                        disabled={actionLoading}
+                        className="sr-only"
+                      />
+                      <div
+                        className={`w-11 h-6 rounded-full transition-colors duration-200 ease-in-out ${
+                          isOutstation
+                            ? 'bg-amber-600'
+                            : 'bg-gray-300'
+                        } ${actionLoading ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer group-hover:bg-opacity-80'}`}
+                      >
+                        <div
+                          className={`w-5 h-5 bg-white rounded-full shadow-md transform transition-transform duration-200 ease-in-out ${
+                            isOutstation ? 'translate-x-5' : 'translate-x-0.5'
+                          } mt-0.5`}
+                        />
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2 flex-1">
+                      <Home size={18} className={isOutstation ? 'text-amber-600' : 'text-gray-500'} />
+                      <span className={`text-sm font-medium ${isOutstation ? 'text-amber-900' : 'text-gray-700'}`}>
+                        {t('dashboard.stayedOvernight')}
+                      </span>
+                    </div>
+                  </label>
+                  {isOutstation && (
+                    <p className="text-xs text-amber-700 mt-2 ml-14">
+                      {t('dashboard.mealAllowanceAdded', { amount: formatCurrency(payProfile.meal_allowance, language) })}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {/* Breaks are recorded with server time, so only for synced sessions while online */}
+              {activeLog && currentSession.id === activeLog.id && (
+                <button
+                  onClick={handleBreak}
+                  disabled={actionLoading || !isOnline}
+                  className="w-full mb-3 flex items-center justify-center gap-2 py-3 px-6 rounded-xl border border-sky-200 text-sky-700 hover:bg-sky-50 font-semibold transition-colors disabled:opacity-50"
+                >
+                  <Coffee size={18} />
+                  {openBreak ? t('dashboard.endBreak') : t('dashboard.startBreak')}
+                </button>
+              )}
 
               <button
-                onClick={handleClockOut}
+                onClick={() => handleClockOut()}
                 disabled={actionLoading}
                 className="w-full bg-rose-500 hover:bg-rose-600 text-white font-bold py-4 px-6 rounded-xl shadow-lg shadow-rose-200 transition-all transform hover:scale-[1.02] active:scale-95 disabled:opacity-50 disabled:pointer-events-none"
               >
-                {actionLoading ? 'Calculating...' : 'CLOCK OUT'}
+                {actionLoading ? t('dashboard.calculating') : t('dashboard.clockOut')}
               </button>
+              {activeLog && currentSession.id === activeLog.id && (
+                <button
+                  onClick={() => setShowCorrectionForm(true)}
+                  disabled={actionLoading || !isOnline}
+                  className="mt-3 text-sm text-gray-500 hover:text-indigo-600 transition-colors disabled:opacity-50"
+                >
+                  {t('dashboard.forgotClockOut')}
+                </button>
+              )}
             </>
           )}
         </div>
@@ -319,10 +702,13 @@ const Dashboard: React.FC<DashboardProps> = ({ session, onNavigateToMonthly }) =
           <div className="absolute top-0 right-0 p-4 opacity-10">
             <DollarSign size={100} />
           </div>
-          <p className="text-indigo-200 text-sm font-medium mb-1">Current Month OT Earnings</p>
-          <h3 className="text-4xl font-bold">RM {monthlyTotal.toFixed(2)}</h3>
+          <p className="text-indigo-200 text-sm font-medium mb-1">{t('dashboard.monthEarnings')}</p>
+          <h3 className="text-4xl font-bold">{formatCurrency(monthlyTotal, language)}</h3>
           <p className="text-xs text-indigo-300 mt-2">
-            Rate: RM {weekdayWeekendRatePer30Min.toFixed(2)} / 30 mins block
+            {t('dashboard.rate', {
+              amount: formatCurrency(weekdayWeekendRatePer30Min, language),
+              minutes: payProfile.block_minutes,
+            })}
           </p>
         </div>
 
@@ -330,12 +716,12 @@ const Dashboard: React.FC<DashboardProps> = ({ session, onNavigateToMonthly }) =
         <div>
           <div className="flex items-center gap-2 mb-4 text-gray-800">
             <History size={18} />
-            <h3 className="font-semibold">Recent Activity</h3>
+            <h3 className="font-semibold">{t('dashboard.recentActivity')}</h3>
           </div>
 
           <div className="space-y-3">
             {recentLogs.length === 0 ? (
-              <p className="text-center text-gray-400 text-sm py-4">No recent records found.</p>
+              <p className="text-center text-gray-400 text-sm py-4">{t('dashboard.noRecentRecords')}</p>
             ) : (
               recentLogs.map((log) => {
                 const date = new Date(log.clock_in);
@@ -349,9 +735,12 @@ const Dashboard: React.FC<DashboardProps> = ({ session, onNavigateToMonthly }) =
                     className="bg-white p-4 rounded-xl border border-gray-100 shadow-sm flex justify-between items-center cursor-pointer hover:border-indigo-300 hover:shadow-md transition-all active:scale-[0.98]"
                   >
                     <div className="flex-1">
-                      <p className="font-medium text-gray-900">{format(date, 'MMM d, yyyy')}</p>
+                      <p className="font-medium text-gray-900">{formatDate(date, 'date.medium', language)}</p>
                       <p className="text-xs text-gray-500 mt-0.5">
-                        {hours}h {mins}m worked
+                        {t('dashboard.worked', { duration: t('duration.hoursMinutes', { hours, minutes: mins }) })}
+                        {log.review_status && (
+                          <span className="ml-2 text-amber-700 font-medium">{t(`reviewStatus.${log.review_status}` as TranslationKey)}</span>
+                        )}
                       </p>
                       {(log.check_in_location || log.clock_in_postcode) && (
                         <p className="text-xs text-gray-400 mt-0.5 flex items-center gap-1">
@@ -361,9 +750,9 @@ const Dashboard: React.FC<DashboardProps> = ({ session, onNavigateToMonthly }) =
                     </div>
                     <div className="text-right">
                       <span className={`block font-bold ${log.overtime_amount > 0 ? 'text-green-600' : 'text-gray-400'}`}>
-                        RM {Number(log.overtime_amount).toFixed(2)}
+                        {formatCurrency(Number(log.overtime_amount), language)}
                       </span>
-                      <span className="text-[10px] text-gray-400 uppercase tracking-wider font-medium">OT PAY</span>
+                      <span className="text-[10px] text-gray-400 uppercase tracking-wider font-medium">{t('dashboard.otPay')}</span>
                     </div>
                   </div>
                 );
@@ -373,11 +762,31 @@ const Dashboard: React.FC<DashboardProps> = ({ session, onNavigateToMonthly }) =
         </div>
       </main>
 
+      {/* Correction Request for a forgotten clock-out */}
+      {showCorrectionForm && activeLog && (
+        <CorrectionRequestForm
+          workLog={activeLog}
+          onClose={() => setShowCorrectionForm(false)}
+          onSubmitted={refreshData}
+        />
+      )}
+
+      {/* Reason for punching outside every site */}
+      {offSitePunch && (
+        <OffSiteReasonForm
+          punchType={offSitePunch.type}
+          onCancel={() => setOffSitePunch(null)}
+          onSubmit={handleOffSiteReason}
+        />
+      )}
+
       {/* Work Log Detail Modal */}
       {selectedWorkLog && (
         <WorkLogDetail
           workLog={selectedWorkLog}
           onClose={() => setSelectedWorkLog(null)}
+          canRequestCorrection
+          language={language}
         />
       )}
     </div>
@@ -0,0 +1,679 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { format, differenceInMinutes } from 'date-fns';
+import { ArrowLeft, Users, AlertCircle, RefreshCw, ChevronRight, CalendarX, Shield, ClipboardCheck, Car, MapPinned, MapPinOff, Home, Route, Landmark, CalendarCheck, CalendarClock, Calculator, Timer as TimerIcon } from 'lucide-react';
+import { UserProfile, UserRole, FleetDriverStatus, WorkLog, SessionLimits, OutstationSettings, RouteSettings, StatutorySettings, WageComponent } from '../types';
+import {
+  ROLE_LABELS,
+  getDisplayName,
+  fetchFleetOverview,
+  fetchProfiles,
+  updateUserRole,
+} from '../services/profileService';
+import {
+  REVIEW_STATUS_LABELS,
+  DEFAULT_SESSION_LIMITS,
+  fetchSessionLimits,
+  saveSessionLimits,
+  fetchFlaggedSessions,
+} from '../services/sessionLimitService';
+import { fetchOffSitePunches } from '../services/siteService';
+import {
+  DEFAULT_OUTSTATION_SETTINGS,
+  fetchOutstationSettings,
+  saveOutstationSettings,
+} from '../services/outstationService';
+import {
+  DEFAULT_ROUTE_SETTINGS,
+  fetchRouteSettings,
+  saveRouteSettings,
+  purgeExpiredRoutePoints,
+} from '../services/routeService';
+import {
+  DEFAULT_STATUTORY_SETTINGS,
+  WAGE_COMPONENT_LABELS,
+  fetchStatutorySettings,
+  saveStatutorySettings,
+} from '../services/statutoryService';
+import { regeocodeUnknownPunches } from '../services/geocodingService';
+
+interface FleetOverviewProps {
+  currentProfile: UserProfile;
+  onBack: () => void;
+  onViewDriver: (profile: UserProfile) => void;
+  onManageLeaves: (profile: UserProfile) => void;
+  onReviewCorrections: () => void;
+  onReviewClaims: () => void;
+  onReviewTimesheets: () => void;
+  onManageSites: () => void;
+  onManageRoster: () => void;
+  onRecalculate: () => void; // Admins only
+}
+
+const ROLE_OPTIONS = Object.keys(ROLE_LABELS) as UserRole[];
+
+const WAGE_COMPONENTS = Object.keys(WAGE_COMPONENT_LABELS) as WageComponent[];
+
+// Columns of the statutory wages form
+const CONTRIBUTION_FIELDS: { key: keyof Omit<StatutorySettings, 'updated_at'>; label: string }[] = [
+  { key: 'epf_wage_components', label: 'EPF' },
+  { key: 'socso_wage_components', label: 'SOCSO' },
+  { key: 'eis_wage_components', label: 'EIS' },
+  { key: 'pcb_wage_components', label: 'PCB' },
+];
+
+const FleetOverview: React.FC<FleetOverviewProps> = ({ currentProfile, onBack, onViewDriver, onManageLeaves, onReviewCorrections, onReviewClaims, onReviewTimesheets, onManageSites, onManageRoster, onRecalculate }) => {
+  const [loading, setLoading] = useState(true);
+  const [drivers, setDrivers] = useState<FleetDriverStatus[]>([]);
+  const [profiles, setProfiles] = useState<UserProfile[]>([]);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [actionLoading, setActionLoading] = useState(false);
+  const [flaggedSessions, setFlaggedSessions] = useState<WorkLog[]>([]);
+  const [offSitePunches, setOffSitePunches] = useState<WorkLog[]>([]);
+  const [sessionLimits, setSessionLimits] = useState<SessionLimits>(DEFAULT_SESSION_LIMITS);
+  const [limitsForm, setLimitsForm] = useState<SessionLimits>(DEFAULT_SESSION_LIMITS);
+  const [outstationForm, setOutstationForm] = useState<OutstationSettings>(DEFAULT_OUTSTATION_SETTINGS);
+  const [routeForm, setRouteForm] = useState<RouteSettings>(DEFAULT_ROUTE_SETTINGS);
+  const [statutoryForm, setStatutoryForm] = useState<StatutorySettings>(DEFAULT_STATUTORY_SETTINGS);
+
+  const isAdmin = currentProfile.role === 'admin';
+
+  const refreshFleet = useCallback(async () => {
+    try {
+      setLoading(true);
+      setErrorMsg(null);
+      // Route points past the retention period are deleted before anyone looks at them
+      purgeExpiredRoutePoints();
+      // Punches that could not be geocoded at the time get their address now
+      regeocodeUnknownPunches().catch((err) => console.error('Error re-geocoding punches:', err));
+
+      const [fleet, allProfiles, flagged, limits, offSite, outstationRule, route, statutory] = await Promise.all([
+        fetchFleetOverview(),
+        isAdmin ? fetchProfiles() : Promise.resolve([]),
+        fetchFlaggedSessions(),
+        fetchSessionLimits(),
+        fetchOffSitePunches(),
+        isAdmin ? fetchOutstationSettings() : Promise.resolve(DEFAULT_OUTSTATION_SETTINGS),
+        isAdmin ? fetchRouteSettings() : Promise.resolve(DEFAULT_ROUTE_SETTINGS),
+        isAdmin ? fetchStatutorySettings() : Promise.resolve(DEFAULT_STATUTORY_SETTINGS),
+      ]);
+      setDrivers(fleet);
+      setProfiles(allProfiles);
+      setFlaggedSessions(flagged);
+      setOffSitePunches(offSite);
+      setSessionLimits(limits);
+      setLimitsForm(limits);
+      setOutstationForm(outstationRule);
+      setRouteForm(route);
+      setStatutoryForm(statutory);
+    } catch (err: any) {
+      console.error('Error fetching fleet overview:', err);
+      setErrorMsg(err.message || 'Failed to load drivers.');
+      setDrivers([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [isAdmin]);
+
+  useEffect(() => {
+    refreshFleet();
+  }, [refreshFleet]);
+
+  const handleRoleChange = async (profile: UserProfile, role: UserRole) => {
+    if (profile.id === currentProfile.id) {
+      setErrorMsg('You cannot change your own role.');
+      return;
+    }
+    try {
+      setActionLoading(true);
+      setErrorMsg(null);
+      await updateUserRole(profile.id, role);
+      await refreshFleet();
+    } catch (err: any) {
+      setErrorMsg(err.message || 'Failed to update role');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleSaveLimits = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setActionLoading(true);
+      setErrorMsg(null);
+      const saved = await saveSessionLimits(limitsForm);
+      setSessionLimits(saved);
+      setLimitsForm(saved);
+    } catch (err: any) {
+      setErrorMsg(err.message || 'Failed to save session limits');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleSaveOutstation = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setActionLoading(true);
+      setErrorMsg(null);
+      setOutstationForm(await saveOutstationSettings(outstationForm));
+    } catch (err: any) {
+      setErrorMsg(err.message || 'Failed to save outstation rule');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleSaveRoute = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setActionLoading(true);
+      setErrorMsg(null);
+      setRouteForm(await saveRouteSettings(routeForm));
+    } catch (err: any) {
+      setErrorMsg(err.message || 'Failed to save route logging settings');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleSaveStatutory = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setActionLoading(true);
+      setErrorMsg(null);
+      setStatutoryForm(await saveStatutorySettings(statutoryForm));
+    } catch (err: any) {
+      setErrorMsg(err.message || 'Failed to save statutory wages');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const toggleWageComponent = (field: keyof Omit<StatutorySettings, 'updated_at'>, component: WageComponent) => {
+    const components = statutoryForm[field];
+    setStatutoryForm({
+      ...statutoryForm,
+      [field]: components.includes(component)
+        ? components.filter((c) => c !== component)
+        : [...components, component],
+    });
+  };
+
+  const getDriverName = (userId: string): string => {
+    const driver = drivers.find(({ profile }) => profile.id === userId);
+    return driver ? getDisplayName(driver.profile) : 'Unknown driver';
+  };
+
+  // Whether an open session has run past the flag threshold
+  const isOverMaxSession = (session: WorkLog): boolean =>
+    differenceInMinutes(new Date(), new Date(session.clock_in)) > sessionLimits.max_session_hours * 60;
+
+  const clockedInCount = drivers.filter((driver) => driver.activeSession).length;
+  const totalOT = drivers.reduce((sum, driver) => sum + driver.monthToDateOT, 0);
+
+  return (
+    <div className="min-h-screen bg-gray-50 max-w-md mx-auto shadow-xl border-x border-gray-200 flex flex-col">
+      {/* Header */}
+      <header className="bg-white px-6 py-5 border-b border-gray-100 sticky top-0 z-10">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <button
+              onClick={onBack}
+              className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              <ArrowLeft size={24} className="text-gray-600" />
+            </button>
+            <h1 className="text-xl font-bold text-gray-900">Fleet Overview</h1>
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={onManageSites}
+              className="p-2 text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
+              title="Sites"
+            >
+              <MapPinned size={20} />
+            </button>
+            <button
+              onClick={onManageRoster}
+              className="p-2 text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
+              title="Roster"
+            >
+              <CalendarClock size={20} />
+            </button>
+            <button
+              onClick={onReviewCorrections}
+              className="p-2 text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
+              title="Correction Requests"
+            >
+              <ClipboardCheck size={20} />
+            </button>
+            <button
+              onClick={onReviewClaims}
+              className="p-2 text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
+              title="Claims"
+            >
+              <Car size={20} />
+            </button>
+            <button
+              onClick={onReviewTimesheets}
+              className="p-2 text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
+              title="Timesheets"
+            >
+              <CalendarCheck size={20} />
+            </button>
+            {isAdmin && (
+              <button
+                onClick={onRecalculate}
+                className="p-2 text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
+                title="Recalculate OT"
+              >
+                <Calculator size={20} />
+              </button>
+            )}
+            <button
+              onClick={refreshFleet}
+              disabled={loading}
+              className="p-2 text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors disabled:opacity-50"
+              title="Refresh"
+            >
+              <RefreshCw size={20} />
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <main className="flex-1 p-6 space-y-6 overflow-y-auto">
+        {errorMsg && (
+          <div className="bg-red-50 text-red-700 p-4 rounded-xl flex items-start gap-3 text-sm">
+            <AlertCircle size={18} className="mt-0.5 shrink-0" />
+            <p>{errorMsg}</p>
+          </div>
+        )}
+
+        {/* Fleet Totals */}
+        <div className="grid grid-cols-2 gap-4">
+          <div className="bg-white rounded-2xl p-4 shadow-sm border border-gray-100">
+            <p className="text-xs text-gray-500 font-medium uppercase tracking-wide">Clocked In</p>
+            <p className="text-2xl font-bold text-gray-900 mt-1">
+              {clockedInCount}<span className="text-sm text-gray-400 font-medium"> / {drivers.length}</span>
+            </p>
+          </div>
+          <div className="bg-white rounded-2xl p-4 shadow-sm border border-gray-100">
+            <p className="text-xs text-gray-500 font-medium uppercase tracking-wide">OT This Month</p>
+            <p className="text-2xl font-bold text-indigo-600 mt-1">RM {totalOT.toFixed(2)}</p>
+          </div>
+        </div>
+
+        {/* Driver List */}
+        <div>
+          <h2 className="font-semibold text-gray-900 flex items-center gap-2 mb-3">
+            <Users size={18} />
+            Drivers
+          </h2>
+
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {drivers.length === 0 ? (
+                <p className="text-center text-gray-400 text-sm py-4">No drivers found.</p>
+              ) : (
+                drivers.map(({ profile, activeSession, monthToDateOT }) => (
+                  <div
+                    key={profile.id}
+                    className="bg-white p-4 rounded-xl border border-gray-100 shadow-sm flex items-center gap-3"
+                  >
+                    <button
+                      onClick={() => onViewDriver(profile)}
+                      className="flex-1 min-w-0 text-left"
+                    >
+                      <p className="font-medium text-gray-900 truncate">{getDisplayName(profile)}</p>
+                      {activeSession ? (
+                        <p className={`text-xs font-medium mt-0.5 flex items-center gap-1.5 ${isOverMaxSession(activeSession) ? 'text-amber-600' : 'text-green-600'}`}>
+                          <span className={`h-2 w-2 rounded-full inline-block ${isOverMaxSession(activeSession) ? 'bg-amber-500' : 'bg-green-500'}`}></span>
+                          Clocked in since {format(new Date(activeSession.clock_in), 'h:mm a')}
+                        </p>
+                      ) : (
+                        <p className="text-xs text-gray-400 mt-0.5">Off duty</p>
+                      )}
+                      <p className="text-xs text-gray-500 mt-0.5">
+                        OT month-to-date: <span className="font-semibold text-gray-900">RM {monthToDateOT.toFixed(2)}</span>
+                      </p>
+                    </button>
+                    <button
+                      onClick={() => onManageLeaves(profile)}
+                      className="p-2 text-gray-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
+                      title="Leave Records"
+                    >
+                      <CalendarX size={16} />
+                    </button>
+                    <button
+                      onClick={() => onViewDriver(profile)}
+                      className="p-2 text-gray-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
+                      title="Monthly Dashboard"
+                    >
+                      <ChevronRight size={16} />
+                    </button>
+                  </div>
+                ))
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Long Sessions */}
+        {!loading && flaggedSessions.length > 0 && (
+          <div>
+            <h2 className="font-semibold text-gray-900 flex items-center gap-2 mb-3">
+              <TimerIcon size={18} />
+              Long Sessions This Month
+            </h2>
+            <div className="space-y-3">
+              {flaggedSessions.map((session) => (
+                <div key={session.id} className="bg-white p-4 rounded-xl border border-amber-200 shadow-sm">
+                  <div className="flex items-center justify-between">
+                    <p className="font-medium text-gray-900 truncate">{getDriverName(session.user_id)}</p>
+                    {session.review_status && (
+                      <span className="px-2.5 py-0.5 rounded-full text-xs font-semibold bg-amber-100 text-amber-800 border border-amber-200">
+                        {REVIEW_STATUS_LABELS[session.review_status]}
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-0.5">
+                    {format(new Date(session.clock_in), 'd MMM, h:mm a')} · {Math.floor(session.duration_minutes / 60)}h {session.duration_minutes % 60}m
+                    {session.auto_closed_at && ' · auto-closed'}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Off-Site Punches */}
+        {!loading && offSitePunches.length > 0 && (
+          <div>
+            <h2 className="font-semibold text-gray-900 flex items-center gap-2 mb-3">
+              <MapPinOff size={18} />
+              Off-Site Punches This Month
+            </h2>
+            <div className="space-y-3">
+              {offSitePunches.map((log) => (
+                <div key={log.id} className="bg-white p-4 rounded-xl border border-amber-200 shadow-sm">
+                  <p className="font-medium text-gray-900 truncate">{getDriverName(log.user_id)}</p>
+                  {log.clock_in_outside_geofence && (
+                    <p className="text-xs text-gray-500 mt-0.5">
+                      In {format(new Date(log.clock_in), 'd MMM, h:mm a')}
+                      {' · '}{log.clock_in_outside_reason || 'No reason given'}
+                    </p>
+                  )}
+                  {log.clock_out_outside_geofence && log.clock_out && (
+                    <p className="text-xs text-gray-500 mt-0.5">
+                      Out {format(new Date(log.clock_out), 'd MMM, h:mm a')}
+                      {' · '}{log.clock_out_outside_reason || 'No reason given'}
+                    </p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Session Limits (admins only) */}
+        {isAdmin && !loading && (
+          <form onSubmit={handleSaveLimits} className="bg-white rounded-2xl p-6 shadow-sm border border-gray-100 space-y-4">
+            <h2 className="font-semibold text-gray-900 flex items-center gap-2">
+              <TimerIcon size={18} />
+              Session Limits
+            </h2>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Flag after (hours)</label>
+                <input
+                  type="number"
+                  min="1"
+                  step="0.5"
+                  value={limitsForm.max_session_hours}
+                  onChange={(e) => setLimitsForm({ ...limitsForm, max_session_hours: Number(e.target.value) })}
+                  required
+                  disabled={actionLoading}
+                  className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Auto-close at (hours)</label>
+                <input
+                  type="number"
+                  min="1"
+                  step="0.5"
+                  value={limitsForm.hard_cap_hours}
+                  onChange={(e) => setLimitsForm({ ...limitsForm, hard_cap_hours: Number(e.target.value) })}
+                  required
+                  disabled={actionLoading}
+                  className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">
+              Auto-closed sessions earn no OT until the driver's correction is approved.
+            </p>
+            <button
+              type="submit"
+              disabled={actionLoading}
+              className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-3 px-6 rounded-xl transition-colors disabled:opacity-50"
+            >
+              {actionLoading ? 'Saving...' : 'Save Limits'}
+            </button>
+          </form>
+        )}
+
+        {/* Outstation Rule (admins only) */}
+        {isAdmin && !loading && (
+          <form onSubmit={handleSaveOutstation} className="bg-white rounded-2xl p-6 shadow-sm border border-gray-100 space-y-4">
+            <h2 className="font-semibold text-gray-900 flex items-center gap-2">
+              <Home size={18} />
+              Outstation Rule
+            </h2>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Minimum distance from home depot (km)</label>
+              <input
+                type="number"
+                min="1"
+                step="1"
+                value={outstationForm.min_distance_km}
+                onChange={(e) => setOutstationForm({ ...outstationForm, min_distance_km: Number(e.target.value) })}
+                required
+                disabled={actionLoading}
+                className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Overnight from</label>
+                <input
+                  type="time"
+                  value={outstationForm.overnight_start}
+                  onChange={(e) => setOutstationForm({ ...outstationForm, overnight_start: e.target.value })}
+                  required
+                  disabled={actionLoading}
+                  className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Overnight until</label>
+                <input
+                  type="time"
+                  value={outstationForm.overnight_end}
+                  onChange={(e) => setOutstationForm({ ...outstationForm, overnight_end: e.target.value })}
+                  required
+                  disabled={actionLoading}
+                  className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">
+              A session is outstation when a punch is this far from the driver's home depot and the session runs
+              through the overnight window. Supervisors can override it from the driver's monthly dashboard.
+            </p>
+            <button
+              type="submit"
+              disabled={actionLoading}
+              className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-3 px-6 rounded-xl transition-colors disabled:opacity-50"
+            >
+              {actionLoading ? 'Saving...' : 'Save Outstation Rule'}
+            </button>
+          </form>
+        )}
+
+        {/* Route Logging (admins only) */}
+        {isAdmin && !loading && (
+          <form onSubmit={handleSaveRoute} className="bg-white rounded-2xl p-6 shadow-sm border border-gray-100 space-y-4">
+            <h2 className="font-semibold text-gray-900 flex items-center gap-2">
+              <Route size={18} />
+              Route Logging
+            </h2>
+            <label className="flex items-center gap-3 text-sm font-medium text-gray-700">
+              <input
+                type="checkbox"
+                checked={routeForm.enabled}
+                onChange={(e) => setRouteForm({ ...routeForm, enabled: e.target.checked })}
+                disabled={actionLoading}
+                className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              Record drivers' routes while they are clocked in
+            </label>
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Every (minutes)</label>
+                <input
+                  type="number"
+                  min="0.5"
+                  max="60"
+                  step="0.5"
+                  value={routeForm.sample_interval_seconds / 60}
+                  onChange={(e) => setRouteForm({ ...routeForm, sample_interval_seconds: Number(e.target.value) * 60 })}
+                  required
+                  disabled={actionLoading}
+                  className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Keep for (days)</label>
+                <input
+                  type="number"
+                  min="1"
+                  step="1"
+                  value={routeForm.retention_days}
+                  onChange={(e) => setRouteForm({ ...routeForm, retention_days: Number(e.target.value) })}
+                  required
+                  disabled={actionLoading}
+                  className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-gray-500">
+              Locations are only sampled while the app is open during a session. Older route points are deleted.
+            </p>
+            <button
+              type="submit"
+              disabled={actionLoading}
+              className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-3 px-6 rounded-xl transition-colors disabled:opacity-50"
+            >
+              {actionLoading ? 'Saving...' : 'Save Route Logging'}
+            </button>
+          </form>
+        )}
+
+        {/* Statutory Wages (admins only) */}
+        {isAdmin && !loading && (
+          <form onSubmit={handleSaveStatutory} className="bg-white rounded-2xl p-6 shadow-sm border border-gray-100 space-y-4">
+            <h2 className="font-semibold text-gray-900 flex items-center gap-2">
+              <Landmark size={18} />
+              Statutory Wages
+            </h2>
+            <table className="w-full text-sm">
+              <thead>
+                <tr>
+                  <th className="text-left font-medium text-gray-500 pb-2">Counts as wages</th>
+                  {CONTRIBUTION_FIELDS.map(({ key, label }) => (
+                    <th key={key} className="text-center font-medium text-gray-500 pb-2">{label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {WAGE_COMPONENTS.map((component) => (
+                  <tr key={component}>
+                    <td className="py-2 text-gray-700">{WAGE_COMPONENT_LABELS[component]}</td>
+                    {CONTRIBUTION_FIELDS.map(({ key }) => (
+                      <td key={key} className="py-2 text-center">
+                        <input
+                          type="checkbox"
+                          checked={statutoryForm[key].includes(component)}
+                          onChange={() => toggleWageComponent(key, component)}
+                          disabled={actionLoading}
+                          className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-xs text-gray-500">
+              Drivers' net pay on the Monthly Dashboard is estimated from these wages. Contribution rates follow the
+              EPF, SOCSO and EIS schedules and the PCB formula.
+            </p>
+            <button
+              type="submit"
+              disabled={actionLoading}
+              className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-3 px-6 rounded-xl transition-colors disabled:opacity-50"
+            >
+              {actionLoading ? 'Saving...' : 'Save Statutory Wages'}
+            </button>
+          </form>
+        )}
+
+        {/* Role Management (admins only) */}
+        {isAdmin && !loading && (
+          <div className="bg-white rounded-2xl p-6 shadow-sm border border-gray-100 space-y-4">
+            <h2 className="font-semibold text-gray-900 flex items-center gap-2">
+              <Shield size={18} />
+              Team Roles
+            </h2>
+            <p className="text-xs text-gray-500">
+              New sign-ups join as drivers. Supervisors can view every driver and record leave; admins also manage
+              roles, pay profiles and public holidays.
+            </p>
+            <div className="divide-y divide-gray-100">
+              {profiles.map((profile) => (
+                <div key={profile.id} className="py-3 flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">{getDisplayName(profile)}</p>
+                    {profile.full_name && profile.email && (
+                      <p className="text-xs text-gray-500 truncate">{profile.email}</p>
+                    )}
+                  </div>
+                  <select
+                    value={profile.role}
+                    onChange={(e) => handleRoleChange(profile, e.target.value as UserRole)}
+                    disabled={actionLoading || profile.id === currentProfile.id}
+                    className="px-3 py-2 border border-gray-300 rounded-lg bg-white text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent disabled:opacity-50"
+                  >
+                    {ROLE_OPTIONS.map((role) => (
+                      <option key={role} value={role}>
+                        {ROLE_LABELS[role]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default FleetOverview;
@@ -0,0 +1,29 @@
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { Language } from '../types';
+import { LANGUAGES, LANGUAGE_LABELS, translate } from '../services/i18nService';
+
+interface LanguageSelectProps {
+  language: Language;
+  onChange: (language: Language) => void;
+}
+
+const LanguageSelect: React.FC<LanguageSelectProps> = ({ language, onChange }) => (
+  <label className="flex items-center gap-1 text-gray-500" title={translate(language, 'common.language')}>
+    <Languages size={18} className="shrink-0" />
+    <select
+      value={language}
+      onChange={(e) => onChange(e.target.value as Language)}
+      className="bg-transparent text-sm font-medium text-gray-600 focus:outline-none cursor-pointer"
+      aria-label={translate(language, 'common.language')}
+    >
+      {LANGUAGES.map((option) => (
+        <option key={option} value={option}>
+          {LANGUAGE_LABELS[option]}
+        </option>
+      ))}
+    </select>
+  </label>
+);
+
+export default LanguageSelect;
@@ -0,0 +1,329 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { format, getMonth, getYear } from 'date-fns';
+import { ArrowLeft, Calendar, CalendarX, AlertCircle, Pencil, Trash2, Plus, Save, X } from 'lucide-react';
+import { LeaveRecord, LeaveType } from '../types';
+import {
+  fetchMonthlyLeaves,
+  createLeave,
+  updateLeave,
+  deleteLeave,
+  canDriverDeleteLeave,
+  LEAVE_TYPE_LABELS,
+  SELF_REPORTABLE_LEAVE_TYPES,
+} from '../services/leaveService';
+
+interface LeaveManagerProps {
+  session: any;
+  onBack: () => void;
+  driverId?: string; // Driver whose leaves are managed (defaults to the logged-in user)
+  driverName?: string;
+}
+
+const LEAVE_TYPES: LeaveType[] = ['medical', 'annual', 'emergency', 'late'];
+
+// Get badge styling for leave type
+const getLeaveTypeBadgeStyle = (leaveType: LeaveType): string => {
+  switch (leaveType) {
+    case 'medical':
+      return 'bg-blue-100 text-blue-800 border border-blue-200';
+    case 'annual':
+      return 'bg-green-100 text-green-800 border border-green-200';
+    case 'emergency':
+      return 'bg-red-100 text-red-800 border border-red-200';
+    case 'late':
+      return 'bg-amber-100 text-amber-800 border border-amber-200';
+  }
+};
+
+const LeaveManager: React.FC<LeaveManagerProps> = ({ session, onBack, driverId, driverName }) => {
+  const [loading, setLoading] = useState(true);
+  const [selectedYear, setSelectedYear] = useState<number>(getYear(new Date()));
+  const [selectedMonth, setSelectedMonth] = useState<number>(getMonth(new Date()) + 1); // 1-based
+  const [leaves, setLeaves] = useState<LeaveRecord[]>([]);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [actionLoading, setActionLoading] = useState(false);
+
+  // Form state (editingId is null when adding a new record)
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [leaveDate, setLeaveDate] = useState<string>(format(new Date(), 'yyyy-MM-dd'));
+  const [leaveType, setLeaveType] = useState<LeaveType>('medical');
+  const [notes, setNotes] = useState<string>('');
+
+  const recordedBy = session.user.id;
+  const userId = driverId || session.user.id;
+  // Drivers report their own leave; only supervisors record late days or edit records
+  const isOwnRecords = userId === session.user.id;
+  const leaveTypes = isOwnRecords ? SELF_REPORTABLE_LEAVE_TYPES : LEAVE_TYPES;
+
+  // Generate month options (last 12 months)
+  const getMonthOptions = () => {
+    const options = [];
+    const currentDate = new Date();
+    for (let i = 0; i < 12; i++) {
+      const date = new Date(currentDate.getFullYear(), currentDate.getMonth() - i, 1);
+      options.push({
+        value: `${date.getFullYear()}-${date.getMonth() + 1}`,
+        label: format(date, 'MMMM yyyy'),
+      });
+    }
+    return options;
+  };
+
+  const refreshLeaves = useCallback(async () => {
+    try {
+      setLoading(true);
+      setErrorMsg(null);
+      const data = await fetchMonthlyLeaves(userId, selectedYear, selectedMonth);
+      setLeaves(data);
+    } catch (err: any) {
+      console.error('Error fetching leaves:', err);
+      setErrorMsg(err.message || 'Failed to load leave records.');
+      setLeaves([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, selectedYear, selectedMonth]);
+
+  useEffect(() => {
+    refreshLeaves();
+  }, [refreshLeaves]);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setLeaveDate(format(new Date(), 'yyyy-MM-dd'));
+    setLeaveType('medical');
+    setNotes('');
+  };
+
+  const handleEdit = (leave: LeaveRecord) => {
+    setEditingId(leave.id);
+    setLeaveDate(leave.leave_date);
+    setLeaveType(leave.leave_type);
+    setNotes(leave.notes || '');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setActionLoading(true);
+      setErrorMsg(null);
+
+      const input = { leave_date: leaveDate, leave_type: leaveType, notes: notes.trim() || null };
+      if (editingId) {
+        await updateLeave(editingId, input);
+      } else {
+        await createLeave(userId, input, recordedBy);
+      }
+
+      resetForm();
+      await refreshLeaves();
+    } catch (err: any) {
+      setErrorMsg(err.message || 'Failed to save leave record');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleDelete = async (leave: LeaveRecord) => {
+    if (!window.confirm(`Delete ${LEAVE_TYPE_LABELS[leave.leave_type]} on ${format(new Date(leave.leave_date), 'MMM d, yyyy')}?`)) {
+      return;
+    }
+    try {
+      setActionLoading(true);
+      setErrorMsg(null);
+      await deleteLeave(leave.id);
+      if (editingId === leave.id) resetForm();
+      await refreshLeaves();
+    } catch (err: any) {
+      setErrorMsg(err.message || 'Failed to delete leave record');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  // Handle month selection change
+  const handleMonthChange = (value: string) => {
+    const [year, month] = value.split('-').map(Number);
+    setSelectedYear(year);
+    setSelectedMonth(month);
+  };
+
+  const monthOptions = getMonthOptions();
+  const currentMonthValue = `${selectedYear}-${selectedMonth}`;
+
+  return (
+    <div className="min-h-screen bg-gray-50 max-w-md mx-auto shadow-xl border-x border-gray-200 flex flex-col">
+      {/* Header */}
+      <header className="bg-white px-6 py-5 border-b border-gray-100 sticky top-0 z-10">
+        <div className="flex items-center gap-4 mb-4">
+          <button
+            onClick={onBack}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <ArrowLeft size={24} className="text-gray-600" />
+          </button>
+          <div>
+            <h1 className="text-xl font-bold text-gray-900">Leave Records</h1>
+            {driverName && <p className="text-sm text-gray-500">{driverName}</p>}
+          </div>
+        </div>
+
+        {/* Month Selector */}
+        <div className="flex items-center gap-3">
+          <Calendar size={20} className="text-gray-500" />
+          <select
+            value={currentMonthValue}
+            onChange={(e) => handleMonthChange(e.target.value)}
+            className="px-4 py-2 border border-gray-300 rounded-lg bg-white text-gray-900 font-medium focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+          >
+            {monthOptions.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+      </header>
+
+      <main className="flex-1 p-6 space-y-6 overflow-y-auto">
+        {errorMsg && (
+          <div className="bg-red-50 text-red-700 p-4 rounded-xl flex items-start gap-3 text-sm">
+            <AlertCircle size={18} className="mt-0.5 shrink-0" />
+            <p>{errorMsg}</p>
+          </div>
+        )}
+
+        {/* Leave Form */}
+        <form onSubmit={handleSubmit} className="bg-white rounded-2xl p-6 shadow-sm border border-gray-100 space-y-4">
+          <h2 className="font-semibold text-gray-900 flex items-center gap-2">
+            <CalendarX size={18} />
+            {editingId ? 'Edit Leave Day' : 'Record Leave Day'}
+          </h2>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Date</label>
+            <input
+              type="date"
+              value={leaveDate}
+              onChange={(e) => setLeaveDate(e.target.value)}
+              required
+              disabled={actionLoading}
+              className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+            <select
+              value={leaveType}
+              onChange={(e) => setLeaveType(e.target.value as LeaveType)}
+              disabled={actionLoading}
+              className="w-full px-4 py-3 rounded-lg border border-gray-300 bg-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+            >
+              {leaveTypes.map((type) => (
+                <option key={type} value={type}>
+                  {LEAVE_TYPE_LABELS[type]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Notes (optional)</label>
+            <input
+              type="text"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              disabled={actionLoading}
+              className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+              placeholder="e.g. MC from clinic"
+            />
+          </div>
+
+          <div className="flex gap-3">
+            <button
+              type="submit"
+              disabled={actionLoading}
+              className="flex-1 bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-3 px-6 rounded-xl transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+            >
+              {editingId ? <Save size={18} /> : <Plus size={18} />}
+              {actionLoading ? 'Saving...' : editingId ? 'Save Changes' : 'Add Leave'}
+            </button>
+            {editingId && (
+              <button
+                type="button"
+                onClick={resetForm}
+                disabled={actionLoading}
+                className="p-3 rounded-xl border border-gray-300 text-gray-600 hover:bg-gray-100 transition-colors"
+              >
+                <X size={18} />
+              </button>
+            )}
+          </div>
+        </form>
+
+        {/* Leave List */}
+        <div>
+          <p className="text-sm text-gray-500 mb-3">
+            {leaves.length} record{leaves.length !== 1 ? 's' : ''} for {format(new Date(selectedYear, selectedMonth - 1, 1), 'MMMM yyyy')}
+          </p>
+
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {leaves.length === 0 ? (
+                <p className="text-center text-gray-400 text-sm py-4">No leave recorded this month.</p>
+              ) : (
+                leaves.map((leave) => (
+                  <div
+                    key={leave.id}
+                    className={`bg-white p-4 rounded-xl border shadow-sm flex justify-between items-center ${
+                      editingId === leave.id ? 'border-indigo-300' : 'border-gray-100'
+                    }`}
+                  >
+                    <div className="flex-1">
+                      <p className="font-medium text-gray-900">{format(new Date(leave.leave_date), 'EEE, MMM d, yyyy')}</p>
+                      <span className={`inline-flex items-center mt-1 px-2.5 py-0.5 rounded-full text-xs font-semibold ${getLeaveTypeBadgeStyle(leave.leave_type)}`}>
+                        {LEAVE_TYPE_LABELS[leave.leave_type]}
+                      </span>
+                      {leave.notes && (
+                        <p className="text-xs text-gray-500 mt-1">{leave.notes}</p>
+                      )}
+                    </div>
+                    <div className="flex items-center gap-1">
+                      {!isOwnRecords && (
+                        <button
+                          onClick={() => handleEdit(leave)}
+                          disabled={actionLoading}
+                          className="p-2 text-gray-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
+                          title="Edit"
+                        >
+                          <Pencil size={16} />
+                        </button>
+                      )}
+                      {(!isOwnRecords || canDriverDeleteLeave(leave, userId)) && (
+                        <button
+                          onClick={() => handleDelete(leave)}
+                          disabled={actionLoading}
+                          className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                          title="Delete"
+                        >
+                          <Trash2 size={16} />
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default LeaveManager;
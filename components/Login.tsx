@@ -1,13 +1,23 @@
 import React, { useState } from 'react';
 import { supabase } from '../supabaseClient';
 import { Truck } from 'lucide-react';
+import { Language } from '../types';
+import { getTranslator } from '../services/i18nService';
+import LanguageSelect from './LanguageSelect';
 
-const Login: React.FC = () => {
+interface LoginProps {
+  language: Language;
+  onLanguageChange: (language: Language) => void;
+}
+
+const Login: React.FC<LoginProps> = ({ language, onLanguageChange }) => {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  const t = getTranslator(language);
+
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
@@ -27,14 +37,17 @@ const Login: React.FC = () => {
   return (
     <div className="min-h-screen bg-gray-50 flex flex-col items-center justify-center p-6">
       <div className="w-full max-w-sm bg-white rounded-2xl shadow-xl p-8 border border-gray-100">
+        <div className="flex justify-end -mt-4 -mr-4 mb-2">
+          <LanguageSelect language={language} onChange={onLanguageChange} />
+        </div>
         <div className="flex justify-center mb-6">
           <div className="bg-blue-600 p-3 rounded-xl text-white shadow-blue-200 shadow-lg">
              <Truck size={32} />
           </div>
         </div>
         
-        <h2 className="text-2xl font-bold text-center text-gray-900 mb-2">Welcome Back</h2>
-        <p className="text-center text-gray-500 mb-8 text-sm">Sign in to track your hours and OT.</p>
+        <h2 className="text-2xl font-bold text-center text-gray-900 mb-2">{t('login.title')}</h2>
+        <p className="text-center text-gray-500 mb-8 text-sm">{t('login.subtitle')}</p>
 
         {error && (
           <div className="mb-4 p-3 bg-red-50 text-red-600 text-sm rounded-lg">
@@ -44,7 +57,7 @@ const Login: React.FC = () => {
 
         <form onSubmit={handleLogin} className="space-y-4">
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('login.email')}</label>
             <input
               type="email"
               value={email}
@@ -56,7 +69,7 @@ const Login: React.FC = () => {
           </div>
 
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">Password</label>
+            <label className="block text-sm font-medium text-gray-700 mb-1">{t('login.password')}</label>
             <input
               type="password"
               value={password}
@@ -72,7 +85,7 @@ const Login: React.FC = () => {
             disabled={loading}
             className="w-full bg-blue-600 hover:bg-blue-700 text-white font-bold py-3.5 rounded-lg transition-colors shadow-lg shadow-blue-200 mt-2 disabled:opacity-70"
           >
-            {loading ? 'Signing in...' : 'Sign In'}
+            {loading ? t('login.signingIn') : t('login.signIn')}
           </button>
         </form>
       </div>
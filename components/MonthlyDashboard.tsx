@@ -1,41 +1,53 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { format, startOfMonth, endOfMonth, getMonth, getYear } from 'date-fns';
-import { ArrowLeft, Calendar, DollarSign, FileText, MapPin, AlertCircle } from 'lucide-react';
-import { WorkLog, MonthlySummary, MonthlyLogRecord, DayType } from '../types';
-import { fetchMonthlyLogs, calculateOvertime, getDayType } from '../services/timeService';
+import { addMonths, getMonth, getYear } from 'date-fns';
+import { ArrowLeft, Calendar, DollarSign, FileText, MapPin, AlertCircle, Receipt, Car, FileSpreadsheet, FileDown, Upload, TrendingUp, Wallet, Send, Lock, Clock } from 'lucide-react';
+import { MonthlySummary, MonthlyLogRecord, DayType, PayProfile, Payslip, Timesheet, ShiftComparison, Language } from '../types';
+import { fetchMonthlyPayroll } from '../services/payrollService';
+import { DEFAULT_PAY_PROFILE } from '../services/payProfileService';
+import { NO_STATUTORY_DEDUCTIONS } from '../services/statutoryService';
+import { buildPayslip } from '../services/payslipService';
+import { exportWorkLogsCsv, exportWorkLogsXlsx } from '../services/workLogSpreadsheetService';
+import { isHeldForReview } from '../services/sessionLimitService';
+import { setOutstationOverride } from '../services/outstationService';
+import { fetchTimesheet, submitTimesheet, isClosed } from '../services/timesheetService';
+import { fetchPlannedShifts, compareLogsToRoster } from '../services/rosterService';
+import { createLeave } from '../services/leaveService';
+import { getTranslator, formatDate, formatCurrency, TranslationKey, Translate } from '../services/i18nService';
+import PayslipView from './PayslipView';
+import WorkLogImport from './WorkLogImport';
 
 interface MonthlyDashboardProps {
   session: any;
+  language: Language;
   onBack: () => void;
+  driverId?: string; // Driver whose month is shown (defaults to the logged-in user)
+  driverName?: string;
+  onViewAnalytics?: () => void; // Open the year-to-date view for the same driver
 }
 
-const BASIC_SALARY = 3000;
-const FOOD_ALLOWANCE = 0;
-const FULL_ATTENDANCE_REWARD = 300;
-const MEAL_ALLOWANCE = 30; // Per outstation (for outstation overnight)
-
 /**
  * Format decimal hours to "Xh Ym" format
  * @param decimalHours Decimal hours (e.g., 9.52)
- * @returns Formatted string (e.g., "9h 31m")
+ * @param t Translator for the user's language
+ * @returns Formatted string (e.g., "9h 31m" in English)
  */
-const formatDuration = (decimalHours: number): string => {
+const formatDuration = (decimalHours: number, t: Translate): string => {
   const hours = Math.floor(decimalHours);
   const minutes = Math.round((decimalHours - hours) * 60);
   
   if (hours === 0 && minutes === 0) {
-    return '0h';
+    return t('duration.hours', { hours: 0 });
   }
   
   if (hours === 0) {
-    return `${minutes}m`;
+    return t('duration.minutes', { minutes });
   }
   
   if (minutes === 0) {
-    return `${hours}h`;
+    return t('duration.hours', { hours });
   }
   
-  return `${hours}h ${minutes}m`;
+  return t('duration.hoursMinutes', { hours, minutes });
 };
 
 /**
@@ -51,34 +63,33 @@ const truncateText = (text: string, maxLength: number = 40): string => {
   return text.substring(0, maxLength - 3) + '...';
 };
 
-/**
- * Fetch leave records for a month
- * TODO: Implement leave tracking system
- * For now, this returns an empty array - to be connected to leave records table
- */
-const fetchMonthlyLeaves = async (userId: string, year: number, month: number): Promise<any[]> => {
-  // TODO: Implement leave fetching from database
-  // This should query a 'leaves' or 'absences' table
-  // Expected structure: { date: string, leave_type: 'medical' | 'annual' | 'emergency' | 'late' }
-  return [];
-};
-
-const MonthlyDashboard: React.FC<MonthlyDashboardProps> = ({ session, onBack }) => {
+const MonthlyDashboard: React.FC<MonthlyDashboardProps> = ({ session, language, onBack, driverId, driverName, onViewAnalytics }) => {
   const [loading, setLoading] = useState(true);
   const [selectedYear, setSelectedYear] = useState<number>(getYear(new Date()));
   const [selectedMonth, setSelectedMonth] = useState<number>(getMonth(new Date()) + 1); // 1-based
   const [monthlyLogs, setMonthlyLogs] = useState<MonthlyLogRecord[]>([]);
+  const [payProfile, setPayProfile] = useState<PayProfile>(DEFAULT_PAY_PROFILE);
   const [summary, setSummary] = useState<MonthlySummary>({
-    basicSalary: BASIC_SALARY,
+    basicSalary: DEFAULT_PAY_PROFILE.basic_salary,
     totalOTPay: 0,
-    foodAllowance: FOOD_ALLOWANCE,
+    foodAllowance: DEFAULT_PAY_PROFILE.food_allowance,
     fullAttendanceReward: 0,
     outstationMealAllowances: 0,
+    approvedClaims: 0,
     grandTotal: 0,
+    deductions: NO_STATUTORY_DEDUCTIONS,
+    netPay: 0,
   });
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [payslip, setPayslip] = useState<Payslip | null>(null);
+  const [showImport, setShowImport] = useState(false);
+  const [timesheet, setTimesheet] = useState<Timesheet | null>(null);
+  const [shiftComparisons, setShiftComparisons] = useState<Map<string, ShiftComparison>>(new Map());
+  const [actionLoading, setActionLoading] = useState(false);
 
-  const userId = session.user.id;
+  const userId = driverId || session.user.id;
+  const isOwnRecords = userId === session.user.id;
+  const t = getTranslator(language);
 
   // Generate month options (last 12 months)
   const getMonthOptions = () => {
@@ -88,7 +99,7 @@ const MonthlyDashboard: React.FC<MonthlyDashboardProps> = ({ session, onBack })
       const date = new Date(currentDate.getFullYear(), currentDate.getMonth() - i, 1);
       options.push({
         value: `${date.getFullYear()}-${date.getMonth() + 1}`,
-        label: format(date, 'MMMM yyyy'),
+        label: formatDate(date, 'date.monthYear', language),
         year: date.getFullYear(),
         month: date.getMonth() + 1,
       });
@@ -97,18 +108,8 @@ const MonthlyDashboard: React.FC<MonthlyDashboardProps> = ({ session, onBack })
   };
 
   // Format day type for display
-  const formatDayType = (dayType?: DayType): string => {
-    switch (dayType) {
-      case 'weekday':
-        return 'Weekday';
-      case 'weekend':
-        return 'Weekend';
-      case 'public_holiday':
-        return 'Public Holiday';
-      default:
-        return 'N/A';
-    }
-  };
+  const formatDayType = (dayType?: DayType): string =>
+    dayType ? t(`dayType.${dayType}` as TranslationKey) : t('common.notAvailable');
 
   // Get badge styling for day type
   const getDayTypeBadgeStyle = (dayType?: DayType, isPublicHoliday?: boolean): string => {
@@ -121,154 +122,43 @@ const MonthlyDashboard: React.FC<MonthlyDashboardProps> = ({ session, onBack })
     return 'bg-gray-100 text-gray-800 border border-gray-200';
   };
 
-  // Calculate monthly totals
-  const calculateMonthlyTotals = useCallback(async (logs: WorkLog[], year: number, month: number): Promise<MonthlySummary> => {
-    let totalOTPay = 0;
-    let outstationMealAllowances = 0;
-    
-    // Process each log
-    logs.forEach((log) => {
-      if (log.clock_out) {
-        const clockIn = new Date(log.clock_in);
-        const clockOut = new Date(log.clock_out);
-        
-        // Recalculate breakdown for accurate totals
-        const breakdown = calculateOvertime(
-          clockIn,
-          clockOut,
-          log.is_outstation || false,
-          log.is_public_holiday || false
-        );
-        
-        totalOTPay += breakdown.totalOTAmount;
-        
-        // Add meal allowance if outstation
-        if (log.is_outstation) {
-          outstationMealAllowances += MEAL_ALLOWANCE;
-        }
-      }
-    });
-
-    // Calculate Attendance Allowance
-    // Base RM300 with deductions:
-    // - Annual/Medical/Late: RM100 per day (up to RM300)
-    // - Emergency leave: RM300 per day (full deduction)
-    let fullAttendanceReward = FULL_ATTENDANCE_REWARD;
-    
-    // Fetch leave records for this month
-    const leaves = await fetchMonthlyLeaves(userId, year, month);
-    
-    const annualMedicalLateDays = leaves.filter((leave) => {
-      const leaveType = leave.leave_type?.toLowerCase();
-      return (
-        leaveType === 'medical' ||
-        leaveType === 'medical_leave' ||
-        leaveType === 'annual' ||
-        leaveType === 'annual_leave' ||
-        leaveType === 'late'
-      );
-    }).length;
-
-    const emergencyDays = leaves.filter((leave) => {
-      const leaveType = leave.leave_type?.toLowerCase();
-      return leaveType === 'emergency' || leaveType === 'emergency_leave';
-    }).length;
-
-    const attendanceDeduction = Math.min(300, annualMedicalLateDays * 100 + emergencyDays * 300);
-    fullAttendanceReward = Math.max(0, FULL_ATTENDANCE_REWARD - attendanceDeduction);
-
-    const grandTotal = BASIC_SALARY +
-                       totalOTPay +
-                       FOOD_ALLOWANCE + 
-                       fullAttendanceReward + 
-                       outstationMealAllowances;
-
-    return {
-      basicSalary: BASIC_SALARY,
-      totalOTPay,
-      foodAllowance: FOOD_ALLOWANCE,
-      fullAttendanceReward,
-      outstationMealAllowances,
-      grandTotal,
-    };
-  }, [userId]);
-
-  // Transform work logs to monthly log records
-  const transformLogsToRecords = useCallback((logs: WorkLog[]): MonthlyLogRecord[] => {
-    return logs.map((log) => {
-      const clockIn = new Date(log.clock_in);
-      const clockOut = log.clock_out ? new Date(log.clock_out) : null;
-      
-      let otAmount = 0;
-      let allowanceAmount = 0;
-      
-      if (clockOut) {
-        const breakdown = calculateOvertime(
-          clockIn,
-          clockOut,
-          log.is_outstation || false,
-          log.is_public_holiday || false
-        );
-        otAmount = breakdown.totalOTAmount;
-        allowanceAmount = breakdown.mealAllowance;
-      }
-
-      const totalHours = log.duration_minutes / 60;
-
-      // If day_type is missing or null, recalculate based on the clock_in date
-      // This handles old data that was created before day_type was added
-      let dayType: DayType = log.day_type;
-      if (!dayType) {
-        // Recalculate day_type based on clock_in date and is_public_holiday flag
-        dayType = getDayType(clockIn, log.is_public_holiday || false);
-      }
-
-      return {
-        date: format(clockIn, 'yyyy-MM-dd'),
-        dayType: dayType,
-        checkInLocation: log.check_in_location || log.clock_in_postcode || 'N/A',
-        checkOutLocation: log.check_out_location || log.clock_out_postcode || 'N/A',
-        totalHours,
-        otAmount,
-        allowanceAmount,
-        isPublicHoliday: log.is_public_holiday || false,
-        isOutstation: log.is_outstation || false,
-        workLog: log,
-      };
-    });
-  }, []);
-
   // Fetch monthly data
   const fetchMonthlyData = useCallback(async () => {
     try {
       setLoading(true);
       setErrorMsg(null);
 
-      const logs = await fetchMonthlyLogs(userId, selectedYear, selectedMonth);
-      
-      // Transform and set logs
-      const records = transformLogsToRecords(logs);
-      setMonthlyLogs(records);
-      
-      // Calculate and set summary
-      const totals = await calculateMonthlyTotals(logs, selectedYear, selectedMonth);
-      setSummary(totals);
+      const monthStart = new Date(selectedYear, selectedMonth - 1, 1);
+      const [payroll, monthTimesheet, shifts] = await Promise.all([
+        fetchMonthlyPayroll(userId, selectedYear, selectedMonth),
+        fetchTimesheet(userId, selectedYear, selectedMonth),
+        fetchPlannedShifts(monthStart, addMonths(monthStart, 1), userId),
+      ]);
+      setTimesheet(monthTimesheet);
+      setPayProfile(payroll.monthProfile);
+      setMonthlyLogs(payroll.records);
+      setSummary(payroll.summary);
+      setShiftComparisons(compareLogsToRoster(payroll.records.map((record) => record.workLog), shifts));
     } catch (err: any) {
       console.error('Error fetching monthly data:', err);
-      setErrorMsg(err.message || 'Failed to load monthly data.');
+      setErrorMsg(err.message || t('monthly.loadFailed'));
       setMonthlyLogs([]);
+      setShiftComparisons(new Map());
       setSummary({
-        basicSalary: BASIC_SALARY,
+        basicSalary: DEFAULT_PAY_PROFILE.basic_salary,
         totalOTPay: 0,
-        foodAllowance: FOOD_ALLOWANCE,
+        foodAllowance: DEFAULT_PAY_PROFILE.food_allowance,
         fullAttendanceReward: 0,
         outstationMealAllowances: 0,
-        grandTotal: BASIC_SALARY + FOOD_ALLOWANCE,
+        approvedClaims: 0,
+        grandTotal: DEFAULT_PAY_PROFILE.basic_salary + DEFAULT_PAY_PROFILE.food_allowance,
+        deductions: NO_STATUTORY_DEDUCTIONS,
+        netPay: DEFAULT_PAY_PROFILE.basic_salary + DEFAULT_PAY_PROFILE.food_allowance,
       });
     } finally {
       setLoading(false);
     }
-  }, [userId, selectedYear, selectedMonth, transformLogsToRecords, calculateMonthlyTotals]);
+  }, [userId, selectedYear, selectedMonth]);
 
   useEffect(() => {
     fetchMonthlyData();
@@ -281,8 +171,77 @@ const MonthlyDashboard: React.FC<MonthlyDashboardProps> = ({ session, onBack })
     setSelectedMonth(month);
   };
 
+  const handleSubmitTimesheet = async () => {
+    if (!window.confirm(t('monthly.submitConfirm', { month: formatDate(new Date(selectedYear, selectedMonth - 1, 1), 'date.monthYear', language) }))) return;
+    try {
+      setActionLoading(true);
+      setErrorMsg(null);
+      setTimesheet(await submitTimesheet(selectedYear, selectedMonth));
+    } catch (err: any) {
+      console.error('Error submitting timesheet:', err);
+      setErrorMsg(err.message || t('monthly.submitFailed'));
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleGeneratePayslip = () => {
+    const employeeName = driverName || session.user.user_metadata?.full_name || session.user.email;
+    setPayslip(buildPayslip(summary, monthlyLogs, employeeName, selectedYear, selectedMonth));
+  };
+
+  const handleExportXlsx = async () => {
+    try {
+      await exportWorkLogsXlsx(monthlyLogs, summary, selectedYear, selectedMonth);
+    } catch (err: any) {
+      console.error('Error exporting XLSX:', err);
+      setErrorMsg(err.message || t('monthly.exportFailed'));
+    }
+  };
+
+  // Supervisors can override the outstation rule for a driver's session
+  const handleOutstationOverride = async (record: MonthlyLogRecord, value: string) => {
+    if (!record.workLog.id) return;
+    try {
+      setErrorMsg(null);
+      await setOutstationOverride(record.workLog.id, value === '' ? null : value === 'yes');
+      await fetchMonthlyData();
+    } catch (err: any) {
+      console.error('Error overriding outstation:', err);
+      setErrorMsg(err.message || t('monthly.outstationFailed'));
+    }
+  };
+
+  // Supervisors can record a late arrival against the roster, which counts
+  // towards the attendance allowance like any other late record
+  const handleRecordLate = async (record: MonthlyLogRecord, comparison: ShiftComparison) => {
+    if (!window.confirm(t('monthly.recordLateConfirm', {
+      date: formatDate(new Date(record.date), 'date.dayMonth', language),
+      minutes: comparison.lateMinutes,
+    }))) return;
+    try {
+      setActionLoading(true);
+      setErrorMsg(null);
+      await createLeave(userId, {
+        leave_date: record.date,
+        leave_type: 'late',
+        notes: `Late ${comparison.lateMinutes} min for planned shift`,
+      }, session.user.id);
+      await fetchMonthlyData();
+    } catch (err: any) {
+      console.error('Error recording late:', err);
+      setErrorMsg(err.message || t('monthly.recordLateFailed'));
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
   const monthOptions = getMonthOptions();
   const currentMonthValue = `${selectedYear}-${selectedMonth}`;
+  const monthClosed = isClosed(timesheet);
+  // Months can be submitted once they have ended, and again after a rejection
+  const monthEnded = addMonths(new Date(selectedYear, selectedMonth - 1, 1), 1) <= new Date();
+  const canSubmit = isOwnRecords && monthEnded && (!timesheet || timesheet.status === 'rejected');
 
   if (loading) {
     return (
@@ -304,12 +263,63 @@ const MonthlyDashboard: React.FC<MonthlyDashboardProps> = ({ session, onBack })
             >
               <ArrowLeft size={24} className="text-gray-600" />
             </button>
-            <h1 className="text-2xl font-bold text-gray-900">Monthly Dashboard</h1>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">{t('monthly.title')}</h1>
+              {driverName && <p className="text-sm text-gray-500">{driverName}</p>}
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            {onViewAnalytics && (
+              <button
+                onClick={onViewAnalytics}
+                className="flex items-center gap-2 px-3 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-100 text-sm font-medium transition-colors"
+                title={t('monthly.yearToDate')}
+              >
+                <TrendingUp size={18} />
+                <span className="hidden md:inline">{t('monthly.yearToDate')}</span>
+              </button>
+            )}
+            <button
+              onClick={() => exportWorkLogsCsv(monthlyLogs, selectedYear, selectedMonth)}
+              disabled={monthlyLogs.length === 0}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-100 text-sm font-medium transition-colors disabled:opacity-50"
+              title={t('monthly.exportCsv')}
+            >
+              <FileDown size={18} />
+              <span className="hidden md:inline">CSV</span>
+            </button>
+            <button
+              onClick={handleExportXlsx}
+              disabled={monthlyLogs.length === 0}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-100 text-sm font-medium transition-colors disabled:opacity-50"
+              title={t('monthly.exportExcel')}
+            >
+              <FileSpreadsheet size={18} />
+              <span className="hidden md:inline">Excel</span>
+            </button>
+            {!isOwnRecords && !monthClosed && (
+              <button
+                onClick={() => setShowImport(true)}
+                className="flex items-center gap-2 px-3 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-100 text-sm font-medium transition-colors"
+                title={t('monthly.importTitle')}
+              >
+                <Upload size={18} />
+                <span className="hidden md:inline">{t('monthly.import')}</span>
+              </button>
+            )}
+            <button
+              onClick={handleGeneratePayslip}
+              disabled={!!errorMsg}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white text-sm font-medium transition-colors disabled:opacity-50"
+            >
+              <Receipt size={18} />
+              <span className="hidden sm:inline">{t('monthly.generatePayslip')}</span>
+            </button>
           </div>
         </div>
 
         {/* Month Selector */}
-        <div className="flex items-center gap-3">
+        <div className="flex flex-wrap items-center gap-3">
           <Calendar size={20} className="text-gray-500" />
           <select
             value={currentMonthValue}
@@ -322,7 +332,41 @@ const MonthlyDashboard: React.FC<MonthlyDashboardProps> = ({ session, onBack })
               </option>
             ))}
           </select>
+          {timesheet && (
+            <span
+              className={`inline-flex items-center gap-1 px-2.5 py-1 rounded-full text-xs font-semibold border ${
+                timesheet.status === 'approved'
+                  ? 'bg-emerald-100 text-emerald-800 border-emerald-200'
+                  : timesheet.status === 'rejected'
+                    ? 'bg-red-100 text-red-800 border-red-200'
+                    : 'bg-amber-100 text-amber-800 border-amber-200'
+              }`}
+            >
+              {monthClosed && <Lock size={12} />}
+              {t(`timesheetStatus.${timesheet.status}` as TranslationKey)}
+            </span>
+          )}
+          {canSubmit && (
+            <button
+              onClick={handleSubmitTimesheet}
+              disabled={actionLoading || !!errorMsg}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg bg-emerald-500 hover:bg-emerald-600 text-white text-sm font-medium transition-colors disabled:opacity-50"
+            >
+              <Send size={16} />
+              {timesheet ? t('monthly.resubmit') : t('monthly.submit')}
+            </button>
+          )}
         </div>
+        {monthClosed && (
+          <p className="text-xs text-gray-500 mt-2">
+            {t('monthly.approvedFinal', {
+              date: timesheet!.reviewed_at ? formatDate(new Date(timesheet!.reviewed_at), 'date.dayMonthYear', language) : '',
+            })}
+          </p>
+        )}
+        {timesheet?.status === 'rejected' && timesheet.review_notes && (
+          <p className="text-xs text-red-600 mt-2">{t('monthly.returned', { notes: timesheet.review_notes })}</p>
+        )}
       </header>
 
       <main className="p-6 space-y-6">
@@ -334,14 +378,14 @@ const MonthlyDashboard: React.FC<MonthlyDashboardProps> = ({ session, onBack })
         )}
 
         {/* Summary Cards */}
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-5 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-6 gap-4">
           {/* Basic Salary */}
           <div className="bg-gradient-to-br from-blue-500 to-blue-600 rounded-xl p-5 text-white shadow-lg">
             <div className="flex items-center justify-between mb-2">
               <DollarSign size={24} className="opacity-80" />
             </div>
-            <p className="text-blue-100 text-sm font-medium mb-1">Basic Salary</p>
-            <h3 className="text-2xl font-bold">RM {summary.basicSalary.toFixed(2)}</h3>
+            <p className="text-blue-100 text-sm font-medium mb-1">{t('monthly.basicSalary')}</p>
+            <h3 className="text-2xl font-bold">{formatCurrency(summary.basicSalary, language)}</h3>
           </div>
 
           {/* Total OT Pay */}
@@ -349,8 +393,8 @@ const MonthlyDashboard: React.FC<MonthlyDashboardProps> = ({ session, onBack })
             <div className="flex items-center justify-between mb-2">
               <DollarSign size={24} className="opacity-80" />
             </div>
-            <p className="text-green-100 text-sm font-medium mb-1">Total OT Pay</p>
-            <h3 className="text-2xl font-bold">RM {summary.totalOTPay.toFixed(2)}</h3>
+            <p className="text-green-100 text-sm font-medium mb-1">{t('monthly.totalOTPay')}</p>
+            <h3 className="text-2xl font-bold">{formatCurrency(summary.totalOTPay, language)}</h3>
           </div>
 
           {/* Outstation Meal Allowance */}
@@ -358,10 +402,10 @@ const MonthlyDashboard: React.FC<MonthlyDashboardProps> = ({ session, onBack })
             <div className="flex items-center justify-between mb-2">
               <FileText size={24} className="opacity-80" />
             </div>
-            <p className="text-amber-100 text-sm font-medium mb-1">Outstation Meal Allowance</p>
-            <h3 className="text-2xl font-bold">RM {summary.outstationMealAllowances.toFixed(2)}</h3>
+            <p className="text-amber-100 text-sm font-medium mb-1">{t('monthly.outstationMealAllowance')}</p>
+            <h3 className="text-2xl font-bold">{formatCurrency(summary.outstationMealAllowances, language)}</h3>
             <p className="text-xs text-amber-100 mt-1">
-              RM 30 per outstation trip
+              {t('monthly.perOutstationTrip', { amount: formatCurrency(payProfile.meal_allowance, language) })}
             </p>
           </div>
 
@@ -370,10 +414,22 @@ const MonthlyDashboard: React.FC<MonthlyDashboardProps> = ({ session, onBack })
             <div className="flex items-center justify-between mb-2">
               <FileText size={24} className="opacity-80" />
             </div>
-            <p className="text-pink-100 text-sm font-medium mb-1">Attendance Allowance</p>
-            <h3 className="text-2xl font-bold">RM {summary.fullAttendanceReward.toFixed(2)}</h3>
+            <p className="text-pink-100 text-sm font-medium mb-1">{t('monthly.attendanceAllowance')}</p>
+            <h3 className="text-2xl font-bold">{formatCurrency(summary.fullAttendanceReward, language)}</h3>
             <p className="text-xs text-pink-100 mt-1">
-              Deductions: Annual/Medical/Late -RM100/day, Emergency -RM300/day
+              {t('monthly.attendanceDeductions')}
+            </p>
+          </div>
+
+          {/* Approved Claims */}
+          <div className="bg-gradient-to-br from-teal-500 to-teal-600 rounded-xl p-5 text-white shadow-lg">
+            <div className="flex items-center justify-between mb-2">
+              <Car size={24} className="opacity-80" />
+            </div>
+            <p className="text-teal-100 text-sm font-medium mb-1">{t('monthly.approvedClaims')}</p>
+            <h3 className="text-2xl font-bold">{formatCurrency(summary.approvedClaims, language)}</h3>
+            <p className="text-xs text-teal-100 mt-1">
+              {t('monthly.claimTypes')}
             </p>
           </div>
 
@@ -382,17 +438,71 @@ const MonthlyDashboard: React.FC<MonthlyDashboardProps> = ({ session, onBack })
             <div className="flex items-center justify-between mb-2">
               <DollarSign size={24} className="opacity-80" />
             </div>
-            <p className="text-indigo-100 text-sm font-medium mb-1">Grand Total</p>
-            <h3 className="text-3xl font-bold">RM {summary.grandTotal.toFixed(2)}</h3>
+            <p className="text-indigo-100 text-sm font-medium mb-1">{t('monthly.grandTotal')}</p>
+            <h3 className="text-3xl font-bold">{formatCurrency(summary.grandTotal, language)}</h3>
+          </div>
+        </div>
+
+        {/* Net Pay */}
+        <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
+          <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between gap-4">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+                <Wallet size={20} className="text-gray-500" />
+                {t('monthly.netPay')}
+              </h2>
+              <p className="text-sm text-gray-500 mt-1">
+                {t('monthly.netPayNote', { amount: formatCurrency(summary.grandTotal, language) })}
+              </p>
+            </div>
+            <div className="text-right">
+              <p className="text-sm text-gray-500">{t('monthly.takeHome')}</p>
+              <p className="text-2xl font-bold text-gray-900">{formatCurrency(summary.netPay, language)}</p>
+            </div>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('monthly.contribution')}</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">{t('monthly.employee')}</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">{t('monthly.employer')}</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200 text-sm">
+                {[
+                  { label: 'EPF', employee: summary.deductions.epfEmployee, employer: summary.deductions.epfEmployer },
+                  { label: 'SOCSO', employee: summary.deductions.socsoEmployee, employer: summary.deductions.socsoEmployer },
+                  { label: 'EIS', employee: summary.deductions.eisEmployee, employer: summary.deductions.eisEmployer },
+                  { label: t('monthly.pcb'), employee: summary.deductions.pcb, employer: null },
+                ].map((line) => (
+                  <tr key={line.label}>
+                    <td className="px-6 py-3 text-gray-900 font-medium">{line.label}</td>
+                    <td className="px-6 py-3 text-right text-red-600">-{formatCurrency(line.employee, language)}</td>
+                    <td className="px-6 py-3 text-right text-gray-600">
+                      {line.employer == null ? '-' : formatCurrency(line.employer, language)}
+                    </td>
+                  </tr>
+                ))}
+                <tr className="bg-gray-50 font-semibold">
+                  <td className="px-6 py-3 text-gray-900">{t('monthly.total')}</td>
+                  <td className="px-6 py-3 text-right text-red-600">-{formatCurrency(summary.deductions.totalEmployee, language)}</td>
+                  <td className="px-6 py-3 text-right text-gray-900">{formatCurrency(summary.deductions.totalEmployer, language)}</td>
+                </tr>
+              </tbody>
+            </table>
           </div>
         </div>
 
         {/* Detailed Table */}
         <div className="bg-white rounded-xl shadow-sm border border-gray-200 overflow-hidden">
           <div className="px-6 py-4 border-b border-gray-200">
-            <h2 className="text-lg font-semibold text-gray-900">Detailed Records</h2>
+            <h2 className="text-lg font-semibold text-gray-900">{t('monthly.detailedRecords')}</h2>
             <p className="text-sm text-gray-500 mt-1">
-              {monthlyLogs.length} record{monthlyLogs.length !== 1 ? 's' : ''} found for {format(new Date(selectedYear, selectedMonth - 1, 1), 'MMMM yyyy')}
+              {t(monthlyLogs.length === 1 ? 'monthly.recordFound' : 'monthly.recordsFound', {
+                count: monthlyLogs.length,
+                month: formatDate(new Date(selectedYear, selectedMonth - 1, 1), 'date.monthYear', language),
+              })}
             </p>
           </div>
 
@@ -400,25 +510,27 @@ const MonthlyDashboard: React.FC<MonthlyDashboardProps> = ({ session, onBack })
             <table className="w-full">
               <thead className="bg-gray-50">
                 <tr>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider min-w-[200px]">Check In Location</th>
-                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider min-w-[200px]">Check Out Location</th>
-                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Total Hours</th>
-                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">OT Amount</th>
-                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Allowance</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('monthly.date')}</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">{t('monthly.type')}</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider min-w-[200px]">{t('monthly.checkInLocation')}</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider min-w-[200px]">{t('monthly.checkOutLocation')}</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">{t('monthly.planned')}</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">{t('monthly.totalHours')}</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">{t('monthly.otAmount')}</th>
+                  <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">{t('monthly.allowance')}</th>
                 </tr>
               </thead>
               <tbody className="bg-white divide-y divide-gray-200">
                 {monthlyLogs.length === 0 ? (
                   <tr>
-                    <td colSpan={7} className="px-6 py-12 text-center text-gray-500">
-                      No records found for this month.
+                    <td colSpan={8} className="px-6 py-12 text-center text-gray-500">
+                      {t('monthly.noRecords')}
                     </td>
                   </tr>
                 ) : (
                   monthlyLogs.map((record, index) => {
                     const highlightRow = record.isPublicHoliday || record.isOutstation;
+                    const comparison = shiftComparisons.get(record.workLog.id);
                     return (
                       <tr
                         key={record.workLog.id || index}
@@ -427,7 +539,7 @@ const MonthlyDashboard: React.FC<MonthlyDashboardProps> = ({ session, onBack })
                         }`}
                       >
                         <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
-                          {format(new Date(record.date), 'MMM d, yyyy')}
+                          {formatDate(new Date(record.date), 'date.medium', language)}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap">
                           <div className="flex items-center gap-2">
@@ -438,7 +550,15 @@ const MonthlyDashboard: React.FC<MonthlyDashboardProps> = ({ session, onBack })
                             </span>
                             {record.isPublicHoliday && (
                               <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-semibold bg-red-200 text-red-900 border border-red-300">
-                                PH
+                                {t('monthly.publicHolidayBadge')}
+                              </span>
+                            )}
+                            {record.workLog.review_status && (
+                              <span
+                                className="inline-flex items-center px-2 py-0.5 rounded text-xs font-semibold bg-amber-100 text-amber-800 border border-amber-200"
+                                title={isHeldForReview(record.workLog) ? t('monthly.otHeld') : undefined}
+                              >
+                                {t(`reviewStatus.${record.workLog.review_status}` as TranslationKey)}
                               </span>
                             )}
                           </div>
@@ -459,25 +579,74 @@ const MonthlyDashboard: React.FC<MonthlyDashboardProps> = ({ session, onBack })
                             </span>
                           </div>
                         </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm text-right">
+                          {comparison ? (
+                            <div className="flex flex-col items-end gap-1">
+                              <span className="text-gray-600" title={comparison.shift.route || undefined}>
+                                {formatDate(new Date(comparison.shift.shift_start), 'date.time', language)} – {formatDate(new Date(comparison.shift.shift_end), 'date.time', language)}
+                              </span>
+                              {comparison.isLate && (
+                                <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-semibold bg-red-100 text-red-800 border border-red-200">
+                                  {t('shift.late', { duration: formatDuration(comparison.lateMinutes / 60, t) })}
+                                </span>
+                              )}
+                              {comparison.leftEarly && (
+                                <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-semibold bg-orange-100 text-orange-800 border border-orange-200">
+                                  {t('shift.leftEarly', { duration: formatDuration(comparison.earlyLeaveMinutes / 60, t) })}
+                                </span>
+                              )}
+                              {comparison.isLate && !isOwnRecords && !monthClosed && (
+                                <button
+                                  onClick={() => handleRecordLate(record, comparison)}
+                                  disabled={actionLoading}
+                                  className="flex items-center gap-1 text-xs text-indigo-600 hover:text-indigo-800 font-medium disabled:opacity-50"
+                                >
+                                  <Clock size={12} />
+                                  {t('monthly.recordLate')}
+                                </button>
+                              )}
+                            </div>
+                          ) : (
+                            <span className="text-gray-400 text-xs">-</span>
+                          )}
+                        </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right font-medium">
-                          {formatDuration(record.totalHours)}
+                          {formatDuration(record.totalHours, t)}
+                          {comparison && (
+                            <div className="text-xs text-gray-500 font-normal">{t('monthly.ofPlanned', { duration: formatDuration(comparison.plannedMinutes / 60, t) })}</div>
+                          )}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 text-right font-semibold">
-                          RM {record.otAmount.toFixed(2)}
+                          {formatCurrency(record.otAmount, language)}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-right">
                           <div className="flex flex-col items-end gap-1">
                             {record.isOutstation && (
-                              <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-semibold bg-amber-100 text-amber-800 border border-amber-200">
-                                Outstation (+RM{MEAL_ALLOWANCE})
+                              <span
+                                className="inline-flex items-center px-2 py-0.5 rounded text-xs font-semibold bg-amber-100 text-amber-800 border border-amber-200"
+                                title={record.workLog.outstation_rule ? t(`outstationRule.${record.workLog.outstation_rule}` as TranslationKey) : undefined}
+                              >
+                                {t('monthly.outstationAllowance', { amount: formatCurrency(record.allowanceAmount, language) })}
                               </span>
                             )}
                             {record.isPublicHoliday && !record.isOutstation && (
-                              <span className="text-xs text-gray-500">Public Holiday Rate</span>
+                              <span className="text-xs text-gray-500">{t('monthly.publicHolidayRate')}</span>
                             )}
                             {!record.isOutstation && !record.isPublicHoliday && (
                               <span className="text-gray-400 text-xs">-</span>
                             )}
+                            {!isOwnRecords && !monthClosed && (
+                              <select
+                                value={record.workLog.outstation_override == null ? '' : record.workLog.outstation_override ? 'yes' : 'no'}
+                                onChange={(e) => handleOutstationOverride(record, e.target.value)}
+                                className="px-2 py-1 border border-gray-300 rounded text-xs text-gray-700 bg-white focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                                title={t('monthly.outstationOverride')}
+                              >
+                                <option value="">{t('monthly.outstationByRule')}</option>
+                                <option value="yes">{t('monthly.outstationYes')}</option>
+                                <option value="no">{t('monthly.outstationNo')}</option>
+                              </select>
+                            )}
                           </div>
                         </td>
                       </tr>
@@ -489,6 +658,20 @@ const MonthlyDashboard: React.FC<MonthlyDashboardProps> = ({ session, onBack })
           </div>
         </div>
       </main>
+
+      {/* Payslip Preview Modal */}
+      {payslip && (
+        <PayslipView payslip={payslip} onClose={() => setPayslip(null)} />
+      )}
+
+      {/* Import Modal */}
+      {showImport && (
+        <WorkLogImport
+          userId={userId}
+          onClose={() => setShowImport(false)}
+          onImported={fetchMonthlyData}
+        />
+      )}
     </div>
   );
 };
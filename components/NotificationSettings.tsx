@@ -0,0 +1,217 @@
+import React, { useState, useEffect } from 'react';
+import { ArrowLeft, Bell, BellOff, AlertCircle, Smartphone, Mail } from 'lucide-react';
+import { NotificationPreferences } from '../types';
+import {
+  fetchNotificationPreferences,
+  saveNotificationPreferences,
+  enablePushNotifications,
+  disablePushNotifications,
+  isPushSupported,
+  isPushAllowed,
+  DEFAULT_NOTIFICATION_PREFERENCES,
+} from '../services/notificationService';
+
+interface NotificationSettingsProps {
+  session: any;
+  onBack: () => void;
+}
+
+const NotificationSettings: React.FC<NotificationSettingsProps> = ({ session, onBack }) => {
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState<NotificationPreferences>(DEFAULT_NOTIFICATION_PREFERENCES);
+  const [pushAllowed, setPushAllowed] = useState<boolean>(isPushAllowed());
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [savedMsg, setSavedMsg] = useState<string | null>(null);
+  const [actionLoading, setActionLoading] = useState(false);
+
+  const userId = session.user.id;
+  const email: string | undefined = session.user.email;
+  const pushSupported = isPushSupported();
+
+  useEffect(() => {
+    fetchNotificationPreferences(userId)
+      .then(setForm)
+      .catch((err: any) => {
+        console.error('Error fetching notification preferences:', err);
+        setErrorMsg(err.message || 'Failed to load notification settings.');
+      })
+      .finally(() => setLoading(false));
+  }, [userId]);
+
+  const handleAllowPush = async () => {
+    try {
+      setActionLoading(true);
+      setErrorMsg(null);
+      const allowed = await enablePushNotifications(userId);
+      setPushAllowed(allowed);
+      if (!allowed) {
+        setErrorMsg('Notifications are blocked for this app. Allow them in your browser settings, or use email reminders.');
+      }
+    } catch (err: any) {
+      setErrorMsg(err.message || 'Failed to turn on notifications');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setActionLoading(true);
+      setErrorMsg(null);
+      setSavedMsg(null);
+      if (!form.push_enabled) await disablePushNotifications();
+      setForm(await saveNotificationPreferences(userId, form));
+      setSavedMsg('Notification settings saved.');
+    } catch (err: any) {
+      setErrorMsg(err.message || 'Failed to save notification settings');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const renderToggle = (key: keyof NotificationPreferences, label: string) => (
+    <label className="flex items-center gap-3 text-sm font-medium text-gray-700">
+      <input
+        type="checkbox"
+        checked={Boolean(form[key])}
+        onChange={(e) => setForm({ ...form, [key]: e.target.checked })}
+        disabled={actionLoading}
+        className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+      />
+      {label}
+    </label>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50 max-w-md mx-auto shadow-xl border-x border-gray-200 flex flex-col">
+      {/* Header */}
+      <header className="bg-white px-6 py-5 border-b border-gray-100 sticky top-0 z-10">
+        <div className="flex items-center gap-4">
+          <button
+            onClick={onBack}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <ArrowLeft size={24} className="text-gray-600" />
+          </button>
+          <h1 className="text-xl font-bold text-gray-900">Notifications</h1>
+        </div>
+      </header>
+
+      <main className="flex-1 p-6 space-y-6 overflow-y-auto">
+        {errorMsg && (
+          <div className="bg-red-50 text-red-700 p-4 rounded-xl flex items-start gap-3 text-sm">
+            <AlertCircle size={18} className="mt-0.5 shrink-0" />
+            <p>{errorMsg}</p>
+          </div>
+        )}
+        {savedMsg && (
+          <div className="bg-emerald-50 text-emerald-700 p-4 rounded-xl text-sm">{savedMsg}</div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-6">
+            {/* Delivery */}
+            <div className="bg-white rounded-2xl p-6 shadow-sm border border-gray-100 space-y-4">
+              <h2 className="font-semibold text-gray-900 flex items-center gap-2">
+                <Smartphone size={18} />
+                How to reach you
+              </h2>
+              {renderToggle('push_enabled', 'Push notifications on this device')}
+              {form.push_enabled && (
+                pushSupported ? (
+                  pushAllowed ? (
+                    <p className="text-xs text-emerald-700 flex items-center gap-1">
+                      <Bell size={12} />
+                      Notifications are allowed on this device.
+                    </p>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={handleAllowPush}
+                      disabled={actionLoading}
+                      className="w-full flex items-center justify-center gap-2 py-2 rounded-xl border border-indigo-200 text-indigo-600 hover:bg-indigo-50 font-semibold text-sm transition-colors disabled:opacity-50"
+                    >
+                      <Bell size={16} />
+                      Allow notifications
+                    </button>
+                  )
+                ) : (
+                  <p className="text-xs text-gray-500 flex items-center gap-1">
+                    <BellOff size={12} />
+                    This browser cannot show notifications; reminders will be emailed instead.
+                  </p>
+                )
+              )}
+              {renderToggle('email_enabled', 'Email when push is off or unavailable')}
+              {form.email_enabled && (
+                <p className="text-xs text-gray-500 flex items-center gap-1">
+                  <Mail size={12} />
+                  {email ? `Sent to ${email}` : 'Your account has no email address.'}
+                </p>
+              )}
+            </div>
+
+            {/* Reminders */}
+            <div className="bg-white rounded-2xl p-6 shadow-sm border border-gray-100 space-y-4">
+              <h2 className="font-semibold text-gray-900 flex items-center gap-2">
+                <Bell size={18} />
+                Reminders
+              </h2>
+
+              {renderToggle('remind_long_session', 'Remind me to clock out')}
+              {form.remind_long_session && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">After a session has run for (hours)</label>
+                  <input
+                    type="number"
+                    min="0.5"
+                    step="0.5"
+                    value={form.long_session_hours}
+                    onChange={(e) => setForm({ ...form, long_session_hours: Number(e.target.value) })}
+                    required
+                    disabled={actionLoading}
+                    className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+                  />
+                </div>
+              )}
+
+              {renderToggle('remind_missed_clock_in', 'Remind me to clock in for rostered shifts')}
+              {form.remind_missed_clock_in && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Minutes after the shift starts</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={form.missed_clock_in_minutes}
+                    onChange={(e) => setForm({ ...form, missed_clock_in_minutes: Number(e.target.value) })}
+                    required
+                    disabled={actionLoading}
+                    className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+                  />
+                </div>
+              )}
+
+              {renderToggle('remind_month_review', 'Tell me when last month is ready to review and submit')}
+            </div>
+
+            <button
+              type="submit"
+              disabled={actionLoading}
+              className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-3 px-6 rounded-xl transition-colors disabled:opacity-50"
+            >
+              {actionLoading ? 'Saving...' : 'Save Settings'}
+            </button>
+          </form>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default NotificationSettings;
@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { X, MapPinOff } from 'lucide-react';
+import { PunchType } from '../types';
+
+interface OffSiteReasonFormProps {
+  punchType: PunchType;
+  onCancel: () => void;
+  onSubmit: (reason: string) => void;
+}
+
+const OffSiteReasonForm: React.FC<OffSiteReasonFormProps> = ({ punchType, onCancel, onSubmit }) => {
+  const [reason, setReason] = useState<string>('');
+
+  const punchLabel = punchType === 'clock_in' ? 'clocking in' : 'clocking out';
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason.trim()) return;
+    onSubmit(reason.trim());
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+            <MapPinOff size={18} />
+            Outside All Sites
+          </h2>
+          <button
+            onClick={onCancel}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+          >
+            <X size={20} className="text-gray-600" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="flex-1 overflow-y-auto p-6 space-y-4">
+          <p className="text-sm text-gray-600">
+            You are not at a depot or customer site. Tell your supervisor why you are {punchLabel} here.
+            The punch will be flagged for review.
+          </p>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+            <textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              required
+              rows={3}
+              autoFocus
+              className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+              placeholder="e.g. Vehicle broke down on the way to the depot"
+            />
+          </div>
+
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={onCancel}
+              className="flex-1 py-3 px-6 rounded-xl border border-gray-300 text-gray-700 hover:bg-gray-50 font-semibold transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={!reason.trim()}
+              className="flex-1 bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-3 px-6 rounded-xl transition-colors disabled:opacity-50"
+            >
+              {punchType === 'clock_in' ? 'Clock In' : 'Clock Out'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default OffSiteReasonForm;
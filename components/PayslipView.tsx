@@ -0,0 +1,159 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { X, Printer, Download } from 'lucide-react';
+import { Payslip } from '../types';
+import { downloadPayslipPdf, getPayslipEarnings, formatRM, formatPayslipHours } from '../services/payslipService';
+
+interface PayslipViewProps {
+  payslip: Payslip;
+  onClose: () => void;
+}
+
+// Format day type for display
+const formatDayType = (dayType: string): string => {
+  switch (dayType) {
+    case 'weekday':
+      return 'Weekday';
+    case 'weekend':
+      return 'Weekend';
+    case 'public_holiday':
+      return 'Public Holiday';
+    default:
+      return 'N/A';
+  }
+};
+
+const PayslipView: React.FC<PayslipViewProps> = ({ payslip, onClose }) => {
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4 print-overlay">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-3xl w-full max-h-[90vh] overflow-hidden flex flex-col print-sheet">
+        {/* Toolbar (hidden when printing) */}
+        <div className="no-print flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-bold text-gray-900">Payslip Preview</h2>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => window.print()}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-300 text-gray-700 hover:bg-gray-100 transition-colors text-sm font-medium"
+            >
+              <Printer size={16} />
+              Print
+            </button>
+            <button
+              onClick={() => downloadPayslipPdf(payslip)}
+              className="flex items-center gap-2 px-4 py-2 rounded-lg bg-indigo-600 hover:bg-indigo-700 text-white transition-colors text-sm font-medium"
+            >
+              <Download size={16} />
+              Download PDF
+            </button>
+            <button
+              onClick={onClose}
+              className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+            >
+              <X size={20} className="text-gray-600" />
+            </button>
+          </div>
+        </div>
+
+        {/* Printable Payslip */}
+        <div className="flex-1 overflow-y-auto p-8 text-gray-900 print-area">
+          <div className="flex items-start justify-between border-b-2 border-gray-900 pb-4 mb-6">
+            <div>
+              <h1 className="text-3xl font-bold tracking-wide">PAYSLIP</h1>
+              <p className="text-sm text-gray-600 mt-1">Driver OT Tracker</p>
+            </div>
+            <div className="text-right">
+              <p className="text-lg font-semibold">{payslip.periodLabel}</p>
+              <p className="text-xs text-gray-500">
+                Generated {format(new Date(payslip.generatedAt), 'd MMM yyyy, h:mm a')}
+              </p>
+            </div>
+          </div>
+
+          {/* Employee Details */}
+          <div className="grid grid-cols-2 gap-x-8 gap-y-1 text-sm mb-6">
+            <p><span className="text-gray-500">Employee:</span> <span className="font-medium">{payslip.employeeName}</span></p>
+            <p><span className="text-gray-500">Pay Period:</span> <span className="font-medium">{payslip.periodLabel}</span></p>
+            <p><span className="text-gray-500">Days Worked:</span> <span className="font-medium">{payslip.daysWorked}</span></p>
+            <p><span className="text-gray-500">Hours Worked:</span> <span className="font-medium">{formatPayslipHours(payslip.totalMinutesWorked)}</span></p>
+          </div>
+
+          {/* Earnings */}
+          <h3 className="text-sm font-bold uppercase tracking-wide border-b border-gray-300 pb-1 mb-2">Earnings</h3>
+          <table className="w-full text-sm mb-6">
+            <tbody>
+              {getPayslipEarnings(payslip).map(({ label, amount }) => (
+                <tr key={label}>
+                  <td className="py-1">{label}</td>
+                  <td className="py-1 text-right">{formatRM(amount)}</td>
+                </tr>
+              ))}
+              <tr className="border-t-2 border-gray-900 font-bold">
+                <td className="pt-2">Grand Total</td>
+                <td className="pt-2 text-right">{formatRM(payslip.summary.grandTotal)}</td>
+              </tr>
+            </tbody>
+          </table>
+
+          {/* OT Breakdown */}
+          <h3 className="text-sm font-bold uppercase tracking-wide border-b border-gray-300 pb-1 mb-2">Overtime Breakdown</h3>
+          {payslip.otLines.length === 0 ? (
+            <p className="text-sm text-gray-500 mb-6">No overtime this month.</p>
+          ) : (
+            <table className="w-full text-sm mb-6">
+              <thead>
+                <tr className="text-xs text-gray-500 uppercase">
+                  <th className="py-1 text-left font-medium">Rate</th>
+                  <th className="py-1 text-right font-medium">Hours</th>
+                  <th className="py-1 text-right font-medium">Paid Hours</th>
+                  <th className="py-1 text-right font-medium">Rate / Hour</th>
+                  <th className="py-1 text-right font-medium">Amount</th>
+                </tr>
+              </thead>
+              <tbody>
+                {payslip.otLines.map((line) => (
+                  <tr key={`${line.label}-${line.hourlyRate}`}>
+                    <td className="py-1">{line.label} ({line.multiplier.toFixed(1)}x)</td>
+                    <td className="py-1 text-right">{formatPayslipHours(line.minutes)}</td>
+                    <td className="py-1 text-right">{formatPayslipHours(line.roundedMinutes)}</td>
+                    <td className="py-1 text-right">{formatRM(line.hourlyRate)}</td>
+                    <td className="py-1 text-right">{formatRM(line.amount)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {/* Daily Records */}
+          <h3 className="text-sm font-bold uppercase tracking-wide border-b border-gray-300 pb-1 mb-2">Daily Records</h3>
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-gray-500 uppercase">
+                <th className="py-1 text-left font-medium">Date</th>
+                <th className="py-1 text-left font-medium">Type</th>
+                <th className="py-1 text-right font-medium">Hours</th>
+                <th className="py-1 text-right font-medium">OT Amount</th>
+                <th className="py-1 text-right font-medium">Allowance</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {payslip.records.map((record, index) => (
+                <tr key={record.workLog.id || index}>
+                  <td className="py-1">{format(new Date(record.date), 'dd MMM yyyy')}</td>
+                  <td className="py-1">
+                    {formatDayType(record.dayType)}
+                    {record.isOutstation && ' / Outstation'}
+                  </td>
+                  <td className="py-1 text-right">{formatPayslipHours(record.workLog.duration_minutes)}</td>
+                  <td className="py-1 text-right">{formatRM(record.otAmount)}</td>
+                  <td className="py-1 text-right">{formatRM(record.allowanceAmount)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PayslipView;
@@ -0,0 +1,341 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { ArrowLeft, CalendarDays, AlertCircle, Plus, Trash2, Upload, CheckCircle } from 'lucide-react';
+import { PublicHoliday, MalaysianState } from '../types';
+import {
+  MALAYSIAN_STATES,
+  fetchPublicHolidays,
+  savePublicHoliday,
+  deletePublicHoliday,
+  bulkImportPublicHolidays,
+  parseHolidayCsv,
+  parseHolidayIcal,
+} from '../services/holidayService';
+
+interface PublicHolidayManagerProps {
+  onBack: () => void;
+}
+
+const STATE_CODES = Object.keys(MALAYSIAN_STATES) as MalaysianState[];
+
+// Format a state code for display
+const formatState = (state: MalaysianState | 'ALL'): string =>
+  state === 'ALL' ? 'Nationwide' : MALAYSIAN_STATES[state];
+
+const PublicHolidayManager: React.FC<PublicHolidayManagerProps> = ({ onBack }) => {
+  const [loading, setLoading] = useState(true);
+  const [selectedYear, setSelectedYear] = useState<number>(new Date().getFullYear());
+  const [stateFilter, setStateFilter] = useState<MalaysianState | 'ALL' | ''>('');
+  const [holidays, setHolidays] = useState<PublicHoliday[]>([]);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [successMsg, setSuccessMsg] = useState<string | null>(null);
+  const [actionLoading, setActionLoading] = useState(false);
+
+  // Add form state
+  const [holidayDate, setHolidayDate] = useState<string>(format(new Date(), 'yyyy-MM-dd'));
+  const [holidayName, setHolidayName] = useState<string>('');
+  const [holidayState, setHolidayState] = useState<MalaysianState | 'ALL'>('ALL');
+
+  // Import state (state applied to rows/events that do not name one)
+  const [importState, setImportState] = useState<MalaysianState | 'ALL'>('ALL');
+
+  const refreshHolidays = useCallback(async () => {
+    try {
+      setLoading(true);
+      setErrorMsg(null);
+      const data = await fetchPublicHolidays(`${selectedYear}-01-01`, `${selectedYear}-12-31`);
+      setHolidays(data);
+    } catch (err: any) {
+      console.error('Error fetching public holidays:', err);
+      setErrorMsg(err.message || 'Failed to load public holidays.');
+      setHolidays([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedYear]);
+
+  useEffect(() => {
+    refreshHolidays();
+  }, [refreshHolidays]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setActionLoading(true);
+      setErrorMsg(null);
+      setSuccessMsg(null);
+
+      await savePublicHoliday({
+        holiday_date: holidayDate,
+        name: holidayName.trim(),
+        state: holidayState,
+      });
+
+      setHolidayName('');
+      await refreshHolidays();
+    } catch (err: any) {
+      setErrorMsg(err.message || 'Failed to save public holiday');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleDelete = async (holiday: PublicHoliday) => {
+    if (!window.confirm(`Delete ${holiday.name} (${formatState(holiday.state)}) on ${format(new Date(holiday.holiday_date), 'MMM d, yyyy')}?`)) {
+      return;
+    }
+    try {
+      setActionLoading(true);
+      setErrorMsg(null);
+      setSuccessMsg(null);
+      await deletePublicHoliday(holiday);
+      await refreshHolidays();
+    } catch (err: any) {
+      setErrorMsg(err.message || 'Failed to delete public holiday');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-selecting the same file
+    if (!file) return;
+
+    try {
+      setActionLoading(true);
+      setErrorMsg(null);
+      setSuccessMsg(null);
+
+      const text = await file.text();
+      const isIcal = file.name.toLowerCase().endsWith('.ics') || text.includes('BEGIN:VCALENDAR');
+      const { holidays: parsed, errors } = isIcal
+        ? parseHolidayIcal(text, importState)
+        : parseHolidayCsv(text, importState);
+
+      if (parsed.length === 0) {
+        setErrorMsg(errors.length > 0 ? errors.join('\n') : 'No holidays found in file.');
+        return;
+      }
+
+      const count = await bulkImportPublicHolidays(parsed);
+      setSuccessMsg(`Imported ${count} holiday${count !== 1 ? 's' : ''} from ${file.name}.`);
+      if (errors.length > 0) {
+        setErrorMsg(`Skipped ${errors.length} line${errors.length !== 1 ? 's' : ''}:\n${errors.join('\n')}`);
+      }
+      await refreshHolidays();
+    } catch (err: any) {
+      setErrorMsg(err.message || 'Failed to import holidays');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const visibleHolidays = stateFilter
+    ? holidays.filter((holiday) => holiday.state === stateFilter || holiday.state === 'ALL')
+    : holidays;
+
+  const currentYear = new Date().getFullYear();
+  const yearOptions = [currentYear + 1, currentYear, currentYear - 1, currentYear - 2];
+
+  const renderStateOptions = () => (
+    <>
+      <option value="ALL">Nationwide</option>
+      {STATE_CODES.map((code) => (
+        <option key={code} value={code}>
+          {MALAYSIAN_STATES[code]}
+        </option>
+      ))}
+    </>
+  );
+
+  return (
+    <div className="min-h-screen bg-gray-50 max-w-md mx-auto shadow-xl border-x border-gray-200 flex flex-col">
+      {/* Header */}
+      <header className="bg-white px-6 py-5 border-b border-gray-100 sticky top-0 z-10">
+        <div className="flex items-center gap-4 mb-4">
+          <button
+            onClick={onBack}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <ArrowLeft size={24} className="text-gray-600" />
+          </button>
+          <h1 className="text-xl font-bold text-gray-900">Public Holidays</h1>
+        </div>
+
+        {/* Year and State Filters */}
+        <div className="flex items-center gap-3">
+          <CalendarDays size={20} className="text-gray-500 shrink-0" />
+          <select
+            value={selectedYear}
+            onChange={(e) => setSelectedYear(Number(e.target.value))}
+            className="px-4 py-2 border border-gray-300 rounded-lg bg-white text-gray-900 font-medium focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+          >
+            {yearOptions.map((year) => (
+              <option key={year} value={year}>
+                {year}
+              </option>
+            ))}
+          </select>
+          <select
+            value={stateFilter}
+            onChange={(e) => setStateFilter(e.target.value as MalaysianState | 'ALL' | '')}
+            className="flex-1 min-w-0 px-4 py-2 border border-gray-300 rounded-lg bg-white text-gray-900 font-medium focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+          >
+            <option value="">All states</option>
+            {renderStateOptions()}
+          </select>
+        </div>
+      </header>
+
+      <main className="flex-1 p-6 space-y-6 overflow-y-auto">
+        {errorMsg && (
+          <div className="bg-red-50 text-red-700 p-4 rounded-xl flex items-start gap-3 text-sm">
+            <AlertCircle size={18} className="mt-0.5 shrink-0" />
+            <p className="whitespace-pre-line">{errorMsg}</p>
+          </div>
+        )}
+
+        {successMsg && (
+          <div className="bg-green-50 text-green-700 p-4 rounded-xl flex items-start gap-3 text-sm">
+            <CheckCircle size={18} className="mt-0.5 shrink-0" />
+            <p>{successMsg}</p>
+          </div>
+        )}
+
+        {/* Add Holiday Form */}
+        <form onSubmit={handleAdd} className="bg-white rounded-2xl p-6 shadow-sm border border-gray-100 space-y-4">
+          <h2 className="font-semibold text-gray-900 flex items-center gap-2">
+            <Plus size={18} />
+            Add Public Holiday
+          </h2>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Date</label>
+            <input
+              type="date"
+              value={holidayDate}
+              onChange={(e) => setHolidayDate(e.target.value)}
+              required
+              disabled={actionLoading}
+              className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+            <input
+              type="text"
+              value={holidayName}
+              onChange={(e) => setHolidayName(e.target.value)}
+              required
+              disabled={actionLoading}
+              className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+              placeholder="e.g. Hari Raya Aidilfitri"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">State</label>
+            <select
+              value={holidayState}
+              onChange={(e) => setHolidayState(e.target.value as MalaysianState | 'ALL')}
+              disabled={actionLoading}
+              className="w-full px-4 py-3 rounded-lg border border-gray-300 bg-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+            >
+              {renderStateOptions()}
+            </select>
+          </div>
+
+          <button
+            type="submit"
+            disabled={actionLoading}
+            className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-3 px-6 rounded-xl transition-colors disabled:opacity-50"
+          >
+            {actionLoading ? 'Saving...' : 'Add Holiday'}
+          </button>
+        </form>
+
+        {/* Bulk Import */}
+        <div className="bg-white rounded-2xl p-6 shadow-sm border border-gray-100 space-y-4">
+          <h2 className="font-semibold text-gray-900 flex items-center gap-2">
+            <Upload size={18} />
+            Import from iCal / CSV
+          </h2>
+          <p className="text-xs text-gray-500">
+            CSV columns: date (YYYY-MM-DD), name, state (optional). Rows and events without a state use the state below.
+          </p>
+          <select
+            value={importState}
+            onChange={(e) => setImportState(e.target.value as MalaysianState | 'ALL')}
+            disabled={actionLoading}
+            className="w-full px-4 py-3 rounded-lg border border-gray-300 bg-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+          >
+            {renderStateOptions()}
+          </select>
+          <label className={`w-full border-2 border-dashed border-gray-300 rounded-xl py-4 flex items-center justify-center gap-2 text-sm font-medium text-gray-600 transition-colors ${actionLoading ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:border-indigo-400 hover:text-indigo-600'}`}>
+            <Upload size={16} />
+            Choose .ics or .csv file
+            <input
+              type="file"
+              accept=".ics,.csv,text/calendar,text/csv"
+              onChange={handleImport}
+              disabled={actionLoading}
+              className="sr-only"
+            />
+          </label>
+        </div>
+
+        {/* Holiday List */}
+        <div>
+          <p className="text-sm text-gray-500 mb-3">
+            {visibleHolidays.length} holiday{visibleHolidays.length !== 1 ? 's' : ''} in {selectedYear}
+          </p>
+
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {visibleHolidays.length === 0 ? (
+                <p className="text-center text-gray-400 text-sm py-4">No public holidays for this year.</p>
+              ) : (
+                visibleHolidays.map((holiday) => (
+                  <div
+                    key={`${holiday.holiday_date}-${holiday.state}`}
+                    className="bg-white p-4 rounded-xl border border-gray-100 shadow-sm flex justify-between items-center"
+                  >
+                    <div className="flex-1">
+                      <p className="font-medium text-gray-900">{holiday.name}</p>
+                      <p className="text-xs text-gray-500 mt-0.5">
+                        {format(new Date(holiday.holiday_date), 'EEE, MMM d, yyyy')}
+                      </p>
+                      <span className={`inline-flex items-center mt-1 px-2.5 py-0.5 rounded-full text-xs font-semibold ${
+                        holiday.state === 'ALL'
+                          ? 'bg-red-100 text-red-800 border border-red-200'
+                          : 'bg-gray-100 text-gray-800 border border-gray-200'
+                      }`}>
+                        {formatState(holiday.state)}
+                      </span>
+                    </div>
+                    <button
+                      onClick={() => handleDelete(holiday)}
+                      disabled={actionLoading}
+                      className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                      title="Delete"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  </div>
+                ))
+              )}
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default PublicHolidayManager;
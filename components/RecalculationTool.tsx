@@ -0,0 +1,305 @@
+import React, { useState, useEffect } from 'react';
+import { format, startOfMonth } from 'date-fns';
+import { ArrowLeft, Calculator, AlertCircle, Lock, Check, History } from 'lucide-react';
+import { UserProfile, RecalculationChange, RecalculationRun, DayType } from '../types';
+import { previewRecalculation, applyRecalculation, fetchRecalculationRuns } from '../services/recalculationService';
+import { fetchProfiles, getDisplayName } from '../services/profileService';
+
+interface RecalculationToolProps {
+  onBack: () => void;
+}
+
+const DAY_TYPE_LABELS: Record<DayType, string> = {
+  weekday: 'Weekday',
+  weekend: 'Weekend',
+  public_holiday: 'Public Holiday',
+};
+
+const formatAmount = (amount: number): string => `RM ${amount.toFixed(2)}`;
+
+// yyyy-MM-dd as local midnight
+const toLocalDate = (date: string): Date => new Date(`${date}T00:00:00`);
+
+const RecalculationTool: React.FC<RecalculationToolProps> = ({ onBack }) => {
+  const [profiles, setProfiles] = useState<UserProfile[]>([]);
+  const [driverId, setDriverId] = useState<string>(''); // Empty for the whole fleet
+  const [fromDate, setFromDate] = useState<string>(format(startOfMonth(new Date()), 'yyyy-MM-dd'));
+  const [toDate, setToDate] = useState<string>(format(new Date(), 'yyyy-MM-dd'));
+  const [changes, setChanges] = useState<RecalculationChange[] | null>(null);
+  const [runs, setRuns] = useState<RecalculationRun[]>([]);
+  const [lastRun, setLastRun] = useState<RecalculationRun | null>(null);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [actionLoading, setActionLoading] = useState(false);
+
+  useEffect(() => {
+    Promise.all([fetchProfiles(), fetchRecalculationRuns()])
+      .then(([allProfiles, recentRuns]) => {
+        setProfiles(allProfiles);
+        setRuns(recentRuns);
+      })
+      .catch((err: any) => {
+        console.error('Error loading recalculation tool:', err);
+        setErrorMsg(err.message || 'Failed to load drivers.');
+      });
+  }, []);
+
+  const getDriverName = (userId?: string | null): string => {
+    if (!userId) return 'Whole fleet';
+    const profile = profiles.find((p) => p.id === userId);
+    return profile ? getDisplayName(profile) : 'Unknown driver';
+  };
+
+  // Changing the range or driver invalidates the current preview
+  const resetPreview = () => {
+    setChanges(null);
+    setLastRun(null);
+  };
+
+  const handlePreview = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setActionLoading(true);
+      setErrorMsg(null);
+      setLastRun(null);
+      setChanges(await previewRecalculation(toLocalDate(fromDate), toLocalDate(toDate), driverId || undefined));
+    } catch (err: any) {
+      setErrorMsg(err.message || 'Failed to recalculate');
+      setChanges(null);
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!changes) return;
+    const applicable = changes.filter((change) => !change.monthClosed);
+    if (!window.confirm(`Write the recalculated OT and day type back to ${applicable.length} work log${applicable.length !== 1 ? 's' : ''}? Each change is audited.`)) {
+      return;
+    }
+    try {
+      setActionLoading(true);
+      setErrorMsg(null);
+      const from = toLocalDate(fromDate);
+      const to = toLocalDate(toDate);
+      const userId = driverId || undefined;
+      const run = await applyRecalculation(changes, from, to, userId);
+      setLastRun(run);
+      const [remaining, recentRuns] = await Promise.all([
+        previewRecalculation(from, to, userId),
+        fetchRecalculationRuns(),
+      ]);
+      setChanges(remaining);
+      setRuns(recentRuns);
+    } catch (err: any) {
+      setErrorMsg(err.message || 'Failed to apply the recalculation');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const applicableCount = changes?.filter((change) => !change.monthClosed).length || 0;
+  const closedCount = (changes?.length || 0) - applicableCount;
+  const totalDifference = (changes || [])
+    .filter((change) => !change.monthClosed)
+    .reduce((sum, change) => sum + change.recalculatedAmount - change.storedAmount, 0);
+
+  return (
+    <div className="min-h-screen bg-gray-50 max-w-md mx-auto shadow-xl border-x border-gray-200 flex flex-col">
+      {/* Header */}
+      <header className="bg-white px-6 py-5 border-b border-gray-100 sticky top-0 z-10">
+        <div className="flex items-center gap-4">
+          <button
+            onClick={onBack}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <ArrowLeft size={24} className="text-gray-600" />
+          </button>
+          <h1 className="text-xl font-bold text-gray-900">Recalculate OT</h1>
+        </div>
+      </header>
+
+      <main className="flex-1 p-6 space-y-6 overflow-y-auto">
+        {errorMsg && (
+          <div className="bg-red-50 text-red-700 p-4 rounded-xl flex items-start gap-3 text-sm">
+            <AlertCircle size={18} className="mt-0.5 shrink-0" />
+            <p>{errorMsg}</p>
+          </div>
+        )}
+
+        {/* Range Form */}
+        <form onSubmit={handlePreview} className="bg-white rounded-2xl p-6 shadow-sm border border-gray-100 space-y-4">
+          <h2 className="font-semibold text-gray-900 flex items-center gap-2">
+            <Calculator size={18} />
+            Logs to recalculate
+          </h2>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Driver</label>
+            <select
+              value={driverId}
+              onChange={(e) => { setDriverId(e.target.value); resetPreview(); }}
+              disabled={actionLoading}
+              className="w-full px-4 py-3 rounded-lg border border-gray-300 bg-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+            >
+              <option value="">Whole fleet</option>
+              {profiles.map((profile) => (
+                <option key={profile.id} value={profile.id}>{getDisplayName(profile)}</option>
+              ))}
+            </select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+              <input
+                type="date"
+                value={fromDate}
+                onChange={(e) => { setFromDate(e.target.value); resetPreview(); }}
+                required
+                disabled={actionLoading}
+                className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+              <input
+                type="date"
+                value={toDate}
+                onChange={(e) => { setToDate(e.target.value); resetPreview(); }}
+                required
+                disabled={actionLoading}
+                className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+              />
+            </div>
+          </div>
+
+          <p className="text-xs text-gray-500">
+            Every completed log in the range is recalculated under the current pay profiles, holiday calendar and rules. Nothing is saved until you apply the changes.
+          </p>
+
+          <button
+            type="submit"
+            disabled={actionLoading}
+            className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-3 px-6 rounded-xl transition-colors disabled:opacity-50"
+          >
+            {actionLoading ? 'Working...' : 'Preview Changes'}
+          </button>
+        </form>
+
+        {lastRun && (
+          <div className="bg-emerald-50 text-emerald-700 p-4 rounded-xl flex items-start gap-3 text-sm">
+            <Check size={18} className="mt-0.5 shrink-0" />
+            <p>
+              Updated {lastRun.changed_count} of {lastRun.requested_count} work log{lastRun.requested_count !== 1 ? 's' : ''}.
+              {lastRun.skipped_closed_count > 0 && ` ${lastRun.skipped_closed_count} in closed months were left unchanged.`}
+            </p>
+          </div>
+        )}
+
+        {/* Diff Report */}
+        {changes && (
+          <div className="space-y-4">
+            <div className="bg-white rounded-2xl p-5 shadow-sm border border-gray-100 space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-gray-600">Logs that would change:</span>
+                <span className="font-semibold text-gray-900">{applicableCount}</span>
+              </div>
+              {closedCount > 0 && (
+                <div className="flex justify-between">
+                  <span className="text-gray-600">In closed months (left unchanged):</span>
+                  <span className="font-semibold text-gray-900">{closedCount}</span>
+                </div>
+              )}
+              <div className="flex justify-between">
+                <span className="text-gray-600">Net change in OT:</span>
+                <span className={`font-semibold ${totalDifference < 0 ? 'text-red-600' : 'text-emerald-600'}`}>
+                  {totalDifference >= 0 ? '+' : '-'}{formatAmount(Math.abs(totalDifference))}
+                </span>
+              </div>
+            </div>
+
+            {changes.length === 0 ? (
+              <div className="text-center py-8">
+                <Check size={32} className="mx-auto text-gray-300 mb-2" />
+                <p className="text-gray-400 text-sm">Every stored amount matches the current rules.</p>
+              </div>
+            ) : (
+              <>
+                {changes.map((change) => {
+                  const amountChanged = Math.abs(change.recalculatedAmount - change.storedAmount) >= 0.005;
+                  const dayTypeChanged = change.recalculatedDayType !== change.storedDayType;
+                  return (
+                    <div
+                      key={change.workLog.id}
+                      className={`bg-white rounded-2xl p-4 shadow-sm border space-y-1 text-sm ${change.monthClosed ? 'border-gray-200 opacity-60' : 'border-gray-100'}`}
+                    >
+                      <div className="flex items-start justify-between gap-3">
+                        <div>
+                          <p className="font-semibold text-gray-900">{format(new Date(change.workLog.clock_in), 'EEE, d MMM yyyy')}</p>
+                          {!driverId && <p className="text-xs text-gray-500">{getDriverName(change.workLog.user_id)}</p>}
+                        </div>
+                        {change.monthClosed && (
+                          <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-semibold bg-gray-100 text-gray-700 border border-gray-200">
+                            <Lock size={12} />
+                            Closed
+                          </span>
+                        )}
+                      </div>
+                      {amountChanged && (
+                        <p className="text-gray-600">
+                          OT: <span className="line-through">{formatAmount(change.storedAmount)}</span>
+                          {' → '}
+                          <span className="font-semibold text-gray-900">{formatAmount(change.recalculatedAmount)}</span>
+                        </p>
+                      )}
+                      {dayTypeChanged && (
+                        <p className="text-gray-600">
+                          Day type: <span className="line-through">{change.storedDayType ? DAY_TYPE_LABELS[change.storedDayType] : 'Not set'}</span>
+                          {' → '}
+                          <span className="font-semibold text-gray-900">{DAY_TYPE_LABELS[change.recalculatedDayType]}</span>
+                        </p>
+                      )}
+                    </div>
+                  );
+                })}
+
+                {applicableCount > 0 && (
+                  <button
+                    onClick={handleApply}
+                    disabled={actionLoading}
+                    className="w-full bg-emerald-500 hover:bg-emerald-600 text-white font-semibold py-3 px-6 rounded-xl transition-colors disabled:opacity-50"
+                  >
+                    Apply {applicableCount} Change{applicableCount !== 1 ? 's' : ''}
+                  </button>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
+        {/* Recent Runs */}
+        {runs.length > 0 && (
+          <div className="bg-white rounded-2xl p-5 shadow-sm border border-gray-100 space-y-3">
+            <h2 className="font-semibold text-gray-900 flex items-center gap-2">
+              <History size={18} />
+              Recent runs
+            </h2>
+            {runs.map((run) => (
+              <div key={run.id} className="text-sm border-t border-gray-100 pt-2 first:border-t-0 first:pt-0">
+                <p className="text-gray-900">
+                  {getDriverName(run.user_id)}: {format(toLocalDate(run.range_start), 'd MMM')} – {format(toLocalDate(run.range_end), 'd MMM yyyy')}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {format(new Date(run.created_at), 'd MMM yyyy, h:mm a')} · {run.changed_count} changed
+                  {run.skipped_closed_count > 0 && ` · ${run.skipped_closed_count} skipped (closed)`}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default RecalculationTool;
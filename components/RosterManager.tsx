@@ -0,0 +1,405 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { addDays, format, startOfWeek } from 'date-fns';
+import { ArrowLeft, CalendarClock, AlertCircle, Plus, Trash2, Pencil, X, ChevronLeft, ChevronRight, MapPin } from 'lucide-react';
+import { PlannedShift, Site, UserProfile } from '../types';
+import { fetchPlannedShifts, savePlannedShift, deletePlannedShift } from '../services/rosterService';
+import { fetchSites } from '../services/siteService';
+import { fetchProfiles, getDisplayName } from '../services/profileService';
+
+interface RosterManagerProps {
+  session: any;
+  onBack: () => void;
+}
+
+// Days shown at a time
+const ROSTER_DAYS = 7;
+
+const RosterManager: React.FC<RosterManagerProps> = ({ session, onBack }) => {
+  const [loading, setLoading] = useState(true);
+  const [weekStart, setWeekStart] = useState<Date>(startOfWeek(new Date(), { weekStartsOn: 1 }));
+  const [shifts, setShifts] = useState<PlannedShift[]>([]);
+  const [drivers, setDrivers] = useState<UserProfile[]>([]);
+  const [sites, setSites] = useState<Site[]>([]);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [actionLoading, setActionLoading] = useState(false);
+
+  // Add / edit form state
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [driverId, setDriverId] = useState<string>('');
+  const [shiftDate, setShiftDate] = useState<string>(format(new Date(), 'yyyy-MM-dd'));
+  const [startTime, setStartTime] = useState<string>('08:00');
+  const [endTime, setEndTime] = useState<string>('17:00');
+  const [siteId, setSiteId] = useState<string>('');
+  const [route, setRoute] = useState<string>('');
+  const [expectedOutstation, setExpectedOutstation] = useState(false);
+  const [notes, setNotes] = useState<string>('');
+
+  const refreshRoster = useCallback(async () => {
+    try {
+      setLoading(true);
+      setErrorMsg(null);
+      const [weekShifts, profiles, activeSites] = await Promise.all([
+        fetchPlannedShifts(weekStart, addDays(weekStart, ROSTER_DAYS)),
+        fetchProfiles(),
+        fetchSites(),
+      ]);
+      setShifts(weekShifts);
+      setDrivers(profiles.filter((profile) => profile.role === 'driver'));
+      setSites(activeSites);
+    } catch (err: any) {
+      console.error('Error fetching roster:', err);
+      setErrorMsg(err.message || 'Failed to load roster.');
+      setShifts([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [weekStart]);
+
+  useEffect(() => {
+    refreshRoster();
+  }, [refreshRoster]);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setRoute('');
+    setSiteId('');
+    setExpectedOutstation(false);
+    setNotes('');
+  };
+
+  const handleEdit = (shift: PlannedShift) => {
+    const start = new Date(shift.shift_start);
+    setEditingId(shift.id || null);
+    setDriverId(shift.user_id);
+    setShiftDate(format(start, 'yyyy-MM-dd'));
+    setStartTime(format(start, 'HH:mm'));
+    setEndTime(format(new Date(shift.shift_end), 'HH:mm'));
+    setSiteId(shift.site_id || '');
+    setRoute(shift.route || '');
+    setExpectedOutstation(shift.expected_outstation);
+    setNotes(shift.notes || '');
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!driverId) {
+      setErrorMsg('Choose a driver for the shift.');
+      return;
+    }
+
+    const start = new Date(`${shiftDate}T${startTime}`);
+    let end = new Date(`${shiftDate}T${endTime}`);
+    // An end time before the start time means the shift runs past midnight
+    if (end <= start) end = addDays(end, 1);
+
+    try {
+      setActionLoading(true);
+      setErrorMsg(null);
+      await savePlannedShift({
+        id: editingId || undefined,
+        user_id: driverId,
+        shift_start: start.toISOString(),
+        shift_end: end.toISOString(),
+        site_id: siteId || null,
+        route,
+        expected_outstation: expectedOutstation,
+        notes,
+        created_by: editingId ? undefined : session.user.id,
+      });
+      resetForm();
+      await refreshRoster();
+    } catch (err: any) {
+      setErrorMsg(err.message || 'Failed to save shift');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleDelete = async (shift: PlannedShift) => {
+    if (!shift.id || !window.confirm(`Remove ${getDriverName(shift.user_id)}'s shift on ${format(new Date(shift.shift_start), 'EEE d MMM')}?`)) {
+      return;
+    }
+    try {
+      setActionLoading(true);
+      setErrorMsg(null);
+      await deletePlannedShift(shift.id);
+      if (editingId === shift.id) resetForm();
+      await refreshRoster();
+    } catch (err: any) {
+      setErrorMsg(err.message || 'Failed to remove shift');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const getDriverName = (userId: string): string => {
+    const driver = drivers.find((profile) => profile.id === userId);
+    return driver ? getDisplayName(driver) : 'Unknown driver';
+  };
+
+  const getSiteName = (id?: string | null): string | null =>
+    id ? sites.find((site) => site.id === id)?.name || null : null;
+
+  const days = Array.from({ length: ROSTER_DAYS }, (_, i) => addDays(weekStart, i));
+
+  return (
+    <div className="min-h-screen bg-gray-50 max-w-md mx-auto shadow-xl border-x border-gray-200 flex flex-col">
+      {/* Header */}
+      <header className="bg-white px-6 py-5 border-b border-gray-100 sticky top-0 z-10">
+        <div className="flex items-center gap-4">
+          <button
+            onClick={onBack}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <ArrowLeft size={24} className="text-gray-600" />
+          </button>
+          <div>
+            <h1 className="text-xl font-bold text-gray-900">Roster</h1>
+            <p className="text-sm text-gray-500">Planned shifts for each driver</p>
+          </div>
+        </div>
+      </header>
+
+      <main className="flex-1 p-6 space-y-6 overflow-y-auto">
+        {errorMsg && (
+          <div className="bg-red-50 text-red-700 p-4 rounded-xl flex items-start gap-3 text-sm">
+            <AlertCircle size={18} className="mt-0.5 shrink-0" />
+            <p>{errorMsg}</p>
+          </div>
+        )}
+
+        {/* Add / Edit Shift Form */}
+        <form onSubmit={handleSave} className="bg-white rounded-2xl p-6 shadow-sm border border-gray-100 space-y-4">
+          <div className="flex items-center justify-between">
+            <h2 className="font-semibold text-gray-900 flex items-center gap-2">
+              {editingId ? <Pencil size={18} /> : <Plus size={18} />}
+              {editingId ? 'Edit Shift' : 'Plan Shift'}
+            </h2>
+            {editingId && (
+              <button
+                type="button"
+                onClick={resetForm}
+                className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+                title="Cancel editing"
+              >
+                <X size={16} className="text-gray-600" />
+              </button>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Driver</label>
+            <select
+              value={driverId}
+              onChange={(e) => setDriverId(e.target.value)}
+              required
+              disabled={actionLoading}
+              className="w-full px-4 py-3 rounded-lg border border-gray-300 bg-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+            >
+              <option value="">Choose a driver</option>
+              {drivers.map((driver) => (
+                <option key={driver.id} value={driver.id}>
+                  {getDisplayName(driver)}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Date</label>
+            <input
+              type="date"
+              value={shiftDate}
+              onChange={(e) => setShiftDate(e.target.value)}
+              required
+              disabled={actionLoading}
+              className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Start</label>
+              <input
+                type="time"
+                value={startTime}
+                onChange={(e) => setStartTime(e.target.value)}
+                required
+                disabled={actionLoading}
+                className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">End</label>
+              <input
+                type="time"
+                value={endTime}
+                onChange={(e) => setEndTime(e.target.value)}
+                required
+                disabled={actionLoading}
+                className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Route or customer</label>
+            <input
+              type="text"
+              value={route}
+              onChange={(e) => setRoute(e.target.value)}
+              disabled={actionLoading}
+              className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+              placeholder="e.g. Klang – Ipoh delivery run"
+            />
+          </div>
+
+          {sites.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Site (optional)</label>
+              <select
+                value={siteId}
+                onChange={(e) => setSiteId(e.target.value)}
+                disabled={actionLoading}
+                className="w-full px-4 py-3 rounded-lg border border-gray-300 bg-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+              >
+                <option value="">No site</option>
+                {sites.map((site) => (
+                  <option key={site.id} value={site.id}>
+                    {site.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <label className="flex items-center gap-3 text-sm font-medium text-gray-700">
+            <input
+              type="checkbox"
+              checked={expectedOutstation}
+              onChange={(e) => setExpectedOutstation(e.target.checked)}
+              disabled={actionLoading}
+              className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+            />
+            Expected to be outstation
+          </label>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Notes (optional)</label>
+            <input
+              type="text"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              disabled={actionLoading}
+              className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+            />
+          </div>
+
+          <button
+            type="submit"
+            disabled={actionLoading}
+            className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-3 px-6 rounded-xl transition-colors disabled:opacity-50"
+          >
+            {actionLoading ? 'Saving...' : editingId ? 'Save Changes' : 'Add Shift'}
+          </button>
+        </form>
+
+        {/* Week Selector */}
+        <div className="flex items-center justify-between">
+          <button
+            onClick={() => setWeekStart(addDays(weekStart, -ROSTER_DAYS))}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            title="Previous week"
+          >
+            <ChevronLeft size={20} className="text-gray-600" />
+          </button>
+          <p className="text-sm font-semibold text-gray-700">
+            {format(weekStart, 'd MMM')} – {format(addDays(weekStart, ROSTER_DAYS - 1), 'd MMM yyyy')}
+          </p>
+          <button
+            onClick={() => setWeekStart(addDays(weekStart, ROSTER_DAYS))}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+            title="Next week"
+          >
+            <ChevronRight size={20} className="text-gray-600" />
+          </button>
+        </div>
+
+        {/* Shift List */}
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {days.map((day) => {
+              const dayShifts = shifts.filter(
+                (shift) => format(new Date(shift.shift_start), 'yyyy-MM-dd') === format(day, 'yyyy-MM-dd')
+              );
+              return (
+                <div key={day.toISOString()}>
+                  <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2">
+                    {format(day, 'EEEE, d MMM')}
+                  </h3>
+                  {dayShifts.length === 0 ? (
+                    <p className="text-xs text-gray-400 mb-2">No shifts planned.</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {dayShifts.map((shift) => (
+                        <div
+                          key={shift.id}
+                          className="bg-white p-4 rounded-xl border border-gray-100 shadow-sm flex justify-between items-center"
+                        >
+                          <div className="flex-1 min-w-0">
+                            <p className="font-medium text-gray-900 flex items-center gap-1">
+                              <CalendarClock size={14} className="text-indigo-500 shrink-0" />
+                              <span className="truncate">{getDriverName(shift.user_id)}</span>
+                            </p>
+                            <p className="text-sm text-gray-600">
+                              {format(new Date(shift.shift_start), 'h:mm a')} – {format(new Date(shift.shift_end), 'h:mm a')}
+                            </p>
+                            {(shift.route || getSiteName(shift.site_id)) && (
+                              <p className="text-xs text-gray-500 mt-0.5 flex items-center gap-1 truncate">
+                                <MapPin size={12} className="shrink-0" />
+                                {[shift.route, getSiteName(shift.site_id)].filter(Boolean).join(' · ')}
+                              </p>
+                            )}
+                            {shift.expected_outstation && (
+                              <span className="inline-flex items-center mt-1 px-2 py-0.5 rounded text-xs font-semibold bg-amber-100 text-amber-800 border border-amber-200">
+                                Outstation
+                              </span>
+                            )}
+                          </div>
+                          <div className="flex items-center shrink-0">
+                            <button
+                              onClick={() => handleEdit(shift)}
+                              disabled={actionLoading}
+                              className="p-2 text-gray-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
+                              title="Edit"
+                            >
+                              <Pencil size={16} />
+                            </button>
+                            <button
+                              onClick={() => handleDelete(shift)}
+                              disabled={actionLoading}
+                              className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                              title="Remove"
+                            >
+                              <Trash2 size={16} />
+                            </button>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default RosterManager;
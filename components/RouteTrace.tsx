@@ -0,0 +1,61 @@
+import React from 'react';
+import { WorkLogPoint } from '../types';
+
+interface RouteTraceProps {
+  points: WorkLogPoint[];
+}
+
+const WIDTH = 300;
+const HEIGHT = 160;
+const PADDING = 12;
+
+/**
+ * Outline of a recorded route, scaled to fit (no map tiles)
+ * Longitudes are shrunk by the cosine of the latitude so the shape is not stretched.
+ */
+const RouteTrace: React.FC<RouteTraceProps> = ({ points }) => {
+  if (points.length === 0) return null;
+
+  const meanLat = points.reduce((sum, point) => sum + point.lat, 0) / points.length;
+  const lngScale = Math.cos((meanLat * Math.PI) / 180);
+  const xs = points.map((point) => point.lng * lngScale);
+  const ys = points.map((point) => -point.lat);
+
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const spanX = Math.max(...xs) - minX;
+  const spanY = Math.max(...ys) - minY;
+  const scale = Math.min(
+    spanX > 0 ? (WIDTH - PADDING * 2) / spanX : Infinity,
+    spanY > 0 ? (HEIGHT - PADDING * 2) / spanY : Infinity
+  );
+  const fitScale = Number.isFinite(scale) ? scale : 0;
+
+  // Centre the route in the box
+  const offsetX = (WIDTH - spanX * fitScale) / 2;
+  const offsetY = (HEIGHT - spanY * fitScale) / 2;
+  const coords = points.map((_, i) => [
+    offsetX + (xs[i] - minX) * fitScale,
+    offsetY + (ys[i] - minY) * fitScale,
+  ]);
+
+  const [startX, startY] = coords[0];
+  const [endX, endY] = coords[coords.length - 1];
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-40 bg-gray-50 rounded-lg border border-gray-200">
+      <polyline
+        points={coords.map(([x, y]) => `${x.toFixed(1)},${y.toFixed(1)}`).join(' ')}
+        fill="none"
+        stroke="#4f46e5"
+        strokeWidth={2}
+        strokeLinejoin="round"
+        strokeLinecap="round"
+      />
+      <circle cx={startX} cy={startY} r={5} fill="#16a34a" />
+      <circle cx={endX} cy={endY} r={5} fill="#e11d48" />
+    </svg>
+  );
+};
+
+export default RouteTrace;
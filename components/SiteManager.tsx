@@ -0,0 +1,422 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { ArrowLeft, MapPinned, AlertCircle, Plus, Trash2, Pencil, Power, LocateFixed, X, Home } from 'lucide-react';
+import { Site, SiteType, UserProfile } from '../types';
+import {
+  SITE_TYPE_LABELS,
+  DEFAULT_SITE_RADIUS_METERS,
+  fetchSites,
+  saveSite,
+  deleteSite,
+} from '../services/siteService';
+import { fetchProfiles, getDisplayName, updateHomeSite } from '../services/profileService';
+
+interface SiteManagerProps {
+  onBack: () => void;
+}
+
+const SITE_TYPES = Object.keys(SITE_TYPE_LABELS) as SiteType[];
+
+const SiteManager: React.FC<SiteManagerProps> = ({ onBack }) => {
+  const [loading, setLoading] = useState(true);
+  const [sites, setSites] = useState<Site[]>([]);
+  const [drivers, setDrivers] = useState<UserProfile[]>([]);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [actionLoading, setActionLoading] = useState(false);
+
+  // Add / edit form state
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [siteName, setSiteName] = useState<string>('');
+  const [siteType, setSiteType] = useState<SiteType>('depot');
+  const [siteAddress, setSiteAddress] = useState<string>('');
+  const [siteLat, setSiteLat] = useState<string>('');
+  const [siteLng, setSiteLng] = useState<string>('');
+  const [siteRadius, setSiteRadius] = useState<string>(String(DEFAULT_SITE_RADIUS_METERS));
+
+  const refreshSites = useCallback(async () => {
+    try {
+      setLoading(true);
+      setErrorMsg(null);
+      const [allSites, profiles] = await Promise.all([fetchSites(true), fetchProfiles()]);
+      setSites(allSites);
+      setDrivers(profiles.filter((profile) => profile.role === 'driver'));
+    } catch (err: any) {
+      console.error('Error fetching sites:', err);
+      setErrorMsg(err.message || 'Failed to load sites.');
+      setSites([]);
+      setDrivers([]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshSites();
+  }, [refreshSites]);
+
+  const resetForm = () => {
+    setEditingId(null);
+    setSiteName('');
+    setSiteType('depot');
+    setSiteAddress('');
+    setSiteLat('');
+    setSiteLng('');
+    setSiteRadius(String(DEFAULT_SITE_RADIUS_METERS));
+  };
+
+  const handleEdit = (site: Site) => {
+    setEditingId(site.id || null);
+    setSiteName(site.name);
+    setSiteType(site.site_type);
+    setSiteAddress(site.address || '');
+    setSiteLat(String(site.lat));
+    setSiteLng(String(site.lng));
+    setSiteRadius(String(site.radius_meters));
+  };
+
+  // Fill the coordinates from where the supervisor is standing
+  const handleUseCurrentLocation = () => {
+    if (!navigator.geolocation) {
+      setErrorMsg('Geolocation is not supported by your browser');
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setSiteLat(position.coords.latitude.toFixed(6));
+        setSiteLng(position.coords.longitude.toFixed(6));
+      },
+      () => setErrorMsg('Unable to retrieve your location')
+    );
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const existing = sites.find((site) => site.id === editingId);
+    try {
+      setActionLoading(true);
+      setErrorMsg(null);
+
+      await saveSite({
+        id: editingId || undefined,
+        name: siteName,
+        site_type: siteType,
+        address: siteAddress,
+        lat: Number(siteLat),
+        lng: Number(siteLng),
+        radius_meters: Math.round(Number(siteRadius)),
+        is_active: existing ? existing.is_active : true,
+      });
+
+      resetForm();
+      await refreshSites();
+    } catch (err: any) {
+      setErrorMsg(err.message || 'Failed to save site');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleToggleActive = async (site: Site) => {
+    try {
+      setActionLoading(true);
+      setErrorMsg(null);
+      await saveSite({ ...site, is_active: !site.is_active });
+      await refreshSites();
+    } catch (err: any) {
+      setErrorMsg(err.message || 'Failed to update site');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleDelete = async (site: Site) => {
+    if (!site.id || !window.confirm(`Delete ${site.name}? Punches already matched to it will no longer show its name.`)) {
+      return;
+    }
+    try {
+      setActionLoading(true);
+      setErrorMsg(null);
+      await deleteSite(site.id);
+      if (editingId === site.id) resetForm();
+      await refreshSites();
+    } catch (err: any) {
+      setErrorMsg(err.message || 'Failed to delete site');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleHomeSiteChange = async (driver: UserProfile, siteId: string) => {
+    try {
+      setActionLoading(true);
+      setErrorMsg(null);
+      const updated = await updateHomeSite(driver.id, siteId || null);
+      setDrivers((current) => current.map((profile) => (profile.id === updated.id ? updated : profile)));
+    } catch (err: any) {
+      setErrorMsg(err.message || 'Failed to assign home depot');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const activeCount = sites.filter((site) => site.is_active).length;
+  const depots = sites.filter((site) => site.site_type === 'depot');
+
+  return (
+    <div className="min-h-screen bg-gray-50 max-w-md mx-auto shadow-xl border-x border-gray-200 flex flex-col">
+      {/* Header */}
+      <header className="bg-white px-6 py-5 border-b border-gray-100 sticky top-0 z-10">
+        <div className="flex items-center gap-4">
+          <button
+            onClick={onBack}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <ArrowLeft size={24} className="text-gray-600" />
+          </button>
+          <div>
+            <h1 className="text-xl font-bold text-gray-900">Sites</h1>
+            <p className="text-sm text-gray-500">Depots and customer sites for punch checks</p>
+          </div>
+        </div>
+      </header>
+
+      <main className="flex-1 p-6 space-y-6 overflow-y-auto">
+        {errorMsg && (
+          <div className="bg-red-50 text-red-700 p-4 rounded-xl flex items-start gap-3 text-sm">
+            <AlertCircle size={18} className="mt-0.5 shrink-0" />
+            <p className="whitespace-pre-line">{errorMsg}</p>
+          </div>
+        )}
+
+        {/* Add / Edit Site Form */}
+        <form onSubmit={handleSave} className="bg-white rounded-2xl p-6 shadow-sm border border-gray-100 space-y-4">
+          <div className="flex items-center justify-between">
+            <h2 className="font-semibold text-gray-900 flex items-center gap-2">
+              {editingId ? <Pencil size={18} /> : <Plus size={18} />}
+              {editingId ? 'Edit Site' : 'Add Site'}
+            </h2>
+            {editingId && (
+              <button
+                type="button"
+                onClick={resetForm}
+                className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+                title="Cancel editing"
+              >
+                <X size={16} className="text-gray-600" />
+              </button>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+            <input
+              type="text"
+              value={siteName}
+              onChange={(e) => setSiteName(e.target.value)}
+              required
+              disabled={actionLoading}
+              className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+              placeholder="e.g. Shah Alam Depot"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+            <select
+              value={siteType}
+              onChange={(e) => setSiteType(e.target.value as SiteType)}
+              disabled={actionLoading}
+              className="w-full px-4 py-3 rounded-lg border border-gray-300 bg-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+            >
+              {SITE_TYPES.map((type) => (
+                <option key={type} value={type}>
+                  {SITE_TYPE_LABELS[type]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Address (optional)</label>
+            <input
+              type="text"
+              value={siteAddress}
+              onChange={(e) => setSiteAddress(e.target.value)}
+              disabled={actionLoading}
+              className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Latitude</label>
+              <input
+                type="number"
+                step="any"
+                value={siteLat}
+                onChange={(e) => setSiteLat(e.target.value)}
+                required
+                disabled={actionLoading}
+                className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Longitude</label>
+              <input
+                type="number"
+                step="any"
+                value={siteLng}
+                onChange={(e) => setSiteLng(e.target.value)}
+                required
+                disabled={actionLoading}
+                className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+              />
+            </div>
+          </div>
+
+          <button
+            type="button"
+            onClick={handleUseCurrentLocation}
+            disabled={actionLoading}
+            className="w-full py-2 px-4 rounded-xl border border-indigo-200 text-indigo-600 hover:bg-indigo-50 text-sm font-medium flex items-center justify-center gap-2 transition-colors disabled:opacity-50"
+          >
+            <LocateFixed size={16} />
+            Use my current location
+          </button>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Radius (metres)</label>
+            <input
+              type="number"
+              min={10}
+              max={50000}
+              value={siteRadius}
+              onChange={(e) => setSiteRadius(e.target.value)}
+              required
+              disabled={actionLoading}
+              className="w-full px-4 py-3 rounded-lg border border-gray-300 focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+            />
+          </div>
+
+          <button
+            type="submit"
+            disabled={actionLoading}
+            className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-3 px-6 rounded-xl transition-colors disabled:opacity-50"
+          >
+            {actionLoading ? 'Saving...' : editingId ? 'Save Changes' : 'Add Site'}
+          </button>
+        </form>
+
+        {/* Site List */}
+        <div>
+          <p className="text-sm text-gray-500 mb-3">
+            {activeCount} active site{activeCount !== 1 ? 's' : ''}
+            {activeCount === 0 && ' — punches are not checked until a site is added'}
+          </p>
+
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {sites.length === 0 ? (
+                <p className="text-center text-gray-400 text-sm py-4">No sites yet.</p>
+              ) : (
+                sites.map((site) => (
+                  <div
+                    key={site.id}
+                    className={`bg-white p-4 rounded-xl border border-gray-100 shadow-sm flex justify-between items-center ${site.is_active ? '' : 'opacity-60'}`}
+                  >
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-gray-900 flex items-center gap-1">
+                        <MapPinned size={14} className="text-indigo-500 shrink-0" />
+                        <span className="truncate">{site.name}</span>
+                      </p>
+                      {site.address && (
+                        <p className="text-xs text-gray-500 mt-0.5 truncate">{site.address}</p>
+                      )}
+                      <div className="flex flex-wrap items-center gap-1 mt-1">
+                        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-semibold ${
+                          site.site_type === 'depot'
+                            ? 'bg-indigo-100 text-indigo-800 border border-indigo-200'
+                            : 'bg-gray-100 text-gray-800 border border-gray-200'
+                        }`}>
+                          {SITE_TYPE_LABELS[site.site_type]}
+                        </span>
+                        <span className="text-xs text-gray-500">{site.radius_meters} m radius</span>
+                        {!site.is_active && (
+                          <span className="text-xs text-gray-500">· Inactive</span>
+                        )}
+                      </div>
+                    </div>
+                    <div className="flex items-center shrink-0">
+                      <button
+                        onClick={() => handleEdit(site)}
+                        disabled={actionLoading}
+                        className="p-2 text-gray-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
+                        title="Edit"
+                      >
+                        <Pencil size={16} />
+                      </button>
+                      <button
+                        onClick={() => handleToggleActive(site)}
+                        disabled={actionLoading}
+                        className={`p-2 rounded-lg transition-colors ${site.is_active ? 'text-green-600 hover:bg-green-50' : 'text-gray-400 hover:bg-gray-100'}`}
+                        title={site.is_active ? 'Deactivate' : 'Activate'}
+                      >
+                        <Power size={16} />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(site)}
+                        disabled={actionLoading}
+                        className="p-2 text-gray-500 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                        title="Delete"
+                      >
+                        <Trash2 size={16} />
+                      </button>
+                    </div>
+                  </div>
+                ))
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Home Depots */}
+        {!loading && drivers.length > 0 && (
+          <div className="bg-white rounded-2xl p-6 shadow-sm border border-gray-100 space-y-4">
+            <h2 className="font-semibold text-gray-900 flex items-center gap-2">
+              <Home size={18} />
+              Home Depots
+            </h2>
+            <p className="text-xs text-gray-500">
+              Outstation is detected from each driver's distance to their home depot. Drivers without one declare it themselves.
+            </p>
+            <div className="divide-y divide-gray-100">
+              {drivers.map((driver) => (
+                <div key={driver.id} className="py-3 flex items-center justify-between gap-3">
+                  <p className="text-sm font-medium text-gray-900 truncate min-w-0">{getDisplayName(driver)}</p>
+                  <select
+                    value={driver.home_site_id || ''}
+                    onChange={(e) => handleHomeSiteChange(driver, e.target.value)}
+                    disabled={actionLoading}
+                    className="px-3 py-2 border border-gray-300 rounded-lg bg-white text-sm text-gray-900 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent disabled:opacity-50"
+                  >
+                    <option value="">No home depot</option>
+                    {depots.map((site) => (
+                      <option key={site.id} value={site.id}>
+                        {site.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default SiteManager;
@@ -1,11 +1,19 @@
 import React, { useState, useEffect } from 'react';
 import { differenceInSeconds } from 'date-fns';
+import { Navigation } from 'lucide-react';
+import { startRouteSampling } from '../services/routeService';
 
 interface TimerProps {
   startTime: string;
+  // Record the route while the timer runs (omit to leave route logging off)
+  routeLogging?: {
+    workLogId: string;
+    userId: string;
+    intervalSeconds: number;
+  };
 }
 
-const Timer: React.FC<TimerProps> = ({ startTime }) => {
+const Timer: React.FC<TimerProps> = ({ startTime, routeLogging }) => {
   const [elapsed, setElapsed] = useState<string>("00:00:00");
 
   useEffect(() => {
@@ -29,9 +37,22 @@ const Timer: React.FC<TimerProps> = ({ startTime }) => {
     return () => clearInterval(interval);
   }, [startTime]);
 
+  // Sample the route for as long as the session is shown as running
+  useEffect(() => {
+    if (!routeLogging) return;
+    return startRouteSampling(routeLogging.workLogId, routeLogging.userId, routeLogging.intervalSeconds);
+  }, [routeLogging?.workLogId, routeLogging?.userId, routeLogging?.intervalSeconds]);
+
   return (
-    <div className="font-mono text-xl font-bold text-gray-800">
-      Working for {elapsed}
+    <div>
+      <div className="font-mono text-xl font-bold text-gray-800">
+        Working for {elapsed}
+      </div>
+      {routeLogging && (
+        <p className="text-xs text-gray-400 mt-1 flex items-center gap-1">
+          <Navigation size={10} /> Route is being recorded
+        </p>
+      )}
     </div>
   );
 };
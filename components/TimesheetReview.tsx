@@ -0,0 +1,202 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { ArrowLeft, CalendarCheck, AlertCircle, Check, X } from 'lucide-react';
+import { UserProfile, Timesheet, PayrollResult } from '../types';
+import { fetchSubmittedTimesheets, approveTimesheet, rejectTimesheet } from '../services/timesheetService';
+import { fetchMonthlyPayroll } from '../services/payrollService';
+import { fetchProfiles, getDisplayName } from '../services/profileService';
+
+interface TimesheetReviewProps {
+  onBack: () => void;
+}
+
+// Year and 1-based month of a timesheet's period
+const getPeriod = (timesheet: Timesheet): { year: number; month: number } => {
+  const [year, month] = timesheet.period_start.split('-').map(Number);
+  return { year, month };
+};
+
+const loadPayroll = (timesheet: Timesheet): Promise<PayrollResult> => {
+  const { year, month } = getPeriod(timesheet);
+  return fetchMonthlyPayroll(timesheet.user_id, year, month);
+};
+
+const TimesheetReview: React.FC<TimesheetReviewProps> = ({ onBack }) => {
+  const [loading, setLoading] = useState(true);
+  const [timesheets, setTimesheets] = useState<Timesheet[]>([]);
+  const [payrolls, setPayrolls] = useState<Map<string, PayrollResult>>(new Map());
+  const [profiles, setProfiles] = useState<Map<string, UserProfile>>(new Map());
+  const [reviewNotes, setReviewNotes] = useState<Record<string, string>>({});
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [actionLoading, setActionLoading] = useState(false);
+
+  const refreshTimesheets = useCallback(async () => {
+    try {
+      setLoading(true);
+      setErrorMsg(null);
+      const [submitted, allProfiles] = await Promise.all([
+        fetchSubmittedTimesheets(),
+        fetchProfiles(),
+      ]);
+      const monthPayrolls = await Promise.all(submitted.map(loadPayroll));
+      setTimesheets(submitted);
+      setPayrolls(new Map(submitted.map((timesheet, index) => [timesheet.id, monthPayrolls[index]])));
+      setProfiles(new Map(allProfiles.map((profile) => [profile.id, profile])));
+    } catch (err: any) {
+      console.error('Error fetching timesheets:', err);
+      setErrorMsg(err.message || 'Failed to load timesheets.');
+      setTimesheets([]);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshTimesheets();
+  }, [refreshTimesheets]);
+
+  const handleApprove = async (timesheet: Timesheet) => {
+    try {
+      setActionLoading(true);
+      setErrorMsg(null);
+      // Freeze the month as it stands now, not as it was when the page loaded
+      const payroll = await loadPayroll(timesheet);
+      await approveTimesheet(timesheet.id, payroll, reviewNotes[timesheet.id]);
+      await refreshTimesheets();
+    } catch (err: any) {
+      setErrorMsg(err.message || 'Failed to approve timesheet');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleReject = async (timesheet: Timesheet) => {
+    try {
+      setActionLoading(true);
+      setErrorMsg(null);
+      await rejectTimesheet(timesheet.id, reviewNotes[timesheet.id]);
+      await refreshTimesheets();
+    } catch (err: any) {
+      setErrorMsg(err.message || 'Failed to reject timesheet');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const getDriverName = (userId: string): string => {
+    const profile = profiles.get(userId);
+    return profile ? getDisplayName(profile) : 'Unknown driver';
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 max-w-md mx-auto shadow-xl border-x border-gray-200 flex flex-col">
+      {/* Header */}
+      <header className="bg-white px-6 py-5 border-b border-gray-100 sticky top-0 z-10">
+        <div className="flex items-center gap-4">
+          <button
+            onClick={onBack}
+            className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <ArrowLeft size={24} className="text-gray-600" />
+          </button>
+          <h1 className="text-xl font-bold text-gray-900">Timesheets</h1>
+        </div>
+      </header>
+
+      <main className="flex-1 p-6 space-y-6 overflow-y-auto">
+        {errorMsg && (
+          <div className="bg-red-50 text-red-700 p-4 rounded-xl flex items-start gap-3 text-sm">
+            <AlertCircle size={18} className="mt-0.5 shrink-0" />
+            <p>{errorMsg}</p>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-indigo-600"></div>
+          </div>
+        ) : timesheets.length === 0 ? (
+          <div className="text-center py-8">
+            <CalendarCheck size={32} className="mx-auto text-gray-300 mb-2" />
+            <p className="text-gray-400 text-sm">No timesheets waiting for approval.</p>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {timesheets.map((timesheet) => {
+              const { year, month } = getPeriod(timesheet);
+              const payroll = payrolls.get(timesheet.id);
+              return (
+                <div key={timesheet.id} className="bg-white rounded-2xl p-5 shadow-sm border border-gray-100 space-y-3">
+                  <div className="flex items-start justify-between gap-3">
+                    <div>
+                      <p className="font-semibold text-gray-900">{getDriverName(timesheet.user_id)}</p>
+                      <p className="text-sm text-gray-600">{format(new Date(year, month - 1, 1), 'MMMM yyyy')}</p>
+                      <p className="text-xs text-gray-400">
+                        Submitted {format(new Date(timesheet.submitted_at), 'd MMM yyyy, h:mm a')}
+                      </p>
+                    </div>
+                    {payroll && (
+                      <div className="text-right">
+                        <p className="font-bold text-gray-900 whitespace-nowrap">RM {payroll.summary.grandTotal.toFixed(2)}</p>
+                        <p className="text-xs text-gray-500 whitespace-nowrap">Net RM {payroll.summary.netPay.toFixed(2)}</p>
+                      </div>
+                    )}
+                  </div>
+
+                  {payroll && (
+                    <div className="text-sm text-gray-600 space-y-1">
+                      <p>
+                        <span className="font-medium">Sessions:</span> {payroll.records.length}
+                        {' · '}
+                        <span className="font-medium">OT:</span> RM {payroll.summary.totalOTPay.toFixed(2)}
+                      </p>
+                      <p>
+                        <span className="font-medium">Attendance:</span> RM {payroll.summary.fullAttendanceReward.toFixed(2)}
+                        {' · '}
+                        <span className="font-medium">Claims:</span> RM {payroll.summary.approvedClaims.toFixed(2)}
+                      </p>
+                    </div>
+                  )}
+
+                  <input
+                    type="text"
+                    value={reviewNotes[timesheet.id] || ''}
+                    onChange={(e) => setReviewNotes({ ...reviewNotes, [timesheet.id]: e.target.value })}
+                    disabled={actionLoading}
+                    className="w-full px-3 py-2 rounded-lg border border-gray-300 text-sm focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500 outline-none transition-all"
+                    placeholder="Notes for the driver (optional)"
+                  />
+
+                  <p className="text-xs text-gray-500">
+                    Approving closes the month: its figures are frozen and its records can no longer be changed.
+                  </p>
+
+                  <div className="flex gap-3">
+                    <button
+                      onClick={() => handleReject(timesheet)}
+                      disabled={actionLoading}
+                      className="flex-1 flex items-center justify-center gap-2 py-2 rounded-xl border border-red-200 text-red-600 hover:bg-red-50 font-semibold text-sm transition-colors disabled:opacity-50"
+                    >
+                      <X size={16} />
+                      Return
+                    </button>
+                    <button
+                      onClick={() => handleApprove(timesheet)}
+                      disabled={actionLoading}
+                      className="flex-1 flex items-center justify-center gap-2 py-2 rounded-xl bg-emerald-500 hover:bg-emerald-600 text-white font-semibold text-sm transition-colors disabled:opacity-50"
+                    >
+                      <Check size={16} />
+                      Approve
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default TimesheetReview;
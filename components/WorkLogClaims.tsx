@@ -0,0 +1,153 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Car, Paperclip, Trash2, Plus, AlertCircle } from 'lucide-react';
+import { WorkLog, Claim, ClaimStatus } from '../types';
+import {
+  CLAIM_CATEGORY_LABELS,
+  CLAIM_STATUS_LABELS,
+  fetchClaimsForLog,
+  deleteClaim,
+  getReceiptUrl,
+} from '../services/claimService';
+import ClaimForm from './ClaimForm';
+
+interface WorkLogClaimsProps {
+  workLog: WorkLog;
+  canClaim: boolean; // Only the driver who owns the log can add or withdraw claims
+  mileageRatePerKm: number;
+  suggestedDistanceKm?: number;
+}
+
+const STATUS_STYLES: Record<ClaimStatus, string> = {
+  pending: 'bg-amber-100 text-amber-800 border border-amber-200',
+  approved: 'bg-green-100 text-green-800 border border-green-200',
+  rejected: 'bg-red-100 text-red-800 border border-red-200',
+};
+
+const WorkLogClaims: React.FC<WorkLogClaimsProps> = ({ workLog, canClaim, mileageRatePerKm, suggestedDistanceKm }) => {
+  const [claims, setClaims] = useState<Claim[]>([]);
+  const [showForm, setShowForm] = useState(false);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [actionLoading, setActionLoading] = useState(false);
+
+  const loadClaims = useCallback(async () => {
+    try {
+      setClaims(await fetchClaimsForLog(workLog.id));
+    } catch (err) {
+      console.error('Error fetching claims:', err);
+    }
+  }, [workLog.id]);
+
+  useEffect(() => {
+    loadClaims();
+  }, [loadClaims]);
+
+  const handleViewReceipt = async (claim: Claim) => {
+    if (!claim.receipt_path) return;
+    try {
+      setErrorMsg(null);
+      window.open(await getReceiptUrl(claim.receipt_path), '_blank', 'noopener');
+    } catch (err: any) {
+      setErrorMsg(err.message || 'Failed to open receipt');
+    }
+  };
+
+  const handleDelete = async (claim: Claim) => {
+    if (!window.confirm(`Withdraw this ${CLAIM_CATEGORY_LABELS[claim.category].toLowerCase()} claim?`)) {
+      return;
+    }
+    try {
+      setActionLoading(true);
+      setErrorMsg(null);
+      await deleteClaim(claim);
+      await loadClaims();
+    } catch (err: any) {
+      setErrorMsg(err.message || 'Failed to withdraw claim');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  // Claims can only be made once the session is closed
+  if (claims.length === 0 && !(canClaim && workLog.clock_out)) return null;
+
+  return (
+    <div className="space-y-3 border-t border-gray-200 pt-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <Car size={18} />
+          Claims
+        </h3>
+        {canClaim && workLog.clock_out && (
+          <button
+            onClick={() => setShowForm(true)}
+            className="flex items-center gap-1 text-sm font-semibold text-indigo-600 hover:text-indigo-700"
+          >
+            <Plus size={16} />
+            Add Claim
+          </button>
+        )}
+      </div>
+
+      {errorMsg && (
+        <div className="bg-red-50 text-red-700 p-3 rounded-xl flex items-start gap-2 text-sm">
+          <AlertCircle size={16} className="mt-0.5 shrink-0" />
+          <p>{errorMsg}</p>
+        </div>
+      )}
+
+      {claims.length === 0 ? (
+        <p className="text-sm text-gray-400">No mileage, toll, parking or fuel claimed for this session.</p>
+      ) : (
+        claims.map((claim) => (
+          <div key={claim.id} className="bg-gray-50 rounded-xl p-4 border border-gray-200 text-sm space-y-1">
+            <div className="flex items-center justify-between">
+              <span className="font-medium text-gray-900">
+                {CLAIM_CATEGORY_LABELS[claim.category]}
+                {claim.distance_km != null && ` · ${claim.distance_km.toFixed(1)} km`}
+              </span>
+              <span className={`px-2.5 py-0.5 rounded-full text-xs font-semibold ${STATUS_STYLES[claim.status]}`}>
+                {CLAIM_STATUS_LABELS[claim.status]}
+              </span>
+            </div>
+            <p className="font-semibold text-gray-900">RM {claim.amount.toFixed(2)}</p>
+            {claim.description && <p className="text-gray-500 italic">"{claim.description}"</p>}
+            {claim.review_notes && <p className="text-gray-500">Supervisor: {claim.review_notes}</p>}
+            <div className="flex items-center gap-4 pt-1">
+              {claim.receipt_path && (
+                <button
+                  onClick={() => handleViewReceipt(claim)}
+                  className="flex items-center gap-1 text-xs font-medium text-indigo-600 hover:text-indigo-700"
+                >
+                  <Paperclip size={12} />
+                  View receipt
+                </button>
+              )}
+              {canClaim && claim.status === 'pending' && (
+                <button
+                  onClick={() => handleDelete(claim)}
+                  disabled={actionLoading}
+                  className="flex items-center gap-1 text-xs font-medium text-red-600 hover:text-red-700 disabled:opacity-50"
+                >
+                  <Trash2 size={12} />
+                  Withdraw
+                </button>
+              )}
+            </div>
+          </div>
+        ))
+      )}
+
+      {showForm && (
+        <ClaimForm
+          workLog={workLog}
+          mileageRatePerKm={mileageRatePerKm}
+          suggestedDistanceKm={suggestedDistanceKm}
+          onClose={() => setShowForm(false)}
+          onSubmitted={loadClaims}
+        />
+      )}
+    </div>
+  );
+};
+
+export default WorkLogClaims;
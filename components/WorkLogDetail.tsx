@@ -1,102 +1,139 @@
 import React, { useState, useEffect } from 'react';
-import { format } from 'date-fns';
-import { X, MapPin, Clock, Calendar, Receipt, DollarSign } from 'lucide-react';
-import { WorkLog } from '../types';
-import { calculateOvertime, OT_CONSTANTS } from '../services/timeService';
-import { supabase } from '../supabaseClient';
+import { addDays, startOfDay } from 'date-fns';
+import { X, MapPin, MapPinned, MapPinOff, Clock, Calendar, Receipt, DollarSign, PencilLine, Home, Route, Coffee, CalendarClock } from 'lucide-react';
+import { WorkLog, PayProfile, OTCalculationBreakdown, Site, WorkLogPoint, ShiftComparison, DayType, Language } from '../types';
+import { fetchLogBreakdown } from '../services/payrollService';
+import { DEFAULT_PAY_PROFILE } from '../services/payProfileService';
+import { isHeldForReview } from '../services/sessionLimitService';
+import { fetchSitesByIds } from '../services/siteService';
+import { fetchRoutePoints, calculateRouteDistanceKm } from '../services/routeService';
+import { fetchPlannedShifts, findShiftForLog, compareShiftToLog } from '../services/rosterService';
+import { getTranslator, formatDate, formatCurrency, TranslationKey } from '../services/i18nService';
+import WorkLogHistory from './WorkLogHistory';
+import CorrectionRequestForm from './CorrectionRequestForm';
+import RouteTrace from './RouteTrace';
+import WorkLogClaims from './WorkLogClaims';
 
 interface WorkLogDetailProps {
   workLog: WorkLog;
   onClose: () => void;
+  canRequestCorrection?: boolean; // Only the driver who owns the log can request a correction
+  language: Language;
 }
 
-const WorkLogDetail: React.FC<WorkLogDetailProps> = ({ workLog, onClose }) => {
-  const [cumulativeMinutes, setCumulativeMinutes] = useState<number>(0);
+const WorkLogDetail: React.FC<WorkLogDetailProps> = ({ workLog, onClose, canRequestCorrection = false, language }) => {
+  const [breakdown, setBreakdown] = useState<OTCalculationBreakdown | null>(null);
+  const [payProfile, setPayProfile] = useState<PayProfile>(DEFAULT_PAY_PROFILE);
   const [loading, setLoading] = useState(true);
+  const [showCorrectionForm, setShowCorrectionForm] = useState(false);
+  const [historyRefreshKey, setHistoryRefreshKey] = useState(0);
+  const [sitesById, setSitesById] = useState<Map<string, Site>>(new Map());
+  const [routePoints, setRoutePoints] = useState<WorkLogPoint[]>([]);
+  const [shiftComparison, setShiftComparison] = useState<ShiftComparison | null>(null);
+
+  const t = getTranslator(language);
   
-  // Recalculate breakdown from stored data
   const clockIn = new Date(workLog.clock_in);
   const clockOut = workLog.clock_out ? new Date(workLog.clock_out) : null;
   
-  // Fetch cumulative minutes worked earlier in the same day
+  // Recalculate breakdown from stored data, including earlier sessions on the same day
+  // Sessions held for review earn no OT until a correction is approved
+  const heldForReview = isHeldForReview(workLog);
   useEffect(() => {
-    const fetchCumulativeMinutes = async () => {
-      if (!clockOut) {
-        setLoading(false);
-        return;
-      }
-      
+    const loadBreakdown = async () => {
       try {
-        // Get the date in YYYY-MM-DD format for comparison
-        const dateStr = format(clockIn, 'yyyy-MM-dd');
-        const dayStart = new Date(dateStr + 'T00:00:00');
-        const dayEnd = new Date(dateStr + 'T23:59:59');
-        
-        // Fetch all completed work logs for the same day, before the current session
-        // We need to find logs that started before the current session's clock_in time
-        const { data: sameDayLogs, error } = await supabase
-          .from('work_logs')
-          .select('duration_minutes, clock_in')
-          .eq('user_id', workLog.user_id)
-          .not('clock_out', 'is', null)
-          .neq('id', workLog.id) // Exclude current log
-          .gte('clock_in', dayStart.toISOString())
-          .lte('clock_in', dayEnd.toISOString())
-          .lt('clock_in', workLog.clock_in); // Only logs that started before this session
-        
-        if (!error && sameDayLogs) {
-          // Sum up all durations from earlier sessions today
-          const cumulative = sameDayLogs.reduce((sum, log) => sum + (log.duration_minutes || 0), 0);
-          setCumulativeMinutes(cumulative);
-        }
+        const result = await fetchLogBreakdown(workLog);
+        setBreakdown(result.breakdown);
+        setPayProfile(result.payProfile);
       } catch (err) {
-        console.error('Error fetching cumulative minutes:', err);
+        console.error('Error calculating breakdown:', err);
       } finally {
         setLoading(false);
       }
     };
     
-    fetchCumulativeMinutes();
-  }, [workLog.id, workLog.user_id, workLog.clock_in, clockOut]);
-  
-  // Calculate breakdown if clock out exists
-  // Use stored values for is_outstation and is_public_holiday to ensure consistency
-  // Include cumulative minutes for accurate calculation
-  const breakdown = clockOut && !loading
-    ? calculateOvertime(
-        clockIn, 
-        clockOut, 
-        workLog.is_outstation || false,
-        workLog.is_public_holiday || false,
-        cumulativeMinutes
-      )
-    : null;
+    loadBreakdown();
+  }, [workLog]);
+
+  // Matched sites are shown by name instead of the geocoded address
+  useEffect(() => {
+    fetchSitesByIds([workLog.clock_in_site_id, workLog.clock_out_site_id])
+      .then(setSitesById)
+      .catch((err) => console.error('Error fetching sites:', err));
+  }, [workLog.clock_in_site_id, workLog.clock_out_site_id]);
+
+  // Route sampled during the session, if route logging was on
+  useEffect(() => {
+    fetchRoutePoints(workLog.id)
+      .then(setRoutePoints)
+      .catch((err) => console.error('Error fetching route:', err));
+  }, [workLog.id]);
+
+  // Planned shift this session was worked against; overnight shifts may have
+  // started the day before the clock-in
+  useEffect(() => {
+    const dayStart = startOfDay(new Date(workLog.clock_in));
+    fetchPlannedShifts(addDays(dayStart, -1), addDays(dayStart, 2), workLog.user_id)
+      .then((shifts) => {
+        const shift = findShiftForLog(workLog, shifts);
+        setShiftComparison(shift ? compareShiftToLog(workLog, shift) : null);
+      })
+      .catch((err) => console.error('Error fetching planned shift:', err));
+  }, [workLog]);
+
+  const renderPunchLocation = (
+    siteId: string | null | undefined,
+    outsideGeofence: boolean | undefined,
+    outsideReason: string | null | undefined,
+    address: string | null | undefined,
+    postcode: string | null | undefined
+  ) => {
+    const site = siteId ? sitesById.get(siteId) : undefined;
+    return (
+      <>
+        <div className="flex items-start gap-2 mt-2">
+          {site ? (
+            <MapPinned size={16} className="text-indigo-500 mt-0.5 shrink-0" />
+          ) : (
+            <MapPin size={16} className="text-gray-400 mt-0.5 shrink-0" />
+          )}
+          <p className="text-sm text-gray-700 flex-1">
+            {site
+              ? <>{site.name} <span className="text-xs text-gray-500">({t(`siteType.${site.site_type}` as TranslationKey)})</span></>
+              : address || (postcode ? t('workLog.postcode', { postcode }) : t('workLog.locationUnavailable'))}
+          </p>
+        </div>
+        {outsideGeofence && (
+          <div className="mt-2 bg-amber-50 rounded-lg p-2 border border-amber-200 text-xs text-amber-800">
+            <p className="font-semibold flex items-center gap-1">
+              <MapPinOff size={12} />
+              {t('workLog.outsideAllSites')}
+            </p>
+            <p className="mt-0.5">{outsideReason || t('workLog.noReason')}</p>
+          </div>
+        )}
+      </>
+    );
+  };
 
   const totalHours = Math.floor(workLog.duration_minutes / 60);
   const totalMinutes = workLog.duration_minutes % 60;
-  const totalWorkDuration = `${totalHours}h ${totalMinutes}m`;
+  const totalWorkDuration = t('duration.hoursMinutes', { hours: totalHours, minutes: totalMinutes });
+
+  // Shifts crossing the day boundary are shown day by day
+  const isSplitShift = Boolean(breakdown && breakdown.segments.length > 1);
 
   // Format day type for display
-  const formatDayType = (dayType?: string): string => {
-    switch (dayType) {
-      case 'weekday':
-        return 'Weekday';
-      case 'weekend':
-        return 'Weekend';
-      case 'public_holiday':
-        return 'Public Holiday';
-      default:
-        return 'N/A';
-    }
-  };
+  const formatDayType = (dayType?: DayType): string =>
+    dayType ? t(`dayType.${dayType}` as TranslationKey) : t('common.notAvailable');
 
   // Format hours and minutes for display
   const formatDuration = (minutes: number): string => {
     const hours = Math.floor(minutes / 60);
     const mins = minutes % 60;
-    if (hours > 0 && mins > 0) return `${hours}h ${mins}m`;
-    if (hours > 0) return `${hours}h`;
-    return `${mins}m`;
+    if (hours > 0 && mins > 0) return t('duration.hoursMinutes', { hours, minutes: mins });
+    if (hours > 0) return t('duration.hours', { hours });
+    return t('duration.minutes', { minutes: mins });
   };
 
   // Format hours for display (decimal)
@@ -105,28 +142,18 @@ const WorkLogDetail: React.FC<WorkLogDetailProps> = ({ workLog, onClose }) => {
     return hours.replace(/\.?0+$/, ''); // Remove trailing zeros
   };
 
-  // Round minutes to 30-minute blocks with 7-minute grace - same as calculation logic
-  const roundToBlocks = (minutes: number): number => {
-    const BLOCK_MINUTES = 30;
-    if (minutes <= 0) return 0;
-    const fullBlocks = Math.floor(minutes / BLOCK_MINUTES);
-    const remainder = minutes % BLOCK_MINUTES;
-    const extraBlock = remainder > 7 ? 1 : 0;
-    return (fullBlocks + extraBlock) * BLOCK_MINUTES;
-  };
-
   // Format rounded hours for display (shows the rounded hours used in calculation)
-  const formatRoundedHours = (minutes: number): string => {
-    const roundedMinutes = roundToBlocks(minutes);
-    const hours = roundedMinutes / 60;
+  const formatRoundedHours = (paidMinutes: number): string => {
+    const hours = paidMinutes / 60;
     // Show with 2 decimal places if needed, otherwise as whole number
     return hours % 1 === 0 ? hours.toString() : hours.toFixed(2);
   };
 
-  const BASE_HOURLY_RATE = OT_CONSTANTS.BASE_HOURLY_RATE;
-  const RATE_1_5X = OT_CONSTANTS.RATE_1_5X;
-  const RATE_2X = OT_CONSTANTS.RATE_2X;
-  const RATE_3X = OT_CONSTANTS.RATE_3X;
+  const BASE_HOURLY_RATE = payProfile.base_hourly_rate;
+  const RATE_1_5X = payProfile.rate_weekday_ot;
+  const RATE_WEEKEND = payProfile.rate_weekend;
+  const RATE_2X = payProfile.rate_public_holiday;
+  const RATE_3X = payProfile.rate_public_holiday_ot;
 
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
@@ -142,18 +169,21 @@ const WorkLogDetail: React.FC<WorkLogDetailProps> = ({ workLog, onClose }) => {
           <div className="flex items-center gap-2 mb-2">
             <Calendar size={20} />
             <h2 className="text-xl font-bold">
-              {format(clockIn, 'MMM d, yyyy')}
+              {formatDate(clockIn, 'date.medium', language)}
             </h2>
           </div>
           <div className="flex items-baseline gap-2">
             <DollarSign size={24} />
             <span className="text-3xl font-bold">
-              RM {breakdown ? breakdown.totalOTAmount.toFixed(2) : workLog.overtime_amount.toFixed(2)}
+              {formatCurrency(breakdown ? breakdown.totalOTAmount : workLog.overtime_amount, language)}
             </span>
           </div>
           {breakdown && Math.abs(breakdown.totalOTAmount - workLog.overtime_amount) > 0.01 && (
             <p className="text-xs text-amber-200 mt-1 bg-amber-800/30 px-2 py-1 rounded">
-              ⚠️ Stored amount: RM {workLog.overtime_amount.toFixed(2)} | Recalculated: RM {breakdown.totalOTAmount.toFixed(2)} (showing recalculated)
+              {t('workLog.storedVsRecalculated', {
+                stored: formatCurrency(workLog.overtime_amount, language),
+                recalculated: formatCurrency(breakdown.totalOTAmount, language),
+              })}
             </p>
           )}
           {workLog.day_type && (
@@ -165,30 +195,44 @@ const WorkLogDetail: React.FC<WorkLogDetailProps> = ({ workLog, onClose }) => {
 
         {/* Content - Scrollable */}
         <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {/* Long-shift safeguards */}
+          {workLog.review_status && (
+            <div className="bg-amber-50 rounded-xl p-4 border border-amber-200 text-sm text-amber-800">
+              {heldForReview ? (
+                <p>
+                  {workLog.auto_closed_at ? t('workLog.autoClosed') : t('workLog.tooLong')}{' '}
+                  {t('workLog.otHeld')}
+                </p>
+              ) : (
+                <p>{t('workLog.flagged')}</p>
+              )}
+            </div>
+          )}
+
           {/* Time & Location Log */}
           <div className="space-y-4">
             <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
               <Clock size={18} />
-              Time & Location
+              {t('workLog.timeAndLocation')}
             </h3>
 
             {/* Check In */}
             <div className="bg-gray-50 rounded-xl p-4 border border-gray-200">
               <div className="flex items-start justify-between mb-2">
                 <span className="text-sm font-medium text-gray-500 uppercase tracking-wide">
-                  Check In
+                  {t('workLog.checkIn')}
                 </span>
                 <span className="text-sm font-semibold text-gray-900">
-                  {format(clockIn, 'h:mm a')}
+                  {formatDate(clockIn, 'date.time', language)}
                 </span>
               </div>
-              <div className="flex items-start gap-2 mt-2">
-                <MapPin size={16} className="text-gray-400 mt-0.5 shrink-0" />
-                <p className="text-sm text-gray-700 flex-1">
-                  {workLog.check_in_location || 
-                   (workLog.clock_in_postcode ? `Postcode: ${workLog.clock_in_postcode}` : 'Location not available')}
-                </p>
-              </div>
+              {renderPunchLocation(
+                workLog.clock_in_site_id,
+                workLog.clock_in_outside_geofence,
+                workLog.clock_in_outside_reason,
+                workLog.check_in_location,
+                workLog.clock_in_postcode
+              )}
             </div>
 
             {/* Check Out */}
@@ -196,72 +240,212 @@ const WorkLogDetail: React.FC<WorkLogDetailProps> = ({ workLog, onClose }) => {
               <div className="bg-gray-50 rounded-xl p-4 border border-gray-200">
                 <div className="flex items-start justify-between mb-2">
                   <span className="text-sm font-medium text-gray-500 uppercase tracking-wide">
-                    Check Out
+                    {t('workLog.checkOut')}
                   </span>
                   <span className="text-sm font-semibold text-gray-900">
-                    {format(clockOut, 'h:mm a')}
+                    {formatDate(clockOut, 'date.time', language)}
                   </span>
                 </div>
-                <div className="flex items-start gap-2 mt-2">
-                  <MapPin size={16} className="text-gray-400 mt-0.5 shrink-0" />
-                  <p className="text-sm text-gray-700 flex-1">
-                    {workLog.check_out_location || 
-                     (workLog.clock_out_postcode ? `Postcode: ${workLog.clock_out_postcode}` : 'Location not available')}
-                  </p>
-                </div>
+                {renderPunchLocation(
+                  workLog.clock_out_site_id,
+                  workLog.clock_out_outside_geofence,
+                  workLog.clock_out_outside_reason,
+                  workLog.check_out_location,
+                  workLog.clock_out_postcode
+                )}
               </div>
             ) : (
               <div className="bg-yellow-50 rounded-xl p-4 border border-yellow-200">
-                <p className="text-sm text-yellow-800">Not clocked out yet</p>
+                <p className="text-sm text-yellow-800">{t('workLog.notClockedOut')}</p>
+              </div>
+            )}
+
+            {/* Outstation decision */}
+            {workLog.outstation_rule && (
+              <div className="bg-amber-50 rounded-xl p-4 border border-amber-200 text-sm">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium text-amber-900 flex items-center gap-2">
+                    <Home size={16} />
+                    {workLog.is_outstation ? t('workLog.outstation') : t('workLog.notOutstation')}
+                  </span>
+                  <span className="text-xs text-amber-700">{t(`outstationRule.${workLog.outstation_rule}` as TranslationKey)}</span>
+                </div>
+                {workLog.outstation_distance_km != null && (
+                  <p className="text-xs text-amber-700 mt-1">
+                    {t(workLog.outstation_overnight ? 'workLog.distanceOvernight' : 'workLog.distanceNotOvernight', {
+                      distance: workLog.outstation_distance_km,
+                    })}
+                  </p>
+                )}
+                {workLog.outstation_declared !== undefined && workLog.outstation_declared !== workLog.is_outstation && (
+                  <p className="text-xs text-amber-700 mt-1">
+                    {workLog.outstation_declared ? t('workLog.declaredOutstation') : t('workLog.declaredNotOutstation')}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {/* Breaks logged during the session */}
+            {workLog.breaks && workLog.breaks.length > 0 && (
+              <div className="bg-sky-50 rounded-xl p-4 border border-sky-200 space-y-1">
+                <p className="text-sm font-medium text-sky-900 flex items-center gap-2">
+                  <Coffee size={16} />
+                  {t('workLog.breaks')}
+                </p>
+                {workLog.breaks.map((period) => (
+                  <p key={period.start} className="text-sm text-sky-800">
+                    {formatDate(new Date(period.start), 'date.time', language)} – {period.end ? formatDate(new Date(period.end), 'date.time', language) : t('workLog.untilClockOut')}
+                  </p>
+                ))}
               </div>
             )}
 
             {/* Total Duration */}
             <div className="bg-indigo-50 rounded-xl p-4 border border-indigo-200">
               <div className="flex items-center justify-between">
-                <span className="text-sm font-medium text-indigo-900">Total Work Duration</span>
+                <span className="text-sm font-medium text-indigo-900">{t('workLog.totalWorkDuration')}</span>
                 <span className="text-lg font-bold text-indigo-700">{totalWorkDuration}</span>
               </div>
             </div>
           </div>
 
+          {/* Planned Shift */}
+          {shiftComparison && (
+            <div className="space-y-3 border-t border-gray-200 pt-6">
+              <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+                <CalendarClock size={18} />
+                {t('workLog.plannedShift')}
+              </h3>
+              <div className="bg-gray-50 rounded-xl p-4 space-y-2 text-sm">
+                <div className="flex justify-between items-center">
+                  <span className="text-gray-600">{t('workLog.planned')}</span>
+                  <span className="font-medium text-gray-900">
+                    {formatDate(new Date(shiftComparison.shift.shift_start), 'date.time', language)} – {formatDate(new Date(shiftComparison.shift.shift_end), 'date.time', language)}
+                    {' '}({formatDuration(shiftComparison.plannedMinutes)})
+                  </span>
+                </div>
+                {clockOut && (
+                  <div className="flex justify-between items-center">
+                    <span className="text-gray-600">{t('workLog.actual')}</span>
+                    <span className="font-medium text-gray-900">{formatDuration(shiftComparison.actualMinutes)}</span>
+                  </div>
+                )}
+                {shiftComparison.shift.route && (
+                  <div className="flex justify-between items-center">
+                    <span className="text-gray-600">{t('workLog.route')}</span>
+                    <span className="font-medium text-gray-900">{shiftComparison.shift.route}</span>
+                  </div>
+                )}
+                <div className="flex justify-between items-center">
+                  <span className="text-gray-600">{t('workLog.outstationExpected')}</span>
+                  <span className="font-medium text-gray-900">{shiftComparison.shift.expected_outstation ? t('common.yes') : t('common.no')}</span>
+                </div>
+                {(shiftComparison.isLate || shiftComparison.leftEarly) && (
+                  <div className="flex flex-wrap gap-2 pt-1">
+                    {shiftComparison.isLate && (
+                      <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-semibold bg-red-100 text-red-800 border border-red-200">
+                        {t('shift.late', { duration: formatDuration(shiftComparison.lateMinutes) })}
+                      </span>
+                    )}
+                    {shiftComparison.leftEarly && (
+                      <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-semibold bg-orange-100 text-orange-800 border border-orange-200">
+                        {t('shift.leftEarly', { duration: formatDuration(shiftComparison.earlyLeaveMinutes) })}
+                      </span>
+                    )}
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Route */}
+          {routePoints.length > 1 && (
+            <div className="space-y-3 border-t border-gray-200 pt-6">
+              <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+                <Route size={18} />
+                {t('workLog.routeTitle')}
+              </h3>
+              <RouteTrace points={routePoints} />
+              <div className="flex justify-between items-center text-sm">
+                <span className="text-gray-600">{t('workLog.distanceDriven')}</span>
+                <span className="font-semibold text-gray-900">{calculateRouteDistanceKm(routePoints).toFixed(1)} km</span>
+              </div>
+              <p className="text-xs text-gray-500">
+                {t('workLog.routeSummary', {
+                  count: routePoints.length,
+                  start: formatDate(new Date(routePoints[0].recorded_at), 'date.time', language),
+                  end: formatDate(new Date(routePoints[routePoints.length - 1].recorded_at), 'date.time', language),
+                })}
+              </p>
+            </div>
+          )}
+
           {/* Calculation Breakdown */}
           {breakdown && (
             <div className="space-y-4 border-t border-gray-200 pt-6">
               <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
                 <Receipt size={18} />
-                Calculation Breakdown
+                {t('workLog.calculationBreakdown')}
               </h3>
 
               <div className="bg-white rounded-xl border-2 border-gray-200 p-5 space-y-4">
                 {/* Total Work Duration */}
                 <div className="pb-3 border-b border-gray-200">
                   <p className="text-sm font-medium text-gray-700">
-                    Total Work Duration: <span className="font-bold">{totalHours} Hours</span>
+                    {t('workLog.totalWorkDurationLabel')} <span className="font-bold">{t('workLog.hoursCount', { hours: totalHours })}</span>
                   </p>
+                  {breakdown.breakMinutes > 0 && (
+                    <p className="text-sm text-gray-600 mt-1">
+                      {t('workLog.unpaidBreaks')} <span className="font-medium">-{formatDuration(breakdown.breakMinutes)}</span>
+                      {!workLog.breaks?.length && ` ${t('workLog.automaticBreak', { duration: formatDuration(payProfile.auto_break_after_minutes) })}`}
+                    </p>
+                  )}
                 </div>
 
+                {/* Per-day segments for shifts that cross the day boundary */}
+                {isSplitShift && (
+                  <div className="space-y-3">
+                    {breakdown.segments.map((segment) => (
+                      <div key={segment.payDay} className="flex justify-between items-start text-sm">
+                        <div>
+                          <p className="font-medium text-gray-900">
+                            {formatDate(new Date(`${segment.payDay}T00:00:00`), 'date.weekdayDayMonth', language)} · {formatDayType(segment.dayType)}
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {formatDate(new Date(segment.start), 'date.time', language)} – {formatDate(new Date(segment.end), 'date.time', language)} ({formatDuration(segment.minutes)})
+                          </p>
+                        </div>
+                        <span className="font-semibold text-gray-900">{formatCurrency(segment.totalOTAmount, language)}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
                 {/* Weekday Calculation */}
-                {breakdown.dayType === 'weekday' && (
+                {!isSplitShift && breakdown.dayType === 'weekday' && (
                   <div className="space-y-3">
                     {breakdown.fixedOTHours > 0 && (
                       <div className="flex justify-between items-center text-sm">
                         <span className="text-gray-600">
-                          Standard Work (First {Math.round(breakdown.fixedOTHours)} hrs):
+                          {t('workLog.standardWork', { hours: Math.round(breakdown.fixedOTHours) })}
                         </span>
-                        <span className="font-medium text-gray-500">No OT pay</span>
+                        <span className="font-medium text-gray-500">{t('workLog.noOtPay')}</span>
                       </div>
                     )}
                     {breakdown.otHours1_5x > 0 && (
                       <div className="flex justify-between items-center text-sm">
                         <span className="text-gray-600">
-                          Overtime ({formatRoundedHours(breakdown.otMinutes1_5x)} hrs):
-                          {Math.abs(roundToBlocks(breakdown.otMinutes1_5x) - breakdown.otMinutes1_5x) > 0.5 && (
-                            <span className="text-xs text-gray-400 ml-1">({formatHours(breakdown.otMinutes1_5x)} hrs rounded up)</span>
+                          {t('workLog.overtime', { hours: formatRoundedHours(breakdown.paidMinutes1_5x) })}
+                          {breakdown.paidMinutes1_5x !== breakdown.otMinutes1_5x && (
+                            <span className="text-xs text-gray-400 ml-1">{t('workLog.roundedUp', { hours: formatHours(breakdown.otMinutes1_5x) })}</span>
                           )}
                         </span>
                         <span className="font-semibold text-gray-900 text-right">
-                          {formatRoundedHours(breakdown.otMinutes1_5x)} hrs × RM {(BASE_HOURLY_RATE * RATE_1_5X).toFixed(2)} = RM {breakdown.otAmount1_5x.toFixed(2)}
+                          {t('workLog.calculation', {
+                            hours: formatRoundedHours(breakdown.paidMinutes1_5x),
+                            rate: formatCurrency(BASE_HOURLY_RATE * RATE_1_5X, language),
+                            amount: formatCurrency(breakdown.otAmount1_5x, language),
+                          })}
                         </span>
                       </div>
                     )}
@@ -269,31 +453,22 @@ const WorkLogDetail: React.FC<WorkLogDetailProps> = ({ workLog, onClose }) => {
                 )}
 
                 {/* Weekend Calculation */}
-                {breakdown.dayType === 'weekend' && (
+                {!isSplitShift && breakdown.dayType === 'weekend' && (
                   <div className="space-y-3">
-                    {breakdown.otHours1x > 0 && (
-                      <div className="flex justify-between items-center text-sm">
-                        <span className="text-gray-600">
-                          OT Rate 1.0x ({formatRoundedHours(breakdown.otMinutes1x)} hrs):
-                          {Math.abs(roundToBlocks(breakdown.otMinutes1x) - breakdown.otMinutes1x) > 0.5 && (
-                            <span className="text-xs text-gray-400 ml-1">({formatHours(breakdown.otMinutes1x)} hrs rounded up)</span>
-                          )}
-                        </span>
-                        <span className="font-semibold text-gray-900 text-right">
-                          {formatRoundedHours(breakdown.otMinutes1x)} hrs × RM {BASE_HOURLY_RATE.toFixed(2)} = RM {breakdown.otAmount1x.toFixed(2)}
-                        </span>
-                      </div>
-                    )}
                     {breakdown.otHours1_5x > 0 && (
                       <div className="flex justify-between items-center text-sm">
                         <span className="text-gray-600">
-                          OT Rate 1.5x ({formatRoundedHours(breakdown.otMinutes1_5x)} hrs):
-                          {Math.abs(roundToBlocks(breakdown.otMinutes1_5x) - breakdown.otMinutes1_5x) > 0.5 && (
-                            <span className="text-xs text-gray-400 ml-1">({formatHours(breakdown.otMinutes1_5x)} hrs rounded up)</span>
+                          {t('workLog.otRate', { rate: RATE_WEEKEND.toFixed(1), hours: formatRoundedHours(breakdown.paidMinutes1_5x) })}
+                          {breakdown.paidMinutes1_5x !== breakdown.otMinutes1_5x && (
+                            <span className="text-xs text-gray-400 ml-1">{t('workLog.roundedUp', { hours: formatHours(breakdown.otMinutes1_5x) })}</span>
                           )}
                         </span>
                         <span className="font-semibold text-gray-900 text-right">
-                          {formatRoundedHours(breakdown.otMinutes1_5x)} hrs × RM {(BASE_HOURLY_RATE * RATE_1_5X).toFixed(2)} = RM {breakdown.otAmount1_5x.toFixed(2)}
+                          {t('workLog.calculation', {
+                            hours: formatRoundedHours(breakdown.paidMinutes1_5x),
+                            rate: formatCurrency(BASE_HOURLY_RATE * RATE_WEEKEND, language),
+                            amount: formatCurrency(breakdown.otAmount1_5x, language),
+                          })}
                         </span>
                       </div>
                     )}
@@ -301,31 +476,39 @@ const WorkLogDetail: React.FC<WorkLogDetailProps> = ({ workLog, onClose }) => {
                 )}
 
                 {/* Public Holiday Calculation */}
-                {breakdown.dayType === 'public_holiday' && (
+                {!isSplitShift && breakdown.dayType === 'public_holiday' && (
                   <div className="space-y-3">
                     {breakdown.otHours2x > 0 && (
                       <div className="flex justify-between items-center text-sm">
                         <span className="text-gray-600">
-                          OT Rate 2.0x ({formatRoundedHours(breakdown.otMinutes2x)} hrs):
-                          {Math.abs(roundToBlocks(breakdown.otMinutes2x) - breakdown.otMinutes2x) > 0.5 && (
-                            <span className="text-xs text-gray-400 ml-1">({formatHours(breakdown.otMinutes2x)} hrs rounded up)</span>
+                          {t('workLog.otRate', { rate: RATE_2X.toFixed(1), hours: formatRoundedHours(breakdown.paidMinutes2x) })}
+                          {breakdown.paidMinutes2x !== breakdown.otMinutes2x && (
+                            <span className="text-xs text-gray-400 ml-1">{t('workLog.roundedUp', { hours: formatHours(breakdown.otMinutes2x) })}</span>
                           )}
                         </span>
                         <span className="font-semibold text-gray-900 text-right">
-                          {formatRoundedHours(breakdown.otMinutes2x)} hrs × RM {(BASE_HOURLY_RATE * RATE_2X).toFixed(2)} = RM {breakdown.otAmount2x.toFixed(2)}
+                          {t('workLog.calculation', {
+                            hours: formatRoundedHours(breakdown.paidMinutes2x),
+                            rate: formatCurrency(BASE_HOURLY_RATE * RATE_2X, language),
+                            amount: formatCurrency(breakdown.otAmount2x, language),
+                          })}
                         </span>
                       </div>
                     )}
                     {breakdown.otHours3x > 0 && (
                       <div className="flex justify-between items-center text-sm">
                         <span className="text-gray-600">
-                          OT Rate 3.0x ({formatRoundedHours(breakdown.otMinutes3x)} hrs):
-                          {Math.abs(roundToBlocks(breakdown.otMinutes3x) - breakdown.otMinutes3x) > 0.5 && (
-                            <span className="text-xs text-gray-400 ml-1">({formatHours(breakdown.otMinutes3x)} hrs rounded up)</span>
+                          {t('workLog.otRate', { rate: RATE_3X.toFixed(1), hours: formatRoundedHours(breakdown.paidMinutes3x) })}
+                          {breakdown.paidMinutes3x !== breakdown.otMinutes3x && (
+                            <span className="text-xs text-gray-400 ml-1">{t('workLog.roundedUp', { hours: formatHours(breakdown.otMinutes3x) })}</span>
                           )}
                         </span>
                         <span className="font-semibold text-gray-900 text-right">
-                          {formatRoundedHours(breakdown.otMinutes3x)} hrs × RM {(BASE_HOURLY_RATE * RATE_3X).toFixed(2)} = RM {breakdown.otAmount3x.toFixed(2)}
+                          {t('workLog.calculation', {
+                            hours: formatRoundedHours(breakdown.paidMinutes3x),
+                            rate: formatCurrency(BASE_HOURLY_RATE * RATE_3X, language),
+                            amount: formatCurrency(breakdown.otAmount3x, language),
+                          })}
                         </span>
                       </div>
                     )}
@@ -336,8 +519,8 @@ const WorkLogDetail: React.FC<WorkLogDetailProps> = ({ workLog, onClose }) => {
                 {breakdown.mealAllowance > 0 && (
                   <div className="pt-3 border-t border-gray-200">
                     <div className="flex justify-between items-center text-sm">
-                      <span className="text-gray-600">Outstation Allowance:</span>
-                      <span className="font-semibold text-gray-900">RM {breakdown.mealAllowance.toFixed(2)}</span>
+                      <span className="text-gray-600">{t('workLog.outstationAllowance')}</span>
+                      <span className="font-semibold text-gray-900">{formatCurrency(breakdown.mealAllowance, language)}</span>
                     </div>
                   </div>
                 )}
@@ -345,9 +528,9 @@ const WorkLogDetail: React.FC<WorkLogDetailProps> = ({ workLog, onClose }) => {
                 {/* Total */}
                 <div className="pt-4 border-t-2 border-gray-300">
                   <div className="flex justify-between items-center">
-                    <span className="text-lg font-bold text-gray-900">Total:</span>
+                    <span className="text-lg font-bold text-gray-900">{t('workLog.total')}</span>
                     <span className="text-2xl font-bold text-indigo-600">
-                      RM {breakdown.totalAmount.toFixed(2)}
+                      {formatCurrency(breakdown.totalAmount, language)}
                     </span>
                   </div>
                 </div>
@@ -356,25 +539,51 @@ const WorkLogDetail: React.FC<WorkLogDetailProps> = ({ workLog, onClose }) => {
           )}
 
           {/* If no breakdown available */}
-          {!breakdown && (
+          {!breakdown && !loading && !heldForReview && (
             <div className="bg-yellow-50 rounded-xl p-4 border border-yellow-200">
               <p className="text-sm text-yellow-800">
-                Calculation breakdown not available. Please clock out to see detailed breakdown.
+                {t('workLog.noBreakdown')}
               </p>
             </div>
           )}
+
+          <WorkLogClaims
+            workLog={workLog}
+            canClaim={canRequestCorrection}
+            mileageRatePerKm={payProfile.mileage_rate_per_km}
+            suggestedDistanceKm={routePoints.length > 1 ? calculateRouteDistanceKm(routePoints) : undefined}
+          />
+
+          <WorkLogHistory workLog={workLog} refreshKey={historyRefreshKey} />
         </div>
 
         {/* Footer */}
-        <div className="border-t border-gray-200 p-4">
+        <div className="border-t border-gray-200 p-4 flex gap-3">
+          {canRequestCorrection && (
+            <button
+              onClick={() => setShowCorrectionForm(true)}
+              className="flex items-center justify-center gap-2 px-4 py-3 rounded-xl border border-gray-300 text-gray-700 hover:bg-gray-100 font-semibold transition-colors"
+            >
+              <PencilLine size={18} />
+              {t('workLog.requestCorrection')}
+            </button>
+          )}
           <button
             onClick={onClose}
-            className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-3 px-6 rounded-xl transition-colors"
+            className="flex-1 bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-3 px-6 rounded-xl transition-colors"
           >
-            Close
+            {t('common.close')}
           </button>
         </div>
       </div>
+
+      {showCorrectionForm && (
+        <CorrectionRequestForm
+          workLog={workLog}
+          onClose={() => setShowCorrectionForm(false)}
+          onSubmitted={() => setHistoryRefreshKey((key) => key + 1)}
+        />
+      )}
     </div>
   );
 };
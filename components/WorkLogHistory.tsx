@@ -0,0 +1,113 @@
+import React, { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { History } from 'lucide-react';
+import { WorkLog, WorkLogCorrection, WorkLogAuditEntry, CorrectionStatus } from '../types';
+import {
+  CORRECTION_STATUS_LABELS,
+  fetchCorrectionsForLog,
+  fetchWorkLogAudit,
+  getAuditChanges,
+} from '../services/correctionService';
+
+interface WorkLogHistoryProps {
+  workLog: WorkLog;
+  refreshKey?: number; // Bump to reload after a new correction request
+}
+
+const STATUS_STYLES: Record<CorrectionStatus, string> = {
+  pending: 'bg-amber-100 text-amber-800 border border-amber-200',
+  approved: 'bg-green-100 text-green-800 border border-green-200',
+  rejected: 'bg-red-100 text-red-800 border border-red-200',
+};
+
+// Format an audited value for display
+const formatAuditValue = (field: keyof WorkLog, value: unknown): string => {
+  if (value === null || value === undefined) return '—';
+  if (field === 'clock_in' || field === 'clock_out') return format(new Date(String(value)), 'd MMM, h:mm a');
+  if (field === 'overtime_amount') return `RM ${Number(value).toFixed(2)}`;
+  if (field === 'is_outstation') return value ? 'Yes' : 'No';
+  return String(value);
+};
+
+const WorkLogHistory: React.FC<WorkLogHistoryProps> = ({ workLog, refreshKey = 0 }) => {
+  const [corrections, setCorrections] = useState<WorkLogCorrection[]>([]);
+  const [auditEntries, setAuditEntries] = useState<WorkLogAuditEntry[]>([]);
+
+  useEffect(() => {
+    const loadHistory = async () => {
+      try {
+        const [correctionData, auditData] = await Promise.all([
+          fetchCorrectionsForLog(workLog.id),
+          fetchWorkLogAudit(workLog.id),
+        ]);
+        setCorrections(correctionData);
+        setAuditEntries(auditData);
+      } catch (err) {
+        // History is informational; the detail view still works without it
+        console.error('Error fetching work log history:', err);
+      }
+    };
+
+    loadHistory();
+  }, [workLog.id, refreshKey]);
+
+  // Skip entries where only untracked fields (e.g. location) changed
+  const changes = auditEntries
+    .map((entry) => ({ entry, fields: getAuditChanges(entry) }))
+    .filter(({ fields }) => fields.length > 0);
+
+  if (corrections.length === 0 && changes.length === 0) return null;
+
+  return (
+    <div className="space-y-4 border-t border-gray-200 pt-6">
+      <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+        <History size={18} />
+        Corrections & History
+      </h3>
+
+      {corrections.map((correction) => (
+        <div key={correction.id} className="bg-gray-50 rounded-xl p-4 border border-gray-200 text-sm space-y-1">
+          <div className="flex items-center justify-between">
+            <span className="font-medium text-gray-900">Correction request</span>
+            <span className={`px-2.5 py-0.5 rounded-full text-xs font-semibold ${STATUS_STYLES[correction.status]}`}>
+              {CORRECTION_STATUS_LABELS[correction.status]}
+            </span>
+          </div>
+          <p className="text-gray-700">
+            {format(new Date(correction.requested_clock_in), 'd MMM, h:mm a')} –{' '}
+            {format(new Date(correction.requested_clock_out), 'd MMM, h:mm a')}
+          </p>
+          <p className="text-gray-500 italic">"{correction.reason}"</p>
+          {correction.review_notes && (
+            <p className="text-xs text-gray-500">Supervisor: {correction.review_notes}</p>
+          )}
+          <p className="text-xs text-gray-400">Requested {format(new Date(correction.created_at), 'd MMM yyyy, h:mm a')}</p>
+        </div>
+      ))}
+
+      {changes.length > 0 && (
+        <ul className="space-y-3">
+          {changes.map(({ entry, fields }) => (
+            <li key={entry.id} className="text-xs border-l-2 border-indigo-200 pl-3">
+              <p className="text-gray-500 mb-1">
+                {format(new Date(entry.created_at), 'd MMM yyyy, h:mm a')}
+                {entry.action === 'correction' && ' · Approved correction'}
+                {entry.action === 'recalculation' && ' · Recalculated'}
+                {entry.action === 'delete' && ' · Deleted'}
+              </p>
+              {fields.map(({ field, label, before, after }) => (
+                <p key={field} className="text-gray-700">
+                  <span className="font-medium">{label}:</span>{' '}
+                  <span className="line-through text-gray-400">{formatAuditValue(field, before)}</span>{' '}
+                  → {formatAuditValue(field, after)}
+                </p>
+              ))}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default WorkLogHistory;
@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { X, Upload, AlertCircle, CheckCircle, FileDown } from 'lucide-react';
+import { WorkLogImportRow, WorkLogImportError } from '../types';
+import { validateWorkLogImport, importWorkLogs, downloadImportTemplate } from '../services/workLogSpreadsheetService';
+
+interface WorkLogImportProps {
+  userId: string;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+const WorkLogImport: React.FC<WorkLogImportProps> = ({ userId, onClose, onImported }) => {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rows, setRows] = useState<WorkLogImportRow[]>([]);
+  const [errors, setErrors] = useState<WorkLogImportError[]>([]);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [successMsg, setSuccessMsg] = useState<string | null>(null);
+  const [actionLoading, setActionLoading] = useState(false);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-selecting the same file after fixing it
+    if (!file) return;
+
+    try {
+      setActionLoading(true);
+      setErrorMsg(null);
+      setSuccessMsg(null);
+      setFileName(file.name);
+
+      const result = await validateWorkLogImport(userId, file);
+      setRows(result.rows);
+      setErrors(result.errors);
+    } catch (err: any) {
+      setErrorMsg(err.message || 'Failed to read file');
+      setRows([]);
+      setErrors([]);
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    try {
+      setActionLoading(true);
+      setErrorMsg(null);
+      const count = await importWorkLogs(userId, rows);
+      setSuccessMsg(`Imported ${count} work log${count !== 1 ? 's' : ''}.`);
+      setRows([]);
+      setFileName(null);
+      onImported();
+    } catch (err: any) {
+      setErrorMsg(err.message || 'Failed to import work logs');
+    } finally {
+      setActionLoading(false);
+    }
+  };
+
+  const canImport = rows.length > 0 && errors.length === 0 && !actionLoading;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-2xl w-full max-h-[90vh] overflow-hidden flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200">
+          <h2 className="text-lg font-bold text-gray-900">Import Work Logs</h2>
+          <button
+            onClick={onClose}
+            className="p-2 hover:bg-gray-100 rounded-full transition-colors"
+          >
+            <X size={20} className="text-gray-600" />
+          </button>
+        </div>
+
+        {/* Content - Scrollable */}
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          <p className="text-sm text-gray-600">
+            Upload a CSV or XLSX file with a header row. <span className="font-mono text-xs">clock_in</span> and{' '}
+            <span className="font-mono text-xs">clock_out</span> are required (e.g. 2026-01-05 08:00). Every row is
+            checked before anything is saved.
+          </p>
+          <button
+            onClick={downloadImportTemplate}
+            className="flex items-center gap-2 text-sm font-medium text-indigo-600 hover:text-indigo-700"
+          >
+            <FileDown size={16} />
+            Download template
+          </button>
+
+          <label className={`w-full border-2 border-dashed border-gray-300 rounded-xl py-6 flex flex-col items-center justify-center gap-2 text-sm font-medium text-gray-600 transition-colors ${actionLoading ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:border-indigo-400 hover:text-indigo-600'}`}>
+            <Upload size={20} />
+            {fileName || 'Choose .csv or .xlsx file'}
+            <input
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              onChange={handleFile}
+              disabled={actionLoading}
+              className="sr-only"
+            />
+          </label>
+
+          {errorMsg && (
+            <div className="bg-red-50 text-red-700 p-4 rounded-xl flex items-start gap-3 text-sm">
+              <AlertCircle size={18} className="mt-0.5 shrink-0" />
+              <p>{errorMsg}</p>
+            </div>
+          )}
+
+          {successMsg && (
+            <div className="bg-green-50 text-green-700 p-4 rounded-xl flex items-start gap-3 text-sm">
+              <CheckCircle size={18} className="mt-0.5 shrink-0" />
+              <p>{successMsg}</p>
+            </div>
+          )}
+
+          {/* Validation Errors */}
+          {errors.length > 0 && (
+            <div className="bg-red-50 rounded-xl p-4 border border-red-200">
+              <p className="text-sm font-semibold text-red-800 mb-2">
+                {errors.length} problem{errors.length !== 1 ? 's' : ''} found. Fix the file and upload it again.
+              </p>
+              <ul className="text-xs text-red-700 space-y-1 max-h-48 overflow-y-auto">
+                {errors.map((error, index) => (
+                  <li key={index}>
+                    <span className="font-semibold">Row {error.rowNumber}:</span> {error.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Valid Rows Preview */}
+          {rows.length > 0 && errors.length === 0 && (
+            <div className="border border-gray-200 rounded-xl overflow-hidden">
+              <table className="w-full text-xs">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500 uppercase">Row</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500 uppercase">Clock In</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500 uppercase">Clock Out</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500 uppercase">Type</th>
+                    <th className="px-3 py-2 text-left font-medium text-gray-500 uppercase">Outstation</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {rows.map((row) => (
+                    <tr key={row.rowNumber}>
+                      <td className="px-3 py-2 text-gray-500">{row.rowNumber}</td>
+                      <td className="px-3 py-2">{format(new Date(row.clock_in), 'd MMM yyyy h:mm a')}</td>
+                      <td className="px-3 py-2">{format(new Date(row.clock_out), 'd MMM yyyy h:mm a')}</td>
+                      <td className="px-3 py-2">{row.day_type}</td>
+                      <td className="px-3 py-2">{row.is_outstation ? 'Yes' : 'No'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="border-t border-gray-200 p-4">
+          <button
+            onClick={handleImport}
+            disabled={!canImport}
+            className="w-full bg-indigo-600 hover:bg-indigo-700 text-white font-semibold py-3 px-6 rounded-xl transition-colors disabled:opacity-50"
+          >
+            {actionLoading ? 'Processing...' : `Import ${rows.length} log${rows.length !== 1 ? 's' : ''}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WorkLogImport;
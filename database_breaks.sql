@@ -0,0 +1,364 @@
+-- ============================================================================
+-- Migration script to track breaks within a work session
+-- - Drivers start and end breaks from the dashboard while clocked in; the
+--   breaks are stored on the work log
+-- - Unpaid breaks are taken off each pay day before the weekday standard hours
+--   and the public holiday first tier are applied
+-- - Pay profiles can deduct a break automatically from long sessions in which
+--   no break was logged (e.g. 60 minutes after 6 hours)
+-- Run this in Supabase SQL Editor (after database_server_side_ot.sql)
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- COLUMNS (字段)
+-- ----------------------------------------------------------------------------
+
+-- Breaks as [{"start": ..., "end": ...}], oldest first; end is null while on a break
+-- 休息记录数组，按时间排序；休息中时 end 为空
+ALTER TABLE work_logs ADD COLUMN IF NOT EXISTS breaks JSONB NOT NULL DEFAULT '[]'::JSONB;
+ALTER TABLE work_logs ADD COLUMN IF NOT EXISTS break_minutes INTEGER;
+
+COMMENT ON COLUMN work_logs.breaks IS 'Breaks taken during the session, written by start_work_log_break / end_work_log_break';
+COMMENT ON COLUMN work_logs.break_minutes IS 'Unpaid break minutes deducted before OT (set by the database)';
+
+-- Break policy per pay profile; auto_break_minutes = 0 turns automatic deduction off
+-- 休息扣除规则：超过设定时长且未记录休息时自动扣除，0 表示不自动扣除
+ALTER TABLE pay_profiles
+ADD COLUMN IF NOT EXISTS auto_break_after_minutes INTEGER NOT NULL DEFAULT 360
+  CHECK (auto_break_after_minutes BETWEEN 0 AND 1440);
+ALTER TABLE pay_profiles
+ADD COLUMN IF NOT EXISTS auto_break_minutes INTEGER NOT NULL DEFAULT 0
+  CHECK (auto_break_minutes BETWEEN 0 AND 240);
+
+COMMENT ON COLUMN pay_profiles.auto_break_after_minutes IS 'Session length after which an unlogged break is deducted';
+COMMENT ON COLUMN pay_profiles.auto_break_minutes IS 'Minutes deducted from long sessions with no logged breaks (0 = off)';
+
+-- Example: deduct 1 hour from sessions over 6 hours, from 1 July 2025
+-- 示例：从 2025 年 7 月 1 日起，超过 6 小时的打卡自动扣除 1 小时
+-- INSERT INTO pay_profiles (user_id, name, effective_from, auto_break_after_minutes, auto_break_minutes, ...)
+-- VALUES ('<driver uuid>', 'Standard Driver Package', '2025-07-01', 360, 60, ...);
+
+-- ----------------------------------------------------------------------------
+-- HELPERS (辅助函数)
+-- Mirror getUnpaidBreaks in timeService.ts
+-- ----------------------------------------------------------------------------
+
+-- Unpaid breaks of a session: logged breaks (open ones end at clock-out), or with
+-- none logged, the automatic deduction straight after auto_break_after_minutes
+-- 未记录休息时，从设定时长处开始自动扣除，不超过下班时间
+CREATE OR REPLACE FUNCTION public.work_log_unpaid_breaks(
+  p_clock_in TIMESTAMPTZ,
+  p_clock_out TIMESTAMPTZ,
+  p_breaks JSONB,
+  p_profile pay_profiles
+)
+RETURNS TABLE (break_start TIMESTAMPTZ, break_end TIMESTAMPTZ)
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  v_auto_start TIMESTAMPTZ;
+BEGIN
+  IF p_clock_out IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF jsonb_array_length(COALESCE(p_breaks, '[]'::JSONB)) > 0 THEN
+    RETURN QUERY
+    SELECT
+      GREATEST((b->>'start')::TIMESTAMPTZ, p_clock_in),
+      LEAST(COALESCE((b->>'end')::TIMESTAMPTZ, p_clock_out), p_clock_out)
+    FROM jsonb_array_elements(p_breaks) b
+    WHERE LEAST(COALESCE((b->>'end')::TIMESTAMPTZ, p_clock_out), p_clock_out)
+      > GREATEST((b->>'start')::TIMESTAMPTZ, p_clock_in);
+    RETURN;
+  END IF;
+
+  v_auto_start := p_clock_in + make_interval(mins => COALESCE(p_profile.auto_break_after_minutes, 360));
+  IF COALESCE(p_profile.auto_break_minutes, 0) > 0 AND v_auto_start < p_clock_out THEN
+    break_start := v_auto_start;
+    break_end := LEAST(v_auto_start + make_interval(mins => p_profile.auto_break_minutes), p_clock_out);
+    RETURN NEXT;
+  END IF;
+END;
+$$;
+
+-- Whole minutes of a session's unpaid breaks that fall between two moments
+CREATE OR REPLACE FUNCTION public.unpaid_break_minutes_within(
+  p_clock_in TIMESTAMPTZ,
+  p_clock_out TIMESTAMPTZ,
+  p_breaks JSONB,
+  p_profile pay_profiles,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ
+)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(SUM(FLOOR(EXTRACT(EPOCH FROM (LEAST(break_end, p_to) - GREATEST(break_start, p_from))) / 60)), 0)::INTEGER
+  FROM public.work_log_unpaid_breaks(p_clock_in, p_clock_out, p_breaks, p_profile)
+  WHERE break_end > p_from AND break_start < p_to;
+$$;
+
+-- ----------------------------------------------------------------------------
+-- OT CALCULATION (加班计算)
+-- Same as database_server_side_ot.sql, with unpaid breaks taken off each pay day
+-- before rating it. Breaks of earlier sessions use the same profile's policy.
+-- 与原版相同，但每天先扣除未付薪的休息时间再计算
+-- ----------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION public.calculate_work_log_ot(p_log work_logs)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_tz TEXT := public.payroll_time_zone();
+  v_profile pay_profiles;
+  v_boundary INTERVAL;
+  v_state TEXT := public.state_from_postcode(p_log.clock_in_postcode);
+  v_total INTEGER := 0;
+  v_assigned INTEGER := 0;
+  v_index INTEGER := 0;
+  v_start TIMESTAMPTZ;
+  v_end TIMESTAMPTZ;
+  v_day_start TIMESTAMPTZ;
+  v_day_end TIMESTAMPTZ;
+  v_pay_day DATE;
+  v_day_type TEXT;
+  v_first_day_type TEXT;
+  v_minutes INTEGER;
+  v_break INTEGER;
+  v_prior INTEGER;
+  v_std INTEGER;
+  v_ot_1_5x INTEGER;
+  v_ot_2x INTEGER;
+  v_ot_3x INTEGER;
+  v_amount NUMERIC;
+  v_sum_break INTEGER := 0;
+  v_sum_1_5x INTEGER := 0;
+  v_sum_2x INTEGER := 0;
+  v_sum_3x INTEGER := 0;
+  v_sum_amount NUMERIC := 0;
+  v_segments JSONB := '[]'::JSONB;
+BEGIN
+  v_profile := public.pay_profile_for(p_log.user_id, (p_log.clock_in AT TIME ZONE v_tz)::DATE);
+  v_boundary := make_interval(mins => COALESCE(v_profile.day_boundary_minutes, 0));
+
+  IF p_log.clock_out IS NOT NULL AND p_log.clock_out > p_log.clock_in THEN
+    v_total := FLOOR(EXTRACT(EPOCH FROM (p_log.clock_out - p_log.clock_in)) / 60);
+    v_start := p_log.clock_in;
+
+    WHILE v_start < p_log.clock_out LOOP
+      v_pay_day := ((v_start AT TIME ZONE v_tz) - v_boundary)::DATE;
+      v_day_start := (v_pay_day::TIMESTAMP + v_boundary) AT TIME ZONE v_tz;
+      v_day_end := ((v_pay_day + 1)::TIMESTAMP + v_boundary) AT TIME ZONE v_tz;
+      v_end := LEAST(v_day_end, p_log.clock_out);
+
+      -- The last part takes the remainder so segment minutes add up to the shift
+      IF v_end = p_log.clock_out THEN
+        v_minutes := v_total - v_assigned;
+      ELSE
+        v_minutes := FLOOR(EXTRACT(EPOCH FROM (v_end - v_start)) / 60);
+      END IF;
+      v_assigned := v_assigned + v_minutes;
+
+      -- Unpaid breaks on this pay day are not worked time
+      v_break := LEAST(v_minutes, public.unpaid_break_minutes_within(
+        p_log.clock_in, p_log.clock_out, p_log.breaks, v_profile, v_start, v_end
+      ));
+      v_minutes := v_minutes - v_break;
+
+      IF v_index = 0 AND p_log.is_public_holiday THEN
+        v_day_type := 'public_holiday';
+      ELSE
+        v_day_type := public.day_type_for(v_pay_day, v_state);
+      END IF;
+      IF v_index = 0 THEN
+        v_first_day_type := v_day_type;
+      END IF;
+
+      -- Minutes worked in earlier sessions on this pay day, without their unpaid
+      -- breaks (held sessions do not count)
+      SELECT COALESCE(SUM(
+        FLOOR(EXTRACT(EPOCH FROM (LEAST(w.clock_out, v_day_end) - GREATEST(w.clock_in, v_day_start))) / 60)
+        - public.unpaid_break_minutes_within(w.clock_in, w.clock_out, w.breaks, v_profile, v_day_start, v_day_end)
+      ), 0)
+      INTO v_prior
+      FROM work_logs w
+      WHERE w.user_id = p_log.user_id
+        AND w.id <> p_log.id
+        AND w.clock_out IS NOT NULL
+        AND w.clock_in < p_log.clock_in
+        AND w.review_status IS DISTINCT FROM 'needs_review'
+        AND w.clock_in < v_day_end
+        AND w.clock_out > v_day_start;
+
+      v_ot_1_5x := 0;
+      v_ot_2x := 0;
+      v_ot_3x := 0;
+      IF v_day_type = 'weekday' THEN
+        -- First 9 hours of the day standard work, then OT at 1.5x
+        v_std := GREATEST(0, LEAST(v_minutes, v_profile.weekday_standard_minutes - v_prior));
+        v_ot_1_5x := v_minutes - v_std;
+        v_amount := public.round_to_blocks(v_ot_1_5x, v_profile.block_minutes, v_profile.block_grace_minutes) / 60.0
+          * v_profile.base_hourly_rate * v_profile.rate_weekday_ot;
+      ELSIF v_day_type = 'weekend' THEN
+        -- All overtime at 1.5x
+        v_ot_1_5x := v_minutes;
+        v_amount := public.round_to_blocks(v_ot_1_5x, v_profile.block_minutes, v_profile.block_grace_minutes) / 60.0
+          * v_profile.base_hourly_rate * v_profile.rate_weekend;
+      ELSE
+        -- First 9 hours of the day at 2.0x, after that 3.0x
+        v_ot_2x := GREATEST(0, LEAST(v_minutes, v_profile.public_holiday_first_tier_minutes - v_prior));
+        v_ot_3x := v_minutes - v_ot_2x;
+        v_amount := public.round_to_blocks(v_ot_2x, v_profile.block_minutes, v_profile.block_grace_minutes) / 60.0
+            * v_profile.base_hourly_rate * v_profile.rate_public_holiday
+          + public.round_to_blocks(v_ot_3x, v_profile.block_minutes, v_profile.block_grace_minutes) / 60.0
+            * v_profile.base_hourly_rate * v_profile.rate_public_holiday_ot;
+      END IF;
+
+      v_sum_break := v_sum_break + v_break;
+      v_sum_1_5x := v_sum_1_5x + v_ot_1_5x;
+      v_sum_2x := v_sum_2x + v_ot_2x;
+      v_sum_3x := v_sum_3x + v_ot_3x;
+      v_sum_amount := v_sum_amount + v_amount;
+
+      v_segments := v_segments || jsonb_build_object(
+        'pay_day', v_pay_day,
+        'start', v_start,
+        'end', v_end,
+        'minutes', v_minutes,
+        'break_minutes', v_break,
+        'day_type', v_day_type,
+        'prior_minutes', v_prior,
+        'ot_minutes_1_5x', v_ot_1_5x,
+        'ot_minutes_2x', v_ot_2x,
+        'ot_minutes_3x', v_ot_3x,
+        'ot_amount', ROUND(v_amount, 2)
+      );
+
+      v_start := v_end;
+      v_index := v_index + 1;
+    END LOOP;
+  END IF;
+
+  -- Open sessions take the day type of the clock-in day
+  IF v_first_day_type IS NULL THEN
+    v_first_day_type := CASE
+      WHEN p_log.is_public_holiday THEN 'public_holiday'
+      ELSE public.day_type_for(((p_log.clock_in AT TIME ZONE v_tz) - v_boundary)::DATE, v_state)
+    END;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'duration_minutes', v_total,
+    'break_minutes', v_sum_break,
+    'day_type', v_first_day_type,
+    'ot_minutes_1_5x', v_sum_1_5x,
+    'ot_minutes_2x', v_sum_2x,
+    'ot_minutes_3x', v_sum_3x,
+    'overtime_amount', ROUND(v_sum_amount, 2),
+    'meal_allowance', CASE
+      WHEN p_log.clock_out IS NOT NULL AND p_log.is_outstation THEN v_profile.meal_allowance
+      ELSE 0
+    END,
+    'segments', v_segments
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_work_log_ot()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_result JSONB := public.calculate_work_log_ot(NEW);
+BEGIN
+  NEW.duration_minutes := (v_result->>'duration_minutes')::INTEGER;
+  NEW.break_minutes := (v_result->>'break_minutes')::INTEGER;
+  NEW.day_type := v_result->>'day_type';
+  NEW.ot_minutes_1_5x := (v_result->>'ot_minutes_1_5x')::INTEGER;
+  NEW.ot_minutes_2x := (v_result->>'ot_minutes_2x')::INTEGER;
+  NEW.ot_minutes_3x := (v_result->>'ot_minutes_3x')::INTEGER;
+  NEW.meal_allowance := (v_result->>'meal_allowance')::NUMERIC;
+  NEW.ot_segments := v_result->'segments';
+
+  IF NEW.review_status = 'needs_review' THEN
+    NEW.overtime_amount := 0;
+  ELSE
+    NEW.overtime_amount := (v_result->>'overtime_amount')::NUMERIC;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- ----------------------------------------------------------------------------
+-- START / END BREAK (开始 / 结束休息)
+-- Server time is used, so breaks can only be recorded while online
+-- 使用服务器时间，需在线操作
+-- ----------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION public.start_work_log_break(p_log_id UUID)
+RETURNS work_logs
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_log work_logs;
+BEGIN
+  SELECT * INTO v_log FROM work_logs WHERE id = p_log_id AND user_id = auth.uid() FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Work log not found';
+  END IF;
+  IF v_log.clock_out IS NOT NULL THEN
+    RAISE EXCEPTION 'This session has already been clocked out';
+  END IF;
+  IF jsonb_array_length(v_log.breaks) > 0 AND (v_log.breaks->-1->>'end') IS NULL THEN
+    RAISE EXCEPTION 'You are already on a break';
+  END IF;
+
+  UPDATE work_logs
+  SET breaks = v_log.breaks || jsonb_build_array(jsonb_build_object('start', now(), 'end', NULL))
+  WHERE id = p_log_id
+  RETURNING * INTO v_log;
+
+  RETURN v_log;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.end_work_log_break(p_log_id UUID)
+RETURNS work_logs
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_log work_logs;
+BEGIN
+  SELECT * INTO v_log FROM work_logs WHERE id = p_log_id AND user_id = auth.uid() FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Work log not found';
+  END IF;
+  IF v_log.clock_out IS NOT NULL THEN
+    RAISE EXCEPTION 'This session has already been clocked out';
+  END IF;
+  IF jsonb_array_length(v_log.breaks) = 0 OR (v_log.breaks->-1->>'end') IS NOT NULL THEN
+    RAISE EXCEPTION 'You are not on a break';
+  END IF;
+
+  UPDATE work_logs
+  SET breaks = jsonb_set(v_log.breaks, ARRAY[(jsonb_array_length(v_log.breaks) - 1)::TEXT, 'end'], to_jsonb(now()))
+  WHERE id = p_log_id
+  RETURNING * INTO v_log;
+
+  RETURN v_log;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.start_work_log_break(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.end_work_log_break(UUID) TO authenticated;
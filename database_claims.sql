@@ -0,0 +1,178 @@
+-- ============================================================================
+-- Migration script to add mileage, toll, parking and fuel claims
+-- - Drivers attach claims to a work log, with a receipt photo in Storage
+-- - Mileage is claimed in km and priced by the database from the pay profile
+-- - Supervisors approve or reject claims; approved claims are paid with the month
+-- Run this in Supabase SQL Editor (after database_server_side_ot.sql)
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- COLUMN: mileage rate per pay profile (每公里里程费率)
+-- ----------------------------------------------------------------------------
+
+ALTER TABLE pay_profiles ADD COLUMN IF NOT EXISTS mileage_rate_per_km NUMERIC(10, 4) NOT NULL DEFAULT 0.60;
+
+COMMENT ON COLUMN pay_profiles.mileage_rate_per_km IS 'Amount paid per km of approved mileage claims';
+
+-- ----------------------------------------------------------------------------
+-- TABLE: claims (报销申请)
+-- ----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS claims (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  work_log_id UUID NOT NULL REFERENCES work_logs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- 'mileage': own vehicle, priced per km; 'toll', 'parking', 'fuel': receipt amount
+  -- mileage：按公里计算；toll / parking / fuel：按收据金额
+  category TEXT NOT NULL CHECK (category IN ('mileage', 'toll', 'parking', 'fuel')),
+  distance_km NUMERIC(8, 1) CHECK (distance_km > 0),
+  amount NUMERIC(10, 2) NOT NULL CHECK (amount >= 0),
+  description TEXT,
+  -- Object path in the claim-receipts bucket: <user_id>/<work_log_id>/<file>
+  -- 收据在 claim-receipts 存储桶中的路径
+  receipt_path TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  reviewed_by UUID REFERENCES auth.users(id),
+  reviewed_at TIMESTAMPTZ,
+  review_notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (category <> 'mileage' OR distance_km IS NOT NULL)
+);
+
+COMMENT ON TABLE claims IS 'Mileage, toll, parking and fuel claims attached to work logs';
+COMMENT ON COLUMN claims.amount IS 'Claimed amount; for mileage it is distance_km x the pay profile rate (set by the database)';
+COMMENT ON COLUMN claims.receipt_path IS 'Path of the receipt photo in the claim-receipts Storage bucket';
+
+CREATE INDEX IF NOT EXISTS idx_claims_work_log ON claims(work_log_id);
+CREATE INDEX IF NOT EXISTS idx_claims_pending ON claims(created_at) WHERE status = 'pending';
+
+-- Mileage is priced from the pay profile in effect on the day of the work log
+-- 里程金额按工作记录当天生效的薪资配置计算
+CREATE OR REPLACE FUNCTION public.set_claim_amount()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_clock_in TIMESTAMPTZ;
+  v_profile pay_profiles;
+BEGIN
+  IF NEW.category = 'mileage' THEN
+    SELECT clock_in INTO v_clock_in FROM work_logs WHERE id = NEW.work_log_id;
+    v_profile := public.pay_profile_for(
+      NEW.user_id,
+      (v_clock_in AT TIME ZONE public.payroll_time_zone())::DATE
+    );
+    NEW.amount := round(NEW.distance_km * COALESCE(v_profile.mileage_rate_per_km, 0.60), 2);
+  ELSE
+    NEW.distance_km := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS claims_set_amount ON claims;
+CREATE TRIGGER claims_set_amount
+  BEFORE INSERT ON claims
+  FOR EACH ROW EXECUTE FUNCTION public.set_claim_amount();
+
+-- ----------------------------------------------------------------------------
+-- REVIEW (审批)
+-- ----------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION public.review_claim(
+  p_claim_id UUID,
+  p_approve BOOLEAN,
+  p_review_notes TEXT DEFAULT NULL
+)
+RETURNS claims
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_claim claims;
+BEGIN
+  IF NOT public.is_supervisor() THEN
+    RAISE EXCEPTION 'Only supervisors can review claims';
+  END IF;
+
+  UPDATE claims
+  SET
+    status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+    reviewed_by = auth.uid(),
+    reviewed_at = now(),
+    review_notes = p_review_notes
+  WHERE id = p_claim_id AND status = 'pending'
+  RETURNING * INTO v_claim;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Claim not found or already reviewed';
+  END IF;
+
+  RETURN v_claim;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.review_claim(UUID, BOOLEAN, TEXT) TO authenticated;
+
+-- ----------------------------------------------------------------------------
+-- ROW LEVEL SECURITY AND COLUMN PRIVILEGES (行级安全与字段权限)
+-- ----------------------------------------------------------------------------
+
+ALTER TABLE claims ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read own claims" ON claims;
+CREATE POLICY "Users can read own claims" ON claims
+  FOR SELECT
+  USING (auth.uid() = user_id OR public.is_supervisor());
+
+-- Drivers claim against their own work logs
+-- 司机只能为自己的工作记录提交报销
+DROP POLICY IF EXISTS "Users can insert own claims" ON claims;
+CREATE POLICY "Users can insert own claims" ON claims
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (SELECT 1 FROM work_logs w WHERE w.id = work_log_id AND w.user_id = auth.uid())
+  );
+
+-- Drivers may withdraw a claim until it is reviewed
+-- 审批前司机可以撤回报销
+DROP POLICY IF EXISTS "Users can delete own pending claims" ON claims;
+CREATE POLICY "Users can delete own pending claims" ON claims
+  FOR DELETE
+  USING (auth.uid() = user_id AND status = 'pending');
+
+REVOKE INSERT, UPDATE ON claims FROM anon, authenticated;
+GRANT INSERT (work_log_id, user_id, category, distance_km, amount, description, receipt_path) ON claims TO authenticated;
+
+-- ----------------------------------------------------------------------------
+-- STORAGE: receipt photos (收据照片存储)
+-- Private bucket; files live under the uploader's user id
+-- ----------------------------------------------------------------------------
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('claim-receipts', 'claim-receipts', false)
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Users can upload own receipts" ON storage.objects;
+CREATE POLICY "Users can upload own receipts" ON storage.objects
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (bucket_id = 'claim-receipts' AND (storage.foldername(name))[1] = auth.uid()::TEXT);
+
+DROP POLICY IF EXISTS "Users can read own receipts" ON storage.objects;
+CREATE POLICY "Users can read own receipts" ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'claim-receipts'
+    AND ((storage.foldername(name))[1] = auth.uid()::TEXT OR public.is_supervisor())
+  );
+
+DROP POLICY IF EXISTS "Users can delete own receipts" ON storage.objects;
+CREATE POLICY "Users can delete own receipts" ON storage.objects
+  FOR DELETE
+  TO authenticated
+  USING (bucket_id = 'claim-receipts' AND (storage.foldername(name))[1] = auth.uid()::TEXT);
@@ -0,0 +1,20 @@
+-- ============================================================================
+-- Migration script to add a configurable day boundary to pay_profiles
+-- Shifts that cross the boundary (midnight by default) are split into per-day
+-- segments, each rated by its own day type. A boundary of 240 means the pay
+-- day runs from 4:00 AM to 4:00 AM, so a shift ending at 3:00 AM counts
+-- entirely towards the day it started.
+-- Run this in Supabase SQL Editor (after database_pay_profiles.sql)
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- COLUMN: day_boundary_minutes (工作日分界时间)
+-- ----------------------------------------------------------------------------
+
+-- Minutes after midnight at which one pay day ends and the next begins
+-- 每个工作日的分界时间（午夜后的分钟数），0 表示午夜
+ALTER TABLE pay_profiles
+ADD COLUMN IF NOT EXISTS day_boundary_minutes INTEGER NOT NULL DEFAULT 0
+  CHECK (day_boundary_minutes BETWEEN 0 AND 1439);
+
+COMMENT ON COLUMN pay_profiles.day_boundary_minutes IS 'Minutes after midnight at which the pay day changes; shifts crossing it are split per day';
@@ -0,0 +1,163 @@
+-- ============================================================================
+-- Migration script to cache reverse-geocoding results
+-- - Addresses and postcodes are cached per coordinate, rounded to 4 decimals
+--   (about 11 m), so repeated punches at the same place need no HTTP request
+-- - Only the reverse-geocode Edge Function writes the cache
+-- - Punches whose postcode came back as "Unknown" can be re-geocoded later,
+--   at most once a day per log
+-- Run this in Supabase SQL Editor (after database_server_side_ot.sql)
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- TABLE: geocode_cache (逆地理编码缓存)
+-- ----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS geocode_cache (
+  -- Coordinates rounded to 4 decimal places
+  -- 坐标四舍五入到小数点后 4 位
+  lat_key NUMERIC(7, 4) NOT NULL CHECK (lat_key BETWEEN -90 AND 90),
+  lng_key NUMERIC(8, 4) NOT NULL CHECK (lng_key BETWEEN -180 AND 180),
+  address TEXT NOT NULL,
+  postcode TEXT NOT NULL,
+  provider TEXT NOT NULL, -- Provider that answered, e.g. 'nominatim'
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (lat_key, lng_key)
+);
+
+COMMENT ON TABLE geocode_cache IS 'Reverse-geocoding results keyed by coordinates rounded to 4 decimals';
+
+ALTER TABLE geocode_cache ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can read geocode cache" ON geocode_cache;
+CREATE POLICY "Authenticated users can read geocode cache" ON geocode_cache
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Entries are only added by the reverse-geocode Edge Function (service role),
+-- which asks the provider itself; the first answer for a coordinate is kept.
+-- Clients cannot write, so no driver can set the address and postcode (and with
+-- it the public holiday state) that other drivers get for a location.
+-- 缓存只由 reverse-geocode Edge Function 写入（由服务器查询地址）；客户端只读，
+-- 避免司机写入错误的邮编影响其他司机的公共假期判断
+DROP POLICY IF EXISTS "Authenticated users can add to geocode cache" ON geocode_cache;
+
+REVOKE INSERT, UPDATE, DELETE ON geocode_cache FROM anon, authenticated;
+
+-- ----------------------------------------------------------------------------
+-- RE-GEOCODING (补充地址)
+-- Fill in the address of a punch that could not be geocoded at the time.
+-- Only punches still marked "Unknown" can be changed; the postcode decides the
+-- state for public holidays, so OT is recalculated by work_logs_set_ot.
+-- 仅可修改邮编仍为 "Unknown" 的打卡；邮编决定所属州的公共假期，OT 会自动重新计算
+-- ----------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION public.set_work_log_geocode(
+  p_log_id UUID,
+  p_punch TEXT, -- 'clock_in' or 'clock_out'
+  p_address TEXT,
+  p_postcode TEXT
+)
+RETURNS work_logs
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_log work_logs;
+BEGIN
+  IF p_punch NOT IN ('clock_in', 'clock_out') THEN
+    RAISE EXCEPTION 'Punch must be clock_in or clock_out';
+  END IF;
+  IF COALESCE(p_postcode, 'Unknown') = 'Unknown' THEN
+    RAISE EXCEPTION 'A postcode is required';
+  END IF;
+
+  SELECT * INTO v_log FROM work_logs WHERE id = p_log_id;
+
+  IF NOT FOUND OR (v_log.user_id <> auth.uid() AND NOT public.is_supervisor()) THEN
+    RAISE EXCEPTION 'Work log not found';
+  END IF;
+
+  IF p_punch = 'clock_in' THEN
+    IF COALESCE(v_log.clock_in_postcode, 'Unknown') <> 'Unknown' THEN
+      RETURN v_log;
+    END IF;
+    UPDATE work_logs
+    SET clock_in_postcode = p_postcode, check_in_location = p_address
+    WHERE id = p_log_id
+    RETURNING * INTO v_log;
+  ELSE
+    IF COALESCE(v_log.clock_out_postcode, 'Unknown') <> 'Unknown' THEN
+      RETURN v_log;
+    END IF;
+    UPDATE work_logs
+    SET clock_out_postcode = p_postcode, check_out_location = p_address
+    WHERE id = p_log_id
+    RETURNING * INTO v_log;
+  END IF;
+
+  RETURN v_log;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_work_log_geocode(UUID, TEXT, TEXT, TEXT) TO authenticated;
+
+-- ----------------------------------------------------------------------------
+-- TABLE: work_log_geocode_attempts (补充地址尝试记录)
+-- When each log was last picked for re-geocoding. Kept outside work_logs so the
+-- attempts are not audited or recalculated as changes to the log.
+-- 记录每条工作记录最近一次补充地址的时间（不写入 work_logs，避免产生审计记录）
+-- ----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS work_log_geocode_attempts (
+  work_log_id UUID PRIMARY KEY REFERENCES work_logs(id) ON DELETE CASCADE,
+  attempted_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE work_log_geocode_attempts IS 'Last re-geocoding attempt per work log, so failures are not retried on every refresh';
+
+ALTER TABLE work_log_geocode_attempts ENABLE ROW LEVEL SECURITY;
+
+-- Only written by claim_regeocode_work_logs
+-- 只能通过 claim_regeocode_work_logs 写入
+REVOKE ALL ON work_log_geocode_attempts FROM anon, authenticated;
+
+-- Logs with an "Unknown" punch that were not tried in the last day, newest first;
+-- they are stamped as attempted when returned
+-- 返回最近一天内未尝试过的 "Unknown" 打卡记录，并记录本次尝试
+CREATE OR REPLACE FUNCTION public.claim_regeocode_work_logs(
+  p_user_id UUID DEFAULT NULL, -- NULL: every log the caller can see
+  p_limit INTEGER DEFAULT 10
+)
+RETURNS SETOF work_logs
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH due AS (
+    SELECT w.id
+    FROM work_logs w
+    LEFT JOIN work_log_geocode_attempts a ON a.work_log_id = w.id
+    WHERE (p_user_id IS NULL OR w.user_id = p_user_id)
+      AND (w.user_id = auth.uid() OR public.is_supervisor())
+      AND (
+        (w.clock_in_postcode = 'Unknown' AND w.clock_in_lat IS NOT NULL)
+        OR (w.clock_out_postcode = 'Unknown' AND w.clock_out_lat IS NOT NULL)
+      )
+      AND (a.attempted_at IS NULL OR a.attempted_at < now() - INTERVAL '1 day')
+    ORDER BY w.clock_in DESC
+    LIMIT p_limit
+  ), stamped AS (
+    INSERT INTO work_log_geocode_attempts (work_log_id, attempted_at)
+    SELECT id, now() FROM due
+    ON CONFLICT (work_log_id) DO UPDATE SET attempted_at = EXCLUDED.attempted_at
+  )
+  SELECT w.*
+  FROM work_logs w
+  JOIN due ON due.id = w.id
+  ORDER BY w.clock_in DESC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.claim_regeocode_work_logs(UUID, INTEGER) TO authenticated;
@@ -0,0 +1,21 @@
+-- ============================================================================
+-- Migration script to store each user's UI language
+-- - The app is available in English, Bahasa Malaysia and Chinese; the choice
+--   follows the user to every device they sign in on
+-- - Users change it themselves under the existing "Users can update own name"
+--   policy, which only protects the role and home depot
+-- Run this in Supabase SQL Editor (after database_roles.sql)
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- COLUMN: UI language per user (用户界面语言)
+-- ----------------------------------------------------------------------------
+
+-- 'en' English, 'ms' Bahasa Malaysia, 'zh' Chinese; NULL until the user picks one,
+-- in which case the app keeps the language chosen on the device
+-- 'en' 英文，'ms' 马来文，'zh' 中文；未选择时为 NULL，应用沿用设备上选择的语言
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS language TEXT
+  CHECK (language IN ('en', 'ms', 'zh'));
+
+COMMENT ON COLUMN profiles.language IS 'UI language chosen by the user: en, ms or zh (NULL: not chosen yet)';
@@ -0,0 +1,96 @@
+-- ============================================================================
+-- Migration script to add the leaves table (leave and absence tracking)
+-- Used by the Attendance Allowance calculation on the Monthly Dashboard
+-- Run this in Supabase SQL Editor
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- TABLE (表)
+-- ----------------------------------------------------------------------------
+
+-- One row per leave day (or late arrival) per driver
+-- 每位司机每个请假日（或迟到）一行记录
+CREATE TABLE IF NOT EXISTS leaves (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  leave_date DATE NOT NULL,
+  -- Leave type: 'medical', 'annual', 'emergency' or 'late'
+  -- 请假类型：病假、年假、紧急假或迟到
+  leave_type TEXT NOT NULL
+    CHECK (leave_type IN ('medical', 'annual', 'emergency', 'late')),
+  notes TEXT,
+  -- Who recorded the leave (the driver themself or a supervisor)
+  -- 记录人（司机本人或主管）
+  recorded_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- A driver can only have one leave record per day
+  -- 每位司机每天只能有一条请假记录
+  UNIQUE (user_id, leave_date)
+);
+
+-- ----------------------------------------------------------------------------
+-- DOCUMENTATION (字段说明)
+-- ----------------------------------------------------------------------------
+
+COMMENT ON TABLE leaves IS 'Leave and absence records used for attendance allowance deductions';
+COMMENT ON COLUMN leaves.leave_date IS 'Calendar date of the leave day (local date, YYYY-MM-DD)';
+COMMENT ON COLUMN leaves.leave_type IS 'medical, annual or late: RM100 deduction per day; emergency: RM300 deduction per day';
+COMMENT ON COLUMN leaves.recorded_by IS 'User who recorded the leave (driver or supervisor)';
+
+-- ----------------------------------------------------------------------------
+-- INDEXES (索引 - 用于提高查询性能)
+-- ----------------------------------------------------------------------------
+
+-- Monthly lookups filter by user and date range
+CREATE INDEX IF NOT EXISTS idx_leaves_user_date ON leaves(user_id, leave_date);
+
+-- Filtering leave records by type
+CREATE INDEX IF NOT EXISTS idx_leaves_leave_type ON leaves(leave_type);
+
+-- ----------------------------------------------------------------------------
+-- ROW LEVEL SECURITY (行级安全)
+-- ----------------------------------------------------------------------------
+
+ALTER TABLE leaves ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own leaves" ON leaves;
+
+-- Drivers can read their own leave records
+-- 司机可以查看自己的请假记录
+DROP POLICY IF EXISTS "Users can read own leaves" ON leaves;
+CREATE POLICY "Users can read own leaves" ON leaves
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Drivers can report their own medical, annual and emergency leave, and delete
+-- only the records they reported; late arrivals and changes are recorded by
+-- supervisors (database_roles.sql)
+-- 司机只能申报自己的病假、年假和紧急假，并且只能删除自己申报的记录；迟到和修改由主管记录
+DROP POLICY IF EXISTS "Users can report own leaves" ON leaves;
+CREATE POLICY "Users can report own leaves" ON leaves
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND recorded_by = auth.uid()
+    AND leave_type IN ('medical', 'annual', 'emergency')
+  );
+
+DROP POLICY IF EXISTS "Users can delete own reported leaves" ON leaves;
+CREATE POLICY "Users can delete own reported leaves" ON leaves
+  FOR DELETE
+  USING (
+    auth.uid() = user_id
+    AND recorded_by = auth.uid()
+    AND leave_type IN ('medical', 'annual', 'emergency')
+  );
+
+-- ----------------------------------------------------------------------------
+-- VERIFICATION (验证 - 检查表是否创建成功)
+-- ----------------------------------------------------------------------------
+
+-- Uncomment to verify the table exists:
+-- SELECT column_name, data_type, is_nullable, column_default
+-- FROM information_schema.columns
+-- WHERE table_name = 'leaves'
+-- ORDER BY ordinal_position;
@@ -0,0 +1,261 @@
+-- ============================================================================
+-- Migration script to add reminders (push and email notifications)
+-- - Drivers are reminded when a session runs past N hours, when they have not
+--   clocked in by their rostered start, and when last month is ready to review
+-- - Each driver chooses which reminders they get and whether they arrive by
+--   Web Push or email
+-- - queue_notification_reminders() writes due reminders to the notifications
+--   outbox once each; the deliver-notifications Edge Function
+--   (supabase/functions) sends them by Web Push, falling back to email
+-- Run this in Supabase SQL Editor (after database_rosters.sql and database_timesheets.sql)
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- TABLE: notification_preferences (通知设置)
+-- Drivers without a row get the column defaults
+-- 未设置的司机使用默认值
+-- ----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  push_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  email_enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  remind_long_session BOOLEAN NOT NULL DEFAULT TRUE,
+  -- Remind once a session has been open this long
+  -- 打卡超过此时长后提醒下班打卡
+  long_session_hours NUMERIC(5,2) NOT NULL DEFAULT 10 CHECK (long_session_hours > 0),
+  remind_missed_clock_in BOOLEAN NOT NULL DEFAULT TRUE,
+  -- Remind this long after the rostered start without a clock-in
+  -- 排班开始后超过此分钟数仍未上班打卡则提醒
+  missed_clock_in_minutes INTEGER NOT NULL DEFAULT 15 CHECK (missed_clock_in_minutes >= 0),
+  remind_month_review BOOLEAN NOT NULL DEFAULT TRUE,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE notification_preferences IS 'Which reminders each driver receives, and how';
+
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read own notification preferences" ON notification_preferences;
+CREATE POLICY "Users can read own notification preferences" ON notification_preferences
+  FOR SELECT
+  USING (auth.uid() = user_id OR public.is_supervisor());
+
+DROP POLICY IF EXISTS "Users can insert own notification preferences" ON notification_preferences;
+CREATE POLICY "Users can insert own notification preferences" ON notification_preferences
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update own notification preferences" ON notification_preferences;
+CREATE POLICY "Users can update own notification preferences" ON notification_preferences
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- ----------------------------------------------------------------------------
+-- TABLE: push_subscriptions (推送订阅)
+-- One row per device that allowed notifications
+-- 每台允许通知的设备一行
+-- ----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS push_subscriptions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  endpoint TEXT NOT NULL UNIQUE,
+  p256dh TEXT NOT NULL,
+  auth TEXT NOT NULL,
+  user_agent TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE push_subscriptions IS 'Web Push subscriptions, used by the push sender to reach a driver''s devices';
+
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user ON push_subscriptions(user_id);
+
+ALTER TABLE push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own push subscriptions" ON push_subscriptions;
+CREATE POLICY "Users can manage own push subscriptions" ON push_subscriptions
+  FOR ALL
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- ----------------------------------------------------------------------------
+-- TABLE: notifications (通知发件箱)
+-- ----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('long_session', 'missed_clock_in', 'month_review')),
+  -- What the reminder is about (work log, planned shift or month), so each is sent once
+  -- 提醒对象（工作记录、班次或月份），每个对象只提醒一次
+  reference TEXT NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  delivered_at TIMESTAMPTZ,
+  -- NULL once delivered means nothing was sent: both channels were off, or
+  -- there was no device or email address (see delivery_error)
+  -- 已处理但为 NULL 表示未发送：司机关闭了所有通知方式，或没有可用的设备或电子邮件（见 delivery_error）
+  channel TEXT CHECK (channel IS NULL OR channel IN ('push', 'email')),
+  delivery_error TEXT,
+  UNIQUE (user_id, kind, reference)
+);
+
+COMMENT ON TABLE notifications IS 'Reminders queued for drivers, marked delivered once sent by push or email';
+
+CREATE INDEX IF NOT EXISTS idx_notifications_pending ON notifications(user_id, created_at) WHERE delivered_at IS NULL;
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read own notifications" ON notifications;
+CREATE POLICY "Users can read own notifications" ON notifications
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can mark own notifications delivered" ON notifications;
+
+-- Reminders are only queued by queue_notification_reminders and only delivered
+-- by the deliver-notifications Edge Function (service role)
+-- 提醒只能由 queue_notification_reminders 生成，并只能由 deliver-notifications 函数发送
+REVOKE INSERT, UPDATE, DELETE ON notifications FROM anon, authenticated;
+
+-- ----------------------------------------------------------------------------
+-- QUEUE DUE REMINDERS (生成到期提醒)
+-- Called by the deliver-notifications Edge Function for every driver, or by a
+-- signed-in driver for themselves
+-- ----------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION public.queue_notification_reminders()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid(); -- NULL when run with the service role: every driver
+  v_tz TEXT := public.payroll_time_zone();
+  v_last_month DATE := (date_trunc('month', now() AT TIME ZONE v_tz) - INTERVAL '1 month')::DATE;
+  v_count INTEGER;
+  v_total INTEGER := 0;
+BEGIN
+  -- Sessions still open after the driver's threshold
+  -- 打卡时长超过设定仍未下班
+  INSERT INTO notifications (user_id, kind, reference, title, body)
+  SELECT
+    w.user_id,
+    'long_session',
+    w.id::TEXT,
+    'Still clocked in?',
+    'You have been clocked in since ' || to_char(w.clock_in AT TIME ZONE v_tz, 'HH12:MI AM')
+      || '. Clock out if your shift has ended.'
+  FROM work_logs w
+  LEFT JOIN notification_preferences p ON p.user_id = w.user_id
+  WHERE w.clock_out IS NULL
+    AND (v_user_id IS NULL OR w.user_id = v_user_id)
+    AND COALESCE(p.remind_long_session, TRUE)
+    AND w.clock_in <= now() - make_interval(secs => COALESCE(p.long_session_hours, 10) * 3600)
+  ON CONFLICT (user_id, kind, reference) DO NOTHING;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_total := v_total + v_count;
+
+  -- Rostered shifts under way with no clock-in (from up to 2 hours before the start)
+  -- 排班已开始但仍未上班打卡（开始前 2 小时内的打卡也算）
+  INSERT INTO notifications (user_id, kind, reference, title, body)
+  SELECT
+    s.user_id,
+    'missed_clock_in',
+    s.id::TEXT,
+    'You have not clocked in',
+    'Your shift started at ' || to_char(s.shift_start AT TIME ZONE v_tz, 'HH12:MI AM')
+      || COALESCE(' (' || s.route || ')', '') || '. Clock in if you are working.'
+  FROM planned_shifts s
+  LEFT JOIN notification_preferences p ON p.user_id = s.user_id
+  WHERE (v_user_id IS NULL OR s.user_id = v_user_id)
+    AND COALESCE(p.remind_missed_clock_in, TRUE)
+    AND s.shift_start <= now() - make_interval(mins => COALESCE(p.missed_clock_in_minutes, 15))
+    AND s.shift_end > now()
+    AND NOT EXISTS (
+      SELECT 1 FROM work_logs w
+      WHERE w.user_id = s.user_id
+        AND (w.clock_out IS NULL OR w.clock_out > s.shift_start - INTERVAL '2 hours')
+        AND w.clock_in < s.shift_end
+    )
+  ON CONFLICT (user_id, kind, reference) DO NOTHING;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_total := v_total + v_count;
+
+  -- Last month has ended, has work logs and has not been submitted
+  -- 上月已结束、有工作记录但尚未提交工时表
+  INSERT INTO notifications (user_id, kind, reference, title, body)
+  SELECT DISTINCT
+    w.user_id,
+    'month_review',
+    v_last_month::TEXT,
+    to_char(v_last_month, 'FMMonth YYYY') || ' is ready to review',
+    'Check your hours and claims for ' || to_char(v_last_month, 'FMMonth') || ', then submit the month for approval.'
+  FROM work_logs w
+  LEFT JOIN notification_preferences p ON p.user_id = w.user_id
+  WHERE (v_user_id IS NULL OR w.user_id = v_user_id)
+    AND COALESCE(p.remind_month_review, TRUE)
+    AND date_trunc('month', w.clock_in AT TIME ZONE v_tz)::DATE = v_last_month
+    AND NOT EXISTS (
+      SELECT 1 FROM timesheets t
+      WHERE t.user_id = w.user_id AND t.period_start = v_last_month
+    )
+  ON CONFLICT (user_id, kind, reference) DO NOTHING;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_total := v_total + v_count;
+
+  RETURN v_total;
+END;
+$$;
+
+-- Signed-in drivers may also call it (for themselves only)
+REVOKE EXECUTE ON FUNCTION public.queue_notification_reminders() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.queue_notification_reminders() TO authenticated;
+
+-- ----------------------------------------------------------------------------
+-- CLAIM PENDING REMINDERS (领取待发送提醒)
+-- Marks a batch delivered before it is sent, so overlapping runs of the Edge
+-- Function never send a reminder twice; failed sends are released by clearing
+-- delivered_at. Service role only.
+-- 发送前先标记为已处理，避免重复发送；发送失败时清除 delivered_at 以便重试
+-- ----------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION public.claim_pending_notifications(p_limit INTEGER DEFAULT 100)
+RETURNS SETOF notifications
+LANGUAGE sql
+SECURITY DEFINER SET search_path = public
+AS $$
+  UPDATE notifications
+  SET delivered_at = now()
+  WHERE id IN (
+    SELECT id FROM notifications
+    WHERE delivered_at IS NULL
+    ORDER BY created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_pending_notifications(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_pending_notifications(INTEGER) TO service_role;
+
+-- ----------------------------------------------------------------------------
+-- SCHEDULE (定时发送)
+-- Deploy the function with `supabase functions deploy deliver-notifications` and
+-- set its secrets (see supabase/functions/deliver-notifications/index.ts), then
+-- call it every minute with pg_cron and pg_net (enable both under Database →
+-- Extensions first). It queues due reminders for every driver before sending.
+-- 部署 deliver-notifications 函数并设置密钥后，使用 pg_cron 和 pg_net 每分钟调用一次
+-- ----------------------------------------------------------------------------
+
+-- SELECT cron.schedule('deliver-notifications', '* * * * *', $$
+--   SELECT net.http_post(
+--     url := 'https://<project-ref>.supabase.co/functions/v1/deliver-notifications',
+--     headers := jsonb_build_object('Authorization', 'Bearer <service-role-key>')
+--   )
+-- $$);
@@ -0,0 +1,323 @@
+-- ============================================================================
+-- Migration script to detect outstation trips from GPS distance
+-- - Each driver has a home depot (one of the sites)
+-- - A closed session is outstation when a punch is at least min_distance_km
+--   from the home depot and the session runs through the overnight window
+-- - Drivers without a home depot (or punches without GPS) keep their own answer
+-- - Supervisors can override the result; the rule applied is stored on the log
+-- Run this in Supabase SQL Editor (after database_sites.sql)
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- TABLE: outstation_settings (外站判定设置，单行表)
+-- ----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS outstation_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id), -- Single row
+  min_distance_km NUMERIC(6,1) NOT NULL DEFAULT 100 CHECK (min_distance_km > 0),
+  -- Local times (payroll time zone); the window may cross midnight, e.g. 22:00 - 05:00
+  -- 本地时间（薪资时区）；时段可以跨越午夜
+  overnight_start TIME NOT NULL DEFAULT '00:00',
+  overnight_end TIME NOT NULL DEFAULT '05:00',
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (overnight_start <> overnight_end)
+);
+
+COMMENT ON TABLE outstation_settings IS 'Fleet-wide rule for detecting outstation (overnight away from depot) sessions';
+COMMENT ON COLUMN outstation_settings.min_distance_km IS 'A punch at least this far from the home depot counts as away';
+COMMENT ON COLUMN outstation_settings.overnight_start IS 'Start of the overnight window the session must run through';
+
+INSERT INTO outstation_settings (id) VALUES (TRUE) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE outstation_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can read outstation settings" ON outstation_settings;
+CREATE POLICY "Authenticated users can read outstation settings" ON outstation_settings
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Admins can update outstation settings" ON outstation_settings;
+CREATE POLICY "Admins can update outstation settings" ON outstation_settings
+  FOR UPDATE
+  TO authenticated
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+-- ----------------------------------------------------------------------------
+-- COLUMN: home depot per driver (司机所属车场)
+-- ----------------------------------------------------------------------------
+
+ALTER TABLE profiles ADD COLUMN IF NOT EXISTS home_site_id UUID REFERENCES sites(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN profiles.home_site_id IS 'Depot the driver is based at; outstation distance is measured from here';
+
+CREATE OR REPLACE FUNCTION public.current_user_home_site()
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT home_site_id FROM profiles WHERE id = auth.uid();
+$$;
+
+-- Drivers may still update their own name, but not their role or home depot
+-- 司机可以修改自己的名字，但不能修改角色或所属车场
+DROP POLICY IF EXISTS "Users can update own name" ON profiles;
+CREATE POLICY "Users can update own name" ON profiles
+  FOR UPDATE
+  USING (auth.uid() = id)
+  WITH CHECK (
+    auth.uid() = id
+    AND role = public.current_user_role()
+    AND home_site_id IS NOT DISTINCT FROM public.current_user_home_site()
+  );
+
+-- Supervisors assign home depots without being able to change roles
+-- 主管可以设置司机所属车场，但不能修改角色
+CREATE OR REPLACE FUNCTION public.set_home_site(p_user_id UUID, p_site_id UUID)
+RETURNS profiles
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_profile profiles;
+BEGIN
+  IF NOT public.is_supervisor() THEN
+    RAISE EXCEPTION 'Only supervisors can assign home depots';
+  END IF;
+
+  UPDATE profiles
+  SET home_site_id = p_site_id
+  WHERE id = p_user_id
+  RETURNING * INTO v_profile;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Driver not found';
+  END IF;
+
+  RETURN v_profile;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_home_site(UUID, UUID) TO authenticated;
+
+-- ----------------------------------------------------------------------------
+-- COLUMNS: outstation decision on work_logs (工作记录的外站判定)
+-- ----------------------------------------------------------------------------
+
+-- What the driver answered; is_outstation now holds the decision that is paid
+-- 司机自己的申报；is_outstation 保存最终用于计薪的结果
+ALTER TABLE work_logs ADD COLUMN IF NOT EXISTS outstation_declared BOOLEAN NOT NULL DEFAULT FALSE;
+-- NULL: no override; TRUE/FALSE: set by a supervisor
+-- 空：未覆盖；TRUE/FALSE：主管手动设置
+ALTER TABLE work_logs ADD COLUMN IF NOT EXISTS outstation_override BOOLEAN;
+-- 'auto': distance and overnight rule; 'declared': driver's answer; 'supervisor': override
+-- auto：按距离和过夜规则；declared：司机申报；supervisor：主管覆盖
+ALTER TABLE work_logs ADD COLUMN IF NOT EXISTS outstation_rule TEXT
+  CHECK (outstation_rule IN ('auto', 'declared', 'supervisor'));
+ALTER TABLE work_logs ADD COLUMN IF NOT EXISTS outstation_distance_km NUMERIC(8,1);
+ALTER TABLE work_logs ADD COLUMN IF NOT EXISTS outstation_overnight BOOLEAN;
+
+COMMENT ON COLUMN work_logs.outstation_declared IS 'Outstation as answered by the driver';
+COMMENT ON COLUMN work_logs.outstation_override IS 'Outstation as set by a supervisor (NULL = use the rule)';
+COMMENT ON COLUMN work_logs.outstation_rule IS 'How is_outstation was decided: auto, declared or supervisor (set by the database)';
+COMMENT ON COLUMN work_logs.outstation_distance_km IS 'Furthest punch from the home depot when the rule ran (set by the database)';
+COMMENT ON COLUMN work_logs.outstation_overnight IS 'Session ran through the overnight window when the rule ran (set by the database)';
+
+-- Existing answers become declarations; not recorded as edits in the audit trail
+-- 已有的外站记录视为司机申报，不记入审计
+ALTER TABLE work_logs DISABLE TRIGGER work_logs_audit;
+UPDATE work_logs SET outstation_declared = is_outstation WHERE is_outstation AND NOT outstation_declared;
+ALTER TABLE work_logs ENABLE TRIGGER work_logs_audit;
+
+-- ----------------------------------------------------------------------------
+-- DETECTION (外站自动判定)
+-- Runs before work_logs_set_ot so the meal allowance follows the decision
+-- ----------------------------------------------------------------------------
+
+-- Whether [p_start, p_end) overlaps the overnight window on any night
+CREATE OR REPLACE FUNCTION public.crosses_overnight_window(
+  p_start TIMESTAMPTZ,
+  p_end TIMESTAMPTZ,
+  p_window_start TIME,
+  p_window_end TIME
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM generate_series(
+      (p_start AT TIME ZONE public.payroll_time_zone())::DATE - 1,
+      (p_end AT TIME ZONE public.payroll_time_zone())::DATE,
+      INTERVAL '1 day'
+    ) AS night(day)
+    WHERE ((night.day::DATE + p_window_start) AT TIME ZONE public.payroll_time_zone()) < p_end
+      AND ((night.day::DATE + p_window_end
+            + CASE WHEN p_window_end <= p_window_start THEN INTERVAL '1 day' ELSE INTERVAL '0' END)
+           AT TIME ZONE public.payroll_time_zone()) > p_start
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.detect_work_log_outstation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_settings outstation_settings;
+  v_home sites;
+  v_distance_in DOUBLE PRECISION;
+  v_distance_out DOUBLE PRECISION;
+BEGIN
+  -- The driver's answer arrives in is_outstation on insert
+  IF TG_OP = 'INSERT' THEN
+    NEW.outstation_declared := COALESCE(NEW.is_outstation, FALSE);
+  ELSIF NEW.clock_in IS NOT DISTINCT FROM OLD.clock_in
+    AND NEW.clock_out IS NOT DISTINCT FROM OLD.clock_out
+    AND NEW.clock_in_lat IS NOT DISTINCT FROM OLD.clock_in_lat
+    AND NEW.clock_in_lng IS NOT DISTINCT FROM OLD.clock_in_lng
+    AND NEW.clock_out_lat IS NOT DISTINCT FROM OLD.clock_out_lat
+    AND NEW.clock_out_lng IS NOT DISTINCT FROM OLD.clock_out_lng
+    AND NEW.outstation_declared IS NOT DISTINCT FROM OLD.outstation_declared
+    AND NEW.outstation_override IS NOT DISTINCT FROM OLD.outstation_override THEN
+    -- Nothing the rule depends on changed; keep the earlier decision
+    NEW.is_outstation := OLD.is_outstation;
+    RETURN NEW;
+  END IF;
+
+  NEW.outstation_distance_km := NULL;
+  NEW.outstation_overnight := NULL;
+
+  IF NEW.clock_out IS NOT NULL THEN
+    SELECT * INTO v_settings FROM outstation_settings WHERE id;
+    SELECT s.* INTO v_home
+    FROM profiles p
+    JOIN sites s ON s.id = p.home_site_id
+    WHERE p.id = NEW.user_id;
+
+    IF v_settings.id IS NOT NULL AND v_home.id IS NOT NULL THEN
+      IF NEW.clock_in_lat IS NOT NULL AND NEW.clock_in_lng IS NOT NULL THEN
+        v_distance_in := public.distance_meters(v_home.lat, v_home.lng, NEW.clock_in_lat, NEW.clock_in_lng);
+      END IF;
+      IF NEW.clock_out_lat IS NOT NULL AND NEW.clock_out_lng IS NOT NULL THEN
+        v_distance_out := public.distance_meters(v_home.lat, v_home.lng, NEW.clock_out_lat, NEW.clock_out_lng);
+      END IF;
+
+      IF v_distance_in IS NOT NULL OR v_distance_out IS NOT NULL THEN
+        NEW.outstation_distance_km := round((GREATEST(v_distance_in, v_distance_out) / 1000)::NUMERIC, 1);
+        NEW.outstation_overnight := public.crosses_overnight_window(
+          NEW.clock_in, NEW.clock_out, v_settings.overnight_start, v_settings.overnight_end
+        );
+      END IF;
+    END IF;
+  END IF;
+
+  IF NEW.outstation_override IS NOT NULL THEN
+    NEW.is_outstation := NEW.outstation_override;
+    NEW.outstation_rule := 'supervisor';
+  ELSIF NEW.outstation_distance_km IS NOT NULL THEN
+    NEW.is_outstation := NEW.outstation_distance_km >= v_settings.min_distance_km AND NEW.outstation_overnight;
+    NEW.outstation_rule := 'auto';
+  ELSE
+    NEW.is_outstation := NEW.outstation_declared;
+    NEW.outstation_rule := CASE WHEN NEW.clock_out IS NULL THEN NULL ELSE 'declared' END;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS work_logs_detect_outstation ON work_logs;
+CREATE TRIGGER work_logs_detect_outstation
+  BEFORE INSERT OR UPDATE ON work_logs
+  FOR EACH ROW EXECUTE FUNCTION public.detect_work_log_outstation();
+
+-- ----------------------------------------------------------------------------
+-- CLOCK OUT: the driver's answer is recorded as a declaration (下班打卡：记录司机申报)
+-- ----------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION public.clock_out_work_log(
+  p_log_id UUID,
+  p_clock_out TIMESTAMPTZ,
+  p_is_outstation BOOLEAN DEFAULT FALSE,
+  p_clock_out_lat DOUBLE PRECISION DEFAULT NULL,
+  p_clock_out_lng DOUBLE PRECISION DEFAULT NULL,
+  p_clock_out_postcode TEXT DEFAULT NULL,
+  p_check_out_location TEXT DEFAULT NULL,
+  p_outside_reason TEXT DEFAULT NULL
+)
+RETURNS work_logs
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_log work_logs;
+BEGIN
+  SELECT * INTO v_log FROM work_logs
+  WHERE id = p_log_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Work log not found';
+  END IF;
+  IF v_log.clock_out IS NOT NULL THEN
+    RAISE EXCEPTION 'This session was already closed';
+  END IF;
+  IF p_clock_out <= v_log.clock_in THEN
+    RAISE EXCEPTION 'Clock-out time must be after clock-in';
+  END IF;
+  IF p_clock_out > now() + INTERVAL '5 minutes' THEN
+    RAISE EXCEPTION 'Clock-out time cannot be in the future';
+  END IF;
+
+  -- is_outstation is decided by work_logs_detect_outstation
+  UPDATE work_logs
+  SET
+    clock_out = p_clock_out,
+    outstation_declared = COALESCE(p_is_outstation, FALSE),
+    clock_out_lat = p_clock_out_lat,
+    clock_out_lng = p_clock_out_lng,
+    clock_out_postcode = p_clock_out_postcode,
+    check_out_location = p_check_out_location,
+    clock_out_outside_reason = NULLIF(trim(p_outside_reason), '')
+  WHERE id = p_log_id
+  RETURNING * INTO v_log;
+
+  RETURN v_log;
+END;
+$$;
+
+-- ----------------------------------------------------------------------------
+-- SUPERVISOR OVERRIDE (主管覆盖外站判定)
+-- p_is_outstation NULL clears the override and re-applies the rule
+-- ----------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION public.set_work_log_outstation(p_log_id UUID, p_is_outstation BOOLEAN)
+RETURNS work_logs
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_log work_logs;
+BEGIN
+  IF NOT public.is_supervisor() THEN
+    RAISE EXCEPTION 'Only supervisors can override outstation';
+  END IF;
+
+  UPDATE work_logs
+  SET outstation_override = p_is_outstation
+  WHERE id = p_log_id
+  RETURNING * INTO v_log;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Work log not found';
+  END IF;
+
+  RETURN v_log;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_work_log_outstation(UUID, BOOLEAN) TO authenticated;
@@ -0,0 +1,83 @@
+-- ============================================================================
+-- Migration script to add the pay_profiles table (per-driver pay rules)
+-- Each row holds the package that applies from effective_from onwards, so
+-- older months are recalculated under the rules that applied back then.
+-- Drivers without a profile fall back to the standard package
+-- (RM 3,000 basic, RM 14.40/hour, 1.5x / 2.0x / 3.0x).
+-- Run this in Supabase SQL Editor
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- TABLE (表)
+-- ----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS pay_profiles (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL DEFAULT 'Standard Driver Package',
+  -- Rules apply from this date until the next profile of the same driver
+  -- 规则从此日期起生效，直到该司机的下一个配置
+  effective_from DATE NOT NULL,
+
+  -- Monthly package (月薪配套)
+  basic_salary NUMERIC(10, 2) NOT NULL DEFAULT 3000,
+  food_allowance NUMERIC(10, 2) NOT NULL DEFAULT 0,
+  full_attendance_reward NUMERIC(10, 2) NOT NULL DEFAULT 300,
+  meal_allowance NUMERIC(10, 2) NOT NULL DEFAULT 30,
+
+  -- OT rules (加班规则)
+  base_hourly_rate NUMERIC(10, 4) NOT NULL DEFAULT 14.4,
+  weekday_standard_minutes INTEGER NOT NULL DEFAULT 540,
+  public_holiday_first_tier_minutes INTEGER NOT NULL DEFAULT 540,
+  rate_weekday_ot NUMERIC(4, 2) NOT NULL DEFAULT 1.5,
+  rate_weekend NUMERIC(4, 2) NOT NULL DEFAULT 1.5,
+  rate_public_holiday NUMERIC(4, 2) NOT NULL DEFAULT 2.0,
+  rate_public_holiday_ot NUMERIC(4, 2) NOT NULL DEFAULT 3.0,
+  block_minutes INTEGER NOT NULL DEFAULT 30 CHECK (block_minutes > 0),
+  block_grace_minutes INTEGER NOT NULL DEFAULT 7 CHECK (block_grace_minutes >= 0),
+
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- Only one profile can take effect on a given date for a driver
+  -- 每位司机在同一日期只能有一个生效的配置
+  UNIQUE (user_id, effective_from)
+);
+
+-- ----------------------------------------------------------------------------
+-- DOCUMENTATION (字段说明)
+-- ----------------------------------------------------------------------------
+
+COMMENT ON TABLE pay_profiles IS 'Per-driver pay packages with effective-from dates';
+COMMENT ON COLUMN pay_profiles.effective_from IS 'Date from which these rules apply (inclusive)';
+COMMENT ON COLUMN pay_profiles.weekday_standard_minutes IS 'Minutes of standard work per weekday before OT starts (540 = 9 hours)';
+COMMENT ON COLUMN pay_profiles.public_holiday_first_tier_minutes IS 'Minutes paid at rate_public_holiday before rate_public_holiday_ot applies';
+COMMENT ON COLUMN pay_profiles.block_minutes IS 'OT rounding block in minutes';
+COMMENT ON COLUMN pay_profiles.block_grace_minutes IS 'Remainder minutes ignored before rounding up to the next block';
+
+-- ----------------------------------------------------------------------------
+-- INDEXES (索引 - 用于提高查询性能)
+-- ----------------------------------------------------------------------------
+
+CREATE INDEX IF NOT EXISTS idx_pay_profiles_user_effective ON pay_profiles(user_id, effective_from DESC);
+
+-- ----------------------------------------------------------------------------
+-- ROW LEVEL SECURITY (行级安全)
+-- ----------------------------------------------------------------------------
+
+ALTER TABLE pay_profiles ENABLE ROW LEVEL SECURITY;
+
+-- Drivers can read their own pay profiles; changes are made by the project owner
+-- 司机只能查看自己的薪资配置；修改由项目管理员执行
+DROP POLICY IF EXISTS "Users can read own pay profiles" ON pay_profiles;
+CREATE POLICY "Users can read own pay profiles" ON pay_profiles
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- ----------------------------------------------------------------------------
+-- EXAMPLE (示例 - 为司机添加新配套)
+-- ----------------------------------------------------------------------------
+
+-- Uncomment and update the email to give a driver a new package from 1 Jan 2026:
+-- INSERT INTO pay_profiles (user_id, name, effective_from, basic_salary, base_hourly_rate)
+-- SELECT id, 'Senior Driver Package', '2026-01-01', 3500, 16.8
+-- FROM auth.users WHERE email = 'driver@example.com'
+-- ON CONFLICT (user_id, effective_from) DO NOTHING;
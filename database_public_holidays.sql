@@ -0,0 +1,74 @@
+-- ============================================================================
+-- Migration script to add the public_holidays table (public holiday calendar)
+-- Holidays are keyed by date and Malaysian state; state 'ALL' means nationwide.
+-- Used by getDayType together with the state derived from the clock-in postcode.
+-- Run this in Supabase SQL Editor
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- TABLE (表)
+-- ----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS public_holidays (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  holiday_date DATE NOT NULL,
+  -- State code (e.g. 'SGR', 'KUL', 'JHR') or 'ALL' for nationwide holidays
+  -- 州代码（例如 'SGR'、'KUL'、'JHR'），全国性假期使用 'ALL'
+  state TEXT NOT NULL DEFAULT 'ALL'
+    CHECK (state IN (
+      'ALL', 'JHR', 'KDH', 'KTN', 'MLK', 'NSN', 'PHG', 'PNG', 'PRK',
+      'PLS', 'SBH', 'SWK', 'SGR', 'TRG', 'KUL', 'LBN', 'PJY'
+    )),
+  name TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  -- One entry per date and state
+  -- 每个日期和州只有一条记录
+  UNIQUE (holiday_date, state)
+);
+
+-- ----------------------------------------------------------------------------
+-- DOCUMENTATION (字段说明)
+-- ----------------------------------------------------------------------------
+
+COMMENT ON TABLE public_holidays IS 'Public holiday calendar by date and Malaysian state';
+COMMENT ON COLUMN public_holidays.state IS 'Malaysian state code, or ALL for a nationwide holiday';
+
+-- ----------------------------------------------------------------------------
+-- INDEXES (索引 - 用于提高查询性能)
+-- ----------------------------------------------------------------------------
+
+CREATE INDEX IF NOT EXISTS idx_public_holidays_date ON public_holidays(holiday_date);
+
+-- ----------------------------------------------------------------------------
+-- ROW LEVEL SECURITY (行级安全)
+-- ----------------------------------------------------------------------------
+
+ALTER TABLE public_holidays ENABLE ROW LEVEL SECURITY;
+
+-- Every signed-in user reads the calendar (needed for OT day type detection)
+-- 所有登录用户都可以读取假期日历（用于判断加班日期类型）
+DROP POLICY IF EXISTS "Authenticated users can read public holidays" ON public_holidays;
+CREATE POLICY "Authenticated users can read public holidays" ON public_holidays
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Signed-in users can maintain the calendar from the Public Holidays screen
+-- 登录用户可以在公共假期页面维护日历
+DROP POLICY IF EXISTS "Authenticated users can manage public holidays" ON public_holidays;
+CREATE POLICY "Authenticated users can manage public holidays" ON public_holidays
+  FOR ALL
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+-- ----------------------------------------------------------------------------
+-- EXAMPLE (示例 - 添加假期)
+-- ----------------------------------------------------------------------------
+
+-- INSERT INTO public_holidays (holiday_date, state, name) VALUES
+--   ('2026-01-01', 'ALL', 'New Year''s Day'),
+--   ('2026-02-01', 'KUL', 'Federal Territory Day'),
+--   ('2026-02-01', 'LBN', 'Federal Territory Day'),
+--   ('2026-02-01', 'PJY', 'Federal Territory Day')
+-- ON CONFLICT (holiday_date, state) DO NOTHING;
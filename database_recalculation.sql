@@ -0,0 +1,148 @@
+-- ============================================================================
+-- Migration script to recalculate stored OT in bulk
+-- - Admins preview a driver's (or the whole fleet's) logs over a date range
+--   under the current rules, then write the changed ones back in one run
+-- - Each run is recorded, and every log it changes gets its own audit record
+--   tagged with the run
+-- - Logs in months closed by an approved timesheet are never changed
+-- Run this in Supabase SQL Editor (after database_timesheets.sql and database_work_log_corrections.sql)
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- TABLE: recalculation_runs (批量重新计算记录)
+-- ----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS recalculation_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  requested_by UUID REFERENCES auth.users(id),
+  -- NULL when the whole fleet was recalculated
+  -- 为 NULL 表示整个车队
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  range_start DATE NOT NULL,
+  range_end DATE NOT NULL, -- Inclusive
+  requested_count INTEGER NOT NULL DEFAULT 0, -- Logs the preview showed as changed
+  changed_count INTEGER NOT NULL DEFAULT 0, -- Logs whose stored values actually changed
+  skipped_closed_count INTEGER NOT NULL DEFAULT 0, -- Logs left alone because their month is closed
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (range_end >= range_start)
+);
+
+COMMENT ON TABLE recalculation_runs IS 'Bulk OT recalculations; changed logs are audited with the run id';
+
+ALTER TABLE recalculation_runs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Supervisors can read recalculation runs" ON recalculation_runs;
+CREATE POLICY "Supervisors can read recalculation runs" ON recalculation_runs
+  FOR SELECT
+  USING (public.is_supervisor());
+
+-- Runs are only recorded by recalculate_work_logs
+-- 只能通过 recalculate_work_logs 记录
+REVOKE INSERT, UPDATE, DELETE ON recalculation_runs FROM anon, authenticated;
+
+-- ----------------------------------------------------------------------------
+-- AUDIT: tag changes made by a recalculation run (审计记录标注重新计算)
+-- ----------------------------------------------------------------------------
+
+ALTER TABLE work_log_audit
+ADD COLUMN IF NOT EXISTS recalculation_id UUID REFERENCES recalculation_runs(id) ON DELETE SET NULL;
+
+ALTER TABLE work_log_audit DROP CONSTRAINT IF EXISTS work_log_audit_action_check;
+ALTER TABLE work_log_audit ADD CONSTRAINT work_log_audit_action_check
+  CHECK (action IN ('update', 'delete', 'correction', 'recalculation'));
+
+CREATE INDEX IF NOT EXISTS idx_work_log_audit_recalculation ON work_log_audit(recalculation_id) WHERE recalculation_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.audit_work_log_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_correction_id UUID := NULLIF(current_setting('app.correction_id', true), '')::UUID;
+  v_recalculation_id UUID := NULLIF(current_setting('app.recalculation_id', true), '')::UUID;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    INSERT INTO work_log_audit (work_log_id, user_id, changed_by, action, before_values)
+    VALUES (OLD.id, OLD.user_id, auth.uid(), 'delete', to_jsonb(OLD));
+    RETURN OLD;
+  END IF;
+
+  IF to_jsonb(OLD) IS DISTINCT FROM to_jsonb(NEW) THEN
+    INSERT INTO work_log_audit (work_log_id, user_id, changed_by, action, correction_id, recalculation_id, before_values, after_values)
+    VALUES (
+      NEW.id,
+      NEW.user_id,
+      auth.uid(),
+      CASE
+        WHEN v_correction_id IS NOT NULL THEN 'correction'
+        WHEN v_recalculation_id IS NOT NULL THEN 'recalculation'
+        ELSE 'update'
+      END,
+      v_correction_id,
+      v_recalculation_id,
+      to_jsonb(OLD),
+      to_jsonb(NEW)
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- ----------------------------------------------------------------------------
+-- RECALCULATE WORK LOGS (批量重新计算)
+-- Touching a log makes work_logs_set_ot recalculate it under the current
+-- rules; only logs whose values change are audited.
+-- 仅限管理员；已关闭月份（工时表已批准）的记录会被跳过
+-- ----------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION public.recalculate_work_logs(
+  p_log_ids UUID[],
+  p_range_start DATE,
+  p_range_end DATE,
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS recalculation_runs
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_run recalculation_runs;
+  v_tz TEXT := public.payroll_time_zone();
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can recalculate work logs';
+  END IF;
+
+  INSERT INTO recalculation_runs (requested_by, user_id, range_start, range_end, requested_count)
+  VALUES (auth.uid(), p_user_id, p_range_start, p_range_end, COALESCE(array_length(p_log_ids, 1), 0))
+  RETURNING * INTO v_run;
+
+  PERFORM set_config('app.recalculation_id', v_run.id::TEXT, true);
+
+  UPDATE work_logs
+  SET clock_out = clock_out
+  WHERE id = ANY(p_log_ids)
+    AND clock_out IS NOT NULL
+    AND (p_user_id IS NULL OR user_id = p_user_id)
+    AND (clock_in AT TIME ZONE v_tz)::DATE BETWEEN p_range_start AND p_range_end
+    AND NOT public.month_is_closed(user_id, (clock_in AT TIME ZONE v_tz)::DATE);
+
+  PERFORM set_config('app.recalculation_id', '', true);
+
+  UPDATE recalculation_runs
+  SET
+    changed_count = (SELECT COUNT(*) FROM work_log_audit WHERE recalculation_id = v_run.id),
+    skipped_closed_count = (
+      SELECT COUNT(*) FROM work_logs
+      WHERE id = ANY(p_log_ids)
+        AND public.month_is_closed(user_id, (clock_in AT TIME ZONE v_tz)::DATE)
+    )
+  WHERE id = v_run.id
+  RETURNING * INTO v_run;
+
+  RETURN v_run;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.recalculate_work_logs(UUID[], DATE, DATE, UUID) TO authenticated;
@@ -0,0 +1,183 @@
+-- ============================================================================
+-- Migration script to add user roles (driver / supervisor / admin)
+-- Adds a profiles table with one row per auth user and row-level-security
+-- policies so supervisors and admins can see every driver's records.
+-- Replaces hand-edited scripts such as replace_driver_sani.sql for managing drivers.
+-- Run this in Supabase SQL Editor (after the other migration scripts)
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- TABLE (表)
+-- ----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS profiles (
+  id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  email TEXT,
+  full_name TEXT,
+  -- Role: 'driver', 'supervisor' or 'admin'
+  -- 角色：司机、主管或管理员
+  role TEXT NOT NULL DEFAULT 'driver'
+    CHECK (role IN ('driver', 'supervisor', 'admin')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE profiles IS 'One row per auth user with display name and role';
+COMMENT ON COLUMN profiles.role IS 'driver: own records only; supervisor: read all drivers, manage leaves; admin: everything including roles, pay profiles and holidays';
+
+CREATE INDEX IF NOT EXISTS idx_profiles_role ON profiles(role);
+
+-- ----------------------------------------------------------------------------
+-- AUTO-CREATE PROFILES (自动创建用户资料)
+-- ----------------------------------------------------------------------------
+
+-- New sign-ups get a driver profile automatically
+-- 新注册用户自动获得司机角色
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.profiles (id, email, full_name)
+  VALUES (NEW.id, NEW.email, NEW.raw_user_meta_data->>'full_name')
+  ON CONFLICT (id) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW EXECUTE FUNCTION public.handle_new_user();
+
+-- Backfill profiles for existing users
+-- 为现有用户补建资料
+INSERT INTO profiles (id, email, full_name)
+SELECT id, email, raw_user_meta_data->>'full_name'
+FROM auth.users
+ON CONFLICT (id) DO NOTHING;
+
+-- ----------------------------------------------------------------------------
+-- ROLE HELPERS (角色辅助函数)
+-- SECURITY DEFINER so policies can read profiles without recursing into RLS
+-- ----------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION public.current_user_role()
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT COALESCE((SELECT role FROM profiles WHERE id = auth.uid()), 'driver');
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_supervisor()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT public.current_user_role() IN ('supervisor', 'admin');
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT public.current_user_role() = 'admin';
+$$;
+
+-- ----------------------------------------------------------------------------
+-- ROW LEVEL SECURITY: profiles (行级安全：用户资料)
+-- ----------------------------------------------------------------------------
+
+ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read own profile" ON profiles;
+CREATE POLICY "Users can read own profile" ON profiles
+  FOR SELECT
+  USING (auth.uid() = id OR public.is_supervisor());
+
+-- Users may update their own name but not their role; admins can change anything
+-- 用户可以修改自己的名字但不能修改角色；管理员可以修改所有字段
+DROP POLICY IF EXISTS "Users can update own name" ON profiles;
+CREATE POLICY "Users can update own name" ON profiles
+  FOR UPDATE
+  USING (auth.uid() = id)
+  WITH CHECK (auth.uid() = id AND role = public.current_user_role());
+
+DROP POLICY IF EXISTS "Admins can manage profiles" ON profiles;
+CREATE POLICY "Admins can manage profiles" ON profiles
+  FOR ALL
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+-- ----------------------------------------------------------------------------
+-- ROW LEVEL SECURITY: work_logs (行级安全：工作记录)
+-- ----------------------------------------------------------------------------
+
+ALTER TABLE work_logs ENABLE ROW LEVEL SECURITY;
+
+-- Drivers manage their own work logs
+-- 司机管理自己的工作记录
+DROP POLICY IF EXISTS "Users can manage own work logs" ON work_logs;
+CREATE POLICY "Users can manage own work logs" ON work_logs
+  FOR ALL
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+-- Supervisors and admins can read every driver's work logs
+-- 主管和管理员可以查看所有司机的工作记录
+DROP POLICY IF EXISTS "Supervisors can read all work logs" ON work_logs;
+CREATE POLICY "Supervisors can read all work logs" ON work_logs
+  FOR SELECT
+  USING (public.is_supervisor());
+
+-- ----------------------------------------------------------------------------
+-- ROW LEVEL SECURITY: leaves (行级安全：请假记录)
+-- ----------------------------------------------------------------------------
+
+-- Supervisors record and correct leave days for any driver
+-- 主管可以为任何司机记录和修改请假
+DROP POLICY IF EXISTS "Supervisors can manage all leaves" ON leaves;
+CREATE POLICY "Supervisors can manage all leaves" ON leaves
+  FOR ALL
+  USING (public.is_supervisor())
+  WITH CHECK (public.is_supervisor());
+
+-- ----------------------------------------------------------------------------
+-- ROW LEVEL SECURITY: pay_profiles (行级安全：薪资配置)
+-- ----------------------------------------------------------------------------
+
+DROP POLICY IF EXISTS "Supervisors can read all pay profiles" ON pay_profiles;
+CREATE POLICY "Supervisors can read all pay profiles" ON pay_profiles
+  FOR SELECT
+  USING (public.is_supervisor());
+
+DROP POLICY IF EXISTS "Admins can manage pay profiles" ON pay_profiles;
+CREATE POLICY "Admins can manage pay profiles" ON pay_profiles
+  FOR ALL
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+-- ----------------------------------------------------------------------------
+-- ROW LEVEL SECURITY: public_holidays (行级安全：公共假期)
+-- Only admins maintain the calendar from now on
+-- ----------------------------------------------------------------------------
+
+DROP POLICY IF EXISTS "Authenticated users can manage public holidays" ON public_holidays;
+DROP POLICY IF EXISTS "Admins can manage public holidays" ON public_holidays;
+CREATE POLICY "Admins can manage public holidays" ON public_holidays
+  FOR ALL
+  TO authenticated
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+-- ----------------------------------------------------------------------------
+-- FIRST ADMIN (设置第一个管理员)
+-- ----------------------------------------------------------------------------
+
+-- Uncomment and update the email to promote the first admin:
+-- UPDATE profiles SET role = 'admin' WHERE email = 'admin@example.com';
@@ -0,0 +1,51 @@
+-- ============================================================================
+-- Migration script to add rosters (planned shifts)
+-- - Supervisors assign drivers planned shifts with a start, end, route or
+--   customer, and whether the shift is expected to be outstation
+-- - The app compares each work log with its planned shift to flag late
+--   arrivals and early leaving
+-- Run this in Supabase SQL Editor (after database_sites.sql)
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- TABLE: planned_shifts (排班)
+-- ----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS planned_shifts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  shift_start TIMESTAMPTZ NOT NULL,
+  shift_end TIMESTAMPTZ NOT NULL,
+  -- Customer or depot the shift starts at, when it is a known site
+  -- 班次所在的客户或车场（如已登记）
+  site_id UUID REFERENCES sites(id) ON DELETE SET NULL,
+  route TEXT, -- Route or customer as free text
+  expected_outstation BOOLEAN NOT NULL DEFAULT FALSE,
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (shift_end > shift_start),
+  CHECK (shift_end - shift_start <= INTERVAL '24 hours')
+);
+
+COMMENT ON TABLE planned_shifts IS 'Shifts supervisors plan for drivers, compared with the work logs actually recorded';
+COMMENT ON COLUMN planned_shifts.route IS 'Route or customer the driver is assigned to';
+
+CREATE INDEX IF NOT EXISTS idx_planned_shifts_user_start ON planned_shifts(user_id, shift_start);
+
+ALTER TABLE planned_shifts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read own planned shifts" ON planned_shifts;
+CREATE POLICY "Users can read own planned shifts" ON planned_shifts
+  FOR SELECT
+  USING (auth.uid() = user_id OR public.is_supervisor());
+
+-- Only supervisors plan shifts
+-- 仅主管可以排班
+DROP POLICY IF EXISTS "Supervisors can manage planned shifts" ON planned_shifts;
+CREATE POLICY "Supervisors can manage planned shifts" ON planned_shifts
+  FOR ALL
+  TO authenticated
+  USING (public.is_supervisor())
+  WITH CHECK (public.is_supervisor());
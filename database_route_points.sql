@@ -0,0 +1,122 @@
+-- ============================================================================
+-- Migration script to add route logging within work sessions
+-- - While a session is open the app samples the driver's location at a set
+--   interval and stores it in work_log_points
+-- - Work log details show the route and the distance driven
+-- - Points older than the retention period are deleted for privacy
+-- Run this in Supabase SQL Editor (after database_outstation_detection.sql)
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- TABLE: route_settings (路线记录设置，单行表)
+-- ----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS route_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id), -- Single row
+  -- Route logging is off until an admin turns it on
+  -- 默认关闭，由管理员开启
+  enabled BOOLEAN NOT NULL DEFAULT FALSE,
+  sample_interval_seconds INTEGER NOT NULL DEFAULT 300 CHECK (sample_interval_seconds BETWEEN 30 AND 3600),
+  retention_days INTEGER NOT NULL DEFAULT 90 CHECK (retention_days BETWEEN 1 AND 3650),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE route_settings IS 'Fleet-wide settings for sampling driver locations during work sessions';
+COMMENT ON COLUMN route_settings.sample_interval_seconds IS 'How often the app records a location while a session is open';
+COMMENT ON COLUMN route_settings.retention_days IS 'Route points older than this are deleted';
+
+INSERT INTO route_settings (id) VALUES (TRUE) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE route_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can read route settings" ON route_settings;
+CREATE POLICY "Authenticated users can read route settings" ON route_settings
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Admins can update route settings" ON route_settings;
+CREATE POLICY "Admins can update route settings" ON route_settings
+  FOR UPDATE
+  TO authenticated
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+-- ----------------------------------------------------------------------------
+-- TABLE: work_log_points (工作记录路线点)
+-- ----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS work_log_points (
+  id BIGSERIAL PRIMARY KEY,
+  work_log_id UUID NOT NULL REFERENCES work_logs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  recorded_at TIMESTAMPTZ NOT NULL,
+  lat DOUBLE PRECISION NOT NULL CHECK (lat BETWEEN -90 AND 90),
+  lng DOUBLE PRECISION NOT NULL CHECK (lng BETWEEN -180 AND 180),
+  accuracy_meters DOUBLE PRECISION,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE work_log_points IS 'Locations sampled while a work session was open';
+COMMENT ON COLUMN work_log_points.recorded_at IS 'When the device took the reading';
+COMMENT ON COLUMN work_log_points.accuracy_meters IS 'Accuracy reported by the device, in metres';
+
+CREATE INDEX IF NOT EXISTS idx_work_log_points_work_log ON work_log_points(work_log_id, recorded_at);
+CREATE INDEX IF NOT EXISTS idx_work_log_points_recorded_at ON work_log_points(recorded_at);
+
+ALTER TABLE work_log_points ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read own route points" ON work_log_points;
+CREATE POLICY "Users can read own route points" ON work_log_points
+  FOR SELECT
+  USING (auth.uid() = user_id OR public.is_supervisor());
+
+-- Drivers add points to their own session while it is open (points taken offline
+-- may arrive shortly after clock-out, so they must fall within the session)
+-- 司机只能为自己的打卡添加路线点，且时间必须在打卡时段内
+DROP POLICY IF EXISTS "Users can insert own route points" ON work_log_points;
+CREATE POLICY "Users can insert own route points" ON work_log_points
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM work_logs w
+      WHERE w.id = work_log_id
+        AND w.user_id = auth.uid()
+        AND recorded_at >= w.clock_in
+        AND recorded_at <= COALESCE(w.clock_out, now() + INTERVAL '5 minutes')
+    )
+  );
+
+-- Points are never edited; only the retention purge removes them
+REVOKE UPDATE, DELETE ON work_log_points FROM anon, authenticated;
+
+-- ----------------------------------------------------------------------------
+-- RETENTION (隐私保留期)
+-- ----------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION public.purge_expired_route_points()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_days INTEGER;
+  v_count INTEGER;
+BEGIN
+  SELECT retention_days INTO v_days FROM route_settings WHERE id;
+
+  DELETE FROM work_log_points
+  WHERE recorded_at < now() - make_interval(days => COALESCE(v_days, 90));
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- Run daily with pg_cron (enable the extension under Database → Extensions first)
+-- 使用 pg_cron 每天运行一次（需先在 Database → Extensions 启用 pg_cron）
+-- SELECT cron.schedule('purge-expired-route-points', '30 3 * * *', 'SELECT public.purge_expired_route_points()');
+
+-- Supervisors' fleet overview also calls it, so retention applies without pg_cron
+GRANT EXECUTE ON FUNCTION public.purge_expired_route_points() TO authenticated;
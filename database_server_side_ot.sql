@@ -0,0 +1,520 @@
+-- ============================================================================
+-- Migration script to calculate OT in the database instead of the browser
+-- - Duration, day type, OT amount and the per-rate breakdown are worked out by
+--   a trigger on work_logs with the same rules as calculateOvertime
+-- - Clients may only insert opening punches (clock-in time, location, flags),
+--   never amounts; closed sessions are imported by supervisors through
+--   import_work_logs() (database_work_log_import.sql)
+-- - Clock-out goes through clock_out_work_log(); drivers can no longer update
+--   or delete work_logs directly
+-- Run this in Supabase SQL Editor (after database_session_safeguards.sql and
+-- database_day_boundary.sql)
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- COLUMNS: stored OT breakdown (加班明细字段)
+-- ----------------------------------------------------------------------------
+
+ALTER TABLE work_logs ADD COLUMN IF NOT EXISTS ot_minutes_1_5x INTEGER;
+ALTER TABLE work_logs ADD COLUMN IF NOT EXISTS ot_minutes_2x INTEGER;
+ALTER TABLE work_logs ADD COLUMN IF NOT EXISTS ot_minutes_3x INTEGER;
+ALTER TABLE work_logs ADD COLUMN IF NOT EXISTS meal_allowance NUMERIC(10, 2);
+-- Per-day parts of the shift (one entry unless it crosses the day boundary)
+-- 按天拆分的打卡段（跨越工作日分界时有多段）
+ALTER TABLE work_logs ADD COLUMN IF NOT EXISTS ot_segments JSONB;
+
+COMMENT ON COLUMN work_logs.ot_minutes_1_5x IS 'Weekday/weekend OT minutes before rounding (set by the database)';
+COMMENT ON COLUMN work_logs.ot_minutes_2x IS 'Public holiday first-tier minutes before rounding (set by the database)';
+COMMENT ON COLUMN work_logs.ot_minutes_3x IS 'Public holiday minutes after the first tier, before rounding (set by the database)';
+COMMENT ON COLUMN work_logs.meal_allowance IS 'Outstation meal allowance for the session (set by the database)';
+COMMENT ON COLUMN work_logs.ot_segments IS 'Per-day breakdown of the session (set by the database)';
+
+-- ----------------------------------------------------------------------------
+-- HELPERS (辅助函数)
+-- Mirror getStateFromPostcode, roundToBlocks, resolvePayProfile and getDayType
+-- ----------------------------------------------------------------------------
+
+-- Pay days and holidays follow Malaysian local time
+-- 工作日和假期按马来西亚本地时间计算
+CREATE OR REPLACE FUNCTION public.payroll_time_zone()
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 'Asia/Kuala_Lumpur'::TEXT;
+$$;
+
+CREATE OR REPLACE FUNCTION public.state_from_postcode(p_postcode TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN v IS NULL THEN NULL
+    WHEN v BETWEEN 1000 AND 2999 THEN 'PLS'
+    WHEN v BETWEEN 5000 AND 9999 THEN 'KDH'
+    WHEN v BETWEEN 10000 AND 14999 THEN 'PNG'
+    WHEN v BETWEEN 15000 AND 18999 THEN 'KTN'
+    WHEN v BETWEEN 20000 AND 24999 THEN 'TRG'
+    WHEN v BETWEEN 25000 AND 28999 THEN 'PHG'
+    WHEN v BETWEEN 30000 AND 36999 THEN 'PRK'
+    WHEN v BETWEEN 39000 AND 39999 THEN 'PHG'
+    WHEN v BETWEEN 40000 AND 48999 THEN 'SGR'
+    WHEN v BETWEEN 49000 AND 49999 THEN 'PHG'
+    WHEN v BETWEEN 50000 AND 60999 THEN 'KUL'
+    WHEN v BETWEEN 62000 AND 62999 THEN 'PJY'
+    WHEN v BETWEEN 63000 AND 68999 THEN 'SGR'
+    WHEN v BETWEEN 69000 AND 69999 THEN 'PHG'
+    WHEN v BETWEEN 70000 AND 73999 THEN 'NSN'
+    WHEN v BETWEEN 75000 AND 78999 THEN 'MLK'
+    WHEN v BETWEEN 79000 AND 86999 THEN 'JHR'
+    WHEN v BETWEEN 87000 AND 87999 THEN 'LBN'
+    WHEN v BETWEEN 88000 AND 91999 THEN 'SBH'
+    WHEN v BETWEEN 93000 AND 98999 THEN 'SWK'
+  END
+  FROM (
+    SELECT CASE
+      WHEN length(regexp_replace(COALESCE(p_postcode, ''), '\D', '', 'g')) = 5
+      THEN regexp_replace(p_postcode, '\D', '', 'g')::INTEGER
+    END AS v
+  ) digits;
+$$;
+
+-- Remainder up to the grace minutes is ignored, anything above rounds up a block
+-- 余数不超过宽限分钟不计，超过则进位到下一个时段
+CREATE OR REPLACE FUNCTION public.round_to_blocks(p_minutes INTEGER, p_block INTEGER, p_grace INTEGER)
+RETURNS INTEGER
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_minutes <= 0 THEN 0
+    ELSE (p_minutes / p_block + CASE WHEN p_minutes % p_block > p_grace THEN 1 ELSE 0 END) * p_block
+  END;
+$$;
+
+-- Pay profile in effect on a date, or the standard package if there is none
+-- 指定日期生效的薪资配置，没有则使用标准配套
+CREATE OR REPLACE FUNCTION public.pay_profile_for(p_user_id UUID, p_date DATE)
+RETURNS pay_profiles
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_profile pay_profiles;
+BEGIN
+  SELECT * INTO v_profile
+  FROM pay_profiles
+  WHERE user_id = p_user_id AND effective_from <= p_date
+  ORDER BY effective_from DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    v_profile.base_hourly_rate := 14.4;
+    v_profile.weekday_standard_minutes := 540;
+    v_profile.public_holiday_first_tier_minutes := 540;
+    v_profile.rate_weekday_ot := 1.5;
+    v_profile.rate_weekend := 1.5;
+    v_profile.rate_public_holiday := 2.0;
+    v_profile.rate_public_holiday_ot := 3.0;
+    v_profile.block_minutes := 30;
+    v_profile.block_grace_minutes := 7;
+    v_profile.meal_allowance := 30;
+    v_profile.day_boundary_minutes := 0;
+  END IF;
+
+  RETURN v_profile;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.day_type_for(p_date DATE, p_state TEXT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN EXISTS (
+      SELECT 1 FROM public_holidays
+      WHERE holiday_date = p_date AND (state = 'ALL' OR state = p_state)
+    ) THEN 'public_holiday'
+    WHEN EXTRACT(ISODOW FROM p_date) IN (6, 7) THEN 'weekend'
+    ELSE 'weekday'
+  END;
+$$;
+
+-- ----------------------------------------------------------------------------
+-- OT CALCULATION (加班计算)
+-- Same rules as calculateOvertime: the shift is split at each day boundary and
+-- every day is rated by its own day type and the minutes already worked that day.
+-- The public holiday flag on the log only applies to the clock-in day.
+-- ----------------------------------------------------------------------------
+
+-- Volatile so rows inserted earlier in the same statement (e.g. an import) count
+-- towards the minutes already worked that day
+CREATE OR REPLACE FUNCTION public.calculate_work_log_ot(p_log work_logs)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_tz TEXT := public.payroll_time_zone();
+  v_profile pay_profiles;
+  v_boundary INTERVAL;
+  v_state TEXT := public.state_from_postcode(p_log.clock_in_postcode);
+  v_total INTEGER := 0;
+  v_assigned INTEGER := 0;
+  v_index INTEGER := 0;
+  v_start TIMESTAMPTZ;
+  v_end TIMESTAMPTZ;
+  v_day_start TIMESTAMPTZ;
+  v_day_end TIMESTAMPTZ;
+  v_pay_day DATE;
+  v_day_type TEXT;
+  v_first_day_type TEXT;
+  v_minutes INTEGER;
+  v_prior INTEGER;
+  v_std INTEGER;
+  v_ot_1_5x INTEGER;
+  v_ot_2x INTEGER;
+  v_ot_3x INTEGER;
+  v_amount NUMERIC;
+  v_sum_1_5x INTEGER := 0;
+  v_sum_2x INTEGER := 0;
+  v_sum_3x INTEGER := 0;
+  v_sum_amount NUMERIC := 0;
+  v_segments JSONB := '[]'::JSONB;
+BEGIN
+  v_profile := public.pay_profile_for(p_log.user_id, (p_log.clock_in AT TIME ZONE v_tz)::DATE);
+  v_boundary := make_interval(mins => COALESCE(v_profile.day_boundary_minutes, 0));
+
+  IF p_log.clock_out IS NOT NULL AND p_log.clock_out > p_log.clock_in THEN
+    v_total := FLOOR(EXTRACT(EPOCH FROM (p_log.clock_out - p_log.clock_in)) / 60);
+    v_start := p_log.clock_in;
+
+    WHILE v_start < p_log.clock_out LOOP
+      v_pay_day := ((v_start AT TIME ZONE v_tz) - v_boundary)::DATE;
+      v_day_start := (v_pay_day::TIMESTAMP + v_boundary) AT TIME ZONE v_tz;
+      v_day_end := ((v_pay_day + 1)::TIMESTAMP + v_boundary) AT TIME ZONE v_tz;
+      v_end := LEAST(v_day_end, p_log.clock_out);
+
+      -- The last part takes the remainder so segment minutes add up to the shift
+      IF v_end = p_log.clock_out THEN
+        v_minutes := v_total - v_assigned;
+      ELSE
+        v_minutes := FLOOR(EXTRACT(EPOCH FROM (v_end - v_start)) / 60);
+      END IF;
+      v_assigned := v_assigned + v_minutes;
+
+      IF v_index = 0 AND p_log.is_public_holiday THEN
+        v_day_type := 'public_holiday';
+      ELSE
+        v_day_type := public.day_type_for(v_pay_day, v_state);
+      END IF;
+      IF v_index = 0 THEN
+        v_first_day_type := v_day_type;
+      END IF;
+
+      -- Minutes from earlier sessions on this pay day (held sessions do not count)
+      SELECT COALESCE(SUM(FLOOR(EXTRACT(EPOCH FROM (LEAST(w.clock_out, v_day_end) - GREATEST(w.clock_in, v_day_start))) / 60)), 0)
+      INTO v_prior
+      FROM work_logs w
+      WHERE w.user_id = p_log.user_id
+        AND w.id <> p_log.id
+        AND w.clock_out IS NOT NULL
+        AND w.clock_in < p_log.clock_in
+        AND w.review_status IS DISTINCT FROM 'needs_review'
+        AND w.clock_in < v_day_end
+        AND w.clock_out > v_day_start;
+
+      v_ot_1_5x := 0;
+      v_ot_2x := 0;
+      v_ot_3x := 0;
+      IF v_day_type = 'weekday' THEN
+        -- First 9 hours of the day standard work, then OT at 1.5x
+        v_std := GREATEST(0, LEAST(v_minutes, v_profile.weekday_standard_minutes - v_prior));
+        v_ot_1_5x := v_minutes - v_std;
+        v_amount := public.round_to_blocks(v_ot_1_5x, v_profile.block_minutes, v_profile.block_grace_minutes) / 60.0
+          * v_profile.base_hourly_rate * v_profile.rate_weekday_ot;
+      ELSIF v_day_type = 'weekend' THEN
+        -- All overtime at 1.5x
+        v_ot_1_5x := v_minutes;
+        v_amount := public.round_to_blocks(v_ot_1_5x, v_profile.block_minutes, v_profile.block_grace_minutes) / 60.0
+          * v_profile.base_hourly_rate * v_profile.rate_weekend;
+      ELSE
+        -- First 9 hours of the day at 2.0x, after that 3.0x
+        v_ot_2x := GREATEST(0, LEAST(v_minutes, v_profile.public_holiday_first_tier_minutes - v_prior));
+        v_ot_3x := v_minutes - v_ot_2x;
+        v_amount := public.round_to_blocks(v_ot_2x, v_profile.block_minutes, v_profile.block_grace_minutes) / 60.0
+            * v_profile.base_hourly_rate * v_profile.rate_public_holiday
+          + public.round_to_blocks(v_ot_3x, v_profile.block_minutes, v_profile.block_grace_minutes) / 60.0
+            * v_profile.base_hourly_rate * v_profile.rate_public_holiday_ot;
+      END IF;
+
+      v_sum_1_5x := v_sum_1_5x + v_ot_1_5x;
+      v_sum_2x := v_sum_2x + v_ot_2x;
+      v_sum_3x := v_sum_3x + v_ot_3x;
+      v_sum_amount := v_sum_amount + v_amount;
+
+      v_segments := v_segments || jsonb_build_object(
+        'pay_day', v_pay_day,
+        'start', v_start,
+        'end', v_end,
+        'minutes', v_minutes,
+        'day_type', v_day_type,
+        'prior_minutes', v_prior,
+        'ot_minutes_1_5x', v_ot_1_5x,
+        'ot_minutes_2x', v_ot_2x,
+        'ot_minutes_3x', v_ot_3x,
+        'ot_amount', ROUND(v_amount, 2)
+      );
+
+      v_start := v_end;
+      v_index := v_index + 1;
+    END LOOP;
+  END IF;
+
+  -- Open sessions take the day type of the clock-in day
+  IF v_first_day_type IS NULL THEN
+    v_first_day_type := CASE
+      WHEN p_log.is_public_holiday THEN 'public_holiday'
+      ELSE public.day_type_for(((p_log.clock_in AT TIME ZONE v_tz) - v_boundary)::DATE, v_state)
+    END;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'duration_minutes', v_total,
+    'day_type', v_first_day_type,
+    'ot_minutes_1_5x', v_sum_1_5x,
+    'ot_minutes_2x', v_sum_2x,
+    'ot_minutes_3x', v_sum_3x,
+    'overtime_amount', ROUND(v_sum_amount, 2),
+    'meal_allowance', CASE
+      WHEN p_log.clock_out IS NOT NULL AND p_log.is_outstation THEN v_profile.meal_allowance
+      ELSE 0
+    END,
+    'segments', v_segments
+  );
+END;
+$$;
+
+-- ----------------------------------------------------------------------------
+-- TRIGGER: fill in calculated columns (自动计算加班字段)
+-- Runs after work_logs_flag_long_sessions (triggers fire in name order), so
+-- sessions held for review are already marked and earn no OT.
+-- ----------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION public.set_work_log_ot()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_result JSONB := public.calculate_work_log_ot(NEW);
+BEGIN
+  NEW.duration_minutes := (v_result->>'duration_minutes')::INTEGER;
+  NEW.day_type := v_result->>'day_type';
+  NEW.ot_minutes_1_5x := (v_result->>'ot_minutes_1_5x')::INTEGER;
+  NEW.ot_minutes_2x := (v_result->>'ot_minutes_2x')::INTEGER;
+  NEW.ot_minutes_3x := (v_result->>'ot_minutes_3x')::INTEGER;
+  NEW.meal_allowance := (v_result->>'meal_allowance')::NUMERIC;
+  NEW.ot_segments := v_result->'segments';
+
+  IF NEW.review_status = 'needs_review' THEN
+    NEW.overtime_amount := 0;
+  ELSE
+    NEW.overtime_amount := (v_result->>'overtime_amount')::NUMERIC;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS work_logs_set_ot ON work_logs;
+CREATE TRIGGER work_logs_set_ot
+  BEFORE INSERT OR UPDATE ON work_logs
+  FOR EACH ROW EXECUTE FUNCTION public.set_work_log_ot();
+
+-- ----------------------------------------------------------------------------
+-- CLOCK OUT (下班打卡)
+-- The only way for a driver to change a work log after clocking in
+-- ----------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION public.clock_out_work_log(
+  p_log_id UUID,
+  p_clock_out TIMESTAMPTZ,
+  p_is_outstation BOOLEAN DEFAULT FALSE,
+  p_clock_out_lat DOUBLE PRECISION DEFAULT NULL,
+  p_clock_out_lng DOUBLE PRECISION DEFAULT NULL,
+  p_clock_out_postcode TEXT DEFAULT NULL,
+  p_check_out_location TEXT DEFAULT NULL
+)
+RETURNS work_logs
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_log work_logs;
+BEGIN
+  SELECT * INTO v_log FROM work_logs
+  WHERE id = p_log_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Work log not found';
+  END IF;
+  IF v_log.clock_out IS NOT NULL THEN
+    RAISE EXCEPTION 'This session was already closed';
+  END IF;
+  IF p_clock_out <= v_log.clock_in THEN
+    RAISE EXCEPTION 'Clock-out time must be after clock-in';
+  END IF;
+  IF p_clock_out > now() + INTERVAL '5 minutes' THEN
+    RAISE EXCEPTION 'Clock-out time cannot be in the future';
+  END IF;
+
+  UPDATE work_logs
+  SET
+    clock_out = p_clock_out,
+    is_outstation = COALESCE(p_is_outstation, FALSE),
+    clock_out_lat = p_clock_out_lat,
+    clock_out_lng = p_clock_out_lng,
+    clock_out_postcode = p_clock_out_postcode,
+    check_out_location = p_check_out_location
+  WHERE id = p_log_id
+  RETURNING * INTO v_log;
+
+  RETURN v_log;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.clock_out_work_log(UUID, TIMESTAMPTZ, BOOLEAN, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, TEXT) TO authenticated;
+
+-- ----------------------------------------------------------------------------
+-- CORRECTIONS: OT is no longer passed in by the client (修正审批不再接收客户端金额)
+-- ----------------------------------------------------------------------------
+
+DROP FUNCTION IF EXISTS public.approve_work_log_correction(UUID, INTEGER, NUMERIC, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.approve_work_log_correction(
+  p_correction_id UUID,
+  p_review_notes TEXT DEFAULT NULL
+)
+RETURNS work_log_corrections
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_correction work_log_corrections;
+BEGIN
+  IF NOT public.is_supervisor() THEN
+    RAISE EXCEPTION 'Only supervisors can approve corrections';
+  END IF;
+
+  SELECT * INTO v_correction FROM work_log_corrections
+  WHERE id = p_correction_id AND status = 'pending'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Correction not found or already reviewed';
+  END IF;
+
+  PERFORM set_config('app.correction_id', p_correction_id::TEXT, true);
+
+  -- Duration, day type and OT are recalculated by work_logs_set_ot
+  UPDATE work_logs
+  SET
+    clock_in = v_correction.requested_clock_in,
+    clock_out = v_correction.requested_clock_out
+  WHERE id = v_correction.work_log_id;
+
+  PERFORM set_config('app.correction_id', '', true);
+
+  UPDATE work_log_corrections
+  SET status = 'approved', reviewed_by = auth.uid(), reviewed_at = now(), review_notes = p_review_notes
+  WHERE id = p_correction_id
+  RETURNING * INTO v_correction;
+
+  RETURN v_correction;
+END;
+$$;
+
+-- ----------------------------------------------------------------------------
+-- ROW LEVEL SECURITY AND COLUMN PRIVILEGES (行级安全与字段权限)
+-- Drivers read their own logs and insert their own clock-ins; amounts, clock-out
+-- and outstation can never be written by clients
+-- 司机只能查看自己的记录和新增自己的上班打卡；客户端无法写入金额、下班时间和外站
+-- ----------------------------------------------------------------------------
+
+DROP POLICY IF EXISTS "Users can manage own work logs" ON work_logs;
+
+DROP POLICY IF EXISTS "Users can read own work logs" ON work_logs;
+CREATE POLICY "Users can read own work logs" ON work_logs
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can insert own punches" ON work_logs;
+CREATE POLICY "Users can insert own punches" ON work_logs
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+REVOKE INSERT, UPDATE, DELETE ON work_logs FROM anon, authenticated;
+GRANT INSERT (
+  user_id,
+  clock_in,
+  clock_in_lat,
+  clock_in_lng,
+  clock_in_postcode,
+  check_in_location,
+  is_public_holiday
+) ON work_logs TO authenticated;
+
+-- ----------------------------------------------------------------------------
+-- TRIGGER: check inserted punches (校验新增的打卡)
+-- A row inserted by a client must be an open session, and a driver's clock-in
+-- must be close to the current time (offline punches may be up to a day old).
+-- import_work_logs() sets app.work_log_import after validating its rows.
+-- 客户端新增的记录必须是未下班的打卡；司机的上班时间必须接近当前时间（离线打卡最多一天前）
+-- ----------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION public.check_work_log_punch()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF current_setting('app.work_log_import', true) = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.clock_out IS NOT NULL THEN
+    RAISE EXCEPTION 'Only clock-ins can be inserted; clock out with clock_out_work_log()'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF NOT public.is_supervisor()
+    AND (NEW.clock_in > now() + INTERVAL '5 minutes' OR NEW.clock_in < now() - INTERVAL '24 hours') THEN
+    RAISE EXCEPTION 'Clock-in time must be within the last 24 hours'
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS work_logs_check_punch ON work_logs;
+CREATE TRIGGER work_logs_check_punch
+  BEFORE INSERT ON work_logs
+  FOR EACH ROW EXECUTE FUNCTION public.check_work_log_punch();
+
+-- ----------------------------------------------------------------------------
+-- OPTIONAL: recalculate existing logs (可选：重新计算已有记录)
+-- Rewrites stored amounts under the current rules; the audit trigger is paused
+-- so the backfill is not recorded as driver edits.
+-- 使用当前规则重新计算已有记录的金额
+-- ----------------------------------------------------------------------------
+
+-- ALTER TABLE work_logs DISABLE TRIGGER work_logs_audit;
+-- UPDATE work_logs SET clock_out = clock_out WHERE clock_out IS NOT NULL;
+-- ALTER TABLE work_logs ENABLE TRIGGER work_logs_audit;
@@ -0,0 +1,167 @@
+-- ============================================================================
+-- Migration script to add long-shift safeguards to work_logs
+-- - Only one open session per driver (a second clock-in is rejected)
+-- - Sessions longer than max_session_hours are flagged
+-- - Sessions reaching hard_cap_hours are auto-closed, marked "needs review"
+--   and earn no OT until a supervisor approves a correction
+-- Run this in Supabase SQL Editor (after database_work_log_corrections.sql)
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- TABLE: session_settings (打卡时长设置，单行表)
+-- ----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS session_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id), -- Single row
+  max_session_hours NUMERIC(5,2) NOT NULL DEFAULT 16 CHECK (max_session_hours > 0),
+  hard_cap_hours NUMERIC(5,2) NOT NULL DEFAULT 24 CHECK (hard_cap_hours > 0),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (hard_cap_hours >= max_session_hours)
+);
+
+COMMENT ON TABLE session_settings IS 'Fleet-wide limits for how long a single work session may run';
+COMMENT ON COLUMN session_settings.max_session_hours IS 'Sessions longer than this are flagged for a supervisor';
+COMMENT ON COLUMN session_settings.hard_cap_hours IS 'Open sessions are auto-closed at this length and held for review';
+
+INSERT INTO session_settings (id) VALUES (TRUE) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE session_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can read session settings" ON session_settings;
+CREATE POLICY "Authenticated users can read session settings" ON session_settings
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Admins can update session settings" ON session_settings;
+CREATE POLICY "Admins can update session settings" ON session_settings
+  FOR UPDATE
+  TO authenticated
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
+
+-- ----------------------------------------------------------------------------
+-- COLUMNS: review status on work_logs (工作记录审核状态)
+-- ----------------------------------------------------------------------------
+
+-- NULL: normal; 'flagged': longer than max_session_hours;
+-- 'needs_review': reached hard_cap_hours, OT held until corrected
+-- 空：正常；flagged：超过最长时长；needs_review：达到上限，OT 暂停计算直到修正
+ALTER TABLE work_logs
+ADD COLUMN IF NOT EXISTS review_status TEXT
+  CHECK (review_status IN ('flagged', 'needs_review'));
+
+ALTER TABLE work_logs
+ADD COLUMN IF NOT EXISTS auto_closed_at TIMESTAMPTZ;
+
+COMMENT ON COLUMN work_logs.review_status IS 'NULL, flagged (longer than max_session_hours) or needs_review (hit hard_cap_hours, OT held)';
+COMMENT ON COLUMN work_logs.auto_closed_at IS 'When the session was closed by auto_close_stale_sessions instead of the driver';
+
+CREATE INDEX IF NOT EXISTS idx_work_logs_review_status ON work_logs(review_status) WHERE review_status IS NOT NULL;
+
+-- ----------------------------------------------------------------------------
+-- ONE OPEN SESSION PER DRIVER (每位司机只能有一个进行中的打卡)
+-- ----------------------------------------------------------------------------
+
+-- Close any duplicate open sessions left over from before this migration,
+-- keeping the most recent one open. They are held for review.
+-- 关闭迁移前遗留的重复打卡，只保留最新的一条
+UPDATE work_logs w
+SET
+  clock_out = w.clock_in,
+  duration_minutes = 0,
+  overtime_amount = 0,
+  review_status = 'needs_review',
+  auto_closed_at = now()
+WHERE w.clock_out IS NULL
+  AND EXISTS (
+    SELECT 1 FROM work_logs newer
+    WHERE newer.user_id = w.user_id
+      AND newer.clock_out IS NULL
+      AND newer.clock_in > w.clock_in
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_work_logs_one_open_session
+  ON work_logs(user_id) WHERE clock_out IS NULL;
+
+-- ----------------------------------------------------------------------------
+-- FLAG LONG SESSIONS (标记超长打卡)
+-- Runs whenever a session is closed or its times change
+-- ----------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION public.flag_long_sessions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_settings session_settings;
+  v_hours NUMERIC;
+BEGIN
+  IF NEW.clock_out IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND NEW.clock_in IS NOT DISTINCT FROM OLD.clock_in
+    AND NEW.clock_out IS NOT DISTINCT FROM OLD.clock_out THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_settings FROM session_settings WHERE id;
+  v_hours := EXTRACT(EPOCH FROM (NEW.clock_out - NEW.clock_in)) / 3600;
+
+  IF v_hours >= v_settings.hard_cap_hours THEN
+    NEW.review_status := 'needs_review';
+    NEW.overtime_amount := 0;
+  ELSIF v_hours > v_settings.max_session_hours THEN
+    NEW.review_status := 'flagged';
+  ELSE
+    NEW.review_status := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS work_logs_flag_long_sessions ON work_logs;
+CREATE TRIGGER work_logs_flag_long_sessions
+  BEFORE INSERT OR UPDATE ON work_logs
+  FOR EACH ROW EXECUTE FUNCTION public.flag_long_sessions();
+
+-- ----------------------------------------------------------------------------
+-- AUTO-CLOSE STALE SESSIONS (自动关闭超时打卡)
+-- Closes open sessions at clock_in + hard_cap_hours with no OT
+-- ----------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION public.auto_close_stale_sessions()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_cap NUMERIC;
+  v_count INTEGER;
+BEGIN
+  SELECT hard_cap_hours INTO v_cap FROM session_settings WHERE id;
+
+  UPDATE work_logs
+  SET
+    clock_out = clock_in + make_interval(secs => v_cap * 3600),
+    duration_minutes = ROUND(v_cap * 60),
+    overtime_amount = 0,
+    auto_closed_at = now()
+  WHERE clock_out IS NULL
+    AND clock_in <= now() - make_interval(secs => v_cap * 3600);
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+-- Run every 15 minutes with pg_cron (enable the extension under Database → Extensions first)
+-- 使用 pg_cron 每 15 分钟运行一次（需先在 Database → Extensions 启用 pg_cron）
+-- SELECT cron.schedule('auto-close-stale-sessions', '*/15 * * * *', 'SELECT public.auto_close_stale_sessions()');
+
+-- Clients also call it before reading the active session, so limits apply without pg_cron
+GRANT EXECUTE ON FUNCTION public.auto_close_stale_sessions() TO authenticated;
@@ -0,0 +1,211 @@
+-- ============================================================================
+-- Migration script to add geofenced depots and customer sites
+-- - Supervisors maintain a list of sites, each with a radius in metres
+-- - Every clock-in and clock-out is matched to the nearest site it falls in
+-- - Punches outside every site are flagged and carry the driver's reason
+-- Run this in Supabase SQL Editor (after database_server_side_ot.sql)
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- TABLE: sites (车场和客户地点)
+-- ----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS sites (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  -- 'depot': company depot; 'customer': customer site
+  -- depot：公司车场；customer：客户地点
+  site_type TEXT NOT NULL DEFAULT 'depot' CHECK (site_type IN ('depot', 'customer')),
+  address TEXT,
+  lat DOUBLE PRECISION NOT NULL CHECK (lat BETWEEN -90 AND 90),
+  lng DOUBLE PRECISION NOT NULL CHECK (lng BETWEEN -180 AND 180),
+  radius_meters INTEGER NOT NULL DEFAULT 200 CHECK (radius_meters BETWEEN 10 AND 50000),
+  -- Inactive sites are kept for history but no longer match new punches
+  -- 停用的地点保留历史记录，但不再匹配新的打卡
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE sites IS 'Depots and customer sites that clock-ins and clock-outs are checked against';
+COMMENT ON COLUMN sites.radius_meters IS 'Punches within this distance of the site centre match the site';
+
+CREATE INDEX IF NOT EXISTS idx_sites_active ON sites(is_active) WHERE is_active;
+
+ALTER TABLE sites ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can read sites" ON sites;
+CREATE POLICY "Authenticated users can read sites" ON sites
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Supervisors can manage sites" ON sites;
+CREATE POLICY "Supervisors can manage sites" ON sites
+  FOR ALL
+  TO authenticated
+  USING (public.is_supervisor())
+  WITH CHECK (public.is_supervisor());
+
+-- ----------------------------------------------------------------------------
+-- COLUMNS: matched site per punch (打卡匹配的地点)
+-- ----------------------------------------------------------------------------
+
+ALTER TABLE work_logs ADD COLUMN IF NOT EXISTS clock_in_site_id UUID REFERENCES sites(id) ON DELETE SET NULL;
+ALTER TABLE work_logs ADD COLUMN IF NOT EXISTS clock_out_site_id UUID REFERENCES sites(id) ON DELETE SET NULL;
+-- TRUE when the punch had a location but matched no active site
+-- 打卡有定位但不在任何地点范围内时为 TRUE
+ALTER TABLE work_logs ADD COLUMN IF NOT EXISTS clock_in_outside_geofence BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE work_logs ADD COLUMN IF NOT EXISTS clock_out_outside_geofence BOOLEAN NOT NULL DEFAULT FALSE;
+-- Reason given by the driver for punching outside every site
+-- 司机在地点范围外打卡时填写的原因
+ALTER TABLE work_logs ADD COLUMN IF NOT EXISTS clock_in_outside_reason TEXT;
+ALTER TABLE work_logs ADD COLUMN IF NOT EXISTS clock_out_outside_reason TEXT;
+
+COMMENT ON COLUMN work_logs.clock_in_site_id IS 'Site the clock-in was matched to (set by the database)';
+COMMENT ON COLUMN work_logs.clock_out_site_id IS 'Site the clock-out was matched to (set by the database)';
+COMMENT ON COLUMN work_logs.clock_in_outside_geofence IS 'Clock-in was outside every active site (set by the database)';
+COMMENT ON COLUMN work_logs.clock_out_outside_geofence IS 'Clock-out was outside every active site (set by the database)';
+
+CREATE INDEX IF NOT EXISTS idx_work_logs_outside_geofence ON work_logs(clock_in)
+  WHERE clock_in_outside_geofence OR clock_out_outside_geofence;
+
+-- Drivers may record a reason when clocking in; clock-out reasons go through clock_out_work_log
+GRANT INSERT (clock_in_outside_reason) ON work_logs TO authenticated;
+
+-- ----------------------------------------------------------------------------
+-- MATCHING (地点匹配)
+-- ----------------------------------------------------------------------------
+
+-- Great-circle distance in metres (haversine)
+-- 两点间的球面距离（米）
+CREATE OR REPLACE FUNCTION public.distance_meters(
+  p_lat1 DOUBLE PRECISION,
+  p_lng1 DOUBLE PRECISION,
+  p_lat2 DOUBLE PRECISION,
+  p_lng2 DOUBLE PRECISION
+)
+RETURNS DOUBLE PRECISION
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT 2 * 6371000 * asin(sqrt(
+    power(sin(radians(p_lat2 - p_lat1) / 2), 2)
+    + cos(radians(p_lat1)) * cos(radians(p_lat2)) * power(sin(radians(p_lng2 - p_lng1) / 2), 2)
+  ));
+$$;
+
+-- Nearest active site whose radius contains the point
+CREATE OR REPLACE FUNCTION public.match_site(p_lat DOUBLE PRECISION, p_lng DOUBLE PRECISION)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT id
+  FROM sites
+  WHERE is_active
+    AND public.distance_meters(p_lat, p_lng, lat, lng) <= radius_meters
+  ORDER BY public.distance_meters(p_lat, p_lng, lat, lng)
+  LIMIT 1;
+$$;
+
+-- Matches each punch when its coordinates are first recorded, so later site
+-- edits do not rewrite history
+CREATE OR REPLACE FUNCTION public.match_work_log_sites()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_has_sites BOOLEAN := EXISTS (SELECT 1 FROM sites WHERE is_active);
+BEGIN
+  IF TG_OP = 'INSERT'
+    OR NEW.clock_in_lat IS DISTINCT FROM OLD.clock_in_lat
+    OR NEW.clock_in_lng IS DISTINCT FROM OLD.clock_in_lng THEN
+    IF NEW.clock_in_lat IS NULL OR NEW.clock_in_lng IS NULL THEN
+      NEW.clock_in_site_id := NULL;
+      NEW.clock_in_outside_geofence := FALSE;
+    ELSE
+      NEW.clock_in_site_id := public.match_site(NEW.clock_in_lat, NEW.clock_in_lng);
+      NEW.clock_in_outside_geofence := v_has_sites AND NEW.clock_in_site_id IS NULL;
+    END IF;
+  END IF;
+
+  IF TG_OP = 'INSERT'
+    OR NEW.clock_out_lat IS DISTINCT FROM OLD.clock_out_lat
+    OR NEW.clock_out_lng IS DISTINCT FROM OLD.clock_out_lng THEN
+    IF NEW.clock_out_lat IS NULL OR NEW.clock_out_lng IS NULL THEN
+      NEW.clock_out_site_id := NULL;
+      NEW.clock_out_outside_geofence := FALSE;
+    ELSE
+      NEW.clock_out_site_id := public.match_site(NEW.clock_out_lat, NEW.clock_out_lng);
+      NEW.clock_out_outside_geofence := v_has_sites AND NEW.clock_out_site_id IS NULL;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS work_logs_match_sites ON work_logs;
+CREATE TRIGGER work_logs_match_sites
+  BEFORE INSERT OR UPDATE ON work_logs
+  FOR EACH ROW EXECUTE FUNCTION public.match_work_log_sites();
+
+-- ----------------------------------------------------------------------------
+-- CLOCK OUT: accept a reason for punching outside every site (下班打卡：范围外原因)
+-- ----------------------------------------------------------------------------
+
+DROP FUNCTION IF EXISTS public.clock_out_work_log(UUID, TIMESTAMPTZ, BOOLEAN, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.clock_out_work_log(
+  p_log_id UUID,
+  p_clock_out TIMESTAMPTZ,
+  p_is_outstation BOOLEAN DEFAULT FALSE,
+  p_clock_out_lat DOUBLE PRECISION DEFAULT NULL,
+  p_clock_out_lng DOUBLE PRECISION DEFAULT NULL,
+  p_clock_out_postcode TEXT DEFAULT NULL,
+  p_check_out_location TEXT DEFAULT NULL,
+  p_outside_reason TEXT DEFAULT NULL
+)
+RETURNS work_logs
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_log work_logs;
+BEGIN
+  SELECT * INTO v_log FROM work_logs
+  WHERE id = p_log_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Work log not found';
+  END IF;
+  IF v_log.clock_out IS NOT NULL THEN
+    RAISE EXCEPTION 'This session was already closed';
+  END IF;
+  IF p_clock_out <= v_log.clock_in THEN
+    RAISE EXCEPTION 'Clock-out time must be after clock-in';
+  END IF;
+  IF p_clock_out > now() + INTERVAL '5 minutes' THEN
+    RAISE EXCEPTION 'Clock-out time cannot be in the future';
+  END IF;
+
+  UPDATE work_logs
+  SET
+    clock_out = p_clock_out,
+    is_outstation = COALESCE(p_is_outstation, FALSE),
+    clock_out_lat = p_clock_out_lat,
+    clock_out_lng = p_clock_out_lng,
+    clock_out_postcode = p_clock_out_postcode,
+    check_out_location = p_check_out_location,
+    clock_out_outside_reason = NULLIF(trim(p_outside_reason), '')
+  WHERE id = p_log_id
+  RETURNING * INTO v_log;
+
+  RETURN v_log;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.clock_out_work_log(UUID, TIMESTAMPTZ, BOOLEAN, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, TEXT, TEXT) TO authenticated;
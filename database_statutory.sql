@@ -0,0 +1,61 @@
+-- ============================================================================
+-- Migration script to configure statutory deductions (EPF, SOCSO, EIS, PCB)
+-- - The app estimates employee and employer contributions and net pay from
+--   the monthly gross on the Monthly Dashboard
+-- - Which pay components count as wages for each contribution is set here;
+--   the rates themselves follow the statutory schedules in the app
+-- Run this in Supabase SQL Editor (after database_roles.sql)
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- TABLE: statutory_settings (法定扣款设置，单行表)
+-- Components: basic_salary, ot_pay, food_allowance, attendance_allowance,
+-- outstation_meal_allowance, claims
+-- 可选工资项目：基本工资、加班费、伙食津贴、全勤奖、外站餐费津贴、报销
+-- ----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS statutory_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (id), -- Single row
+  -- EPF wages exclude overtime and reimbursements
+  -- 公积金不计加班费和报销
+  epf_wage_components TEXT[] NOT NULL
+    DEFAULT ARRAY['basic_salary', 'food_allowance', 'attendance_allowance'],
+  -- SOCSO and EIS wages include overtime
+  -- 社险和就业保险计入加班费
+  socso_wage_components TEXT[] NOT NULL
+    DEFAULT ARRAY['basic_salary', 'ot_pay', 'food_allowance', 'attendance_allowance'],
+  eis_wage_components TEXT[] NOT NULL
+    DEFAULT ARRAY['basic_salary', 'ot_pay', 'food_allowance', 'attendance_allowance'],
+  -- PCB is charged on all taxable pay; claims are reimbursements
+  -- 个人所得税按全部应税收入计算，报销不计
+  pcb_wage_components TEXT[] NOT NULL
+    DEFAULT ARRAY['basic_salary', 'ot_pay', 'food_allowance', 'attendance_allowance', 'outstation_meal_allowance'],
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT statutory_settings_components_check CHECK (
+    epf_wage_components <@ ARRAY['basic_salary', 'ot_pay', 'food_allowance', 'attendance_allowance', 'outstation_meal_allowance', 'claims']
+    AND socso_wage_components <@ ARRAY['basic_salary', 'ot_pay', 'food_allowance', 'attendance_allowance', 'outstation_meal_allowance', 'claims']
+    AND eis_wage_components <@ ARRAY['basic_salary', 'ot_pay', 'food_allowance', 'attendance_allowance', 'outstation_meal_allowance', 'claims']
+    AND pcb_wage_components <@ ARRAY['basic_salary', 'ot_pay', 'food_allowance', 'attendance_allowance', 'outstation_meal_allowance', 'claims']
+  )
+);
+
+COMMENT ON TABLE statutory_settings IS 'Fleet-wide choice of pay components that count as wages for EPF, SOCSO, EIS and PCB';
+
+INSERT INTO statutory_settings (id) VALUES (TRUE) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE statutory_settings ENABLE ROW LEVEL SECURITY;
+
+-- Every driver needs the settings to see their own net pay
+-- 司机查看自己的净工资时需要读取设置
+DROP POLICY IF EXISTS "Authenticated users can read statutory settings" ON statutory_settings;
+CREATE POLICY "Authenticated users can read statutory settings" ON statutory_settings
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Admins can update statutory settings" ON statutory_settings;
+CREATE POLICY "Admins can update statutory settings" ON statutory_settings
+  FOR UPDATE
+  TO authenticated
+  USING (public.is_admin())
+  WITH CHECK (public.is_admin());
@@ -0,0 +1,480 @@
+-- ============================================================================
+-- Migration script to close months through timesheet approval
+-- - Drivers submit a month; a supervisor approves or rejects it
+-- - On approval the month's pay (summary and per-log breakdowns) is frozen as
+--   a snapshot, and the Monthly Dashboard shows the snapshot from then on
+-- - Work logs, leave and claims in an approved month can no longer be changed
+-- Run this in Supabase SQL Editor (after database_claims.sql and database_geocode_cache.sql)
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- TABLE: timesheets (月度工时表)
+-- ----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS timesheets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- First day of the month covered
+  -- 所属月份的第一天
+  period_start DATE NOT NULL CHECK (EXTRACT(DAY FROM period_start) = 1),
+  status TEXT NOT NULL DEFAULT 'submitted' CHECK (status IN ('submitted', 'approved', 'rejected')),
+  submitted_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  reviewed_by UUID REFERENCES auth.users(id),
+  reviewed_at TIMESTAMPTZ,
+  review_notes TEXT,
+  -- The month's payroll as approved (records and summary), set on approval
+  -- 审批时冻结的月度薪资（明细及汇总）
+  snapshot JSONB,
+  UNIQUE (user_id, period_start),
+  CHECK (status <> 'approved' OR snapshot IS NOT NULL)
+);
+
+COMMENT ON TABLE timesheets IS 'Monthly timesheets submitted by drivers; approved months are closed';
+COMMENT ON COLUMN timesheets.snapshot IS 'Payroll for the month frozen at approval';
+
+CREATE INDEX IF NOT EXISTS idx_timesheets_submitted ON timesheets(submitted_at) WHERE status = 'submitted';
+
+ALTER TABLE timesheets ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read own timesheets" ON timesheets;
+CREATE POLICY "Users can read own timesheets" ON timesheets
+  FOR SELECT
+  USING (auth.uid() = user_id OR public.is_supervisor());
+
+-- Timesheets only change through submit_timesheet and review_timesheet
+-- 工时表只能通过 submit_timesheet / review_timesheet 修改
+REVOKE INSERT, UPDATE, DELETE ON timesheets FROM anon, authenticated;
+
+-- ----------------------------------------------------------------------------
+-- CLOSED MONTHS (已关闭月份)
+-- A log belongs to the month of its clock-in in the payroll time zone.
+-- 工作记录按上班打卡时间（薪资时区）归入月份
+-- ----------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION public.month_is_closed(p_user_id UUID, p_date DATE)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM timesheets
+    WHERE user_id = p_user_id
+      AND period_start = date_trunc('month', p_date)::DATE
+      AND status = 'approved'
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.block_closed_month_work_logs()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE')
+     AND public.month_is_closed(OLD.user_id, (OLD.clock_in AT TIME ZONE public.payroll_time_zone())::DATE) THEN
+    RAISE EXCEPTION 'This month has been approved and closed; its work logs can no longer be changed';
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE')
+     AND public.month_is_closed(NEW.user_id, (NEW.clock_in AT TIME ZONE public.payroll_time_zone())::DATE) THEN
+    RAISE EXCEPTION 'This month has been approved and closed; its work logs can no longer be changed';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Named to fire before work_logs_flag_long_sessions and work_logs_set_ot
+-- 触发器按名称顺序执行，此触发器最先执行
+DROP TRIGGER IF EXISTS work_logs_block_closed_month ON work_logs;
+CREATE TRIGGER work_logs_block_closed_month
+  BEFORE INSERT OR UPDATE OR DELETE ON work_logs
+  FOR EACH ROW EXECUTE FUNCTION public.block_closed_month_work_logs();
+
+-- Leave decides the attendance allowance of its month
+-- 请假影响当月全勤奖
+CREATE OR REPLACE FUNCTION public.block_closed_month_leaves()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') AND public.month_is_closed(OLD.user_id, OLD.leave_date) THEN
+    RAISE EXCEPTION 'This month has been approved and closed; its leave can no longer be changed';
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') AND public.month_is_closed(NEW.user_id, NEW.leave_date) THEN
+    RAISE EXCEPTION 'This month has been approved and closed; its leave can no longer be changed';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS leaves_block_closed_month ON leaves;
+CREATE TRIGGER leaves_block_closed_month
+  BEFORE INSERT OR UPDATE OR DELETE ON leaves
+  FOR EACH ROW EXECUTE FUNCTION public.block_closed_month_leaves();
+
+-- Claims are paid with the month of their work log
+-- 报销随所属工作记录的月份支付
+CREATE OR REPLACE FUNCTION public.block_closed_month_claims()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_work_log_id UUID := CASE WHEN TG_OP = 'DELETE' THEN OLD.work_log_id ELSE NEW.work_log_id END;
+  v_log work_logs;
+BEGIN
+  SELECT * INTO v_log FROM work_logs WHERE id = v_work_log_id;
+
+  IF FOUND AND public.month_is_closed(v_log.user_id, (v_log.clock_in AT TIME ZONE public.payroll_time_zone())::DATE) THEN
+    RAISE EXCEPTION 'This month has been approved and closed; its claims can no longer be changed';
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    RETURN OLD;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS claims_block_closed_month ON claims;
+CREATE TRIGGER claims_block_closed_month
+  BEFORE INSERT OR UPDATE OR DELETE ON claims
+  FOR EACH ROW EXECUTE FUNCTION public.block_closed_month_claims();
+
+-- Late geocoding would move punches in a closed month to another state's
+-- holidays; those punches keep "Unknown"
+-- 已关闭月份的打卡不再补充地址
+CREATE OR REPLACE FUNCTION public.set_work_log_geocode(
+  p_log_id UUID,
+  p_punch TEXT, -- 'clock_in' or 'clock_out'
+  p_address TEXT,
+  p_postcode TEXT
+)
+RETURNS work_logs
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_log work_logs;
+BEGIN
+  IF p_punch NOT IN ('clock_in', 'clock_out') THEN
+    RAISE EXCEPTION 'Punch must be clock_in or clock_out';
+  END IF;
+  IF COALESCE(p_postcode, 'Unknown') = 'Unknown' THEN
+    RAISE EXCEPTION 'A postcode is required';
+  END IF;
+
+  SELECT * INTO v_log FROM work_logs WHERE id = p_log_id;
+
+  IF NOT FOUND OR (v_log.user_id <> auth.uid() AND NOT public.is_supervisor()) THEN
+    RAISE EXCEPTION 'Work log not found';
+  END IF;
+
+  IF public.month_is_closed(v_log.user_id, (v_log.clock_in AT TIME ZONE public.payroll_time_zone())::DATE) THEN
+    RETURN v_log;
+  END IF;
+
+  IF p_punch = 'clock_in' THEN
+    IF COALESCE(v_log.clock_in_postcode, 'Unknown') <> 'Unknown' THEN
+      RETURN v_log;
+    END IF;
+    UPDATE work_logs
+    SET clock_in_postcode = p_postcode, check_in_location = p_address
+    WHERE id = p_log_id
+    RETURNING * INTO v_log;
+  ELSE
+    IF COALESCE(v_log.clock_out_postcode, 'Unknown') <> 'Unknown' THEN
+      RETURN v_log;
+    END IF;
+    UPDATE work_logs
+    SET clock_out_postcode = p_postcode, check_out_location = p_address
+    WHERE id = p_log_id
+    RETURNING * INTO v_log;
+  END IF;
+
+  RETURN v_log;
+END;
+$$;
+
+-- Closed months are not picked for re-geocoding at all
+-- 已关闭月份的打卡不再尝试补充地址
+CREATE OR REPLACE FUNCTION public.claim_regeocode_work_logs(
+  p_user_id UUID DEFAULT NULL, -- NULL: every log the caller can see
+  p_limit INTEGER DEFAULT 10
+)
+RETURNS SETOF work_logs
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH due AS (
+    SELECT w.id
+    FROM work_logs w
+    LEFT JOIN work_log_geocode_attempts a ON a.work_log_id = w.id
+    WHERE (p_user_id IS NULL OR w.user_id = p_user_id)
+      AND (w.user_id = auth.uid() OR public.is_supervisor())
+      AND (
+        (w.clock_in_postcode = 'Unknown' AND w.clock_in_lat IS NOT NULL)
+        OR (w.clock_out_postcode = 'Unknown' AND w.clock_out_lat IS NOT NULL)
+      )
+      AND (a.attempted_at IS NULL OR a.attempted_at < now() - INTERVAL '1 day')
+      AND NOT public.month_is_closed(w.user_id, (w.clock_in AT TIME ZONE public.payroll_time_zone())::DATE)
+    ORDER BY w.clock_in DESC
+    LIMIT p_limit
+  ), stamped AS (
+    INSERT INTO work_log_geocode_attempts (work_log_id, attempted_at)
+    SELECT id, now() FROM due
+    ON CONFLICT (work_log_id) DO UPDATE SET attempted_at = EXCLUDED.attempted_at
+  )
+  SELECT w.*
+  FROM work_logs w
+  JOIN due ON due.id = w.id
+  ORDER BY w.clock_in DESC;
+END;
+$$;
+
+-- ----------------------------------------------------------------------------
+-- SUBMIT AND REVIEW (提交与审批)
+-- The payroll engine runs in the browser, so the reviewer's client passes the
+-- month's payroll in as the snapshot; check_timesheet_snapshot() compares it
+-- with the stored work logs, leave and claims before it is frozen. Only
+-- supervisors can approve.
+-- 客户端计算月度薪资并作为快照传入，审批前与数据库中的工作记录、请假和报销核对；仅主管可以审批
+-- ----------------------------------------------------------------------------
+
+-- Sessions still open in the month would change after the snapshot
+CREATE OR REPLACE FUNCTION public.has_open_session_in_month(p_user_id UUID, p_period_start DATE)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM work_logs
+    WHERE user_id = p_user_id
+      AND clock_out IS NULL
+      AND date_trunc('month', clock_in AT TIME ZONE public.payroll_time_zone())::DATE = p_period_start
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.submit_timesheet(p_period_start DATE)
+RETURNS timesheets
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_timesheet timesheets;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+  IF EXTRACT(DAY FROM p_period_start) <> 1 THEN
+    RAISE EXCEPTION 'A timesheet covers a whole month';
+  END IF;
+  -- Closing a month that is still running would block new punches in it
+  -- 只能提交已结束的月份
+  IF (p_period_start + INTERVAL '1 month')::DATE > (now() AT TIME ZONE public.payroll_time_zone())::DATE THEN
+    RAISE EXCEPTION 'A month can be submitted once it has ended';
+  END IF;
+  IF public.has_open_session_in_month(auth.uid(), p_period_start) THEN
+    RAISE EXCEPTION 'Clock out before submitting the month';
+  END IF;
+
+  -- A rejected month can be submitted again
+  -- 被驳回的月份可以重新提交
+  INSERT INTO timesheets (user_id, period_start)
+  VALUES (auth.uid(), p_period_start)
+  ON CONFLICT (user_id, period_start) DO UPDATE
+  SET
+    status = 'submitted',
+    submitted_at = now(),
+    reviewed_by = NULL,
+    reviewed_at = NULL,
+    review_notes = NULL
+  WHERE timesheets.status = 'rejected'
+  RETURNING * INTO v_timesheet;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This month has already been submitted';
+  END IF;
+
+  RETURN v_timesheet;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.submit_timesheet(DATE) TO authenticated;
+
+-- The snapshot must cover exactly the month's closed logs with their stored OT
+-- and meal allowance (held logs earn nothing), count only approved claims on
+-- them, take the attendance allowance and salary from the month-end pay
+-- profile, and add up. Statutory deductions are estimates and are not checked.
+-- 快照必须包含当月所有已下班的记录，且每条的 OT 和餐费与数据库一致，合计正确
+CREATE OR REPLACE FUNCTION public.check_timesheet_snapshot(p_timesheet timesheets, p_snapshot JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_tz TEXT := public.payroll_time_zone();
+  v_month_end DATE := (p_timesheet.period_start + INTERVAL '1 month' - INTERVAL '1 day')::DATE;
+  v_profile pay_profiles := public.pay_profile_for(p_timesheet.user_id, v_month_end);
+  v_reward NUMERIC := COALESCE(v_profile.full_attendance_reward, 300);
+  v_records JSONB := p_snapshot->'records';
+  v_summary JSONB := p_snapshot->'summary';
+  v_log_ids UUID[];
+  v_stored_count INTEGER;
+  v_mismatch TIMESTAMPTZ;
+  v_records_ot NUMERIC;
+  v_records_meal NUMERIC;
+  v_claims NUMERIC;
+  v_deduction NUMERIC;
+BEGIN
+  IF jsonb_typeof(v_records) IS DISTINCT FROM 'array' OR jsonb_typeof(v_summary) IS DISTINCT FROM 'object' THEN
+    RAISE EXCEPTION 'The month''s payroll is not in the expected format';
+  END IF;
+
+  -- Same logs as stored
+  -- 与数据库中的记录一致
+  SELECT
+    COALESCE(array_agg((r->'workLog'->>'id')::UUID), '{}'),
+    COALESCE(SUM((r->>'otAmount')::NUMERIC), 0),
+    COALESCE(SUM((r->>'allowanceAmount')::NUMERIC), 0)
+  INTO v_log_ids, v_records_ot, v_records_meal
+  FROM jsonb_array_elements(v_records) r;
+
+  SELECT COUNT(*) INTO v_stored_count
+  FROM work_logs
+  WHERE user_id = p_timesheet.user_id
+    AND clock_out IS NOT NULL
+    AND date_trunc('month', clock_in AT TIME ZONE v_tz)::DATE = p_timesheet.period_start;
+
+  IF cardinality(v_log_ids) <> v_stored_count OR EXISTS (
+    SELECT 1 FROM work_logs
+    WHERE user_id = p_timesheet.user_id
+      AND clock_out IS NOT NULL
+      AND date_trunc('month', clock_in AT TIME ZONE v_tz)::DATE = p_timesheet.period_start
+      AND NOT (id = ANY(v_log_ids))
+  ) THEN
+    RAISE EXCEPTION 'The payroll does not cover the month''s work logs; reload the month and try again';
+  END IF;
+
+  -- Each log's OT and meal allowance as stored
+  -- 每条记录的 OT 和餐费与数据库一致
+  SELECT w.clock_in INTO v_mismatch
+  FROM jsonb_array_elements(v_records) r
+  JOIN work_logs w ON w.id = (r->'workLog'->>'id')::UUID
+  WHERE ABS(COALESCE((r->>'otAmount')::NUMERIC, 0)
+          - CASE WHEN w.review_status = 'needs_review' THEN 0 ELSE COALESCE(w.overtime_amount, 0) END) > 0.01
+     OR ABS(COALESCE((r->>'allowanceAmount')::NUMERIC, 0)
+          - CASE WHEN w.review_status = 'needs_review' THEN 0 ELSE COALESCE(w.meal_allowance, 0) END) > 0.01
+  ORDER BY w.clock_in
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'OT for the session starting % does not match the stored amount; recalculate the month before approving',
+      to_char(v_mismatch AT TIME ZONE v_tz, 'DD Mon YYYY HH12:MI AM');
+  END IF;
+
+  -- Approved claims on the month's logs
+  -- 当月记录的已批准报销
+  SELECT COALESCE(SUM(amount), 0) INTO v_claims
+  FROM claims
+  WHERE status = 'approved' AND work_log_id = ANY(v_log_ids);
+
+  -- Attendance allowance less RM100 per annual/medical/late day and RM300 per emergency day
+  -- 全勤奖：年假/病假/迟到每天扣 RM100，紧急假每天扣 RM300
+  SELECT LEAST(
+    v_reward,
+    100 * COUNT(*) FILTER (WHERE leave_type IN ('medical', 'annual', 'late'))
+      + 300 * COUNT(*) FILTER (WHERE leave_type = 'emergency')
+  ) INTO v_deduction
+  FROM leaves
+  WHERE user_id = p_timesheet.user_id
+    AND leave_date BETWEEN p_timesheet.period_start AND v_month_end;
+
+  IF ABS((v_summary->>'totalOTPay')::NUMERIC - v_records_ot) > 0.01
+    OR ABS((v_summary->>'outstationMealAllowances')::NUMERIC - v_records_meal) > 0.01
+    OR ABS((v_summary->>'approvedClaims')::NUMERIC - v_claims) > 0.01
+    OR ABS((v_summary->>'fullAttendanceReward')::NUMERIC - GREATEST(0, v_reward - v_deduction)) > 0.01
+    OR ABS((v_summary->>'basicSalary')::NUMERIC - COALESCE(v_profile.basic_salary, 3000)) > 0.01
+    OR ABS((v_summary->>'foodAllowance')::NUMERIC - COALESCE(v_profile.food_allowance, 0)) > 0.01
+  THEN
+    RAISE EXCEPTION 'The month''s totals do not match the stored work logs, leave and claims; reload the month and try again';
+  END IF;
+
+  IF ABS((v_summary->>'grandTotal')::NUMERIC
+      - (v_summary->>'basicSalary')::NUMERIC
+      - (v_summary->>'totalOTPay')::NUMERIC
+      - (v_summary->>'foodAllowance')::NUMERIC
+      - (v_summary->>'fullAttendanceReward')::NUMERIC
+      - (v_summary->>'outstationMealAllowances')::NUMERIC
+      - (v_summary->>'approvedClaims')::NUMERIC) > 0.01
+    OR ABS((v_summary->>'netPay')::NUMERIC
+      - ((v_summary->>'grandTotal')::NUMERIC - (v_summary->'deductions'->>'totalEmployee')::NUMERIC)) > 0.01
+  THEN
+    RAISE EXCEPTION 'The month''s totals do not add up';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.review_timesheet(
+  p_timesheet_id UUID,
+  p_approve BOOLEAN,
+  p_review_notes TEXT DEFAULT NULL,
+  p_snapshot JSONB DEFAULT NULL
+)
+RETURNS timesheets
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_timesheet timesheets;
+BEGIN
+  IF NOT public.is_supervisor() THEN
+    RAISE EXCEPTION 'Only supervisors can review timesheets';
+  END IF;
+
+  SELECT * INTO v_timesheet FROM timesheets WHERE id = p_timesheet_id AND status = 'submitted' FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Timesheet not found or already reviewed';
+  END IF;
+  IF v_timesheet.user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot review your own timesheet';
+  END IF;
+  IF p_approve THEN
+    IF p_snapshot IS NULL THEN
+      RAISE EXCEPTION 'The month''s payroll is required to approve it';
+    END IF;
+    IF public.has_open_session_in_month(v_timesheet.user_id, v_timesheet.period_start) THEN
+      RAISE EXCEPTION 'The driver still has an open session in this month';
+    END IF;
+    PERFORM public.check_timesheet_snapshot(v_timesheet, p_snapshot);
+  END IF;
+
+  UPDATE timesheets
+  SET
+    status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+    reviewed_by = auth.uid(),
+    reviewed_at = now(),
+    review_notes = p_review_notes,
+    snapshot = CASE WHEN p_approve THEN p_snapshot ELSE NULL END
+  WHERE id = p_timesheet_id
+  RETURNING * INTO v_timesheet;
+
+  RETURN v_timesheet;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.review_timesheet(UUID, BOOLEAN, TEXT, JSONB) TO authenticated;
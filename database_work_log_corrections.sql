@@ -0,0 +1,232 @@
+-- ============================================================================
+-- Migration script to add work log corrections and an audit trail
+-- Drivers request corrected clock-in/out times (e.g. a forgotten clock-out),
+-- supervisors approve or reject them, and every change to work_logs is
+-- recorded in an append-only work_log_audit table.
+-- Run this in Supabase SQL Editor (after database_roles.sql)
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- TABLE: work_log_corrections (修正申请)
+-- ----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS work_log_corrections (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  work_log_id UUID NOT NULL REFERENCES work_logs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Proposed times (建议的打卡时间)
+  requested_clock_in TIMESTAMPTZ NOT NULL,
+  requested_clock_out TIMESTAMPTZ NOT NULL,
+  reason TEXT NOT NULL,
+  -- Status: 'pending', 'approved' or 'rejected'
+  -- 状态：待审批、已批准或已拒绝
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'approved', 'rejected')),
+  reviewed_by UUID REFERENCES auth.users(id),
+  reviewed_at TIMESTAMPTZ,
+  review_notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CHECK (requested_clock_out > requested_clock_in)
+);
+
+COMMENT ON TABLE work_log_corrections IS 'Driver requests to correct clock-in/out times, reviewed by a supervisor';
+
+CREATE INDEX IF NOT EXISTS idx_work_log_corrections_work_log ON work_log_corrections(work_log_id);
+CREATE INDEX IF NOT EXISTS idx_work_log_corrections_status ON work_log_corrections(status);
+
+-- Only one pending request per work log
+-- 每条工作记录只能有一个待审批的申请
+CREATE UNIQUE INDEX IF NOT EXISTS idx_work_log_corrections_one_pending
+  ON work_log_corrections(work_log_id) WHERE status = 'pending';
+
+-- ----------------------------------------------------------------------------
+-- TABLE: work_log_audit (审计记录，不可修改)
+-- No foreign key to work_logs so history survives deleted logs
+-- ----------------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS work_log_audit (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  work_log_id UUID NOT NULL,
+  user_id UUID NOT NULL, -- Owner of the work log
+  changed_by UUID, -- User who made the change (NULL for SQL Editor / service role)
+  action TEXT NOT NULL CHECK (action IN ('update', 'delete', 'correction')),
+  correction_id UUID REFERENCES work_log_corrections(id) ON DELETE SET NULL,
+  before_values JSONB,
+  after_values JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE work_log_audit IS 'Append-only history of every change to work_logs with before and after values';
+
+CREATE INDEX IF NOT EXISTS idx_work_log_audit_work_log ON work_log_audit(work_log_id, created_at);
+
+-- Reject any UPDATE or DELETE on the audit table, even from the service role
+-- 禁止修改或删除审计记录
+CREATE OR REPLACE FUNCTION public.prevent_audit_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RAISE EXCEPTION 'work_log_audit is append-only';
+END;
+$$;
+
+DROP TRIGGER IF EXISTS work_log_audit_immutable ON work_log_audit;
+CREATE TRIGGER work_log_audit_immutable
+  BEFORE UPDATE OR DELETE ON work_log_audit
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_audit_changes();
+
+-- ----------------------------------------------------------------------------
+-- AUDIT TRIGGER ON work_logs (工作记录审计触发器)
+-- Changes made through approve_work_log_correction are tagged with the correction
+-- ----------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION public.audit_work_log_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_correction_id UUID := NULLIF(current_setting('app.correction_id', true), '')::UUID;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    INSERT INTO work_log_audit (work_log_id, user_id, changed_by, action, before_values)
+    VALUES (OLD.id, OLD.user_id, auth.uid(), 'delete', to_jsonb(OLD));
+    RETURN OLD;
+  END IF;
+
+  IF to_jsonb(OLD) IS DISTINCT FROM to_jsonb(NEW) THEN
+    INSERT INTO work_log_audit (work_log_id, user_id, changed_by, action, correction_id, before_values, after_values)
+    VALUES (
+      NEW.id,
+      NEW.user_id,
+      auth.uid(),
+      CASE WHEN v_correction_id IS NULL THEN 'update' ELSE 'correction' END,
+      v_correction_id,
+      to_jsonb(OLD),
+      to_jsonb(NEW)
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS work_logs_audit ON work_logs;
+CREATE TRIGGER work_logs_audit
+  AFTER UPDATE OR DELETE ON work_logs
+  FOR EACH ROW EXECUTE FUNCTION public.audit_work_log_changes();
+
+-- ----------------------------------------------------------------------------
+-- REVIEW FUNCTIONS (审批函数)
+-- The client recalculates OT for the requested times and passes the result in;
+-- the function checks the caller is a supervisor and applies everything atomically.
+-- ----------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION public.approve_work_log_correction(
+  p_correction_id UUID,
+  p_duration_minutes INTEGER,
+  p_overtime_amount NUMERIC,
+  p_day_type TEXT,
+  p_review_notes TEXT DEFAULT NULL
+)
+RETURNS work_log_corrections
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_correction work_log_corrections;
+BEGIN
+  IF NOT public.is_supervisor() THEN
+    RAISE EXCEPTION 'Only supervisors can approve corrections';
+  END IF;
+
+  SELECT * INTO v_correction FROM work_log_corrections
+  WHERE id = p_correction_id AND status = 'pending'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Correction not found or already reviewed';
+  END IF;
+
+  PERFORM set_config('app.correction_id', p_correction_id::TEXT, true);
+
+  UPDATE work_logs
+  SET
+    clock_in = v_correction.requested_clock_in,
+    clock_out = v_correction.requested_clock_out,
+    duration_minutes = p_duration_minutes,
+    overtime_amount = p_overtime_amount,
+    day_type = p_day_type
+  WHERE id = v_correction.work_log_id;
+
+  PERFORM set_config('app.correction_id', '', true);
+
+  UPDATE work_log_corrections
+  SET status = 'approved', reviewed_by = auth.uid(), reviewed_at = now(), review_notes = p_review_notes
+  WHERE id = p_correction_id
+  RETURNING * INTO v_correction;
+
+  RETURN v_correction;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.reject_work_log_correction(
+  p_correction_id UUID,
+  p_review_notes TEXT DEFAULT NULL
+)
+RETURNS work_log_corrections
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_correction work_log_corrections;
+BEGIN
+  IF NOT public.is_supervisor() THEN
+    RAISE EXCEPTION 'Only supervisors can reject corrections';
+  END IF;
+
+  UPDATE work_log_corrections
+  SET status = 'rejected', reviewed_by = auth.uid(), reviewed_at = now(), review_notes = p_review_notes
+  WHERE id = p_correction_id AND status = 'pending'
+  RETURNING * INTO v_correction;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Correction not found or already reviewed';
+  END IF;
+
+  RETURN v_correction;
+END;
+$$;
+
+-- ----------------------------------------------------------------------------
+-- ROW LEVEL SECURITY (行级安全)
+-- ----------------------------------------------------------------------------
+
+ALTER TABLE work_log_corrections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE work_log_audit ENABLE ROW LEVEL SECURITY;
+
+-- Drivers request corrections for their own work logs and can see them
+-- 司机可以为自己的工作记录提交和查看修正申请
+DROP POLICY IF EXISTS "Users can read own corrections" ON work_log_corrections;
+CREATE POLICY "Users can read own corrections" ON work_log_corrections
+  FOR SELECT
+  USING (auth.uid() = user_id OR public.is_supervisor());
+
+DROP POLICY IF EXISTS "Users can request corrections" ON work_log_corrections;
+CREATE POLICY "Users can request corrections" ON work_log_corrections
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = user_id
+    AND status = 'pending'
+    AND EXISTS (SELECT 1 FROM work_logs WHERE work_logs.id = work_log_id AND work_logs.user_id = auth.uid())
+  );
+
+-- Reviews go through approve/reject functions only, so there is no UPDATE policy
+-- 审批只能通过函数进行，因此没有 UPDATE 策略
+
+-- Audit rows are written by the trigger and readable by the owner and supervisors
+-- 审计记录由触发器写入，司机本人和主管可查看
+DROP POLICY IF EXISTS "Users can read own audit" ON work_log_audit;
+CREATE POLICY "Users can read own audit" ON work_log_audit
+  FOR SELECT
+  USING (auth.uid() = user_id OR public.is_supervisor());
@@ -0,0 +1,111 @@
+-- ============================================================================
+-- Migration script to import historical work logs
+-- - Closed sessions can no longer be inserted by clients (see the
+--   work_logs_check_punch trigger), so imports go through import_work_logs()
+-- - Only supervisors can import, for any driver; every row is checked for
+--   clock order and for overlaps with the driver's stored logs before it is
+--   inserted, and OT is calculated by work_logs_set_ot as at clock-out
+-- Run this in Supabase SQL Editor (after database_server_side_ot.sql)
+-- ============================================================================
+
+-- ----------------------------------------------------------------------------
+-- FUNCTION: import_work_logs (导入历史工作记录)
+-- Rows are inserted oldest first so earlier sessions on the same day count
+-- towards the later ones; because each row is checked against the rows stored
+-- before it, overlaps within the file are caught as well. One bad row rejects
+-- the whole import.
+-- 仅限主管；按上班时间顺序插入，每行都与已有记录（包括本次已插入的行）检查时间重叠，任何一行无效则整个导入失败
+-- ----------------------------------------------------------------------------
+
+CREATE OR REPLACE FUNCTION public.import_work_logs(
+  p_user_id UUID,
+  p_logs JSONB
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_log RECORD;
+  v_clash TIMESTAMPTZ;
+  v_count INTEGER := 0;
+BEGIN
+  IF NOT public.is_supervisor() THEN
+    RAISE EXCEPTION 'Only supervisors can import work logs';
+  END IF;
+
+  IF jsonb_typeof(p_logs) IS DISTINCT FROM 'array' THEN
+    RAISE EXCEPTION 'Work logs must be a JSON array';
+  END IF;
+
+  -- A second import for the same driver waits until this one is done
+  PERFORM pg_advisory_xact_lock(hashtext('work_logs:' || p_user_id::TEXT));
+
+  PERFORM set_config('app.work_log_import', 'on', true);
+
+  FOR v_log IN
+    SELECT *
+    FROM jsonb_to_recordset(p_logs) AS l(
+      clock_in TIMESTAMPTZ,
+      clock_out TIMESTAMPTZ,
+      check_in_location TEXT,
+      check_out_location TEXT,
+      is_public_holiday BOOLEAN,
+      is_outstation BOOLEAN
+    )
+    ORDER BY l.clock_in
+  LOOP
+    IF v_log.clock_in IS NULL OR v_log.clock_out IS NULL THEN
+      RAISE EXCEPTION 'Every work log needs a clock_in and a clock_out';
+    END IF;
+
+    IF v_log.clock_out <= v_log.clock_in THEN
+      RAISE EXCEPTION 'Work log starting % ends before it starts', v_log.clock_in;
+    END IF;
+
+    IF v_log.clock_out > now() THEN
+      RAISE EXCEPTION 'Work log starting % ends in the future', v_log.clock_in;
+    END IF;
+
+    -- Open sessions run until they are clocked out
+    SELECT clock_in INTO v_clash
+    FROM work_logs
+    WHERE user_id = p_user_id
+      AND clock_in < v_log.clock_out
+      AND COALESCE(clock_out, 'infinity'::TIMESTAMPTZ) > v_log.clock_in
+    ORDER BY clock_in
+    LIMIT 1;
+
+    IF FOUND THEN
+      RAISE EXCEPTION 'Work log starting % overlaps the log starting %', v_log.clock_in, v_clash;
+    END IF;
+
+    INSERT INTO work_logs (
+      user_id,
+      clock_in,
+      clock_out,
+      check_in_location,
+      check_out_location,
+      is_public_holiday,
+      is_outstation
+    )
+    VALUES (
+      p_user_id,
+      v_log.clock_in,
+      v_log.clock_out,
+      NULLIF(trim(v_log.check_in_location), ''),
+      NULLIF(trim(v_log.check_out_location), ''),
+      COALESCE(v_log.is_public_holiday, FALSE),
+      COALESCE(v_log.is_outstation, FALSE)
+    );
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  PERFORM set_config('app.work_log_import', '', true);
+
+  RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.import_work_logs(UUID, JSONB) TO authenticated;
@@ -0,0 +1,217 @@
+/**
+ * English UI strings (source catalog)
+ * Every key here must also be translated in ms.ts and zh.ts. Placeholders such
+ * as {amount} are filled in by translate(); date.* entries are date-fns patterns.
+ */
+export const en = {
+  // Common
+  'common.close': 'Close',
+  'common.notAvailable': 'N/A',
+  'common.yes': 'Yes',
+  'common.no': 'No',
+  'common.language': 'Language',
+
+  // Date patterns
+  'date.full': 'EEEE, d MMM yyyy',
+  'date.medium': 'MMM d, yyyy',
+  'date.dayMonthYear': 'd MMM yyyy',
+  'date.monthYear': 'MMMM yyyy',
+  'date.dayMonth': 'MMM d',
+  'date.weekdayDayMonth': 'EEE, d MMM',
+  'date.dayMonthTime': 'd MMM, h:mm a',
+  'date.time': 'h:mm a',
+
+  // Durations
+  'duration.hoursMinutes': '{hours}h {minutes}m',
+  'duration.hours': '{hours}h',
+  'duration.minutes': '{minutes}m',
+
+  // Labels shared with the services
+  'dayType.weekday': 'Weekday',
+  'dayType.weekend': 'Weekend',
+  'dayType.public_holiday': 'Public Holiday',
+  'reviewStatus.flagged': 'Long shift',
+  'reviewStatus.needs_review': 'Needs review',
+  'outstationRule.auto': 'GPS distance',
+  'outstationRule.declared': 'Driver declared',
+  'outstationRule.supervisor': 'Supervisor override',
+  'timesheetStatus.submitted': 'Submitted',
+  'timesheetStatus.approved': 'Approved',
+  'timesheetStatus.rejected': 'Rejected',
+  'siteType.depot': 'Depot',
+  'siteType.customer': 'Customer Site',
+
+  // Planned shift comparison
+  'shift.late': 'Late {duration}',
+  'shift.leftEarly': 'Left early {duration}',
+
+  // Login
+  'login.title': 'Welcome Back',
+  'login.subtitle': 'Sign in to track your hours and OT.',
+  'login.email': 'Email',
+  'login.password': 'Password',
+  'login.signingIn': 'Signing in...',
+  'login.signIn': 'Sign In',
+
+  // Dashboard
+  'dashboard.title': 'Driver OT Tracker',
+  'dashboard.viewMonthly': 'View Monthly Dashboard',
+  'dashboard.monthlyReport': 'Monthly Report',
+  'dashboard.leaveRecords': 'Leave Records',
+  'dashboard.publicHolidays': 'Public Holidays',
+  'dashboard.notifications': 'Notifications',
+  'dashboard.fleetOverview': 'Fleet Overview',
+  'dashboard.loggedInAs': 'Logged in as: {email}',
+  'dashboard.offline': 'Offline – punches will be saved on this device',
+  'dashboard.offlineError': "You're offline. Punches are saved on this device and will sync when you reconnect.",
+  'dashboard.loadFailed': 'Failed to load data.',
+  'dashboard.syncFailed': 'Failed to sync offline punches',
+  'dashboard.geolocationUnsupported': 'Geolocation is not supported by your browser',
+  'dashboard.locationUnavailable': 'Unable to retrieve your location',
+  'dashboard.clockInFailed': 'Failed to clock in',
+  'dashboard.clockOutFailed': 'Failed to clock out',
+  'dashboard.breakFailed': 'Failed to update break',
+  'dashboard.punchWaiting': '{count} punch waiting to sync',
+  'dashboard.punchesWaiting': '{count} punches waiting to sync',
+  'dashboard.syncing': 'Syncing...',
+  'dashboard.syncNow': 'Sync now',
+  'dashboard.clockInNotApplied': 'Clock-in at {time} was not applied',
+  'dashboard.clockOutNotApplied': 'Clock-out at {time} was not applied',
+  'dashboard.dismiss': 'Dismiss',
+  'dashboard.todayShift': "Today's shift",
+  'dashboard.outstationExpected': 'Outstation expected',
+  'dashboard.currentStatus': 'Current Status',
+  'dashboard.startedAt': 'Started at {time}',
+  'dashboard.onBreakSince': 'On break since {time} (unpaid)',
+  'dashboard.longSessionWarning': 'You have been clocked in for over {maxHours} hours. Sessions still open after {capHours} hours are closed automatically and held for review.',
+  'dashboard.status': 'Status',
+  'dashboard.notWorking': 'Not Working',
+  'dashboard.isPublicHoliday': 'Is Today a Public Holiday?',
+  'dashboard.processing': 'Processing...',
+  'dashboard.clockIn': 'CLOCK IN',
+  'dashboard.outstationDetected': 'Outstation detected',
+  'dashboard.notOutstationYet': 'Not outstation so far',
+  'dashboard.outstationDistance': '{distance} km from {site}. Checked again from GPS when you clock out; your supervisor can adjust it.',
+  'dashboard.outstationDistanceOvernight': '{distance} km from {site}, overnight. Checked again from GPS when you clock out; your supervisor can adjust it.',
+  'dashboard.mealAllowanceAdded': '{amount} meal allowance will be added',
+  'dashboard.stayedOvernight': 'Did you stay overnight (Outstation)?',
+  'dashboard.endBreak': 'End Break',
+  'dashboard.startBreak': 'Start Break',
+  'dashboard.calculating': 'Calculating...',
+  'dashboard.clockOut': 'CLOCK OUT',
+  'dashboard.forgotClockOut': 'Forgot to clock out? Request a correction',
+  'dashboard.monthEarnings': 'Current Month OT Earnings',
+  'dashboard.rate': 'Rate: {amount} / {minutes} mins block',
+  'dashboard.recentActivity': 'Recent Activity',
+  'dashboard.noRecentRecords': 'No recent records found.',
+  'dashboard.worked': '{duration} worked',
+  'dashboard.otPay': 'OT PAY',
+
+  // Monthly dashboard
+  'monthly.title': 'Monthly Dashboard',
+  'monthly.yearToDate': 'Year to date',
+  'monthly.exportCsv': 'Export CSV',
+  'monthly.exportExcel': 'Export Excel',
+  'monthly.importTitle': 'Import work logs',
+  'monthly.import': 'Import',
+  'monthly.generatePayslip': 'Generate payslip',
+  'monthly.submit': 'Submit month',
+  'monthly.resubmit': 'Resubmit month',
+  'monthly.submitConfirm': 'Submit {month} for approval?',
+  'monthly.approvedFinal': "Approved {date}. These figures are final and the month's records can no longer be changed.",
+  'monthly.returned': 'Returned by supervisor: "{notes}"',
+  'monthly.loadFailed': 'Failed to load monthly data.',
+  'monthly.submitFailed': 'Failed to submit the month.',
+  'monthly.exportFailed': 'Failed to export XLSX.',
+  'monthly.outstationFailed': 'Failed to update outstation.',
+  'monthly.recordLateConfirm': 'Record {date} as late ({minutes} min)?',
+  'monthly.recordLateFailed': 'Failed to record late.',
+  'monthly.basicSalary': 'Basic Salary',
+  'monthly.totalOTPay': 'Total OT Pay',
+  'monthly.outstationMealAllowance': 'Outstation Meal Allowance',
+  'monthly.perOutstationTrip': '{amount} per outstation trip',
+  'monthly.attendanceAllowance': 'Attendance Allowance',
+  'monthly.attendanceDeductions': 'Deductions: Annual/Medical/Late -RM100/day, Emergency -RM300/day',
+  'monthly.approvedClaims': 'Approved Claims',
+  'monthly.claimTypes': 'Mileage, toll, parking and fuel',
+  'monthly.grandTotal': 'Grand Total',
+  'monthly.netPay': 'Net Pay',
+  'monthly.netPayNote': 'Estimated statutory deductions from the gross of {amount}',
+  'monthly.takeHome': 'Take-home pay',
+  'monthly.contribution': 'Contribution',
+  'monthly.employee': 'Employee',
+  'monthly.employer': 'Employer',
+  'monthly.pcb': 'PCB (Income Tax)',
+  'monthly.total': 'Total',
+  'monthly.detailedRecords': 'Detailed Records',
+  'monthly.recordFound': '{count} record found for {month}',
+  'monthly.recordsFound': '{count} records found for {month}',
+  'monthly.date': 'Date',
+  'monthly.type': 'Type',
+  'monthly.checkInLocation': 'Check In Location',
+  'monthly.checkOutLocation': 'Check Out Location',
+  'monthly.planned': 'Planned',
+  'monthly.totalHours': 'Total Hours',
+  'monthly.otAmount': 'OT Amount',
+  'monthly.allowance': 'Allowance',
+  'monthly.noRecords': 'No records found for this month.',
+  'monthly.publicHolidayBadge': 'PH',
+  'monthly.otHeld': 'OT held until a correction is approved',
+  'monthly.recordLate': 'Record late',
+  'monthly.ofPlanned': 'of {duration} planned',
+  'monthly.outstationAllowance': 'Outstation (+{amount})',
+  'monthly.publicHolidayRate': 'Public Holiday Rate',
+  'monthly.outstationOverride': 'Outstation override',
+  'monthly.outstationByRule': 'Outstation: by rule',
+  'monthly.outstationYes': 'Outstation: yes',
+  'monthly.outstationNo': 'Outstation: no',
+
+  // Work log detail
+  'workLog.postcode': 'Postcode: {postcode}',
+  'workLog.locationUnavailable': 'Location not available',
+  'workLog.outsideAllSites': 'Outside all sites',
+  'workLog.noReason': 'No reason given',
+  'workLog.storedVsRecalculated': '⚠️ Stored amount: {stored} | Recalculated: {recalculated} (showing recalculated)',
+  'workLog.autoClosed': 'This session was left open too long and was closed automatically.',
+  'workLog.tooLong': 'This session is longer than the maximum allowed.',
+  'workLog.otHeld': 'No OT is paid for it until a supervisor approves a correction with the real times.',
+  'workLog.flagged': 'This session is longer than usual and has been flagged for your supervisor.',
+  'workLog.timeAndLocation': 'Time & Location',
+  'workLog.checkIn': 'Check In',
+  'workLog.checkOut': 'Check Out',
+  'workLog.notClockedOut': 'Not clocked out yet',
+  'workLog.outstation': 'Outstation',
+  'workLog.notOutstation': 'Not outstation',
+  'workLog.distanceOvernight': '{distance} km from home depot, overnight',
+  'workLog.distanceNotOvernight': '{distance} km from home depot, not overnight',
+  'workLog.declaredOutstation': 'Driver declared: outstation',
+  'workLog.declaredNotOutstation': 'Driver declared: not outstation',
+  'workLog.breaks': 'Breaks',
+  'workLog.untilClockOut': 'until clock-out',
+  'workLog.totalWorkDuration': 'Total Work Duration',
+  'workLog.plannedShift': 'Planned Shift',
+  'workLog.planned': 'Planned:',
+  'workLog.actual': 'Actual:',
+  'workLog.route': 'Route:',
+  'workLog.outstationExpected': 'Outstation expected:',
+  'workLog.routeTitle': 'Route',
+  'workLog.distanceDriven': 'Distance driven:',
+  'workLog.routeSummary': '{count} locations recorded from {start} to {end}',
+  'workLog.calculationBreakdown': 'Calculation Breakdown',
+  'workLog.totalWorkDurationLabel': 'Total Work Duration:',
+  'workLog.hoursCount': '{hours} Hours',
+  'workLog.unpaidBreaks': 'Unpaid breaks:',
+  'workLog.automaticBreak': '(automatic after {duration})',
+  'workLog.standardWork': 'Standard Work (First {hours} hrs):',
+  'workLog.noOtPay': 'No OT pay',
+  'workLog.overtime': 'Overtime ({hours} hrs):',
+  'workLog.otRate': 'OT Rate {rate}x ({hours} hrs):',
+  'workLog.roundedUp': '({hours} hrs rounded up)',
+  'workLog.calculation': '{hours} hrs × {rate} = {amount}',
+  'workLog.outstationAllowance': 'Outstation Allowance:',
+  'workLog.total': 'Total:',
+  'workLog.noBreakdown': 'Calculation breakdown not available. Please clock out to see detailed breakdown.',
+  'workLog.requestCorrection': 'Request Correction',
+};
+
+export type TranslationKey = keyof typeof en;
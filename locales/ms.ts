@@ -0,0 +1,215 @@
+import { TranslationKey } from './en';
+
+/**
+ * Bahasa Malaysia UI strings
+ */
+export const ms: Record<TranslationKey, string> = {
+  // Common
+  'common.close': 'Tutup',
+  'common.notAvailable': 'T/A',
+  'common.yes': 'Ya',
+  'common.no': 'Tidak',
+  'common.language': 'Bahasa',
+
+  // Date patterns
+  'date.full': 'EEEE, d MMM yyyy',
+  'date.medium': 'd MMM yyyy',
+  'date.dayMonthYear': 'd MMM yyyy',
+  'date.monthYear': 'MMMM yyyy',
+  'date.dayMonth': 'd MMM',
+  'date.weekdayDayMonth': 'EEE, d MMM',
+  'date.dayMonthTime': 'd MMM, h:mm a',
+  'date.time': 'h:mm a',
+
+  // Durations
+  'duration.hoursMinutes': '{hours}j {minutes}m',
+  'duration.hours': '{hours}j',
+  'duration.minutes': '{minutes}m',
+
+  // Labels shared with the services
+  'dayType.weekday': 'Hari Bekerja',
+  'dayType.weekend': 'Hujung Minggu',
+  'dayType.public_holiday': 'Cuti Umum',
+  'reviewStatus.flagged': 'Syif panjang',
+  'reviewStatus.needs_review': 'Perlu semakan',
+  'outstationRule.auto': 'Jarak GPS',
+  'outstationRule.declared': 'Diisytihar pemandu',
+  'outstationRule.supervisor': 'Ditetapkan penyelia',
+  'timesheetStatus.submitted': 'Dihantar',
+  'timesheetStatus.approved': 'Diluluskan',
+  'timesheetStatus.rejected': 'Ditolak',
+  'siteType.depot': 'Depoh',
+  'siteType.customer': 'Tapak Pelanggan',
+
+  // Planned shift comparison
+  'shift.late': 'Lewat {duration}',
+  'shift.leftEarly': 'Balik awal {duration}',
+
+  // Login
+  'login.title': 'Selamat Kembali',
+  'login.subtitle': 'Log masuk untuk merekod jam kerja dan OT anda.',
+  'login.email': 'E-mel',
+  'login.password': 'Kata Laluan',
+  'login.signingIn': 'Sedang log masuk...',
+  'login.signIn': 'Log Masuk',
+
+  // Dashboard
+  'dashboard.title': 'Penjejak OT Pemandu',
+  'dashboard.viewMonthly': 'Lihat Papan Pemuka Bulanan',
+  'dashboard.monthlyReport': 'Laporan Bulanan',
+  'dashboard.leaveRecords': 'Rekod Cuti',
+  'dashboard.publicHolidays': 'Cuti Umum',
+  'dashboard.notifications': 'Pemberitahuan',
+  'dashboard.fleetOverview': 'Gambaran Armada',
+  'dashboard.loggedInAs': 'Log masuk sebagai: {email}',
+  'dashboard.offline': 'Luar talian – rekod masuk/keluar akan disimpan pada peranti ini',
+  'dashboard.offlineError': 'Anda di luar talian. Rekod masuk/keluar disimpan pada peranti ini dan akan disegerakkan apabila anda bersambung semula.',
+  'dashboard.loadFailed': 'Gagal memuatkan data.',
+  'dashboard.syncFailed': 'Gagal menyegerakkan rekod luar talian',
+  'dashboard.geolocationUnsupported': 'Pelayar anda tidak menyokong geolokasi',
+  'dashboard.locationUnavailable': 'Tidak dapat mendapatkan lokasi anda',
+  'dashboard.clockInFailed': 'Gagal merekod masuk',
+  'dashboard.clockOutFailed': 'Gagal merekod keluar',
+  'dashboard.breakFailed': 'Gagal mengemas kini rehat',
+  'dashboard.punchWaiting': '{count} rekod menunggu untuk disegerakkan',
+  'dashboard.punchesWaiting': '{count} rekod menunggu untuk disegerakkan',
+  'dashboard.syncing': 'Menyegerakkan...',
+  'dashboard.syncNow': 'Segerakkan sekarang',
+  'dashboard.clockInNotApplied': 'Rekod masuk pada {time} tidak digunakan',
+  'dashboard.clockOutNotApplied': 'Rekod keluar pada {time} tidak digunakan',
+  'dashboard.dismiss': 'Abaikan',
+  'dashboard.todayShift': 'Syif hari ini',
+  'dashboard.outstationExpected': 'Dijangka luar kawasan',
+  'dashboard.currentStatus': 'Status Semasa',
+  'dashboard.startedAt': 'Bermula pada {time}',
+  'dashboard.onBreakSince': 'Berehat sejak {time} (tidak dibayar)',
+  'dashboard.longSessionWarning': 'Anda telah merekod masuk lebih daripada {maxHours} jam. Sesi yang masih terbuka selepas {capHours} jam akan ditutup secara automatik dan ditahan untuk semakan.',
+  'dashboard.status': 'Status',
+  'dashboard.notWorking': 'Tidak Bekerja',
+  'dashboard.isPublicHoliday': 'Adakah Hari Ini Cuti Umum?',
+  'dashboard.processing': 'Memproses...',
+  'dashboard.clockIn': 'REKOD MASUK',
+  'dashboard.outstationDetected': 'Luar kawasan dikesan',
+  'dashboard.notOutstationYet': 'Belum di luar kawasan',
+  'dashboard.outstationDistance': '{distance} km dari {site}. Disemak semula melalui GPS semasa anda merekod keluar; penyelia anda boleh melarasnya.',
+  'dashboard.outstationDistanceOvernight': '{distance} km dari {site}, bermalam. Disemak semula melalui GPS semasa anda merekod keluar; penyelia anda boleh melarasnya.',
+  'dashboard.mealAllowanceAdded': 'Elaun makan {amount} akan ditambah',
+  'dashboard.stayedOvernight': 'Adakah anda bermalam (Luar Kawasan)?',
+  'dashboard.endBreak': 'Tamat Rehat',
+  'dashboard.startBreak': 'Mula Rehat',
+  'dashboard.calculating': 'Mengira...',
+  'dashboard.clockOut': 'REKOD KELUAR',
+  'dashboard.forgotClockOut': 'Terlupa merekod keluar? Mohon pembetulan',
+  'dashboard.monthEarnings': 'Pendapatan OT Bulan Ini',
+  'dashboard.rate': 'Kadar: {amount} / blok {minutes} minit',
+  'dashboard.recentActivity': 'Aktiviti Terkini',
+  'dashboard.noRecentRecords': 'Tiada rekod terkini.',
+  'dashboard.worked': '{duration} bekerja',
+  'dashboard.otPay': 'BAYARAN OT',
+
+  // Monthly dashboard
+  'monthly.title': 'Papan Pemuka Bulanan',
+  'monthly.yearToDate': 'Tahun hingga kini',
+  'monthly.exportCsv': 'Eksport CSV',
+  'monthly.exportExcel': 'Eksport Excel',
+  'monthly.importTitle': 'Import rekod kerja',
+  'monthly.import': 'Import',
+  'monthly.generatePayslip': 'Jana slip gaji',
+  'monthly.submit': 'Hantar bulan',
+  'monthly.resubmit': 'Hantar semula bulan',
+  'monthly.submitConfirm': 'Hantar {month} untuk kelulusan?',
+  'monthly.approvedFinal': 'Diluluskan {date}. Angka ini adalah muktamad dan rekod bulan ini tidak boleh diubah lagi.',
+  'monthly.returned': 'Dikembalikan oleh penyelia: "{notes}"',
+  'monthly.loadFailed': 'Gagal memuatkan data bulanan.',
+  'monthly.submitFailed': 'Gagal menghantar bulan ini.',
+  'monthly.exportFailed': 'Gagal mengeksport XLSX.',
+  'monthly.outstationFailed': 'Gagal mengemas kini status luar kawasan.',
+  'monthly.recordLateConfirm': 'Rekod {date} sebagai lewat ({minutes} min)?',
+  'monthly.recordLateFailed': 'Gagal merekod lewat.',
+  'monthly.basicSalary': 'Gaji Pokok',
+  'monthly.totalOTPay': 'Jumlah Bayaran OT',
+  'monthly.outstationMealAllowance': 'Elaun Makan Luar Kawasan',
+  'monthly.perOutstationTrip': '{amount} setiap perjalanan luar kawasan',
+  'monthly.attendanceAllowance': 'Elaun Kehadiran',
+  'monthly.attendanceDeductions': 'Potongan: Tahunan/Sakit/Lewat -RM100/hari, Kecemasan -RM300/hari',
+  'monthly.approvedClaims': 'Tuntutan Diluluskan',
+  'monthly.claimTypes': 'Perbatuan, tol, letak kereta dan bahan api',
+  'monthly.grandTotal': 'Jumlah Besar',
+  'monthly.netPay': 'Gaji Bersih',
+  'monthly.netPayNote': 'Anggaran potongan berkanun daripada pendapatan kasar {amount}',
+  'monthly.takeHome': 'Gaji dibawa pulang',
+  'monthly.contribution': 'Caruman',
+  'monthly.employee': 'Pekerja',
+  'monthly.employer': 'Majikan',
+  'monthly.pcb': 'PCB (Cukai Pendapatan)',
+  'monthly.total': 'Jumlah',
+  'monthly.detailedRecords': 'Rekod Terperinci',
+  'monthly.recordFound': '{count} rekod ditemui untuk {month}',
+  'monthly.recordsFound': '{count} rekod ditemui untuk {month}',
+  'monthly.date': 'Tarikh',
+  'monthly.type': 'Jenis',
+  'monthly.checkInLocation': 'Lokasi Masuk',
+  'monthly.checkOutLocation': 'Lokasi Keluar',
+  'monthly.planned': 'Dirancang',
+  'monthly.totalHours': 'Jumlah Jam',
+  'monthly.otAmount': 'Amaun OT',
+  'monthly.allowance': 'Elaun',
+  'monthly.noRecords': 'Tiada rekod untuk bulan ini.',
+  'monthly.publicHolidayBadge': 'CU',
+  'monthly.otHeld': 'OT ditahan sehingga pembetulan diluluskan',
+  'monthly.recordLate': 'Rekod lewat',
+  'monthly.ofPlanned': 'daripada {duration} dirancang',
+  'monthly.outstationAllowance': 'Luar kawasan (+{amount})',
+  'monthly.publicHolidayRate': 'Kadar Cuti Umum',
+  'monthly.outstationOverride': 'Tetapan luar kawasan',
+  'monthly.outstationByRule': 'Luar kawasan: ikut peraturan',
+  'monthly.outstationYes': 'Luar kawasan: ya',
+  'monthly.outstationNo': 'Luar kawasan: tidak',
+
+  // Work log detail
+  'workLog.postcode': 'Poskod: {postcode}',
+  'workLog.locationUnavailable': 'Lokasi tidak tersedia',
+  'workLog.outsideAllSites': 'Di luar semua tapak',
+  'workLog.noReason': 'Tiada sebab diberikan',
+  'workLog.storedVsRecalculated': '⚠️ Amaun disimpan: {stored} | Dikira semula: {recalculated} (memaparkan amaun dikira semula)',
+  'workLog.autoClosed': 'Sesi ini dibiarkan terbuka terlalu lama dan telah ditutup secara automatik.',
+  'workLog.tooLong': 'Sesi ini lebih panjang daripada had maksimum.',
+  'workLog.otHeld': 'Tiada OT dibayar sehingga penyelia meluluskan pembetulan dengan masa sebenar.',
+  'workLog.flagged': 'Sesi ini lebih panjang daripada biasa dan telah ditandakan untuk penyelia anda.',
+  'workLog.timeAndLocation': 'Masa & Lokasi',
+  'workLog.checkIn': 'Masuk',
+  'workLog.checkOut': 'Keluar',
+  'workLog.notClockedOut': 'Belum merekod keluar',
+  'workLog.outstation': 'Luar kawasan',
+  'workLog.notOutstation': 'Bukan luar kawasan',
+  'workLog.distanceOvernight': '{distance} km dari depoh asal, bermalam',
+  'workLog.distanceNotOvernight': '{distance} km dari depoh asal, tidak bermalam',
+  'workLog.declaredOutstation': 'Diisytihar pemandu: luar kawasan',
+  'workLog.declaredNotOutstation': 'Diisytihar pemandu: bukan luar kawasan',
+  'workLog.breaks': 'Rehat',
+  'workLog.untilClockOut': 'hingga rekod keluar',
+  'workLog.totalWorkDuration': 'Jumlah Tempoh Kerja',
+  'workLog.plannedShift': 'Syif Dirancang',
+  'workLog.planned': 'Dirancang:',
+  'workLog.actual': 'Sebenar:',
+  'workLog.route': 'Laluan:',
+  'workLog.outstationExpected': 'Dijangka luar kawasan:',
+  'workLog.routeTitle': 'Laluan',
+  'workLog.distanceDriven': 'Jarak dipandu:',
+  'workLog.routeSummary': '{count} lokasi direkod dari {start} hingga {end}',
+  'workLog.calculationBreakdown': 'Pecahan Pengiraan',
+  'workLog.totalWorkDurationLabel': 'Jumlah Tempoh Kerja:',
+  'workLog.hoursCount': '{hours} Jam',
+  'workLog.unpaidBreaks': 'Rehat tidak dibayar:',
+  'workLog.automaticBreak': '(automatik selepas {duration})',
+  'workLog.standardWork': 'Kerja Biasa ({hours} jam pertama):',
+  'workLog.noOtPay': 'Tiada bayaran OT',
+  'workLog.overtime': 'Lebih masa ({hours} jam):',
+  'workLog.otRate': 'Kadar OT {rate}x ({hours} jam):',
+  'workLog.roundedUp': '({hours} jam dibundarkan ke atas)',
+  'workLog.calculation': '{hours} jam × {rate} = {amount}',
+  'workLog.outstationAllowance': 'Elaun Luar Kawasan:',
+  'workLog.total': 'Jumlah:',
+  'workLog.noBreakdown': 'Pecahan pengiraan tidak tersedia. Sila rekod keluar untuk melihat pecahan terperinci.',
+  'workLog.requestCorrection': 'Mohon Pembetulan',
+};
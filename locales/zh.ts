@@ -0,0 +1,215 @@
+import { TranslationKey } from './en';
+
+/**
+ * Chinese (Simplified) UI strings
+ */
+export const zh: Record<TranslationKey, string> = {
+  // Common
+  'common.close': '关闭',
+  'common.notAvailable': '不适用',
+  'common.yes': '是',
+  'common.no': '否',
+  'common.language': '语言',
+
+  // Date patterns
+  'date.full': "yyyy'年'M'月'd'日' EEEE",
+  'date.medium': "yyyy'年'M'月'd'日'",
+  'date.dayMonthYear': "yyyy'年'M'月'd'日'",
+  'date.monthYear': "yyyy'年'M'月'",
+  'date.dayMonth': "M'月'd'日'",
+  'date.weekdayDayMonth': "M'月'd'日' EEE",
+  'date.dayMonthTime': "M'月'd'日' a h:mm",
+  'date.time': 'a h:mm',
+
+  // Durations
+  'duration.hoursMinutes': '{hours}小时{minutes}分',
+  'duration.hours': '{hours}小时',
+  'duration.minutes': '{minutes}分',
+
+  // Labels shared with the services
+  'dayType.weekday': '工作日',
+  'dayType.weekend': '周末',
+  'dayType.public_holiday': '公共假期',
+  'reviewStatus.flagged': '长班次',
+  'reviewStatus.needs_review': '待审核',
+  'outstationRule.auto': 'GPS 距离',
+  'outstationRule.declared': '司机申报',
+  'outstationRule.supervisor': '主管调整',
+  'timesheetStatus.submitted': '已提交',
+  'timesheetStatus.approved': '已批准',
+  'timesheetStatus.rejected': '已退回',
+  'siteType.depot': '车场',
+  'siteType.customer': '客户地点',
+
+  // Planned shift comparison
+  'shift.late': '迟到 {duration}',
+  'shift.leftEarly': '早退 {duration}',
+
+  // Login
+  'login.title': '欢迎回来',
+  'login.subtitle': '登录以记录您的工时和加班。',
+  'login.email': '电子邮件',
+  'login.password': '密码',
+  'login.signingIn': '正在登录...',
+  'login.signIn': '登录',
+
+  // Dashboard
+  'dashboard.title': '司机加班记录',
+  'dashboard.viewMonthly': '查看月度总览',
+  'dashboard.monthlyReport': '月度报告',
+  'dashboard.leaveRecords': '请假记录',
+  'dashboard.publicHolidays': '公共假期',
+  'dashboard.notifications': '通知',
+  'dashboard.fleetOverview': '车队总览',
+  'dashboard.loggedInAs': '当前登录：{email}',
+  'dashboard.offline': '离线 – 打卡将保存在此设备上',
+  'dashboard.offlineError': '您已离线。打卡已保存在此设备上，恢复连接后会自动同步。',
+  'dashboard.loadFailed': '加载数据失败。',
+  'dashboard.syncFailed': '同步离线打卡失败',
+  'dashboard.geolocationUnsupported': '您的浏览器不支持定位',
+  'dashboard.locationUnavailable': '无法获取您的位置',
+  'dashboard.clockInFailed': '上班打卡失败',
+  'dashboard.clockOutFailed': '下班打卡失败',
+  'dashboard.breakFailed': '更新休息失败',
+  'dashboard.punchWaiting': '{count} 条打卡等待同步',
+  'dashboard.punchesWaiting': '{count} 条打卡等待同步',
+  'dashboard.syncing': '正在同步...',
+  'dashboard.syncNow': '立即同步',
+  'dashboard.clockInNotApplied': '{time} 的上班打卡未生效',
+  'dashboard.clockOutNotApplied': '{time} 的下班打卡未生效',
+  'dashboard.dismiss': '忽略',
+  'dashboard.todayShift': '今日班次',
+  'dashboard.outstationExpected': '预计外站',
+  'dashboard.currentStatus': '当前状态',
+  'dashboard.startedAt': '开始于 {time}',
+  'dashboard.onBreakSince': '自 {time} 起休息中（无薪）',
+  'dashboard.longSessionWarning': '您已连续打卡超过 {maxHours} 小时。超过 {capHours} 小时仍未下班的班次将被自动结束并等待审核。',
+  'dashboard.status': '状态',
+  'dashboard.notWorking': '未上班',
+  'dashboard.isPublicHoliday': '今天是公共假期吗？',
+  'dashboard.processing': '处理中...',
+  'dashboard.clockIn': '上班打卡',
+  'dashboard.outstationDetected': '已检测到外站',
+  'dashboard.notOutstationYet': '目前不算外站',
+  'dashboard.outstationDistance': '距离{site} {distance} 公里。下班打卡时会再次根据 GPS 判断；主管可以调整。',
+  'dashboard.outstationDistanceOvernight': '距离{site} {distance} 公里，过夜。下班打卡时会再次根据 GPS 判断；主管可以调整。',
+  'dashboard.mealAllowanceAdded': '将加上 {amount} 餐费津贴',
+  'dashboard.stayedOvernight': '您是否在外过夜（外站）？',
+  'dashboard.endBreak': '结束休息',
+  'dashboard.startBreak': '开始休息',
+  'dashboard.calculating': '计算中...',
+  'dashboard.clockOut': '下班打卡',
+  'dashboard.forgotClockOut': '忘记下班打卡？申请更正',
+  'dashboard.monthEarnings': '本月加班收入',
+  'dashboard.rate': '费率：{amount} / 每 {minutes} 分钟',
+  'dashboard.recentActivity': '最近记录',
+  'dashboard.noRecentRecords': '暂无最近记录。',
+  'dashboard.worked': '工作 {duration}',
+  'dashboard.otPay': '加班费',
+
+  // Monthly dashboard
+  'monthly.title': '月度总览',
+  'monthly.yearToDate': '年初至今',
+  'monthly.exportCsv': '导出 CSV',
+  'monthly.exportExcel': '导出 Excel',
+  'monthly.importTitle': '导入工作记录',
+  'monthly.import': '导入',
+  'monthly.generatePayslip': '生成工资单',
+  'monthly.submit': '提交本月',
+  'monthly.resubmit': '重新提交本月',
+  'monthly.submitConfirm': '提交{month}以供审批？',
+  'monthly.approvedFinal': '已于{date}批准。以上金额为最终结果，本月记录不能再修改。',
+  'monthly.returned': '主管退回："{notes}"',
+  'monthly.loadFailed': '加载月度数据失败。',
+  'monthly.submitFailed': '提交本月失败。',
+  'monthly.exportFailed': '导出 XLSX 失败。',
+  'monthly.outstationFailed': '更新外站失败。',
+  'monthly.recordLateConfirm': '将{date}记录为迟到（{minutes} 分钟）？',
+  'monthly.recordLateFailed': '记录迟到失败。',
+  'monthly.basicSalary': '基本工资',
+  'monthly.totalOTPay': '加班费总额',
+  'monthly.outstationMealAllowance': '外站餐费津贴',
+  'monthly.perOutstationTrip': '每次外站 {amount}',
+  'monthly.attendanceAllowance': '全勤奖',
+  'monthly.attendanceDeductions': '扣除：年假/病假/迟到每天 -RM100，紧急假每天 -RM300',
+  'monthly.approvedClaims': '已批准报销',
+  'monthly.claimTypes': '里程、过路费、停车费和油费',
+  'monthly.grandTotal': '总计',
+  'monthly.netPay': '实发工资',
+  'monthly.netPayNote': '按总收入 {amount} 估算的法定扣款',
+  'monthly.takeHome': '实发金额',
+  'monthly.contribution': '缴款',
+  'monthly.employee': '雇员',
+  'monthly.employer': '雇主',
+  'monthly.pcb': 'PCB（所得税）',
+  'monthly.total': '合计',
+  'monthly.detailedRecords': '详细记录',
+  'monthly.recordFound': '{month}共有 {count} 条记录',
+  'monthly.recordsFound': '{month}共有 {count} 条记录',
+  'monthly.date': '日期',
+  'monthly.type': '类型',
+  'monthly.checkInLocation': '上班地点',
+  'monthly.checkOutLocation': '下班地点',
+  'monthly.planned': '计划',
+  'monthly.totalHours': '总工时',
+  'monthly.otAmount': '加班费',
+  'monthly.allowance': '津贴',
+  'monthly.noRecords': '本月没有记录。',
+  'monthly.publicHolidayBadge': '公假',
+  'monthly.otHeld': '更正获批前暂停支付加班费',
+  'monthly.recordLate': '记录迟到',
+  'monthly.ofPlanned': '计划 {duration}',
+  'monthly.outstationAllowance': '外站（+{amount}）',
+  'monthly.publicHolidayRate': '公共假期费率',
+  'monthly.outstationOverride': '外站调整',
+  'monthly.outstationByRule': '外站：按规则',
+  'monthly.outstationYes': '外站：是',
+  'monthly.outstationNo': '外站：否',
+
+  // Work log detail
+  'workLog.postcode': '邮编：{postcode}',
+  'workLog.locationUnavailable': '无位置信息',
+  'workLog.outsideAllSites': '不在任何地点范围内',
+  'workLog.noReason': '未填写原因',
+  'workLog.storedVsRecalculated': '⚠️ 已保存金额：{stored} | 重新计算：{recalculated}（显示重新计算的金额）',
+  'workLog.autoClosed': '此班次打开时间过长，已被自动结束。',
+  'workLog.tooLong': '此班次超过允许的最长时间。',
+  'workLog.otHeld': '在主管批准填写实际时间的更正之前，不支付加班费。',
+  'workLog.flagged': '此班次比平常长，已提交给主管查看。',
+  'workLog.timeAndLocation': '时间与地点',
+  'workLog.checkIn': '上班',
+  'workLog.checkOut': '下班',
+  'workLog.notClockedOut': '尚未下班打卡',
+  'workLog.outstation': '外站',
+  'workLog.notOutstation': '非外站',
+  'workLog.distanceOvernight': '距离所属车场 {distance} 公里，过夜',
+  'workLog.distanceNotOvernight': '距离所属车场 {distance} 公里，未过夜',
+  'workLog.declaredOutstation': '司机申报：外站',
+  'workLog.declaredNotOutstation': '司机申报：非外站',
+  'workLog.breaks': '休息',
+  'workLog.untilClockOut': '至下班打卡',
+  'workLog.totalWorkDuration': '总工作时长',
+  'workLog.plannedShift': '计划班次',
+  'workLog.planned': '计划：',
+  'workLog.actual': '实际：',
+  'workLog.route': '路线：',
+  'workLog.outstationExpected': '预计外站：',
+  'workLog.routeTitle': '路线',
+  'workLog.distanceDriven': '行驶距离：',
+  'workLog.routeSummary': '从 {start} 到 {end} 共记录 {count} 个位置',
+  'workLog.calculationBreakdown': '计算明细',
+  'workLog.totalWorkDurationLabel': '总工作时长：',
+  'workLog.hoursCount': '{hours} 小时',
+  'workLog.unpaidBreaks': '无薪休息：',
+  'workLog.automaticBreak': '（超过 {duration} 自动扣除）',
+  'workLog.standardWork': '正常工作（前 {hours} 小时）：',
+  'workLog.noOtPay': '无加班费',
+  'workLog.overtime': '加班（{hours} 小时）：',
+  'workLog.otRate': '加班费率 {rate}x（{hours} 小时）：',
+  'workLog.roundedUp': '（{hours} 小时，向上取整）',
+  'workLog.calculation': '{hours} 小时 × {rate} = {amount}',
+  'workLog.outstationAllowance': '外站津贴：',
+  'workLog.total': '合计：',
+  'workLog.noBreakdown': '暂无计算明细。请下班打卡后查看详细明细。',
+  'workLog.requestCorrection': '申请更正',
+};
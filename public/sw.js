@@ -0,0 +1,78 @@
+// Service worker for Driver OT Tracker
+// Caches the app shell and CDN modules so the app opens without a connection.
+// Supabase and geocoding requests are never cached; punches made offline are
+// queued by the app itself (see services/punchQueueService.ts).
+// It also shows reminders pushed to the device while the app is closed.
+
+const CACHE_NAME = 'driver-ot-tracker-v1';
+// Hashed build assets are cached at runtime the first time they load
+const APP_SHELL = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg'];
+
+// API hosts that must always go to the network
+const NETWORK_ONLY_HOSTS = ['supabase.co', 'supabase.in', 'nominatim.openstreetmap.org'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME).then((cache) => cache.addAll(APP_SHELL)).then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Network first, falling back to the cache; pages fall back to the cached app shell
+self.addEventListener('fetch', (event) => {
+  const request = event.request;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (NETWORK_ONLY_HOSTS.some((host) => url.hostname.endsWith(host))) return;
+
+  event.respondWith(
+    fetch(request)
+      .then((response) => {
+        if (response.ok || response.type === 'opaque') {
+          const copy = response.clone();
+          caches.open(CACHE_NAME).then((cache) => cache.put(request, copy));
+        }
+        return response;
+      })
+      .catch(() =>
+        caches.match(request).then((cached) => {
+          if (cached) return cached;
+          if (request.mode === 'navigate') return caches.match('/index.html');
+          return Response.error();
+        })
+      )
+  );
+});
+
+// Reminders sent by the deliver-notifications Edge Function (supabase/functions)
+self.addEventListener('push', (event) => {
+  const payload = event.data ? event.data.json() : {};
+  event.waitUntil(
+    self.registration.showNotification(payload.title || 'Driver OT Tracker', {
+      body: payload.body,
+      tag: payload.id,
+      icon: '/icon.svg',
+      data: { url: payload.url || '/' },
+    })
+  );
+});
+
+// Open the app, reusing a window that is already open
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = (event.notification.data && event.notification.data.url) || '/';
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const open = windows.find((client) => 'focus' in client);
+      return open ? open.focus() : self.clients.openWindow(url);
+    })
+  );
+});
@@ -1,4 +1,6 @@
 -- Replace old driver with new driver account and clear old data
+-- NOTE: Drivers are now managed from the Fleet Overview page (see database_roles.sql).
+-- Keep this script only for one-off account moves.
 -- Run in Supabase SQL Editor as project owner/admin.
 
 BEGIN;
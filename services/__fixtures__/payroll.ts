@@ -0,0 +1,46 @@
+import { Claim, LeaveRecord, WorkLog } from '../../types';
+
+/**
+ * Fixtures for the OT and payroll tests
+ * Times are local so day types and pay days don't depend on the machine's time zone.
+ */
+
+// Mon 6 Jan 2025 (weekday), Fri 3 Jan 2025 and Sat 4 Jan 2025 (weekend); no holidays are loaded in tests
+export const WEEKDAY = { year: 2025, month: 0, day: 6 };
+export const FRIDAY = { year: 2025, month: 0, day: 3 };
+export const WEEKEND = { year: 2025, month: 0, day: 4 };
+
+export const at = (day: { year: number; month: number; day: number }, hours: number, minutes: number = 0): Date =>
+  new Date(day.year, day.month, day.day, hours, minutes);
+
+let nextId = 1;
+
+export const makeLog = (clockIn: Date, clockOut: Date | null, overrides: Partial<WorkLog> = {}): WorkLog => ({
+  id: `log-${nextId++}`,
+  user_id: 'driver-1',
+  clock_in: clockIn.toISOString(),
+  clock_out: clockOut ? clockOut.toISOString() : null,
+  duration_minutes: 0,
+  overtime_amount: 0,
+  created_at: clockIn.toISOString(),
+  ...overrides,
+});
+
+export const makeLeave = (leaveDate: string, leaveType: LeaveRecord['leave_type']): LeaveRecord => ({
+  id: `leave-${nextId++}`,
+  user_id: 'driver-1',
+  leave_date: leaveDate,
+  leave_type: leaveType,
+  created_at: `${leaveDate}T00:00:00Z`,
+  updated_at: `${leaveDate}T00:00:00Z`,
+});
+
+export const makeClaim = (workLogId: string, amount: number, status: Claim['status']): Claim => ({
+  id: `claim-${nextId++}`,
+  work_log_id: workLogId,
+  user_id: 'driver-1',
+  category: 'toll',
+  amount,
+  status,
+  created_at: new Date(0).toISOString(),
+});
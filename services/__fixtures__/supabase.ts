@@ -0,0 +1,60 @@
+/**
+ * Stand-in for the Supabase client in service tests
+ * Each table answers with its rows, narrowed by the eq/gte/gt/lte/lt/in filters
+ * the service applies and cut to the requested range; other builder calls
+ * (select, order, ...) pass through. Filters compare values as strings, which
+ * suits ISO dates and times.
+ */
+
+type Row = Record<string, any>;
+
+const FILTERS: Record<string, (value: any, arg: any) => boolean> = {
+  eq: (value, arg) => value === arg,
+  gte: (value, arg) => String(value) >= String(arg),
+  gt: (value, arg) => String(value) > String(arg),
+  lte: (value, arg) => String(value) <= String(arg),
+  lt: (value, arg) => String(value) < String(arg),
+  in: (value, arg) => arg.includes(value),
+};
+
+const query = (rows: Row[]): any => {
+  let result = rows;
+  const builder: any = new Proxy({}, {
+    get: (_, method: string) => {
+      if (method === 'then') {
+        return (resolve: (value: unknown) => void) => resolve({ data: result, error: null });
+      }
+      if (method === 'maybeSingle' || method === 'single') {
+        return () => Promise.resolve({ data: result[0] ?? null, error: null });
+      }
+      if (method === 'range') {
+        return (from: number, to: number) => {
+          result = result.slice(from, to + 1);
+          return builder;
+        };
+      }
+      return (column: string, arg: unknown) => {
+        const filter = FILTERS[method];
+        if (filter) result = result.filter((row) => filter(row[column], arg));
+        return builder;
+      };
+    },
+  });
+  return builder;
+};
+
+/**
+ * A client whose from() serves the given tables (missing tables are empty)
+ * and whose rpc() calls the given handlers
+ */
+export const fakeSupabase = (
+  tables: Record<string, Row[]> = {},
+  rpc: Record<string, (params: any) => { data?: unknown; error?: unknown }> = {}
+) => ({
+  from: (table: string) => query(tables[table] || []),
+  rpc: async (name: string, params: unknown) => {
+    const handler = rpc[name];
+    if (!handler) return { data: null, error: { message: `Unknown function ${name}`, code: 'PGRST202' } };
+    return { data: null, error: null, ...handler(params) };
+  },
+});
@@ -0,0 +1,104 @@
+import { getMonth, getYear } from 'date-fns';
+import { MonthlyAnalytics, MonthlySummary, PayrollResult, StatutoryDeductions, YearAnalytics } from '../types';
+import { fetchPayrollForMonths } from './payrollService';
+import { NO_STATUTORY_DEDUCTIONS } from './statutoryService';
+
+const EMPTY_SUMMARY: MonthlySummary = {
+  basicSalary: 0,
+  totalOTPay: 0,
+  foodAllowance: 0,
+  fullAttendanceReward: 0,
+  outstationMealAllowances: 0,
+  approvedClaims: 0,
+  grandTotal: 0,
+  deductions: NO_STATUTORY_DEDUCTIONS,
+  netPay: 0,
+};
+
+/**
+ * Shift, OT-tier and outstation figures for one paid month
+ */
+const summarizeMonth = (month: number, payroll: PayrollResult): MonthlyAnalytics => {
+  const analytics: MonthlyAnalytics = {
+    month,
+    summary: payroll.summary,
+    shiftCount: payroll.records.length,
+    workedMinutes: 0,
+    averageShiftMinutes: 0,
+    paidMinutes1_5x: 0,
+    paidMinutes2x: 0,
+    paidMinutes3x: 0,
+    outstationCount: 0,
+  };
+
+  for (const record of payroll.records) {
+    const { breakdown } = record;
+    analytics.workedMinutes += breakdown
+      ? breakdown.duration - breakdown.breakMinutes
+      : record.workLog.duration_minutes;
+    analytics.paidMinutes1_5x += breakdown?.paidMinutes1_5x || 0;
+    analytics.paidMinutes2x += breakdown?.paidMinutes2x || 0;
+    analytics.paidMinutes3x += breakdown?.paidMinutes3x || 0;
+    if (record.isOutstation) analytics.outstationCount++;
+  }
+
+  analytics.averageShiftMinutes = analytics.shiftCount > 0 ? analytics.workedMinutes / analytics.shiftCount : 0;
+  return analytics;
+};
+
+/**
+ * Add up the months; the average shift is over all shifts of the period
+ */
+const summarizeYear = (months: MonthlyAnalytics[]): Omit<MonthlyAnalytics, 'month'> => {
+  const summary: MonthlySummary = { ...EMPTY_SUMMARY, deductions: { ...NO_STATUTORY_DEDUCTIONS } };
+  let shiftCount = 0;
+  let workedMinutes = 0;
+  let paidMinutes1_5x = 0;
+  let paidMinutes2x = 0;
+  let paidMinutes3x = 0;
+  let outstationCount = 0;
+
+  for (const month of months) {
+    (Object.keys(summary) as (keyof MonthlySummary)[]).forEach((key) => {
+      if (key !== 'deductions') summary[key] += month.summary[key];
+    });
+    (Object.keys(summary.deductions) as (keyof StatutoryDeductions)[]).forEach((key) => {
+      summary.deductions[key] += month.summary.deductions[key];
+    });
+    shiftCount += month.shiftCount;
+    workedMinutes += month.workedMinutes;
+    paidMinutes1_5x += month.paidMinutes1_5x;
+    paidMinutes2x += month.paidMinutes2x;
+    paidMinutes3x += month.paidMinutes3x;
+    outstationCount += month.outstationCount;
+  }
+
+  return {
+    summary,
+    shiftCount,
+    workedMinutes,
+    averageShiftMinutes: shiftCount > 0 ? workedMinutes / shiftCount : 0,
+    paidMinutes1_5x,
+    paidMinutes2x,
+    paidMinutes3x,
+    outstationCount,
+  };
+};
+
+/**
+ * Month-by-month analytics for a driver's year, plus year-to-date totals
+ * The whole range is loaded in one go (see fetchPayrollForMonths); for the
+ * current year it stops at the current month.
+ */
+export const fetchYearAnalytics = async (userId: string, year: number): Promise<YearAnalytics> => {
+  const now = new Date();
+  if (year > getYear(now)) {
+    return { year, months: [], totals: summarizeYear([]) };
+  }
+  const lastMonth = year === getYear(now) ? getMonth(now) + 1 : 12;
+
+  const payrolls = await fetchPayrollForMonths(userId, year, 1, lastMonth);
+  const months = payrolls.map((payroll, index) => summarizeMonth(index + 1, payroll));
+
+  return { year, months, totals: summarizeYear(months) };
+};
@@ -0,0 +1,213 @@
+import { supabase } from '../supabaseClient';
+import { Claim, ClaimCategory, ClaimStatus, WorkLog } from '../types';
+
+// Rows per request; PostgREST caps a single response
+const PAGE_SIZE = 1000;
+
+/**
+ * Display labels for each claim category
+ */
+export const CLAIM_CATEGORY_LABELS: Record<ClaimCategory, string> = {
+  mileage: 'Mileage',
+  toll: 'Toll',
+  parking: 'Parking',
+  fuel: 'Fuel',
+};
+
+/**
+ * Display labels for each claim status
+ */
+export const CLAIM_STATUS_LABELS: Record<ClaimStatus, string> = {
+  pending: 'Pending',
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
+
+const RECEIPT_BUCKET = 'claim-receipts';
+
+// Signed receipt links stay valid long enough to view the photo
+const RECEIPT_URL_TTL_SECONDS = 300;
+
+export interface ClaimInput {
+  category: ClaimCategory;
+  distance_km?: number; // Mileage only
+  amount?: number; // Toll, parking and fuel; mileage is priced by the database
+  description?: string;
+  receipt?: File | null;
+}
+
+/**
+ * Upload a receipt photo under the driver's own folder
+ * @returns Path of the stored object
+ */
+const uploadReceipt = async (workLog: WorkLog, file: File): Promise<string> => {
+  const safeName = file.name.replace(/[^\w.-]+/g, '_');
+  const path = `${workLog.user_id}/${workLog.id}/${Date.now()}-${safeName}`;
+
+  const { error } = await supabase.storage
+    .from(RECEIPT_BUCKET)
+    .upload(path, file, { contentType: file.type || undefined });
+
+  if (error) throw error;
+  return path;
+};
+
+/**
+ * Submit a claim against one of the driver's own work logs
+ */
+export const submitClaim = async (workLog: WorkLog, input: ClaimInput): Promise<Claim> => {
+  if (input.category === 'mileage') {
+    if (!input.distance_km || input.distance_km <= 0) {
+      throw new Error('Enter the distance driven in km.');
+    }
+  } else {
+    if (input.amount == null || isNaN(input.amount) || input.amount <= 0) {
+      throw new Error('Enter the amount on the receipt.');
+    }
+    if (!input.receipt) {
+      throw new Error('Attach a photo of the receipt.');
+    }
+  }
+
+  const receiptPath = input.receipt ? await uploadReceipt(workLog, input.receipt) : null;
+
+  const { data, error } = await supabase
+    .from('claims')
+    .insert([
+      {
+        work_log_id: workLog.id,
+        user_id: workLog.user_id,
+        category: input.category,
+        distance_km: input.category === 'mileage' ? input.distance_km : null,
+        amount: input.category === 'mileage' ? 0 : Math.round(input.amount! * 100) / 100,
+        description: input.description?.trim() || null,
+        receipt_path: receiptPath,
+      }
+    ])
+    .select()
+    .single();
+
+  if (error) {
+    // Don't leave an orphaned receipt behind
+    if (receiptPath) await supabase.storage.from(RECEIPT_BUCKET).remove([receiptPath]);
+    throw error;
+  }
+  return normalizeClaim(data);
+};
+
+/**
+ * Fetch all claims on a work log, oldest first
+ */
+export const fetchClaimsForLog = async (workLogId: string): Promise<Claim[]> => {
+  const { data, error } = await supabase
+    .from('claims')
+    .select('*')
+    .eq('work_log_id', workLogId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map(normalizeClaim);
+};
+
+/**
+ * Fetch the claims on a set of work logs (e.g. the logs of a pay period)
+ */
+export const fetchClaimsForLogs = async (workLogIds: string[]): Promise<Claim[]> => {
+  if (workLogIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('claims')
+    .select('*')
+    .in('work_log_id', workLogIds);
+
+  if (error) throw error;
+  return (data || []).map(normalizeClaim);
+};
+
+/**
+ * Fetch a driver's claims on work logs that started in [from, to)
+ */
+export const fetchClaimsInRange = async (userId: string, from: Date, to: Date): Promise<Claim[]> => {
+  const claims: Claim[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('claims')
+      .select('*, work_log:work_logs!inner(clock_in, clock_out)')
+      .eq('user_id', userId)
+      .gte('work_log.clock_in', from.toISOString())
+      .lt('work_log.clock_in', to.toISOString())
+      .order('id', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    claims.push(...(data || []).map(normalizeClaim));
+    if (!data || data.length < PAGE_SIZE) return claims;
+  }
+};
+
+/**
+ * Fetch claims waiting for review (supervisors see every driver)
+ * Includes the work log's times so reviewers can check the trip.
+ */
+export const fetchPendingClaims = async (): Promise<Claim[]> => {
+  const { data, error } = await supabase
+    .from('claims')
+    .select('*, work_log:work_logs(clock_in, clock_out)')
+    .eq('status', 'pending')
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map(normalizeClaim);
+};
+
+/**
+ * Approve or reject a pending claim (supervisors only, enforced by review_claim)
+ */
+export const reviewClaim = async (claimId: string, approve: boolean, reviewNotes?: string): Promise<Claim> => {
+  const { data, error } = await supabase.rpc('review_claim', {
+    p_claim_id: claimId,
+    p_approve: approve,
+    p_review_notes: reviewNotes?.trim() || null,
+  });
+
+  if (error) throw error;
+  return normalizeClaim(data);
+};
+
+/**
+ * Withdraw a claim that has not been reviewed yet, with its receipt
+ */
+export const deleteClaim = async (claim: Claim): Promise<void> => {
+  const { error } = await supabase
+    .from('claims')
+    .delete()
+    .eq('id', claim.id);
+
+  if (error) throw error;
+
+  if (claim.receipt_path) {
+    const { error: storageError } = await supabase.storage.from(RECEIPT_BUCKET).remove([claim.receipt_path]);
+    if (storageError) console.error('Error deleting receipt:', storageError);
+  }
+};
+
+/**
+ * Temporary link to view a receipt photo (the bucket is private)
+ */
+export const getReceiptUrl = async (receiptPath: string): Promise<string> => {
+  const { data, error } = await supabase.storage
+    .from(RECEIPT_BUCKET)
+    .createSignedUrl(receiptPath, RECEIPT_URL_TTL_SECONDS);
+
+  if (error) throw error;
+  return data.signedUrl;
+};
+
+/**
+ * Postgres NUMERIC columns come back as strings; coerce them to numbers
+ */
+const normalizeClaim = (row: any): Claim => ({
+  ...row,
+  distance_km: row.distance_km == null ? null : Number(row.distance_km),
+  amount: Number(row.amount),
+});
@@ -0,0 +1,162 @@
+import { supabase } from '../supabaseClient';
+import { WorkLog, WorkLogCorrection, WorkLogAuditEntry, CorrectionStatus } from '../types';
+
+/**
+ * Display labels for each correction status
+ */
+export const CORRECTION_STATUS_LABELS: Record<CorrectionStatus, string> = {
+  pending: 'Pending',
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
+
+/**
+ * Work log fields shown in the change history, with display labels
+ */
+export const AUDITED_FIELDS: { field: keyof WorkLog; label: string }[] = [
+  { field: 'clock_in', label: 'Clock In' },
+  { field: 'clock_out', label: 'Clock Out' },
+  { field: 'duration_minutes', label: 'Duration (min)' },
+  { field: 'overtime_amount', label: 'OT Amount' },
+  { field: 'day_type', label: 'Day Type' },
+  { field: 'is_outstation', label: 'Outstation' },
+];
+
+export interface CorrectionInput {
+  requested_clock_in: string; // ISO timestamp
+  requested_clock_out: string; // ISO timestamp
+  reason: string;
+}
+
+/**
+ * Submit a correction request for one of the driver's own work logs
+ */
+export const requestCorrection = async (workLog: WorkLog, input: CorrectionInput): Promise<WorkLogCorrection> => {
+  const clockIn = new Date(input.requested_clock_in);
+  const clockOut = new Date(input.requested_clock_out);
+
+  if (isNaN(clockIn.getTime()) || isNaN(clockOut.getTime())) {
+    throw new Error('Enter both the clock-in and clock-out times.');
+  }
+  if (clockOut <= clockIn) {
+    throw new Error('Clock-out must be after clock-in.');
+  }
+  if (clockOut > new Date()) {
+    throw new Error('Clock-out cannot be in the future.');
+  }
+  if (!input.reason.trim()) {
+    throw new Error('Please give a reason for the correction.');
+  }
+
+  const { data, error } = await supabase
+    .from('work_log_corrections')
+    .insert([
+      {
+        work_log_id: workLog.id,
+        user_id: workLog.user_id,
+        requested_clock_in: clockIn.toISOString(),
+        requested_clock_out: clockOut.toISOString(),
+        reason: input.reason.trim(),
+      }
+    ])
+    .select()
+    .single();
+
+  if (error) {
+    // Unique index allows only one pending request per work log
+    if (error.code === '23505') {
+      throw new Error('A correction for this work log is already waiting for review.');
+    }
+    throw error;
+  }
+  return data;
+};
+
+/**
+ * Fetch all correction requests for a work log, newest first
+ */
+export const fetchCorrectionsForLog = async (workLogId: string): Promise<WorkLogCorrection[]> => {
+  const { data, error } = await supabase
+    .from('work_log_corrections')
+    .select('*')
+    .eq('work_log_id', workLogId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Fetch correction requests waiting for review (supervisors see every driver)
+ * Includes the work log's current times so reviewers can compare.
+ */
+export const fetchPendingCorrections = async (): Promise<WorkLogCorrection[]> => {
+  const { data, error } = await supabase
+    .from('work_log_corrections')
+    .select('*, work_log:work_logs(clock_in, clock_out, duration_minutes, overtime_amount)')
+    .eq('status', 'pending')
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Approve a correction and apply the requested times
+ * The database recalculates OT, and approve_work_log_correction writes the update
+ * and audit entry atomically.
+ */
+export const approveCorrection = async (
+  correction: WorkLogCorrection,
+  reviewNotes?: string
+): Promise<WorkLogCorrection> => {
+  const { data, error } = await supabase.rpc('approve_work_log_correction', {
+    p_correction_id: correction.id,
+    p_review_notes: reviewNotes?.trim() || null,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Reject a correction, leaving the work log unchanged
+ */
+export const rejectCorrection = async (correctionId: string, reviewNotes?: string): Promise<WorkLogCorrection> => {
+  const { data, error } = await supabase.rpc('reject_work_log_correction', {
+    p_correction_id: correctionId,
+    p_review_notes: reviewNotes?.trim() || null,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Fetch the change history of a work log, oldest first
+ */
+export const fetchWorkLogAudit = async (workLogId: string): Promise<WorkLogAuditEntry[]> => {
+  const { data, error } = await supabase
+    .from('work_log_audit')
+    .select('*')
+    .eq('work_log_id', workLogId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * List the audited fields that differ between the before and after values of an entry
+ */
+export const getAuditChanges = (
+  entry: WorkLogAuditEntry
+): { field: keyof WorkLog; label: string; before: unknown; after: unknown }[] =>
+  AUDITED_FIELDS
+    .map(({ field, label }) => ({
+      field,
+      label,
+      before: entry.before_values?.[field] ?? null,
+      after: entry.after_values?.[field] ?? null,
+    }))
+    .filter(({ before, after }) => String(before) !== String(after));
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv } from './csvService';
+
+describe('parseCsv', () => {
+  it('splits rows and cells', () => {
+    expect(parseCsv('a,b,c\r\n1,2,3\n')).toEqual([['a', 'b', 'c'], ['1', '2', '3']]);
+  });
+
+  it('keeps commas, newlines and doubled quotes inside quoted cells', () => {
+    const text = 'name,note\n"Hari Raya, day 2","Line one\nline two"\n"Say ""hi""",x';
+
+    expect(parseCsv(text)).toEqual([
+      ['name', 'note'],
+      ['Hari Raya, day 2', 'Line one\nline two'],
+      ['Say "hi"', 'x'],
+    ]);
+  });
+
+  it('drops blank rows and a byte order mark', () => {
+    expect(parseCsv('\uFEFFa,b\n\n , \n1,2')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('keeps empty cells', () => {
+    expect(parseCsv('2025-01-01,,ALL')).toEqual([['2025-01-01', '', 'ALL']]);
+  });
+});
@@ -0,0 +1,202 @@
+import { supabase } from '../supabaseClient';
+import { GeocodeResult, WorkLog } from '../types';
+
+/**
+ * Reverse geocoding
+ * Punch locations are turned into an address and postcode by a pluggable provider.
+ * Results are cached in geocode_cache per coordinate rounded to 4 decimals (~11 m),
+ * so punches at the depot or a regular customer cost no request at all. Only the
+ * reverse-geocode Edge Function writes the cache; the app just reads it.
+ */
+
+export interface GeocodingProvider {
+  name: string;
+  // Resolve coordinates; null when the provider has no answer
+  reverse: (lat: number, lng: number) => Promise<GeocodeResult | null>;
+}
+
+export const UNKNOWN_POSTCODE = 'Unknown';
+
+// Nominatim's usage policy: identify the application and send at most one request per second
+const NOMINATIM_URL = 'https://nominatim.openstreetmap.org/reverse';
+const NOMINATIM_MIN_INTERVAL_MS = 1000;
+
+// Logs re-geocoded per run, to stay well inside the provider's rate limit
+const REGEOCODE_BATCH_SIZE = 10;
+
+const formatCoordinates = (lat: number, lng: number): string => `${lat.toFixed(6)}, ${lng.toFixed(6)}`;
+
+/**
+ * The reverse-geocode Edge Function (default)
+ * It asks Nominatim from the server and caches the answer for every driver.
+ */
+export const serverProvider: GeocodingProvider = {
+  name: 'server',
+  reverse: async (lat, lng) => {
+    const { data, error } = await supabase.functions.invoke<GeocodeResult>('reverse-geocode', {
+      body: { lat, lng },
+    });
+    if (error) throw error;
+    return data;
+  },
+};
+
+let lastNominatimRequest = 0;
+
+/**
+ * OpenStreetMap Nominatim, straight from the browser
+ * For projects without the Edge Function; its answers are not cached.
+ * Browsers do not let scripts set User-Agent, so the app is identified by its
+ * origin in the Referer header (sent even if the page turns referrers off) and
+ * by VITE_GEOCODING_EMAIL, sent as the contact address the policy asks for.
+ */
+export const nominatimProvider: GeocodingProvider = {
+  name: 'nominatim',
+  reverse: async (lat, lng) => {
+    const wait = lastNominatimRequest + NOMINATIM_MIN_INTERVAL_MS - Date.now();
+    if (wait > 0) await new Promise((resolve) => setTimeout(resolve, wait));
+    lastNominatimRequest = Date.now();
+
+    const params = new URLSearchParams({
+      format: 'json',
+      lat: String(lat),
+      lon: String(lng),
+      addressdetails: '1',
+    });
+    if (import.meta.env.VITE_GEOCODING_EMAIL) params.set('email', import.meta.env.VITE_GEOCODING_EMAIL);
+
+    const response = await fetch(`${NOMINATIM_URL}?${params}`, {
+      headers: { 'Accept-Language': 'en' },
+      referrerPolicy: 'strict-origin-when-cross-origin',
+    });
+    if (!response.ok) throw new Error(`Nominatim returned ${response.status}`);
+    const data = await response.json();
+    if (!data.address && !data.display_name) return null;
+
+    const addr = data.address || {};
+    // Build a readable address string
+    const parts: string[] = [];
+    if (addr.road) parts.push(addr.road);
+    if (addr.suburb || addr.neighbourhood) parts.push(addr.suburb || addr.neighbourhood);
+    if (addr.city || addr.town || addr.village) parts.push(addr.city || addr.town || addr.village);
+    if (addr.postcode) parts.push(addr.postcode);
+    if (addr.state) parts.push(addr.state);
+
+    return {
+      address: parts.length > 0 ? parts.join(', ') : data.display_name || formatCoordinates(lat, lng),
+      postcode: addr.postcode || UNKNOWN_POSTCODE,
+    };
+  },
+};
+
+/**
+ * Offline stand-in for development and tests: no network, coordinates only
+ * Select it with VITE_GEOCODING_PROVIDER=offline.
+ */
+export const offlineProvider: GeocodingProvider = {
+  name: 'offline',
+  reverse: async (lat, lng) => ({
+    address: formatCoordinates(lat, lng),
+    postcode: UNKNOWN_POSTCODE,
+  }),
+};
+
+const PROVIDERS: Record<string, GeocodingProvider> = {
+  [serverProvider.name]: serverProvider,
+  [nominatimProvider.name]: nominatimProvider,
+  [offlineProvider.name]: offlineProvider,
+};
+
+let activeProvider: GeocodingProvider = PROVIDERS[import.meta.env.VITE_GEOCODING_PROVIDER || ''] || serverProvider;
+
+/**
+ * Replace the provider used for new lookups (e.g. a commercial geocoder)
+ */
+export const setGeocodingProvider = (provider: GeocodingProvider): void => {
+  activeProvider = provider;
+};
+
+const toCacheKey = (lat: number, lng: number) => ({
+  lat_key: Number(lat.toFixed(4)),
+  lng_key: Number(lng.toFixed(4)),
+});
+
+const readCache = async (lat: number, lng: number): Promise<GeocodeResult | null> => {
+  const key = toCacheKey(lat, lng);
+  const { data, error } = await supabase
+    .from('geocode_cache')
+    .select('address, postcode')
+    .eq('lat_key', key.lat_key)
+    .eq('lng_key', key.lng_key)
+    .maybeSingle();
+
+  if (error) {
+    // Databases without the cache migration simply skip caching
+    console.error('Error reading geocode cache:', error);
+    return null;
+  }
+  return data;
+};
+
+/**
+ * Address and postcode for a location, in a single lookup
+ * Never throws: when the provider fails the address falls back to the coordinates
+ * and the postcode to "Unknown", so the punch is still recorded and can be
+ * re-geocoded later.
+ */
+export const reverseGeocode = async (lat: number, lng: number): Promise<GeocodeResult> => {
+  const cached = await readCache(lat, lng);
+  if (cached) return cached;
+
+  try {
+    const result = await activeProvider.reverse(lat, lng);
+    if (result) return result;
+  } catch (error) {
+    console.error('Error reverse geocoding location:', error);
+  }
+
+  return { address: formatCoordinates(lat, lng), postcode: UNKNOWN_POSTCODE };
+};
+
+/**
+ * Retry geocoding for punches whose postcode came back as "Unknown"
+ * Runs a small batch per call so it can be triggered on every refresh.
+ * claim_regeocode_work_logs() skips closed months and logs already tried in the
+ * last day, so punches the provider cannot place are not looked up every time.
+ * @param userId Limit to one driver; omit for every log the caller can see
+ * @returns Number of punches updated
+ */
+export const regeocodeUnknownPunches = async (userId?: string): Promise<number> => {
+  const { data, error } = await supabase.rpc('claim_regeocode_work_logs', {
+    p_user_id: userId ?? null,
+    p_limit: REGEOCODE_BATCH_SIZE,
+  });
+  if (error) throw error;
+
+  let updated = 0;
+  for (const log of (data || []) as WorkLog[]) {
+    const punches = [
+      { punch: 'clock_in', lat: log.clock_in_lat, lng: log.clock_in_lng, postcode: log.clock_in_postcode },
+      { punch: 'clock_out', lat: log.clock_out_lat, lng: log.clock_out_lng, postcode: log.clock_out_postcode },
+    ] as const;
+
+    for (const { punch, lat, lng, postcode } of punches) {
+      if (postcode !== UNKNOWN_POSTCODE || lat == null || lng == null) continue;
+
+      const result = await reverseGeocode(lat, lng);
+      if (result.postcode === UNKNOWN_POSTCODE) continue;
+
+      const { data: saved, error: updateError } = await supabase.rpc('set_work_log_geocode', {
+        p_log_id: log.id,
+        p_punch: punch,
+        p_address: result.address,
+        p_postcode: result.postcode,
+      });
+      if (updateError) throw updateError;
+      // The log comes back unchanged when its month was closed in the meantime
+      if ((saved as WorkLog | null)?.[`${punch}_postcode`] === result.postcode) updated++;
+    }
+  }
+
+  return updated;
+};
@@ -0,0 +1,36 @@
+import { describe, expect, it, vi } from 'vitest';
+import { parseHolidayCsv } from './holidayService';
+
+vi.mock('../supabaseClient', () => ({ supabase: {} }));
+
+describe('parseHolidayCsv', () => {
+  it('reads quoted names with commas and newlines', () => {
+    const text = [
+      'date,name,state',
+      '2025-03-31,"Hari Raya Aidilfitri, day 1",ALL',
+      '2025-04-01,"Hari Raya Aidilfitri,',
+      'day 2",Selangor',
+    ].join('\n');
+
+    expect(parseHolidayCsv(text)).toEqual({
+      holidays: [
+        { holiday_date: '2025-03-31', name: 'Hari Raya Aidilfitri, day 1', state: 'ALL' },
+        { holiday_date: '2025-04-01', name: 'Hari Raya Aidilfitri,\nday 2', state: 'SGR' },
+      ],
+      errors: [],
+    });
+  });
+
+  it('uses the default state and name for missing cells', () => {
+    expect(parseHolidayCsv('2025-02-01', 'KUL').holidays).toEqual([
+      { holiday_date: '2025-02-01', name: 'Public Holiday', state: 'KUL' },
+    ]);
+  });
+
+  it('reports rows with a bad date or state', () => {
+    const { holidays, errors } = parseHolidayCsv('date,name\n01/02/2025,New Year\n2025-02-01,"Day, off",Atlantis');
+
+    expect(holidays).toEqual([]);
+    expect(errors).toEqual(['Row 2: invalid date "01/02/2025"', 'Row 3: unknown state "Atlantis"']);
+  });
+});
@@ -0,0 +1,340 @@
+import { format } from 'date-fns';
+import { supabase } from '../supabaseClient';
+import { PublicHoliday, MalaysianState } from '../types';
+import { parseCsv } from './csvService';
+
+/**
+ * Malaysian states and federal territories
+ */
+export const MALAYSIAN_STATES: Record<MalaysianState, string> = {
+  JHR: 'Johor',
+  KDH: 'Kedah',
+  KTN: 'Kelantan',
+  MLK: 'Melaka',
+  NSN: 'Negeri Sembilan',
+  PHG: 'Pahang',
+  PNG: 'Pulau Pinang',
+  PRK: 'Perak',
+  PLS: 'Perlis',
+  SBH: 'Sabah',
+  SWK: 'Sarawak',
+  SGR: 'Selangor',
+  TRG: 'Terengganu',
+  KUL: 'W.P. Kuala Lumpur',
+  LBN: 'W.P. Labuan',
+  PJY: 'W.P. Putrajaya',
+};
+
+/**
+ * Postcode ranges per state (inclusive, 5-digit numeric)
+ * Checked in order, so narrower ranges come before the broad ones they sit in.
+ */
+const POSTCODE_RANGES: { from: number; to: number; state: MalaysianState }[] = [
+  { from: 1000, to: 2999, state: 'PLS' },
+  { from: 5000, to: 9999, state: 'KDH' },
+  { from: 10000, to: 14999, state: 'PNG' },
+  { from: 15000, to: 18999, state: 'KTN' },
+  { from: 20000, to: 24999, state: 'TRG' },
+  { from: 25000, to: 28999, state: 'PHG' },
+  { from: 30000, to: 36999, state: 'PRK' },
+  { from: 39000, to: 39999, state: 'PHG' },
+  { from: 40000, to: 48999, state: 'SGR' },
+  { from: 49000, to: 49999, state: 'PHG' },
+  { from: 50000, to: 60999, state: 'KUL' },
+  { from: 62000, to: 62999, state: 'PJY' },
+  { from: 63000, to: 68999, state: 'SGR' },
+  { from: 69000, to: 69999, state: 'PHG' },
+  { from: 70000, to: 73999, state: 'NSN' },
+  { from: 75000, to: 78999, state: 'MLK' },
+  { from: 79000, to: 86999, state: 'JHR' },
+  { from: 87000, to: 87999, state: 'LBN' },
+  { from: 88000, to: 91999, state: 'SBH' },
+  { from: 93000, to: 98999, state: 'SWK' },
+];
+
+/**
+ * Derive the state from a Malaysian postcode
+ * @param postcode Postcode as stored on the work log (may be "Unknown")
+ * @returns State code, or undefined if the postcode is missing or not Malaysian
+ */
+export const getStateFromPostcode = (postcode?: string | null): MalaysianState | undefined => {
+  if (!postcode) return undefined;
+  const digits = postcode.replace(/\D/g, '');
+  if (digits.length !== 5) return undefined;
+
+  const value = Number(digits);
+  return POSTCODE_RANGES.find((range) => value >= range.from && value <= range.to)?.state;
+};
+
+/**
+ * In-memory public holiday calendar (YYYY-MM-DD -> states observing the holiday)
+ * 'ALL' marks a nationwide holiday. Filled per year by loadPublicHolidays.
+ */
+let PUBLIC_HOLIDAYS = new Map<string, Set<MalaysianState | 'ALL'>>();
+const loadedYears = new Map<number, Promise<void>>();
+
+const addToCalendar = (dateStr: string, state: MalaysianState | 'ALL'): void => {
+  const states = PUBLIC_HOLIDAYS.get(dateStr) || new Set();
+  states.add(state);
+  PUBLIC_HOLIDAYS.set(dateStr, states);
+};
+
+/**
+ * Set the list of nationwide public holidays
+ * @param holidays Array of dates in YYYY-MM-DD format
+ */
+export const setPublicHolidays = (holidays: string[]): void => {
+  PUBLIC_HOLIDAYS = new Map();
+  holidays.forEach((dateStr) => addToCalendar(dateStr, 'ALL'));
+};
+
+/**
+ * Add nationwide public holidays to the existing list
+ * @param holidays Array of dates in YYYY-MM-DD format
+ */
+export const addPublicHolidays = (holidays: string[]): void => {
+  holidays.forEach((dateStr) => addToCalendar(dateStr, 'ALL'));
+};
+
+/**
+ * Get the current list of public holidays
+ * @param state Optional state; state-specific holidays are only included for that state
+ * @returns Array of public holiday dates in YYYY-MM-DD format
+ */
+export const getPublicHolidays = (state?: MalaysianState): string[] => {
+  return Array.from(PUBLIC_HOLIDAYS.entries())
+    .filter(([, states]) => states.has('ALL') || (!!state && states.has(state)))
+    .map(([dateStr]) => dateStr)
+    .sort();
+};
+
+/**
+ * Check the loaded calendar for a public holiday
+ * @param state Optional state; without it only nationwide holidays match
+ */
+export const isCalendarPublicHoliday = (date: Date, state?: MalaysianState): boolean => {
+  const states = PUBLIC_HOLIDAYS.get(format(date, 'yyyy-MM-dd'));
+  if (!states) return false;
+  return states.has('ALL') || (!!state && states.has(state));
+};
+
+/**
+ * Fetch public holidays between two dates (inclusive, YYYY-MM-DD)
+ */
+export const fetchPublicHolidays = async (from: string, to: string): Promise<PublicHoliday[]> => {
+  const { data, error } = await supabase
+    .from('public_holidays')
+    .select('*')
+    .gte('holiday_date', from)
+    .lte('holiday_date', to)
+    .order('holiday_date', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Load a year of the calendar into memory so getDayType can detect holidays
+ * Each year is fetched once; pass force to reload after edits.
+ */
+export const loadPublicHolidays = async (year: number, force: boolean = false): Promise<void> => {
+  if (!force && loadedYears.has(year)) {
+    return loadedYears.get(year);
+  }
+
+  const load = (async () => {
+    const holidays = await fetchPublicHolidays(`${year}-01-01`, `${year}-12-31`);
+
+    // Replace this year's entries
+    Array.from(PUBLIC_HOLIDAYS.keys()).forEach((dateStr) => {
+      if (dateStr.startsWith(`${year}-`)) PUBLIC_HOLIDAYS.delete(dateStr);
+    });
+    holidays.forEach((holiday) => addToCalendar(holiday.holiday_date, holiday.state));
+  })();
+
+  loadedYears.set(year, load);
+  try {
+    await load;
+  } catch (error) {
+    // Allow a retry on the next call
+    loadedYears.delete(year);
+    throw error;
+  }
+};
+
+/**
+ * Load every year of the calendar from one date to another (inclusive)
+ * Shifts are rated by the day each part falls on, so callers include the day
+ * after their range: a shift starting on 31 December is partly paid in January.
+ */
+export const loadPublicHolidaysBetween = async (from: Date, to: Date): Promise<void> => {
+  const years: number[] = [];
+  for (let year = from.getFullYear(); year <= to.getFullYear(); year++) years.push(year);
+  await Promise.all(years.map((year) => loadPublicHolidays(year)));
+};
+
+/**
+ * Add or update a single public holiday
+ */
+export const savePublicHoliday = async (holiday: PublicHoliday): Promise<PublicHoliday> => {
+  const { id, created_at, ...fields } = holiday;
+
+  const { data, error } = await supabase
+    .from('public_holidays')
+    .upsert([fields], { onConflict: 'holiday_date,state' })
+    .select()
+    .single();
+
+  if (error) throw error;
+  await loadPublicHolidays(Number(holiday.holiday_date.slice(0, 4)), true);
+  return data;
+};
+
+/**
+ * Delete a public holiday
+ */
+export const deletePublicHoliday = async (holiday: PublicHoliday): Promise<void> => {
+  const { error } = await supabase
+    .from('public_holidays')
+    .delete()
+    .eq('holiday_date', holiday.holiday_date)
+    .eq('state', holiday.state);
+
+  if (error) throw error;
+  await loadPublicHolidays(Number(holiday.holiday_date.slice(0, 4)), true);
+};
+
+/**
+ * Insert or update many holidays at once (e.g. from an imported file)
+ * @returns Number of holidays saved
+ */
+export const bulkImportPublicHolidays = async (holidays: PublicHoliday[]): Promise<number> => {
+  if (holidays.length === 0) return 0;
+
+  const { data, error } = await supabase
+    .from('public_holidays')
+    .upsert(
+      holidays.map(({ id, created_at, ...fields }) => fields),
+      { onConflict: 'holiday_date,state' }
+    )
+    .select('id');
+
+  if (error) throw error;
+
+  const years = new Set(holidays.map((holiday) => Number(holiday.holiday_date.slice(0, 4))));
+  await Promise.all(Array.from(years).map((year) => loadPublicHolidays(year, true)));
+
+  return data?.length || 0;
+};
+
+/**
+ * Normalise a state column value ("Selangor", "sgr", "ALL", blank) to a state code
+ */
+const parseStateValue = (value: string | undefined, defaultState: MalaysianState | 'ALL'): MalaysianState | 'ALL' | null => {
+  const trimmed = (value || '').trim();
+  if (!trimmed) return defaultState;
+
+  const upper = trimmed.toUpperCase();
+  if (upper === 'ALL' || upper === 'NATIONAL' || upper === 'NATIONWIDE') return 'ALL';
+  if (upper in MALAYSIAN_STATES) return upper as MalaysianState;
+
+  const byName = (Object.keys(MALAYSIAN_STATES) as MalaysianState[]).find(
+    (code) => MALAYSIAN_STATES[code].toLowerCase() === trimmed.toLowerCase()
+  );
+  return byName || null;
+};
+
+/**
+ * Parse a CSV file of holidays
+ * Expected columns: date (YYYY-MM-DD), name, state (optional; code, name or ALL).
+ * A header row is skipped automatically. Quoted cells may contain commas.
+ * @returns Parsed holidays and human-readable errors for rejected rows
+ */
+export const parseHolidayCsv = (
+  text: string,
+  defaultState: MalaysianState | 'ALL' = 'ALL'
+): { holidays: PublicHoliday[]; errors: string[] } => {
+  const holidays: PublicHoliday[] = [];
+  const errors: string[] = [];
+
+  parseCsv(text).forEach((cells, index) => {
+    const [dateValue, nameValue, stateValue] = cells.map((cell) => cell.trim());
+
+    if (index === 0 && !/^\d{4}-\d{2}-\d{2}$/.test(dateValue)) return; // Header row
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(dateValue)) {
+      errors.push(`Row ${index + 1}: invalid date "${dateValue}"`);
+      return;
+    }
+
+    const state = parseStateValue(stateValue, defaultState);
+    if (!state) {
+      errors.push(`Row ${index + 1}: unknown state "${stateValue}"`);
+      return;
+    }
+
+    holidays.push({ holiday_date: dateValue, name: nameValue || 'Public Holiday', state });
+  });
+
+  return { holidays, errors };
+};
+
+/**
+ * Parse an iCal (.ics) calendar of holidays
+ * Each VEVENT becomes one holiday per day it covers (DTEND is exclusive).
+ */
+export const parseHolidayIcal = (
+  text: string,
+  defaultState: MalaysianState | 'ALL' = 'ALL'
+): { holidays: PublicHoliday[]; errors: string[] } => {
+  const holidays: PublicHoliday[] = [];
+  const errors: string[] = [];
+
+  // Unfold continuation lines (RFC 5545: lines starting with a space or tab)
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+
+  let event: { start?: string; end?: string; summary?: string } | null = null;
+
+  const toDateStr = (value: string): string | null => {
+    const match = value.match(/(\d{4})(\d{2})(\d{2})/);
+    return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+  };
+
+  lines.forEach((line) => {
+    if (line === 'BEGIN:VEVENT') {
+      event = {};
+      return;
+    }
+
+    if (line === 'END:VEVENT') {
+      const current = event as { start?: string; end?: string; summary?: string } | null;
+      event = null;
+      if (!current?.start) {
+        errors.push(`Event "${current?.summary || 'untitled'}" has no start date`);
+        return;
+      }
+
+      const name = current.summary || 'Public Holiday';
+      const day = new Date(`${current.start}T00:00:00`);
+      const end = current.end ? new Date(`${current.end}T00:00:00`) : null;
+      do {
+        holidays.push({ holiday_date: format(day, 'yyyy-MM-dd'), name, state: defaultState });
+        day.setDate(day.getDate() + 1);
+      } while (end && day < end);
+      return;
+    }
+
+    if (!event) return;
+
+    const separator = line.indexOf(':');
+    if (separator === -1) return;
+    const key = line.slice(0, separator).split(';')[0].toUpperCase();
+    const value = line.slice(separator + 1);
+
+    if (key === 'DTSTART') event.start = toDateStr(value) || undefined;
+    if (key === 'DTEND') event.end = toDateStr(value) || undefined;
+    if (key === 'SUMMARY') event.summary = value.replace(/\\,/g, ',').trim();
+  });
+
+  return { holidays, errors };
+};
@@ -0,0 +1,113 @@
+import { format } from 'date-fns';
+import type { Locale } from 'date-fns';
+import { enUS, ms as msLocale, zhCN } from 'date-fns/locale';
+import { Language } from '../types';
+import { en, TranslationKey } from '../locales/en';
+import { ms } from '../locales/ms';
+import { zh } from '../locales/zh';
+
+/**
+ * UI language
+ * Strings come from the catalogs in locales/ (English is the source; the compiler
+ * checks the other catalogs translate every key). The language is kept on the
+ * device so the login screen can use it, and saved to the user's profile once
+ * they pick one while signed in.
+ */
+
+const STORAGE_KEY = 'driver-ot-tracker:language';
+
+export const LANGUAGES: Language[] = ['en', 'ms', 'zh'];
+
+/**
+ * Each language's name in that language, for the language picker
+ */
+export const LANGUAGE_LABELS: Record<Language, string> = {
+  en: 'English',
+  ms: 'Bahasa Malaysia',
+  zh: '中文',
+};
+
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+const CATALOGS: Record<Language, Record<TranslationKey, string>> = { en, ms, zh };
+
+const DATE_LOCALES: Record<Language, Locale> = {
+  en: enUS,
+  ms: msLocale,
+  zh: zhCN,
+};
+
+const NUMBER_LOCALES: Record<Language, string> = {
+  en: 'en-MY',
+  ms: 'ms-MY',
+  zh: 'zh-MY',
+};
+
+export type { TranslationKey };
+
+export type TranslationParams = Record<string, string | number>;
+
+export type Translate = (key: TranslationKey, params?: TranslationParams) => string;
+
+// Catalog entries holding a date-fns pattern
+export type DatePattern = Extract<TranslationKey, `date.${string}`>;
+
+export const isLanguage = (value: unknown): value is Language =>
+  LANGUAGES.includes(value as Language);
+
+/**
+ * Look up a string and fill in its {placeholders}
+ */
+export const translate = (language: Language, key: TranslationKey, params?: TranslationParams): string => {
+  const template = CATALOGS[language][key];
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  );
+};
+
+/**
+ * translate() bound to one language, for use as t() in components
+ */
+export const getTranslator = (language: Language): Translate =>
+  (key, params) => translate(language, key, params);
+
+/**
+ * Format a date with the language's pattern and month / weekday names
+ */
+export const formatDate = (date: Date, pattern: DatePattern, language: Language): string =>
+  format(date, CATALOGS[language][pattern], { locale: DATE_LOCALES[language] });
+
+/**
+ * Format an amount in ringgit, e.g. "RM 1,234.50"
+ * The symbol is added here because Intl writes "MYR" for Chinese.
+ */
+export const formatCurrency = (amount: number, language: Language): string => {
+  const rounded = Math.round(amount * 100) / 100;
+  const digits = new Intl.NumberFormat(NUMBER_LOCALES[language], {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(Math.abs(rounded));
+  return `${rounded < 0 ? '-' : ''}RM ${digits}`;
+};
+
+/**
+ * Language last used on this device, falling back to the browser's language
+ */
+export const getStoredLanguage = (): Language => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (isLanguage(stored)) return stored;
+  } catch (error) {
+    console.error('Error reading language:', error);
+  }
+  const browserLanguage = navigator.language?.split('-')[0];
+  return isLanguage(browserLanguage) ? browserLanguage : DEFAULT_LANGUAGE;
+};
+
+/**
+ * Remember the language on this device
+ */
+export const storeLanguage = (language: Language): void => {
+  localStorage.setItem(STORAGE_KEY, language);
+};
@@ -0,0 +1,148 @@
+import { startOfMonth, endOfMonth, format } from 'date-fns';
+import { supabase } from '../supabaseClient';
+import { LeaveRecord, LeaveType } from '../types';
+
+/**
+ * Display labels for each leave type
+ */
+export const LEAVE_TYPE_LABELS: Record<LeaveType, string> = {
+  medical: 'Medical Leave',
+  annual: 'Annual Leave',
+  emergency: 'Emergency Leave',
+  late: 'Late',
+};
+
+/**
+ * Leave types drivers can report for themselves (late is recorded by supervisors)
+ */
+export const SELF_REPORTABLE_LEAVE_TYPES: LeaveType[] = ['medical', 'annual', 'emergency'];
+
+/**
+ * Whether a driver may delete a leave record: only leave they reported themselves
+ */
+export const canDriverDeleteLeave = (leave: LeaveRecord, userId: string): boolean =>
+  leave.recorded_by === userId && SELF_REPORTABLE_LEAVE_TYPES.includes(leave.leave_type);
+
+export interface LeaveInput {
+  leave_date: string; // YYYY-MM-DD
+  leave_type: LeaveType;
+  notes?: string | null;
+}
+
+/**
+ * Fetch all leave records for a specific month
+ * @param month 1-based month
+ */
+export const fetchMonthlyLeaves = async (userId: string, year: number, month: number): Promise<LeaveRecord[]> => {
+  const targetDate = new Date(year, month - 1, 1);
+  const start = format(startOfMonth(targetDate), 'yyyy-MM-dd');
+  const end = format(endOfMonth(targetDate), 'yyyy-MM-dd');
+
+  const { data, error } = await supabase
+    .from('leaves')
+    .select('*')
+    .eq('user_id', userId)
+    .gte('leave_date', start)
+    .lte('leave_date', end)
+    .order('leave_date', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Fetch all leave records between two dates
+ * @param from Inclusive start date (YYYY-MM-DD)
+ * @param to Inclusive end date (YYYY-MM-DD)
+ */
+export const fetchLeavesInRange = async (userId: string, from: string, to: string): Promise<LeaveRecord[]> => {
+  const { data, error } = await supabase
+    .from('leaves')
+    .select('*')
+    .eq('user_id', userId)
+    .gte('leave_date', from)
+    .lte('leave_date', to)
+    .order('leave_date', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Fetch leave records of a given type, optionally limited to a date range
+ * @param from Inclusive start date (YYYY-MM-DD)
+ * @param to Inclusive end date (YYYY-MM-DD)
+ */
+export const fetchLeavesByType = async (
+  userId: string,
+  leaveType: LeaveType,
+  from?: string,
+  to?: string
+): Promise<LeaveRecord[]> => {
+  let query = supabase
+    .from('leaves')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('leave_type', leaveType);
+
+  if (from) query = query.gte('leave_date', from);
+  if (to) query = query.lte('leave_date', to);
+
+  const { data, error } = await query.order('leave_date', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Record a leave day for a driver
+ * @param recordedBy User recording the leave (the driver or a supervisor)
+ */
+export const createLeave = async (userId: string, leave: LeaveInput, recordedBy: string): Promise<LeaveRecord> => {
+  const { data, error } = await supabase
+    .from('leaves')
+    .insert([
+      {
+        user_id: userId,
+        leave_date: leave.leave_date,
+        leave_type: leave.leave_type,
+        notes: leave.notes || null,
+        recorded_by: recordedBy,
+      }
+    ])
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Edit an existing leave record (supervisors only)
+ */
+export const updateLeave = async (leaveId: string, updates: Partial<LeaveInput>): Promise<LeaveRecord> => {
+  const { data, error } = await supabase
+    .from('leaves')
+    .update({
+      ...updates,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', leaveId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Delete a leave record
+ */
+export const deleteLeave = async (leaveId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('leaves')
+    .delete()
+    .eq('id', leaveId);
+
+  if (error) throw error;
+};
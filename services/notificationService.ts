@@ -0,0 +1,151 @@
+import { supabase } from '../supabaseClient';
+import { NotificationKind, NotificationPreferences } from '../types';
+
+/**
+ * Reminders
+ * queue_notification_reminders() puts due reminders in the notifications outbox,
+ * and the deliver-notifications Edge Function (run every minute by pg_cron) sends
+ * each one once: by Web Push to the devices the driver subscribed, otherwise by
+ * email. This module manages the driver's preferences and this device's push
+ * subscription (needs VITE_VAPID_PUBLIC_KEY); the service worker shows the pushes.
+ */
+
+/**
+ * Display labels for each reminder
+ */
+export const NOTIFICATION_KIND_LABELS: Record<NotificationKind, string> = {
+  long_session: 'Still clocked in',
+  missed_clock_in: 'Missed clock-in',
+  month_review: 'Month ready to review',
+};
+
+/**
+ * Preferences for drivers who have not changed them, matching the database defaults
+ */
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  push_enabled: true,
+  email_enabled: true,
+  remind_long_session: true,
+  long_session_hours: 10,
+  remind_missed_clock_in: true,
+  missed_clock_in_minutes: 15,
+  remind_month_review: true,
+};
+
+const normalizePreferences = (row: any): NotificationPreferences => ({
+  push_enabled: row.push_enabled,
+  email_enabled: row.email_enabled,
+  remind_long_session: row.remind_long_session,
+  long_session_hours: Number(row.long_session_hours),
+  remind_missed_clock_in: row.remind_missed_clock_in,
+  missed_clock_in_minutes: Number(row.missed_clock_in_minutes),
+  remind_month_review: row.remind_month_review,
+  updated_at: row.updated_at,
+});
+
+/**
+ * Fetch a driver's notification preferences (defaults when never saved)
+ */
+export const fetchNotificationPreferences = async (userId: string): Promise<NotificationPreferences> => {
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? normalizePreferences(data) : DEFAULT_NOTIFICATION_PREFERENCES;
+};
+
+/**
+ * Save the signed-in driver's notification preferences
+ */
+export const saveNotificationPreferences = async (
+  userId: string,
+  preferences: NotificationPreferences
+): Promise<NotificationPreferences> => {
+  if (!(preferences.long_session_hours > 0)) {
+    throw new Error('The clock-out reminder must be after more than 0 hours.');
+  }
+  if (!Number.isInteger(preferences.missed_clock_in_minutes) || preferences.missed_clock_in_minutes < 0) {
+    throw new Error('The clock-in reminder must be a whole number of minutes.');
+  }
+
+  const { updated_at, ...fields } = preferences;
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .upsert([{ ...fields, user_id: userId, updated_at: new Date().toISOString() }], { onConflict: 'user_id' })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return normalizePreferences(data);
+};
+
+/**
+ * Whether this browser can show push notifications
+ */
+export const isPushSupported = (): boolean =>
+  'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+
+/**
+ * Whether this device has allowed notifications
+ */
+export const isPushAllowed = (): boolean =>
+  isPushSupported() && Notification.permission === 'granted';
+
+// VAPID keys are base64url; PushManager wants the raw bytes
+const decodeBase64Url = (value: string): Uint8Array => {
+  const base64 = (value + '='.repeat((4 - (value.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  return Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+};
+
+/**
+ * Ask for permission to show notifications on this device and, when a VAPID
+ * key is configured, subscribe it to Web Push
+ * @returns Whether notifications are allowed
+ */
+export const enablePushNotifications = async (userId: string): Promise<boolean> => {
+  if (!isPushSupported()) return false;
+  if (await Notification.requestPermission() !== 'granted') return false;
+  if (!import.meta.env.VITE_VAPID_PUBLIC_KEY) return true;
+
+  const registration = await navigator.serviceWorker.ready;
+  const subscription = await registration.pushManager.getSubscription()
+    ?? await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: decodeBase64Url(import.meta.env.VITE_VAPID_PUBLIC_KEY),
+    });
+
+  const { endpoint, keys } = subscription.toJSON();
+  const { error } = await supabase
+    .from('push_subscriptions')
+    .upsert([{
+      user_id: userId,
+      endpoint,
+      p256dh: keys?.p256dh,
+      auth: keys?.auth,
+      user_agent: navigator.userAgent,
+    }], { onConflict: 'endpoint' });
+
+  if (error) throw error;
+  return true;
+};
+
+/**
+ * Unsubscribe this device from Web Push
+ */
+export const disablePushNotifications = async (): Promise<void> => {
+  if (!isPushSupported()) return;
+  const registration = await navigator.serviceWorker.ready;
+  const subscription = await registration.pushManager.getSubscription();
+  if (!subscription) return;
+
+  const { error } = await supabase
+    .from('push_subscriptions')
+    .delete()
+    .eq('endpoint', subscription.endpoint);
+
+  if (error) throw error;
+  await subscription.unsubscribe();
+};
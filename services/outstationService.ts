@@ -0,0 +1,170 @@
+import { addDays, startOfDay } from 'date-fns';
+import { supabase } from '../supabaseClient';
+import { OutstationRule, OutstationSettings, OutstationSuggestion, Site, WorkLog } from '../types';
+import { distanceInMeters } from './siteService';
+
+/**
+ * Rule used until outstation_settings has been created
+ */
+export const DEFAULT_OUTSTATION_SETTINGS: OutstationSettings = {
+  min_distance_km: 100,
+  overnight_start: '00:00',
+  overnight_end: '05:00',
+};
+
+/**
+ * Display labels for how a session's outstation status was decided
+ */
+export const OUTSTATION_RULE_LABELS: Record<OutstationRule, string> = {
+  auto: 'GPS distance',
+  declared: 'Driver declared',
+  supervisor: 'Supervisor override',
+};
+
+// "HH:mm" or "HH:mm:ss" to minutes after midnight
+const timeToMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Whether a session runs through the overnight window on any night
+ * Same rule as public.crosses_overnight_window in the database.
+ */
+export const crossesOvernightWindow = (start: Date, end: Date, settings: OutstationSettings): boolean => {
+  const windowStart = timeToMinutes(settings.overnight_start);
+  let windowEnd = timeToMinutes(settings.overnight_end);
+  if (windowEnd <= windowStart) windowEnd += 24 * 60; // Window crosses midnight
+
+  for (let night = addDays(startOfDay(start), -1); night <= end; night = addDays(night, 1)) {
+    const from = new Date(night.getTime() + windowStart * 60000);
+    const to = new Date(night.getTime() + windowEnd * 60000);
+    if (from < end && to > start) return true;
+  }
+  return false;
+};
+
+/**
+ * Preview of the outstation decision for a session, before the database makes it
+ * Returns null when there is no home depot or no GPS to measure from, in which
+ * case the driver's own answer is used.
+ */
+export const suggestOutstation = (
+  session: Pick<WorkLog, 'clock_in' | 'clock_in_lat' | 'clock_in_lng'>,
+  clockOut: Date,
+  homeSite: Site | null,
+  settings: OutstationSettings,
+  clockOutLocation?: { lat: number; lng: number }
+): OutstationSuggestion | null => {
+  if (!homeSite) return null;
+
+  const distances = [
+    session.clock_in_lat != null && session.clock_in_lng != null
+      ? distanceInMeters(homeSite.lat, homeSite.lng, session.clock_in_lat, session.clock_in_lng)
+      : null,
+    clockOutLocation
+      ? distanceInMeters(homeSite.lat, homeSite.lng, clockOutLocation.lat, clockOutLocation.lng)
+      : null,
+  ].filter((distance): distance is number => distance !== null);
+
+  if (distances.length === 0) return null;
+
+  const distanceKm = Math.round(Math.max(...distances) / 100) / 10;
+  const overnight = crossesOvernightWindow(new Date(session.clock_in), clockOut, settings);
+
+  return {
+    isOutstation: distanceKm >= settings.min_distance_km && overnight,
+    distanceKm,
+    overnight,
+    homeSite,
+  };
+};
+
+/**
+ * Fetch the fleet-wide outstation rule
+ */
+export const fetchOutstationSettings = async (): Promise<OutstationSettings> => {
+  const { data, error } = await supabase
+    .from('outstation_settings')
+    .select('min_distance_km, overnight_start, overnight_end, updated_at')
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return DEFAULT_OUTSTATION_SETTINGS;
+
+  return {
+    min_distance_km: Number(data.min_distance_km),
+    overnight_start: data.overnight_start.slice(0, 5),
+    overnight_end: data.overnight_end.slice(0, 5),
+    updated_at: data.updated_at,
+  };
+};
+
+/**
+ * Save the fleet-wide outstation rule (admins only, enforced by RLS)
+ */
+export const saveOutstationSettings = async (settings: OutstationSettings): Promise<OutstationSettings> => {
+  if (!(settings.min_distance_km > 0)) {
+    throw new Error('Outstation distance must be greater than zero.');
+  }
+  if (settings.overnight_start === settings.overnight_end) {
+    throw new Error('The overnight window must start and end at different times.');
+  }
+
+  const { data, error } = await supabase
+    .from('outstation_settings')
+    .update({
+      min_distance_km: settings.min_distance_km,
+      overnight_start: settings.overnight_start,
+      overnight_end: settings.overnight_end,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', true)
+    .select('min_distance_km, overnight_start, overnight_end, updated_at')
+    .single();
+
+  if (error) throw error;
+  return {
+    min_distance_km: Number(data.min_distance_km),
+    overnight_start: data.overnight_start.slice(0, 5),
+    overnight_end: data.overnight_end.slice(0, 5),
+    updated_at: data.updated_at,
+  };
+};
+
+/**
+ * Fetch the depot a driver is based at, if one has been assigned
+ */
+export const fetchHomeSite = async (userId: string): Promise<Site | null> => {
+  const { data: profile, error: profileError } = await supabase
+    .from('profiles')
+    .select('home_site_id')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (profileError) throw profileError;
+  if (!profile?.home_site_id) return null;
+
+  const { data, error } = await supabase
+    .from('sites')
+    .select('*')
+    .eq('id', profile.home_site_id)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Override a session's outstation status (supervisors only)
+ * @param isOutstation null clears the override and re-applies the rule
+ */
+export const setOutstationOverride = async (workLogId: string, isOutstation: boolean | null): Promise<WorkLog> => {
+  const { data, error } = await supabase.rpc('set_work_log_outstation', {
+    p_log_id: workLogId,
+    p_is_outstation: isOutstation,
+  });
+
+  if (error) throw error;
+  return data;
+};
@@ -0,0 +1,143 @@
+import { format } from 'date-fns';
+import { supabase } from '../supabaseClient';
+import { PayProfile } from '../types';
+
+/**
+ * Default pay profile
+ * Applied when a driver has no profile in effect for a given date.
+ * Matches the original package: RM 3,000 basic, RM 14.40/hour OT base rate.
+ */
+export const DEFAULT_PAY_PROFILE: PayProfile = {
+  name: 'Standard Driver Package',
+  effective_from: '1970-01-01',
+  basic_salary: 3000,
+  food_allowance: 0,
+  full_attendance_reward: 300,
+  meal_allowance: 30,
+  mileage_rate_per_km: 0.6,
+  base_hourly_rate: 14.4,
+  weekday_standard_minutes: 540, // 9 hours
+  public_holiday_first_tier_minutes: 540, // 9 hours
+  rate_weekday_ot: 1.5,
+  rate_weekend: 1.5,
+  rate_public_holiday: 2.0,
+  rate_public_holiday_ot: 3.0,
+  block_minutes: 30,
+  block_grace_minutes: 7,
+  day_boundary_minutes: 0, // Shifts are split at midnight
+  auto_break_after_minutes: 360, // 6 hours
+  auto_break_minutes: 0, // No automatic deduction; only logged breaks are unpaid
+};
+
+/**
+ * Pick the profile in effect on a given date
+ * @param profiles Profiles of a single driver (any order)
+ * @param date Date the rules should apply to
+ * @returns The profile with the latest effective_from on or before the date, or the default profile
+ */
+export const resolvePayProfile = (profiles: PayProfile[], date: Date): PayProfile => {
+  const dateStr = format(date, 'yyyy-MM-dd');
+
+  let resolved: PayProfile | null = null;
+  for (const profile of profiles) {
+    if (profile.effective_from <= dateStr && (!resolved || profile.effective_from > resolved.effective_from)) {
+      resolved = profile;
+    }
+  }
+
+  return resolved || DEFAULT_PAY_PROFILE;
+};
+
+/**
+ * Fetch all pay profiles of a driver, oldest first
+ */
+export const fetchPayProfiles = async (userId: string): Promise<PayProfile[]> => {
+  const { data, error } = await supabase
+    .from('pay_profiles')
+    .select('*')
+    .eq('user_id', userId)
+    .order('effective_from', { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map(normalizePayProfile);
+};
+
+/**
+ * Fetch the pay profiles of several drivers in one query, keyed by driver id
+ */
+export const fetchPayProfilesByUser = async (userIds: string[]): Promise<Map<string, PayProfile[]>> => {
+  const profilesByUser = new Map<string, PayProfile[]>(userIds.map((id) => [id, []]));
+  if (userIds.length === 0) return profilesByUser;
+
+  const { data, error } = await supabase
+    .from('pay_profiles')
+    .select('*')
+    .in('user_id', userIds)
+    .order('effective_from', { ascending: true });
+
+  if (error) throw error;
+  for (const row of data || []) {
+    profilesByUser.get(row.user_id)?.push(normalizePayProfile(row));
+  }
+  return profilesByUser;
+};
+
+/**
+ * Fetch the pay profile in effect for a driver on a given date
+ */
+export const fetchPayProfileForDate = async (userId: string, date: Date): Promise<PayProfile> => {
+  const { data, error } = await supabase
+    .from('pay_profiles')
+    .select('*')
+    .eq('user_id', userId)
+    .lte('effective_from', format(date, 'yyyy-MM-dd'))
+    .order('effective_from', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? normalizePayProfile(data) : DEFAULT_PAY_PROFILE;
+};
+
+/**
+ * Create or replace the profile that takes effect on profile.effective_from
+ */
+export const savePayProfile = async (userId: string, profile: PayProfile): Promise<PayProfile> => {
+  const { id, ...fields } = profile;
+
+  const { data, error } = await supabase
+    .from('pay_profiles')
+    .upsert([{ ...fields, user_id: userId }], { onConflict: 'user_id,effective_from' })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return normalizePayProfile(data);
+};
+
+/**
+ * Postgres NUMERIC columns come back as strings; coerce them to numbers
+ */
+const normalizePayProfile = (row: any): PayProfile => ({
+  id: row.id,
+  user_id: row.user_id,
+  name: row.name,
+  effective_from: row.effective_from,
+  basic_salary: Number(row.basic_salary),
+  food_allowance: Number(row.food_allowance),
+  full_attendance_reward: Number(row.full_attendance_reward),
+  meal_allowance: Number(row.meal_allowance),
+  mileage_rate_per_km: Number(row.mileage_rate_per_km ?? DEFAULT_PAY_PROFILE.mileage_rate_per_km),
+  base_hourly_rate: Number(row.base_hourly_rate),
+  weekday_standard_minutes: Number(row.weekday_standard_minutes),
+  public_holiday_first_tier_minutes: Number(row.public_holiday_first_tier_minutes),
+  rate_weekday_ot: Number(row.rate_weekday_ot),
+  rate_weekend: Number(row.rate_weekend),
+  rate_public_holiday: Number(row.rate_public_holiday),
+  rate_public_holiday_ot: Number(row.rate_public_holiday_ot),
+  block_minutes: Number(row.block_minutes),
+  block_grace_minutes: Number(row.block_grace_minutes),
+  day_boundary_minutes: Number(row.day_boundary_minutes ?? 0),
+  auto_break_after_minutes: Number(row.auto_break_after_minutes ?? DEFAULT_PAY_PROFILE.auto_break_after_minutes),
+  auto_break_minutes: Number(row.auto_break_minutes ?? DEFAULT_PAY_PROFILE.auto_break_minutes),
+});
@@ -0,0 +1,131 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { supabase } from '../supabaseClient';
+import { calculateLogBreakdowns, calculateMonthlySummary, fetchLogBreakdown } from './payrollService';
+import { setPublicHolidays } from './holidayService';
+import { calculateOvertime } from './timeService';
+import { DEFAULT_PAY_PROFILE } from './payProfileService';
+import { at, makeClaim, makeLeave, makeLog, WEEKDAY, WEEKEND } from './__fixtures__/payroll';
+import { fakeSupabase } from './__fixtures__/supabase';
+
+vi.mock('../supabaseClient', () => ({ supabase: {} }));
+
+describe('calculateLogBreakdowns', () => {
+  it('counts earlier sessions the same day towards the 9 hours', () => {
+    const morning = makeLog(at(WEEKDAY, 6), at(WEEKDAY, 12));
+    const afternoon = makeLog(at(WEEKDAY, 13), at(WEEKDAY, 18));
+
+    const breakdowns = calculateLogBreakdowns([afternoon, morning], []);
+
+    expect(breakdowns.get(morning.id)?.otMinutes1_5x).toBe(0);
+    expect(breakdowns.get(afternoon.id)?.fixedOTMinutes).toBe(180);
+    expect(breakdowns.get(afternoon.id)?.otMinutes1_5x).toBe(120);
+    expect(breakdowns.get(afternoon.id)?.totalOTAmount).toBeCloseTo(43.2);
+  });
+
+  it('counts earlier logs without paying them', () => {
+    const morning = makeLog(at(WEEKDAY, 6), at(WEEKDAY, 12));
+    const afternoon = makeLog(at(WEEKDAY, 13), at(WEEKDAY, 18));
+
+    const breakdowns = calculateLogBreakdowns([afternoon], [], [morning]);
+
+    expect(breakdowns.has(morning.id)).toBe(false);
+    expect(breakdowns.get(afternoon.id)?.otMinutes1_5x).toBe(120);
+  });
+
+  it('moves a second public holiday session to 3x once the day has 9 hours', () => {
+    const morning = makeLog(at(WEEKDAY, 6), at(WEEKDAY, 14), { is_public_holiday: true });
+    const evening = makeLog(at(WEEKDAY, 15), at(WEEKDAY, 19), { is_public_holiday: true });
+
+    const breakdowns = calculateLogBreakdowns([morning, evening], []);
+
+    expect(breakdowns.get(morning.id)?.otMinutes2x).toBe(480);
+    expect(breakdowns.get(evening.id)?.otMinutes2x).toBe(60);
+    expect(breakdowns.get(evening.id)?.otMinutes3x).toBe(180);
+  });
+
+  it('adds the meal allowance to outstation logs only', () => {
+    const outstation = makeLog(at(WEEKEND, 8), at(WEEKEND, 12), { is_outstation: true });
+    const local = makeLog(at(WEEKDAY, 8), at(WEEKDAY, 12));
+
+    const breakdowns = calculateLogBreakdowns([outstation, local], []);
+
+    expect(breakdowns.get(outstation.id)?.mealAllowance).toBe(30);
+    expect(breakdowns.get(local.id)?.mealAllowance).toBe(0);
+  });
+
+  it('skips open sessions and sessions held for review', () => {
+    const open = makeLog(at(WEEKDAY, 6), null);
+    const held = makeLog(at(WEEKDAY, 6), at(WEEKDAY, 20), { review_status: 'needs_review' });
+    const later = makeLog(at(WEEKDAY, 21), at(WEEKDAY, 23));
+
+    const breakdowns = calculateLogBreakdowns([open, held, later], []);
+
+    expect(breakdowns.has(open.id)).toBe(false);
+    expect(breakdowns.has(held.id)).toBe(false);
+    expect(breakdowns.get(later.id)?.otMinutes1_5x).toBe(0);
+  });
+});
+
+describe('calculateMonthlySummary', () => {
+  const weekdayOT = calculateOvertime(at(WEEKDAY, 8), at(WEEKDAY, 19)); // RM43.20
+  const outstationWeekend = calculateOvertime(at(WEEKEND, 9), at(WEEKEND, 13), true); // RM86.40 + RM30
+
+  it('adds up basic salary, OT, meal allowances, attendance allowance and approved claims', () => {
+    const claims = [makeClaim('log-a', 12.5, 'approved'), makeClaim('log-b', 20, 'pending')];
+
+    const summary = calculateMonthlySummary([weekdayOT, outstationWeekend], [], DEFAULT_PAY_PROFILE, claims);
+
+    expect(summary.basicSalary).toBe(3000);
+    expect(summary.totalOTPay).toBeCloseTo(129.6);
+    expect(summary.outstationMealAllowances).toBe(30);
+    expect(summary.fullAttendanceReward).toBe(300);
+    expect(summary.approvedClaims).toBe(12.5);
+    expect(summary.grandTotal).toBeCloseTo(3472.1);
+    expect(summary.netPay).toBeCloseTo(summary.grandTotal - summary.deductions.totalEmployee);
+  });
+
+  it('takes RM100 off the attendance allowance per annual, medical or late day', () => {
+    const summary = calculateMonthlySummary([], [
+      makeLeave('2025-01-07', 'annual'),
+      makeLeave('2025-01-08', 'late'),
+    ], DEFAULT_PAY_PROFILE);
+
+    expect(summary.fullAttendanceReward).toBe(100);
+    expect(summary.grandTotal).toBe(3100);
+  });
+
+  it('forfeits the whole attendance allowance for an emergency leave day', () => {
+    const summary = calculateMonthlySummary([], [makeLeave('2025-01-07', 'emergency')], DEFAULT_PAY_PROFILE);
+
+    expect(summary.fullAttendanceReward).toBe(0);
+  });
+
+  it('never takes more than the attendance allowance', () => {
+    const summary = calculateMonthlySummary([], [
+      makeLeave('2025-01-07', 'medical'),
+      makeLeave('2025-01-08', 'medical'),
+      makeLeave('2025-01-09', 'emergency'),
+    ], DEFAULT_PAY_PROFILE);
+
+    expect(summary.fullAttendanceReward).toBe(0);
+    expect(summary.grandTotal).toBe(3000);
+  });
+});
+
+describe('fetchLogBreakdown', () => {
+  afterEach(() => setPublicHolidays([]));
+
+  it("loads next year's holidays for a shift running into 1 January", async () => {
+    // Wed 31 Dec 2025 20:00 to Thu 1 Jan 2026 06:00, New Year's Day being a holiday
+    Object.assign(supabase, fakeSupabase({
+      public_holidays: [{ holiday_date: '2026-01-01', name: "New Year's Day", state: 'ALL' }],
+    }));
+    const log = makeLog(new Date(2025, 11, 31, 20), new Date(2026, 0, 1, 6));
+
+    const { breakdown } = await fetchLogBreakdown(log);
+
+    expect(breakdown?.segments.map((segment) => segment.dayType)).toEqual(['weekday', 'public_holiday']);
+    expect(breakdown?.otMinutes2x).toBe(360);
+    expect(breakdown?.totalOTAmount).toBeCloseTo(172.8);
+  });
+});
@@ -0,0 +1,431 @@
+import { addDays, addMonths, endOfMonth, format, startOfMonth } from 'date-fns';
+import { supabase } from '../supabaseClient';
+import {
+  WorkLog,
+  Claim,
+  LeaveRecord,
+  PayProfile,
+  OTCalculationBreakdown,
+  MonthlyLogRecord,
+  MonthlySummary,
+  PayrollInput,
+  PayrollResult,
+  StatutorySettings,
+} from '../types';
+import {
+  calculateOvertime,
+  getDayType,
+  sumMinutesByPayDay,
+  fetchMonthlyLogs,
+  fetchCompletedLogsInRange,
+} from './timeService';
+import { fetchPayProfiles, fetchPayProfilesByUser, resolvePayProfile } from './payProfileService';
+import { getStateFromPostcode, loadPublicHolidaysBetween } from './holidayService';
+import { fetchMonthlyLeaves, fetchLeavesInRange } from './leaveService';
+import { isHeldForReview } from './sessionLimitService';
+import { fetchClaimsForLogs, fetchClaimsInRange } from './claimService';
+import {
+  calculateStatutoryDeductions,
+  fetchStatutorySettings,
+  DEFAULT_STATUTORY_SETTINGS,
+} from './statutoryService';
+import {
+  fetchTimesheet,
+  fetchApprovedTimesheets,
+  fetchApprovedTimesheetsInRange,
+  isClosed,
+} from './timesheetService';
+
+/**
+ * Payroll engine
+ * Every screen works out OT and monthly pay through here, so the dashboard card,
+ * monthly view, log detail, payslip and exports always agree. The calculate*
+ * functions are pure: they only read the public holiday calendar, which the
+ * fetch* helpers load (with the logs, leaves and pay profiles) beforehand.
+ */
+
+// Earlier sessions within this window can still run into the first day being paid
+export const EARLIER_LOGS_WINDOW_DAYS = 2;
+
+const byClockIn = (a: WorkLog, b: WorkLog): number =>
+  new Date(a.clock_in).getTime() - new Date(b.clock_in).getTime();
+
+/**
+ * OT breakdown for each completed log, keyed by log id
+ * Logs are rated in clock-in order so minutes from earlier sessions on the same pay
+ * day count towards the weekday standard hours and the public holiday first tier.
+ * Sessions held for review are left out: they earn nothing until corrected.
+ * @param earlierLogs Logs before the period that only count towards same-day minutes
+ */
+export const calculateLogBreakdowns = (
+  logs: WorkLog[],
+  profiles: PayProfile[],
+  earlierLogs: WorkLog[] = []
+): Map<string, OTCalculationBreakdown> => {
+  const breakdowns = new Map<string, OTCalculationBreakdown>();
+  const paidIds = new Set(logs.map((log) => log.id));
+
+  const counted = Array.from(new Map([...earlierLogs, ...logs].map((log) => [log.id, log])).values())
+    .filter((log) => log.clock_out && !isHeldForReview(log))
+    .sort(byClockIn);
+
+  counted.forEach((log, index) => {
+    if (!paidIds.has(log.id)) return;
+
+    const clockIn = new Date(log.clock_in);
+    const profile = resolvePayProfile(profiles, clockIn);
+
+    breakdowns.set(log.id, calculateOvertime(
+      clockIn,
+      new Date(log.clock_out as string),
+      Boolean(log.is_outstation),
+      Boolean(log.is_public_holiday),
+      sumMinutesByPayDay(counted.slice(0, index), profile),
+      profile,
+      getStateFromPostcode(log.clock_in_postcode),
+      log.breaks
+    ));
+  });
+
+  return breakdowns;
+};
+
+/**
+ * Full attendance reward left after leave deductions
+ * - Annual/Medical/Late: RM100 per day
+ * - Emergency leave: RM300 per day (full deduction)
+ */
+export const calculateAttendanceReward = (leaves: LeaveRecord[], profile: PayProfile): number => {
+  const annualMedicalLateDays = leaves.filter((leave) => {
+    const leaveType = leave.leave_type?.toLowerCase();
+    return (
+      leaveType === 'medical' ||
+      leaveType === 'medical_leave' ||
+      leaveType === 'annual' ||
+      leaveType === 'annual_leave' ||
+      leaveType === 'late'
+    );
+  }).length;
+
+  const emergencyDays = leaves.filter((leave) => {
+    const leaveType = leave.leave_type?.toLowerCase();
+    return leaveType === 'emergency' || leaveType === 'emergency_leave';
+  }).length;
+
+  const attendanceDeduction = Math.min(
+    profile.full_attendance_reward,
+    annualMedicalLateDays * 100 + emergencyDays * 300
+  );
+  return Math.max(0, profile.full_attendance_reward - attendanceDeduction);
+};
+
+/**
+ * One display/export row per log, with its breakdown and the profile it was rated under
+ */
+export const buildLogRecords = (
+  logs: WorkLog[],
+  breakdowns: Map<string, OTCalculationBreakdown>,
+  profiles: PayProfile[]
+): MonthlyLogRecord[] =>
+  logs.map((log) => {
+    const clockIn = new Date(log.clock_in);
+    const breakdown = breakdowns.get(log.id);
+    const state = getStateFromPostcode(log.clock_in_postcode);
+
+    return {
+      date: format(clockIn, 'yyyy-MM-dd'),
+      // Old data created before day_type was added is classified from the clock-in date
+      dayType: log.day_type || getDayType(clockIn, log.is_public_holiday || false, state),
+      checkInLocation: log.check_in_location || log.clock_in_postcode || 'N/A',
+      checkOutLocation: log.check_out_location || log.clock_out_postcode || 'N/A',
+      totalHours: log.duration_minutes / 60,
+      otAmount: breakdown?.totalOTAmount || 0,
+      allowanceAmount: breakdown?.mealAllowance || 0,
+      isPublicHoliday: log.is_public_holiday || false,
+      isOutstation: log.is_outstation || false,
+      workLog: log,
+      breakdown,
+      payProfile: resolvePayProfile(profiles, clockIn),
+    };
+  });
+
+/**
+ * Monthly pay totals from the per-log breakdowns
+ * Only approved claims are added; pending and rejected ones are ignored.
+ * Statutory deductions and net pay are estimated from the gross.
+ */
+export const calculateMonthlySummary = (
+  breakdowns: Iterable<OTCalculationBreakdown>,
+  leaves: LeaveRecord[],
+  monthProfile: PayProfile,
+  claims: Claim[] = [],
+  statutorySettings: StatutorySettings = DEFAULT_STATUTORY_SETTINGS
+): MonthlySummary => {
+  let totalOTPay = 0;
+  let outstationMealAllowances = 0;
+
+  for (const breakdown of breakdowns) {
+    totalOTPay += breakdown.totalOTAmount;
+    outstationMealAllowances += breakdown.mealAllowance;
+  }
+
+  const fullAttendanceReward = calculateAttendanceReward(leaves, monthProfile);
+  const approvedClaims = claims
+    .filter((claim) => claim.status === 'approved')
+    .reduce((sum, claim) => sum + claim.amount, 0);
+
+  const gross = {
+    basicSalary: monthProfile.basic_salary,
+    totalOTPay,
+    foodAllowance: monthProfile.food_allowance,
+    fullAttendanceReward,
+    outstationMealAllowances,
+    approvedClaims,
+    grandTotal: monthProfile.basic_salary +
+                totalOTPay +
+                monthProfile.food_allowance +
+                fullAttendanceReward +
+                outstationMealAllowances +
+                approvedClaims,
+  };
+  const deductions = calculateStatutoryDeductions(gross, statutorySettings);
+
+  return {
+    ...gross,
+    deductions,
+    netPay: gross.grandTotal - deductions.totalEmployee,
+  };
+};
+
+/**
+ * Pay a driver for a period: per-log records plus the monthly summary
+ */
+export const calculatePayroll = ({
+  logs,
+  leaves,
+  profiles,
+  monthProfile,
+  earlierLogs = [],
+  claims = [],
+  statutorySettings,
+}: PayrollInput): PayrollResult => {
+  const sortedLogs = [...logs].sort(byClockIn);
+  const breakdowns = calculateLogBreakdowns(sortedLogs, profiles, earlierLogs);
+  // Claims are paid with the period their work log falls in
+  const logIds = new Set(sortedLogs.map((log) => log.id));
+  const periodClaims = claims.filter((claim) => logIds.has(claim.work_log_id));
+
+  return {
+    records: buildLogRecords(sortedLogs, breakdowns, profiles),
+    summary: calculateMonthlySummary(breakdowns.values(), leaves, monthProfile, periodClaims, statutorySettings),
+    monthProfile,
+  };
+};
+
+/**
+ * Load a driver's month and run it through the payroll engine
+ * The monthly package (salary, allowances) follows the profile in effect at month end.
+ * Months closed by an approved timesheet return the payroll frozen at approval.
+ */
+export const fetchMonthlyPayroll = async (userId: string, year: number, month: number): Promise<PayrollResult> => {
+  const timesheet = await fetchTimesheet(userId, year, month);
+  if (isClosed(timesheet) && timesheet!.snapshot) return timesheet!.snapshot;
+
+  const monthStart = new Date(year, month - 1, 1); // month is 1-based
+
+  const [logs, leaves, profiles, earlierLogs, statutorySettings] = await Promise.all([
+    fetchMonthlyLogs(userId, year, month),
+    fetchMonthlyLeaves(userId, year, month),
+    fetchPayProfiles(userId),
+    fetchCompletedLogsInRange(addDays(monthStart, -EARLIER_LOGS_WINDOW_DAYS), monthStart, userId),
+    fetchStatutorySettings(),
+    loadPublicHolidaysBetween(addDays(monthStart, -EARLIER_LOGS_WINDOW_DAYS), addMonths(monthStart, 1)),
+  ]);
+  const claims = await fetchClaimsForLogs(logs.map((log) => log.id));
+
+  return calculatePayroll({
+    logs,
+    leaves,
+    profiles,
+    monthProfile: resolvePayProfile(profiles, endOfMonth(monthStart)),
+    earlierLogs,
+    claims,
+    statutorySettings,
+  });
+};
+
+/**
+ * Pay several consecutive months of one year with one ranged query per table
+ * Used where many months are shown at once (e.g. analytics) instead of calling
+ * fetchMonthlyPayroll for each month. Logs and claims are fetched in pages, so a
+ * busy year is never cut off at the server's row limit. Each month is paid
+ * exactly as it would be on its own, and closed months return their snapshot.
+ * @param fromMonth First month, 1-based
+ * @param toMonth Last month, 1-based (inclusive)
+ * @returns One result per month, oldest first
+ */
+export const fetchPayrollForMonths = async (
+  userId: string,
+  year: number,
+  fromMonth: number,
+  toMonth: number
+): Promise<PayrollResult[]> => {
+  const rangeStart = new Date(year, fromMonth - 1, 1);
+  const rangeEnd = new Date(year, toMonth, 1); // Exclusive
+
+  const [logs, leaves, profiles, earlierLogs, claims, statutorySettings, timesheets] = await Promise.all([
+    fetchCompletedLogsInRange(rangeStart, rangeEnd, userId),
+    fetchLeavesInRange(userId, format(rangeStart, 'yyyy-MM-dd'), format(addDays(rangeEnd, -1), 'yyyy-MM-dd')),
+    fetchPayProfiles(userId),
+    fetchCompletedLogsInRange(addDays(rangeStart, -EARLIER_LOGS_WINDOW_DAYS), rangeStart, userId),
+    fetchClaimsInRange(userId, rangeStart, rangeEnd),
+    fetchStatutorySettings(),
+    fetchApprovedTimesheets(userId, year, fromMonth, toMonth),
+    loadPublicHolidaysBetween(addDays(rangeStart, -EARLIER_LOGS_WINDOW_DAYS), rangeEnd),
+  ]);
+  const snapshots = new Map(timesheets.map((timesheet) => [timesheet.period_start, timesheet.snapshot]));
+
+  const results: PayrollResult[] = [];
+  for (let monthStart = rangeStart; monthStart < rangeEnd; monthStart = addMonths(monthStart, 1)) {
+    const snapshot = snapshots.get(format(monthStart, 'yyyy-MM-dd'));
+    if (snapshot) {
+      results.push(snapshot);
+      continue;
+    }
+
+    const monthEnd = addMonths(monthStart, 1);
+    const inMonth = (log: WorkLog) => {
+      const clockIn = new Date(log.clock_in);
+      return clockIn >= monthStart && clockIn < monthEnd;
+    };
+    const monthPrefix = format(monthStart, 'yyyy-MM');
+
+    results.push(calculatePayroll({
+      logs: logs.filter(inMonth),
+      leaves: leaves.filter((leave) => leave.leave_date.startsWith(monthPrefix)),
+      profiles,
+      monthProfile: resolvePayProfile(profiles, endOfMonth(monthStart)),
+      // Logs from the days before the month only count towards same-day minutes
+      earlierLogs: [...earlierLogs, ...logs].filter((log) => {
+        const clockIn = new Date(log.clock_in);
+        return clockIn < monthStart && clockIn >= addDays(monthStart, -EARLIER_LOGS_WINDOW_DAYS);
+      }),
+      claims,
+      statutorySettings,
+    }));
+  }
+
+  return results;
+};
+
+/**
+ * Fetch Monthly Summary
+ * @returns OT earned so far this month
+ */
+export const fetchMonthlySummary = async (userId: string): Promise<number> => {
+  const now = new Date();
+  const { summary } = await fetchMonthlyPayroll(userId, now.getFullYear(), now.getMonth() + 1);
+  return summary.totalOTPay;
+};
+
+/**
+ * OT earned so far this month by several drivers, keyed by driver id
+ * Gives the same totals as fetchMonthlySummary with one ranged query per table instead
+ * of one round of queries per driver. Closed months return their snapshot total.
+ */
+export const fetchMonthToDateOTByUser = async (userIds: string[]): Promise<Map<string, number>> => {
+  const monthStart = startOfMonth(new Date());
+
+  const [logs, profilesByUser, timesheets] = await Promise.all([
+    fetchCompletedLogsInRange(addDays(monthStart, -EARLIER_LOGS_WINDOW_DAYS), addMonths(monthStart, 1)),
+    fetchPayProfilesByUser(userIds),
+    fetchApprovedTimesheetsInRange(monthStart, monthStart),
+    loadPublicHolidaysBetween(addDays(monthStart, -EARLIER_LOGS_WINDOW_DAYS), addMonths(monthStart, 1)),
+  ]);
+  const snapshots = new Map(timesheets.map((timesheet) => [timesheet.user_id, timesheet.snapshot]));
+
+  const logsByUser = new Map<string, WorkLog[]>();
+  for (const log of logs) {
+    logsByUser.set(log.user_id, [...(logsByUser.get(log.user_id) || []), log]);
+  }
+
+  const totals = new Map<string, number>();
+  for (const userId of userIds) {
+    const snapshot = snapshots.get(userId);
+    if (snapshot) {
+      totals.set(userId, snapshot.summary.totalOTPay);
+      continue;
+    }
+
+    const driverLogs = logsByUser.get(userId) || [];
+    const breakdowns = calculateLogBreakdowns(
+      driverLogs.filter((log) => new Date(log.clock_in) >= monthStart),
+      profilesByUser.get(userId) || [],
+      // Logs from the days before the month only count towards same-day minutes
+      driverLogs.filter((log) => new Date(log.clock_in) < monthStart)
+    );
+    let totalOTPay = 0;
+    for (const breakdown of breakdowns.values()) {
+      totalOTPay += breakdown.totalOTAmount;
+    }
+    totals.set(userId, totalOTPay);
+  }
+
+  return totals;
+};
+
+/**
+ * Fetch Recent Activity
+ * Displayed OT is recalculated so recent activity reflects current rules.
+ */
+export const fetchRecentLogs = async (userId: string): Promise<WorkLog[]> => {
+  const { data, error } = await supabase
+    .from('work_logs')
+    .select('*')
+    .eq('user_id', userId)
+    .not('clock_out', 'is', null)
+    .order('clock_in', { ascending: false })
+    .limit(5);
+
+  if (error) throw error;
+  if (!data || data.length === 0) return [];
+
+  const oldest = new Date(data[data.length - 1].clock_in);
+  const newest = new Date(data[0].clock_in);
+
+  const [profiles, earlierLogs] = await Promise.all([
+    fetchPayProfiles(userId),
+    fetchCompletedLogsInRange(addDays(oldest, -EARLIER_LOGS_WINDOW_DAYS), newest, userId),
+    loadPublicHolidaysBetween(addDays(oldest, -EARLIER_LOGS_WINDOW_DAYS), addDays(newest, 1)),
+  ]);
+
+  const breakdowns = calculateLogBreakdowns(data, profiles, earlierLogs);
+
+  return data.map((log) => ({
+    ...log,
+    overtime_amount: breakdowns.get(log.id)?.totalOTAmount || 0,
+  }));
+};
+
+/**
+ * Recalculate a single log's breakdown, including earlier sessions on the same day
+ * @returns Breakdown (null while the session is open or held for review) and the profile used
+ */
+export const fetchLogBreakdown = async (
+  workLog: WorkLog
+): Promise<{ breakdown: OTCalculationBreakdown | null; payProfile: PayProfile }> => {
+  const clockIn = new Date(workLog.clock_in);
+
+  const [profiles, earlierLogs] = await Promise.all([
+    fetchPayProfiles(workLog.user_id),
+    fetchCompletedLogsInRange(addDays(clockIn, -EARLIER_LOGS_WINDOW_DAYS), clockIn, workLog.user_id),
+    loadPublicHolidaysBetween(addDays(clockIn, -EARLIER_LOGS_WINDOW_DAYS), addDays(clockIn, 1)),
+  ]);
+
+  const breakdowns = calculateLogBreakdowns([workLog], profiles, earlierLogs);
+
+  return {
+    breakdown: breakdowns.get(workLog.id) || null,
+    payProfile: resolvePayProfile(profiles, clockIn),
+  };
+};
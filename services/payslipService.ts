@@ -0,0 +1,214 @@
+import { format } from 'date-fns';
+import { jsPDF } from 'jspdf';
+import { MonthlySummary, MonthlyLogRecord, Payslip, PayslipOTLine, DayType } from '../types';
+import { DEFAULT_PAY_PROFILE } from './payProfileService';
+
+/**
+ * Format an amount as Malaysian Ringgit
+ */
+export const formatRM = (amount: number): string => `RM ${amount.toFixed(2)}`;
+
+/**
+ * Format minutes as decimal hours (e.g. 90 -> "1.5")
+ */
+export const formatPayslipHours = (minutes: number): string => {
+  const hours = minutes / 60;
+  return hours % 1 === 0 ? hours.toString() : hours.toFixed(2);
+};
+
+const DAY_TYPE_LABELS: Record<DayType, string> = {
+  weekday: 'Weekday',
+  weekend: 'Weekend',
+  public_holiday: 'Public Holiday',
+};
+
+/**
+ * Build the payslip for a month from the Monthly Dashboard data
+ * OT lines are grouped by rate tier and hourly rate, so months that span a pay
+ * profile change list each rate separately.
+ */
+export const buildPayslip = (
+  summary: MonthlySummary,
+  records: MonthlyLogRecord[],
+  employeeName: string,
+  year: number,
+  month: number
+): Payslip => {
+  const lines = new Map<string, PayslipOTLine>();
+
+  const addLine = (label: string, multiplier: number, baseRate: number, minutes: number, roundedMinutes: number, amount: number) => {
+    if (minutes <= 0) return;
+    const hourlyRate = baseRate * multiplier;
+    const key = `${label}@${hourlyRate.toFixed(4)}`;
+    const line = lines.get(key) || { label, multiplier, hourlyRate, minutes: 0, roundedMinutes: 0, amount: 0 };
+    line.minutes += minutes;
+    line.roundedMinutes += roundedMinutes;
+    line.amount += amount;
+    lines.set(key, line);
+  };
+
+  records.forEach((record) => {
+    const breakdown = record.breakdown;
+    if (!breakdown) return;
+
+    const profile = record.payProfile || DEFAULT_PAY_PROFILE;
+
+    // Each day of a shift is listed under its own day type
+    breakdown.segments.forEach((segment) => {
+      if (segment.dayType === 'weekend') {
+        addLine('Weekend OT', profile.rate_weekend, profile.base_hourly_rate,
+          segment.otMinutes1_5x, segment.paidMinutes1_5x, segment.otAmount1_5x);
+      } else {
+        addLine('Weekday OT', profile.rate_weekday_ot, profile.base_hourly_rate,
+          segment.otMinutes1_5x, segment.paidMinutes1_5x, segment.otAmount1_5x);
+      }
+      addLine('Public Holiday OT', profile.rate_public_holiday, profile.base_hourly_rate,
+        segment.otMinutes2x, segment.paidMinutes2x, segment.otAmount2x);
+      addLine('Public Holiday Extended OT', profile.rate_public_holiday_ot, profile.base_hourly_rate,
+        segment.otMinutes3x, segment.paidMinutes3x, segment.otAmount3x);
+    });
+  });
+
+  return {
+    employeeName,
+    periodLabel: format(new Date(year, month - 1, 1), 'MMMM yyyy'),
+    year,
+    month,
+    generatedAt: new Date().toISOString(),
+    daysWorked: new Set(records.map((record) => record.date)).size,
+    totalMinutesWorked: records.reduce((sum, record) => sum + (record.workLog.duration_minutes || 0), 0),
+    outstationTrips: records.filter((record) => record.isOutstation).length,
+    summary,
+    otLines: Array.from(lines.values()),
+    records,
+  };
+};
+
+/**
+ * Earnings lines shown on the payslip, in display order
+ */
+export const getPayslipEarnings = (payslip: Payslip): { label: string; amount: number }[] => [
+  { label: 'Basic Salary', amount: payslip.summary.basicSalary },
+  { label: 'Overtime Pay', amount: payslip.summary.totalOTPay },
+  { label: `Outstation Meal Allowance (${payslip.outstationTrips} trip${payslip.outstationTrips !== 1 ? 's' : ''})`, amount: payslip.summary.outstationMealAllowances },
+  { label: 'Attendance Allowance', amount: payslip.summary.fullAttendanceReward },
+  { label: 'Food Allowance', amount: payslip.summary.foodAllowance },
+  { label: 'Claims (Mileage, Toll, Parking, Fuel)', amount: payslip.summary.approvedClaims },
+];
+
+/**
+ * Render the payslip as an A4 PDF and trigger a download
+ * Generated entirely in the browser with jsPDF.
+ */
+export const downloadPayslipPdf = (payslip: Payslip): void => {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 15;
+  const right = pageWidth - margin;
+  let y = margin;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - margin) {
+      doc.addPage();
+      y = margin;
+    }
+  };
+
+  const sectionTitle = (title: string) => {
+    ensureSpace(14);
+    y += 4;
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(11);
+    doc.text(title, margin, y);
+    y += 2;
+    doc.setDrawColor(200);
+    doc.line(margin, y, right, y);
+    y += 5;
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+  };
+
+  // Columns: [text, x, align]
+  const row = (cells: [string, number, 'left' | 'right'][], bold: boolean = false) => {
+    ensureSpace(6);
+    doc.setFont('helvetica', bold ? 'bold' : 'normal');
+    cells.forEach(([text, x, align]) => doc.text(text, x, y, { align }));
+    y += 5;
+  };
+
+  // Header
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(18);
+  doc.text('PAYSLIP', margin, y + 4);
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'normal');
+  doc.text(payslip.periodLabel, right, y + 4, { align: 'right' });
+  y += 12;
+
+  doc.setFontSize(9);
+  row([['Employee', margin, 'left'], [payslip.employeeName, margin + 35, 'left']]);
+  row([['Pay Period', margin, 'left'], [payslip.periodLabel, margin + 35, 'left']]);
+  row([['Days Worked', margin, 'left'], [String(payslip.daysWorked), margin + 35, 'left']]);
+  row([['Hours Worked', margin, 'left'], [formatPayslipHours(payslip.totalMinutesWorked), margin + 35, 'left']]);
+
+  // Earnings
+  sectionTitle('Earnings');
+  getPayslipEarnings(payslip).forEach(({ label, amount }) => {
+    row([[label, margin, 'left'], [formatRM(amount), right, 'right']]);
+  });
+  doc.line(margin, y - 2, right, y - 2);
+  y += 2;
+  row([['Grand Total', margin, 'left'], [formatRM(payslip.summary.grandTotal), right, 'right']], true);
+
+  // OT breakdown
+  sectionTitle('Overtime Breakdown');
+  if (payslip.otLines.length === 0) {
+    row([['No overtime this month', margin, 'left']]);
+  } else {
+    row([
+      ['Rate', margin, 'left'],
+      ['Hours', margin + 95, 'right'],
+      ['Paid Hours', margin + 120, 'right'],
+      ['Rate / Hour', margin + 150, 'right'],
+      ['Amount', right, 'right'],
+    ], true);
+    payslip.otLines.forEach((line) => {
+      row([
+        [`${line.label} (${line.multiplier.toFixed(1)}x)`, margin, 'left'],
+        [formatPayslipHours(line.minutes), margin + 95, 'right'],
+        [formatPayslipHours(line.roundedMinutes), margin + 120, 'right'],
+        [formatRM(line.hourlyRate), margin + 150, 'right'],
+        [formatRM(line.amount), right, 'right'],
+      ]);
+    });
+  }
+
+  // Daily records
+  sectionTitle('Daily Records');
+  row([
+    ['Date', margin, 'left'],
+    ['Type', margin + 30, 'left'],
+    ['Hours', margin + 95, 'right'],
+    ['OT Amount', margin + 135, 'right'],
+    ['Allowance', right, 'right'],
+  ], true);
+  payslip.records.forEach((record) => {
+    row([
+      [format(new Date(record.date), 'dd MMM yyyy'), margin, 'left'],
+      [DAY_TYPE_LABELS[record.dayType] + (record.isOutstation ? ' / Outstation' : ''), margin + 30, 'left'],
+      [formatPayslipHours(record.workLog.duration_minutes), margin + 95, 'right'],
+      [formatRM(record.otAmount), margin + 135, 'right'],
+      [formatRM(record.allowanceAmount), right, 'right'],
+    ]);
+  });
+
+  // Footer
+  ensureSpace(12);
+  y += 6;
+  doc.setFontSize(8);
+  doc.setTextColor(120);
+  doc.text(`Generated on ${format(new Date(payslip.generatedAt), 'd MMM yyyy, h:mm a')} by Driver OT Tracker`, margin, y);
+
+  doc.save(`payslip-${payslip.year}-${String(payslip.month).padStart(2, '0')}.pdf`);
+};
@@ -0,0 +1,143 @@
+import { supabase } from '../supabaseClient';
+import { UserProfile, UserRole, FleetDriverStatus, Language, WorkLog } from '../types';
+import { fetchOpenSessions } from './timeService';
+import { fetchMonthToDateOTByUser } from './payrollService';
+
+/**
+ * Display labels for each role
+ */
+export const ROLE_LABELS: Record<UserRole, string> = {
+  driver: 'Driver',
+  supervisor: 'Supervisor',
+  admin: 'Admin',
+};
+
+/**
+ * Supervisors and admins can see every driver's records
+ */
+export const canViewFleet = (role: UserRole): boolean => role === 'supervisor' || role === 'admin';
+
+/**
+ * Name shown for a user: full name, falling back to email
+ */
+export const getDisplayName = (profile: UserProfile): string =>
+  profile.full_name || profile.email || 'Unnamed driver';
+
+/**
+ * Fetch the profile of the logged-in user
+ * Users without a profile row (e.g. before database_roles.sql was run) are treated as drivers.
+ */
+export const fetchCurrentProfile = async (session: any): Promise<UserProfile> => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('*')
+    .eq('id', session.user.id)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data || {
+    id: session.user.id,
+    email: session.user.email || null,
+    full_name: session.user.user_metadata?.full_name || null,
+    role: 'driver',
+  };
+};
+
+/**
+ * Fetch every user profile, ordered by name
+ * RLS only returns all rows for supervisors and admins.
+ */
+export const fetchProfiles = async (): Promise<UserProfile[]> => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('*')
+    .order('full_name', { ascending: true, nullsFirst: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Update a user's display name
+ */
+export const updateProfileName = async (userId: string, fullName: string): Promise<UserProfile> => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .update({ full_name: fullName.trim() || null })
+    .eq('id', userId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Change a user's role (admins only, enforced by RLS)
+ */
+export const updateUserRole = async (userId: string, role: UserRole): Promise<UserProfile> => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .update({ role })
+    .eq('id', userId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Save the UI language the user picked
+ */
+export const updateProfileLanguage = async (userId: string, language: Language): Promise<UserProfile> => {
+  const { data, error } = await supabase
+    .from('profiles')
+    .update({ language })
+    .eq('id', userId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Assign the depot a driver is based at (supervisors only)
+ * Goes through an RPC because supervisors cannot otherwise edit profiles.
+ */
+export const updateHomeSite = async (userId: string, siteId: string | null): Promise<UserProfile> => {
+  const { data, error } = await supabase.rpc('set_home_site', {
+    p_user_id: userId,
+    p_site_id: siteId,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Fetch live clock status and month-to-date OT for every driver
+ */
+export const fetchFleetOverview = async (): Promise<FleetDriverStatus[]> => {
+  const profiles = await fetchProfiles();
+  const drivers = profiles.filter((profile) => profile.role === 'driver');
+
+  const [openSessions, monthToDateOT] = await Promise.all([
+    fetchOpenSessions(),
+    fetchMonthToDateOTByUser(drivers.map((profile) => profile.id)),
+  ]);
+
+  // Latest open session per driver, guarding against duplicates from before the unique index
+  const activeSessions = new Map<string, WorkLog>();
+  for (const session of openSessions) {
+    if (!activeSessions.has(session.user_id)) activeSessions.set(session.user_id, session);
+  }
+
+  return drivers.map((profile) => ({
+    profile,
+    activeSession: activeSessions.get(profile.id) || null,
+    monthToDateOT: monthToDateOT.get(profile.id) || 0,
+  }));
+};
@@ -0,0 +1,72 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { supabase } from '../supabaseClient';
+import { enqueuePunch, getQueuedPunches, syncPunchQueue } from './punchQueueService';
+import { at, WEEKDAY } from './__fixtures__/payroll';
+import { fakeSupabase } from './__fixtures__/supabase';
+
+vi.mock('../supabaseClient', () => ({ supabase: {} }));
+
+const memoryStorage = (): Storage => {
+  const items = new Map<string, string>();
+  return {
+    get length() { return items.size; },
+    clear: () => items.clear(),
+    getItem: (key) => items.get(key) ?? null,
+    key: (index) => Array.from(items.keys())[index] ?? null,
+    removeItem: (key) => { items.delete(key); },
+    setItem: (key, value) => { items.set(key, value); },
+  };
+};
+
+const queueClockOut = (workLogId: string, hours: number) =>
+  enqueuePunch({
+    user_id: 'driver-1',
+    type: 'clock_out',
+    timestamp: at(WEEKDAY, hours).toISOString(),
+    location: null,
+    work_log_id: workLogId,
+  });
+
+describe('syncPunchQueue', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', memoryStorage());
+  });
+
+  it('keeps a punch the server rejects as a conflict and syncs the ones after it', async () => {
+    const clockOut = vi.fn((params: { p_log_id: string }) =>
+      params.p_log_id === 'log-1'
+        ? { error: { code: 'P0001', message: 'Clock-out time cannot be in the future' } }
+        : { data: { id: params.p_log_id } }
+    );
+    Object.assign(supabase, fakeSupabase({
+      work_logs: [
+        { id: 'log-1', clock_in: at(WEEKDAY, 6).toISOString(), clock_out: null },
+        { id: 'log-2', clock_in: at(WEEKDAY, 13).toISOString(), clock_out: null },
+      ],
+    }, { clock_out_work_log: clockOut }));
+
+    const rejected = queueClockOut('log-1', 12);
+    queueClockOut('log-2', 18);
+
+    await expect(syncPunchQueue('driver-1')).resolves.toBe(1);
+    expect(clockOut).toHaveBeenCalledTimes(2);
+    expect(getQueuedPunches('driver-1')).toEqual([
+      { ...rejected, status: 'conflict', conflict_message: 'Clock-out time cannot be in the future' },
+    ]);
+
+    // The conflict is left for the driver and not retried
+    await expect(syncPunchQueue('driver-1')).resolves.toBe(0);
+    expect(clockOut).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops at a network failure and keeps the punch pending', async () => {
+    Object.assign(supabase, fakeSupabase({
+      work_logs: [{ id: 'log-1', clock_in: at(WEEKDAY, 6).toISOString(), clock_out: null }],
+    }, { clock_out_work_log: () => ({ error: { code: '', message: 'TypeError: Failed to fetch' } }) }));
+
+    queueClockOut('log-1', 12);
+
+    await expect(syncPunchQueue('driver-1')).resolves.toBe(0);
+    expect(getQueuedPunches('driver-1').map((punch) => punch.status)).toEqual(['pending']);
+  });
+});
@@ -0,0 +1,277 @@
+import { supabase } from '../supabaseClient';
+import { QueuedPunch, WorkLog } from '../types';
+import {
+  performClockIn,
+  performClockOut,
+  fetchActiveSession,
+} from './timeService';
+import { reverseGeocode } from './geocodingService';
+
+/**
+ * Offline punch queue
+ * Clock-ins and clock-outs made without a connection are kept in localStorage with
+ * the device time and GPS fix, then replayed against work_logs in order once the
+ * device is back online. Punches that clash with the server (e.g. the session was
+ * already closed on another device) or that it rejects stay in the queue as
+ * conflicts for the driver, so they never hold up the punches behind them.
+ * The last open session seen on the server is kept next to the queue, so punches
+ * made while offline are applied on top of it even after the app is reloaded.
+ */
+
+const STORAGE_KEY = 'driver-ot-tracker:punch-queue';
+
+const SESSION_STORAGE_KEY = 'driver-ot-tracker:active-session';
+
+const LOCAL_SESSION_PREFIX = 'local-';
+
+const readQueue = (): QueuedPunch[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch (error) {
+    console.error('Error reading punch queue:', error);
+    return [];
+  }
+};
+
+const writeQueue = (queue: QueuedPunch[]): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(queue));
+};
+
+interface StoredSession {
+  user_id: string;
+  session: WorkLog | null;
+}
+
+/**
+ * Remember the open session last loaded from the server (null when not working)
+ */
+export const storeServerSession = (userId: string, session: WorkLog | null): void => {
+  const stored: StoredSession = { user_id: userId, session };
+  localStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(stored));
+};
+
+/**
+ * The open session last loaded from the server for a user, for use while offline
+ */
+export const getStoredServerSession = (userId: string): WorkLog | null => {
+  try {
+    const raw = localStorage.getItem(SESSION_STORAGE_KEY);
+    const stored: StoredSession | null = raw ? JSON.parse(raw) : null;
+    return stored?.user_id === userId ? stored.session : null;
+  } catch (error) {
+    console.error('Error reading stored session:', error);
+    return null;
+  }
+};
+
+/**
+ * Whether an error means the request never reached the server
+ */
+export const isNetworkError = (err: any): boolean => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  const message = String(err?.message || err || '');
+  return /Failed to fetch|NetworkError|Load failed|Network request failed/i.test(message);
+};
+
+/**
+ * Whether an error is the server turning the request down (a PostgREST, RPC or
+ * database error carries a code); retrying the same punch would fail again
+ */
+export const isServerRejection = (err: any): boolean =>
+  !isNetworkError(err) && typeof err?.code === 'string' && err.code !== '';
+
+/**
+ * Whether a work log id refers to a clock-in that only exists in the queue
+ */
+export const isLocalSessionId = (workLogId: string): boolean => workLogId.startsWith(LOCAL_SESSION_PREFIX);
+
+/**
+ * Punches for a user that have not reached the server yet, oldest first
+ */
+export const getQueuedPunches = (userId: string): QueuedPunch[] =>
+  readQueue()
+    .filter((punch) => punch.user_id === userId)
+    .sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime());
+
+/**
+ * Record a punch locally
+ */
+export const enqueuePunch = (punch: Omit<QueuedPunch, 'id' | 'status'>): QueuedPunch => {
+  const queued: QueuedPunch = {
+    ...punch,
+    id: `${LOCAL_SESSION_PREFIX}${crypto.randomUUID()}`,
+    status: 'pending',
+  };
+  writeQueue([...readQueue(), queued]);
+  return queued;
+};
+
+/**
+ * Remove a punch from the queue (used to dismiss conflicts)
+ */
+export const dismissPunch = (punchId: string): void => {
+  writeQueue(readQueue().filter((punch) => punch.id !== punchId));
+};
+
+/**
+ * Apply queued punches on top of the server's open session
+ * Returns the session the driver is currently in: the server log, a stand-in for a
+ * clock-in that has not synced yet, or null when the last punch was a clock-out.
+ */
+export const resolveActiveSession = (serverSession: WorkLog | null, punches: QueuedPunch[]): WorkLog | null => {
+  let session = serverSession;
+
+  punches
+    .filter((punch) => punch.status === 'pending')
+    .forEach((punch) => {
+      if (punch.type === 'clock_in') {
+        session = {
+          id: punch.id,
+          user_id: punch.user_id,
+          clock_in: punch.timestamp,
+          clock_out: null,
+          duration_minutes: 0,
+          overtime_amount: 0,
+          created_at: punch.timestamp,
+          clock_in_lat: punch.location?.lat,
+          clock_in_lng: punch.location?.lng,
+          is_public_holiday: punch.is_public_holiday,
+        };
+      } else {
+        session = null;
+      }
+    });
+
+  return session;
+};
+
+const markConflict = (punchId: string, message: string): void => {
+  writeQueue(readQueue().map((punch) =>
+    punch.id === punchId ? { ...punch, status: 'conflict', conflict_message: message } : punch
+  ));
+};
+
+// Point queued clock-outs for a local session at the server log created for it
+const replaceSessionId = (localId: string, serverId: string): void => {
+  writeQueue(readQueue().map((punch) =>
+    punch.work_log_id === localId ? { ...punch, work_log_id: serverId } : punch
+  ));
+};
+
+const resolveLocation = async (location: QueuedPunch['location']) => {
+  if (!location) return { location: undefined, address: undefined };
+  const { address, postcode } = await reverseGeocode(location.lat, location.lng);
+  return { location: { ...location, postcode }, address };
+};
+
+const syncClockIn = async (punch: QueuedPunch): Promise<void> => {
+  const openSession = await fetchActiveSession(punch.user_id);
+  if (openSession) {
+    markConflict(
+      punch.id,
+      `A session started at ${new Date(openSession.clock_in).toLocaleString()} is already open on another device.`
+    );
+    return;
+  }
+
+  const { location, address } = await resolveLocation(punch.location);
+  let log: WorkLog;
+  try {
+    log = await performClockIn(
+      punch.user_id,
+      location,
+      address,
+      punch.is_public_holiday,
+      new Date(punch.timestamp),
+      punch.outside_reason
+    );
+  } catch (err: any) {
+    // Rejected by work_logs_check_punch, e.g. a clock-in more than a day old
+    if (err?.code === '23514') {
+      markConflict(punch.id, `${err.message}. Ask your supervisor to add this session.`);
+      return;
+    }
+    throw err;
+  }
+
+  replaceSessionId(punch.id, log.id);
+  dismissPunch(punch.id);
+};
+
+const syncClockOut = async (punch: QueuedPunch): Promise<void> => {
+  if (!punch.work_log_id || isLocalSessionId(punch.work_log_id)) {
+    markConflict(punch.id, 'The matching clock-in could not be synced.');
+    return;
+  }
+
+  const { data: log, error } = await supabase
+    .from('work_logs')
+    .select('clock_in, clock_out')
+    .eq('id', punch.work_log_id)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!log) {
+    markConflict(punch.id, 'The session this clock-out belongs to no longer exists.');
+    return;
+  }
+  if (log.clock_out) {
+    markConflict(
+      punch.id,
+      `This session was already closed at ${new Date(log.clock_out).toLocaleString()}. Request a correction if that time is wrong.`
+    );
+    return;
+  }
+  if (new Date(punch.timestamp) <= new Date(log.clock_in)) {
+    markConflict(punch.id, 'Clock-out time is before the session started.');
+    return;
+  }
+
+  const { location, address } = await resolveLocation(punch.location);
+  await performClockOut(
+    punch.work_log_id,
+    location,
+    punch.is_outstation || false,
+    address,
+    new Date(punch.timestamp),
+    punch.outside_reason
+  );
+
+  dismissPunch(punch.id);
+};
+
+/**
+ * Replay pending punches for a user in order
+ * Stops at the first network failure so later punches are never applied out of order.
+ * Punches the server rejects become conflicts and the rest carry on.
+ * @returns Number of punches synced
+ */
+export const syncPunchQueue = async (userId: string): Promise<number> => {
+  let synced = 0;
+
+  for (const punch of getQueuedPunches(userId)) {
+    if (punch.status !== 'pending') continue;
+
+    try {
+      const before = readQueue().length;
+      if (punch.type === 'clock_in') {
+        await syncClockIn(punch);
+      } else {
+        // Re-read so the id of a clock-in synced earlier in this loop is picked up
+        const current = readQueue().find((item) => item.id === punch.id) || punch;
+        await syncClockOut(current);
+      }
+      if (readQueue().length < before) synced++;
+    } catch (err: any) {
+      if (isNetworkError(err)) break;
+      if (isServerRejection(err)) {
+        markConflict(punch.id, err.message);
+        continue;
+      }
+      throw err;
+    }
+  }
+
+  return synced;
+};
@@ -0,0 +1,117 @@
+import { addDays, eachYearOfInterval, format, startOfDay } from 'date-fns';
+import { supabase } from '../supabaseClient';
+import { PayProfile, RecalculationChange, RecalculationRun, WorkLog } from '../types';
+import { calculateLogBreakdowns, EARLIER_LOGS_WINDOW_DAYS } from './payrollService';
+import { fetchPayProfiles } from './payProfileService';
+import { fetchCompletedLogsInRange, getDayType } from './timeService';
+import { getStateFromPostcode, loadPublicHolidays } from './holidayService';
+import { fetchApprovedTimesheetsInRange } from './timesheetService';
+import { isHeldForReview } from './sessionLimitService';
+
+/**
+ * Bulk recalculation
+ * Logs keep the OT amount and day type worked out when they were saved. After
+ * rule or calendar changes an admin can preview every log in a date range under
+ * the current rules and write the changed ones back in one audited run.
+ * Months closed by an approved timesheet are shown but never changed.
+ */
+
+// Amounts within half a sen are the same
+const AMOUNT_TOLERANCE = 0.005;
+
+/**
+ * Recalculate every completed log from one date to another (inclusive) and list
+ * those whose stored OT amount or day type would change
+ * @param userId Limit to one driver; omit for the whole fleet
+ */
+export const previewRecalculation = async (from: Date, to: Date, userId?: string): Promise<RecalculationChange[]> => {
+  const rangeStart = startOfDay(from);
+  const rangeEnd = addDays(startOfDay(to), 1); // Exclusive
+  if (rangeEnd <= rangeStart) {
+    throw new Error('The end date must be on or after the start date.');
+  }
+
+  const [logs, timesheets] = await Promise.all([
+    fetchCompletedLogsInRange(addDays(rangeStart, -EARLIER_LOGS_WINDOW_DAYS), rangeEnd, userId),
+    fetchApprovedTimesheetsInRange(rangeStart, startOfDay(to), userId),
+    ...eachYearOfInterval({ start: rangeStart, end: rangeEnd }).map((year) => loadPublicHolidays(year.getFullYear())),
+  ]);
+  const closedMonths = new Set(timesheets.map((timesheet) => `${timesheet.user_id}:${timesheet.period_start}`));
+
+  // Each driver is rated on their own logs and pay profiles
+  const logsByUser = new Map<string, WorkLog[]>();
+  for (const log of logs) {
+    logsByUser.set(log.user_id, [...(logsByUser.get(log.user_id) || []), log]);
+  }
+  const userIds = Array.from(logsByUser.keys());
+  const profiles = await Promise.all(userIds.map(fetchPayProfiles));
+  const profilesByUser = new Map<string, PayProfile[]>(userIds.map((id, index) => [id, profiles[index]]));
+
+  const changes: RecalculationChange[] = [];
+  for (const [driverId, driverLogs] of logsByUser) {
+    const inRange = driverLogs.filter((log) => new Date(log.clock_in) >= rangeStart);
+    const earlier = driverLogs.filter((log) => new Date(log.clock_in) < rangeStart);
+    const breakdowns = calculateLogBreakdowns(inRange, profilesByUser.get(driverId) || [], earlier);
+
+    for (const log of inRange) {
+      const clockIn = new Date(log.clock_in);
+      const breakdown = breakdowns.get(log.id);
+      // Sessions held for review earn nothing until corrected
+      const recalculatedAmount = isHeldForReview(log) ? 0 : breakdown?.totalOTAmount || 0;
+      const recalculatedDayType = breakdown?.dayType
+        || getDayType(clockIn, log.is_public_holiday || false, getStateFromPostcode(log.clock_in_postcode));
+
+      if (
+        Math.abs(recalculatedAmount - log.overtime_amount) < AMOUNT_TOLERANCE &&
+        recalculatedDayType === log.day_type
+      ) continue;
+
+      changes.push({
+        workLog: log,
+        storedAmount: log.overtime_amount,
+        recalculatedAmount,
+        storedDayType: log.day_type,
+        recalculatedDayType,
+        monthClosed: closedMonths.has(`${log.user_id}:${format(clockIn, 'yyyy-MM-01')}`),
+      });
+    }
+  }
+
+  return changes.sort((a, b) => new Date(a.workLog.clock_in).getTime() - new Date(b.workLog.clock_in).getTime());
+};
+
+/**
+ * Write the previewed changes back (admins only, enforced by recalculate_work_logs)
+ * The database recalculates each log itself, audits every log that changes, and
+ * skips logs in closed months.
+ */
+export const applyRecalculation = async (
+  changes: RecalculationChange[],
+  from: Date,
+  to: Date,
+  userId?: string
+): Promise<RecalculationRun> => {
+  const { data, error } = await supabase.rpc('recalculate_work_logs', {
+    p_log_ids: changes.filter((change) => !change.monthClosed).map((change) => change.workLog.id),
+    p_range_start: format(from, 'yyyy-MM-dd'),
+    p_range_end: format(to, 'yyyy-MM-dd'),
+    p_user_id: userId || null,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Fetch the most recent recalculation runs, newest first
+ */
+export const fetchRecalculationRuns = async (limit: number = 10): Promise<RecalculationRun[]> => {
+  const { data, error } = await supabase
+    .from('recalculation_runs')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return data || [];
+};
@@ -0,0 +1,151 @@
+import { addDays, differenceInMinutes, startOfDay } from 'date-fns';
+import { supabase } from '../supabaseClient';
+import { PlannedShift, ShiftComparison, WorkLog } from '../types';
+
+/**
+ * Minutes a driver may arrive after the planned start, or leave before the
+ * planned end, without being flagged
+ */
+export const SHIFT_GRACE_MINUTES = 5;
+
+// Longest shift that can be planned, matching the database check
+const MAX_SHIFT_HOURS = 24;
+
+/**
+ * Fetch a driver's planned shifts that start in [from, to), oldest first
+ * @param userId Limit to one driver; omit for every shift the caller can see
+ */
+export const fetchPlannedShifts = async (from: Date, to: Date, userId?: string): Promise<PlannedShift[]> => {
+  let query = supabase
+    .from('planned_shifts')
+    .select('*')
+    .gte('shift_start', from.toISOString())
+    .lt('shift_start', to.toISOString())
+    .order('shift_start', { ascending: true });
+  if (userId) query = query.eq('user_id', userId);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Fetch the shifts planned for a driver today
+ */
+export const fetchTodayShifts = async (userId: string): Promise<PlannedShift[]> => {
+  const today = startOfDay(new Date());
+  return fetchPlannedShifts(today, addDays(today, 1), userId);
+};
+
+/**
+ * Create or update a planned shift (supervisors only, enforced by RLS)
+ */
+export const savePlannedShift = async (shift: PlannedShift): Promise<PlannedShift> => {
+  const start = new Date(shift.shift_start);
+  const end = new Date(shift.shift_end);
+
+  if (isNaN(start.getTime()) || isNaN(end.getTime())) {
+    throw new Error('Enter both the start and end of the shift.');
+  }
+  if (end <= start) {
+    throw new Error('The shift must end after it starts.');
+  }
+  if (differenceInMinutes(end, start) > MAX_SHIFT_HOURS * 60) {
+    throw new Error(`A shift cannot be longer than ${MAX_SHIFT_HOURS} hours.`);
+  }
+
+  const { id, created_at, ...fields } = shift;
+  const row = {
+    ...fields,
+    shift_start: start.toISOString(),
+    shift_end: end.toISOString(),
+    site_id: shift.site_id || null,
+    route: shift.route?.trim() || null,
+    notes: shift.notes?.trim() || null,
+    updated_at: new Date().toISOString(),
+  };
+
+  const { data, error } = id
+    ? await supabase.from('planned_shifts').update(row).eq('id', id).select().single()
+    : await supabase.from('planned_shifts').insert([row]).select().single();
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Remove a planned shift
+ */
+export const deletePlannedShift = async (shiftId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('planned_shifts')
+    .delete()
+    .eq('id', shiftId);
+
+  if (error) throw error;
+};
+
+/**
+ * The planned shift a work log was worked against: the one it overlaps most,
+ * or failing that the one starting closest to the clock-in on the same day
+ */
+export const findShiftForLog = (log: WorkLog, shifts: PlannedShift[]): PlannedShift | null => {
+  const clockIn = new Date(log.clock_in);
+  const clockOut = log.clock_out ? new Date(log.clock_out) : new Date();
+
+  let best: PlannedShift | null = null;
+  let bestScore = -Infinity;
+  for (const shift of shifts) {
+    if (shift.user_id !== log.user_id) continue;
+    const start = new Date(shift.shift_start);
+    const end = new Date(shift.shift_end);
+
+    const overlap = Math.min(end.getTime(), clockOut.getTime()) - Math.max(start.getTime(), clockIn.getTime());
+    const sameDay = startOfDay(start).getTime() === startOfDay(clockIn).getTime();
+    if (overlap <= 0 && !sameDay) continue;
+
+    // Overlap wins; otherwise prefer the nearest start
+    const score = overlap > 0 ? overlap : -Math.abs(start.getTime() - clockIn.getTime());
+    if (score > bestScore) {
+      best = shift;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+/**
+ * Compare a completed work log with its planned shift
+ */
+export const compareShiftToLog = (log: WorkLog, shift: PlannedShift): ShiftComparison => {
+  const start = new Date(shift.shift_start);
+  const end = new Date(shift.shift_end);
+  const clockIn = new Date(log.clock_in);
+  const clockOut = log.clock_out ? new Date(log.clock_out) : null;
+
+  const lateMinutes = Math.max(0, differenceInMinutes(clockIn, start));
+  const earlyLeaveMinutes = clockOut ? Math.max(0, differenceInMinutes(end, clockOut)) : 0;
+
+  return {
+    shift,
+    plannedMinutes: differenceInMinutes(end, start),
+    actualMinutes: clockOut ? differenceInMinutes(clockOut, clockIn) : 0,
+    lateMinutes,
+    earlyLeaveMinutes,
+    isLate: lateMinutes > SHIFT_GRACE_MINUTES,
+    leftEarly: earlyLeaveMinutes > SHIFT_GRACE_MINUTES,
+  };
+};
+
+/**
+ * Planned vs. actual for each log that has a planned shift
+ * @returns Comparisons keyed by work log id
+ */
+export const compareLogsToRoster = (logs: WorkLog[], shifts: PlannedShift[]): Map<string, ShiftComparison> => {
+  const comparisons = new Map<string, ShiftComparison>();
+  for (const log of logs) {
+    const shift = findShiftForLog(log, shifts);
+    if (shift) comparisons.set(log.id, compareShiftToLog(log, shift));
+  }
+  return comparisons;
+};
@@ -0,0 +1,156 @@
+import { supabase } from '../supabaseClient';
+import { RouteSettings, WorkLogPoint } from '../types';
+import { distanceInMeters } from './siteService';
+
+/**
+ * Settings used until route_settings has been created (route logging off)
+ */
+export const DEFAULT_ROUTE_SETTINGS: RouteSettings = {
+  enabled: false,
+  sample_interval_seconds: 300,
+  retention_days: 90,
+};
+
+/**
+ * Readings less accurate than this are stored but left out of the distance
+ */
+export const MAX_POINT_ACCURACY_METERS = 100;
+
+/**
+ * Total distance along a route in kilometres
+ * Points are joined in time order; noisy readings are skipped.
+ */
+export const calculateRouteDistanceKm = (points: WorkLogPoint[]): number => {
+  const usable = points
+    .filter((point) => point.accuracy_meters == null || point.accuracy_meters <= MAX_POINT_ACCURACY_METERS)
+    .sort((a, b) => new Date(a.recorded_at).getTime() - new Date(b.recorded_at).getTime());
+
+  let meters = 0;
+  for (let i = 1; i < usable.length; i++) {
+    meters += distanceInMeters(usable[i - 1].lat, usable[i - 1].lng, usable[i].lat, usable[i].lng);
+  }
+  return Math.round(meters / 100) / 10;
+};
+
+/**
+ * Fetch the fleet-wide route logging settings
+ */
+export const fetchRouteSettings = async (): Promise<RouteSettings> => {
+  const { data, error } = await supabase
+    .from('route_settings')
+    .select('enabled, sample_interval_seconds, retention_days, updated_at')
+    .maybeSingle();
+
+  if (error) throw error;
+  return data || DEFAULT_ROUTE_SETTINGS;
+};
+
+/**
+ * Save the fleet-wide route logging settings (admins only, enforced by RLS)
+ */
+export const saveRouteSettings = async (settings: RouteSettings): Promise<RouteSettings> => {
+  if (settings.sample_interval_seconds < 30 || settings.sample_interval_seconds > 3600) {
+    throw new Error('Sampling interval must be between 30 seconds and 1 hour.');
+  }
+  if (settings.retention_days < 1) {
+    throw new Error('Route points must be kept for at least one day.');
+  }
+
+  const { data, error } = await supabase
+    .from('route_settings')
+    .update({
+      enabled: settings.enabled,
+      sample_interval_seconds: Math.round(settings.sample_interval_seconds),
+      retention_days: Math.round(settings.retention_days),
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', true)
+    .select('enabled, sample_interval_seconds, retention_days, updated_at')
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Fetch the route recorded for a work log, oldest first
+ */
+export const fetchRoutePoints = async (workLogId: string): Promise<WorkLogPoint[]> => {
+  const { data, error } = await supabase
+    .from('work_log_points')
+    .select('*')
+    .eq('work_log_id', workLogId)
+    .order('recorded_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Delete route points past the retention period
+ * Also scheduled with pg_cron; calling it from the client keeps retention working without it.
+ * @returns Number of points deleted
+ */
+export const purgeExpiredRoutePoints = async (): Promise<number> => {
+  const { data, error } = await supabase.rpc('purge_expired_route_points');
+
+  if (error) {
+    // Older databases without the route migration simply skip this step
+    console.error('Error purging route points:', error);
+    return 0;
+  }
+  return data || 0;
+};
+
+/**
+ * Sample the device location every interval and upload it for a work log
+ * Points that fail to upload (e.g. offline) are kept and retried on the next sample.
+ * @returns Function that stops sampling and uploads anything left
+ */
+export const startRouteSampling = (
+  workLogId: string,
+  userId: string,
+  intervalSeconds: number
+): (() => void) => {
+  let pending: WorkLogPoint[] = [];
+  let stopped = false;
+
+  const flush = async () => {
+    if (pending.length === 0) return;
+    const batch = pending;
+    pending = [];
+    const { error } = await supabase.from('work_log_points').insert(batch);
+    if (error) {
+      console.error('Error saving route points:', error);
+      pending = [...batch, ...pending];
+    }
+  };
+
+  const sample = () => {
+    if (stopped || !navigator.geolocation) return;
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        pending.push({
+          work_log_id: workLogId,
+          user_id: userId,
+          recorded_at: new Date(position.timestamp).toISOString(),
+          lat: position.coords.latitude,
+          lng: position.coords.longitude,
+          accuracy_meters: position.coords.accuracy,
+        });
+        flush();
+      },
+      (error) => console.error('Error sampling route location:', error),
+      { enableHighAccuracy: true, maximumAge: 30000 }
+    );
+  };
+
+  sample();
+  const interval = setInterval(sample, intervalSeconds * 1000);
+
+  return () => {
+    stopped = true;
+    clearInterval(interval);
+    flush();
+  };
+};
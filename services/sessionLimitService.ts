@@ -0,0 +1,107 @@
+import { startOfMonth } from 'date-fns';
+import { supabase } from '../supabaseClient';
+import { SessionLimits, WorkLog, WorkLogReviewStatus } from '../types';
+
+/**
+ * Limits used until session_settings has been created
+ */
+export const DEFAULT_SESSION_LIMITS: SessionLimits = {
+  max_session_hours: 16,
+  hard_cap_hours: 24,
+};
+
+/**
+ * Display labels for each review status
+ */
+export const REVIEW_STATUS_LABELS: Record<WorkLogReviewStatus, string> = {
+  flagged: 'Long shift',
+  needs_review: 'Needs review',
+};
+
+/**
+ * Whether a session's OT is held until a supervisor approves a correction
+ * Sessions that hit the hard cap were auto-closed (or closed far too late), so
+ * their recorded times are not trusted for pay.
+ */
+export const isHeldForReview = (log: Pick<WorkLog, 'review_status'>): boolean =>
+  log.review_status === 'needs_review';
+
+/**
+ * Fetch the fleet-wide session limits
+ */
+export const fetchSessionLimits = async (): Promise<SessionLimits> => {
+  const { data, error } = await supabase
+    .from('session_settings')
+    .select('max_session_hours, hard_cap_hours, updated_at')
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return DEFAULT_SESSION_LIMITS;
+
+  return {
+    max_session_hours: Number(data.max_session_hours),
+    hard_cap_hours: Number(data.hard_cap_hours),
+    updated_at: data.updated_at,
+  };
+};
+
+/**
+ * Save the fleet-wide session limits (admins only, enforced by RLS)
+ */
+export const saveSessionLimits = async (limits: SessionLimits): Promise<SessionLimits> => {
+  if (limits.max_session_hours <= 0 || limits.hard_cap_hours <= 0) {
+    throw new Error('Session limits must be greater than zero.');
+  }
+  if (limits.hard_cap_hours < limits.max_session_hours) {
+    throw new Error('The auto-close cap must be at least the flag threshold.');
+  }
+
+  const { data, error } = await supabase
+    .from('session_settings')
+    .update({
+      max_session_hours: limits.max_session_hours,
+      hard_cap_hours: limits.hard_cap_hours,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', true)
+    .select('max_session_hours, hard_cap_hours, updated_at')
+    .single();
+
+  if (error) throw error;
+  return {
+    max_session_hours: Number(data.max_session_hours),
+    hard_cap_hours: Number(data.hard_cap_hours),
+    updated_at: data.updated_at,
+  };
+};
+
+/**
+ * Close every open session that has reached the hard cap
+ * Also scheduled with pg_cron; calling it from the client keeps limits working without it.
+ * @returns Number of sessions closed
+ */
+export const autoCloseStaleSessions = async (): Promise<number> => {
+  const { data, error } = await supabase.rpc('auto_close_stale_sessions');
+
+  if (error) {
+    // Older databases without the safeguards migration simply skip this step
+    console.error('Error auto-closing stale sessions:', error);
+    return 0;
+  }
+  return data || 0;
+};
+
+/**
+ * Fetch flagged and held sessions since the start of the month (supervisors see every driver)
+ */
+export const fetchFlaggedSessions = async (since: Date = startOfMonth(new Date())): Promise<WorkLog[]> => {
+  const { data, error } = await supabase
+    .from('work_logs')
+    .select('*')
+    .not('review_status', 'is', null)
+    .gte('clock_in', since.toISOString())
+    .order('clock_in', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
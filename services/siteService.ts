@@ -0,0 +1,148 @@
+import { startOfMonth } from 'date-fns';
+import { supabase } from '../supabaseClient';
+import { Site, SiteType, WorkLog } from '../types';
+
+/**
+ * Display labels for each site type
+ */
+export const SITE_TYPE_LABELS: Record<SiteType, string> = {
+  depot: 'Depot',
+  customer: 'Customer Site',
+};
+
+/**
+ * Radius used for new sites
+ */
+export const DEFAULT_SITE_RADIUS_METERS = 200;
+
+const EARTH_RADIUS_METERS = 6371000;
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+/**
+ * Great-circle distance between two points in metres (haversine)
+ * Same formula as public.distance_meters in the database.
+ */
+export const distanceInMeters = (lat1: number, lng1: number, lat2: number, lng2: number): number => {
+  const dLat = toRadians(lat2 - lat1);
+  const dLng = toRadians(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2
+    + Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(a));
+};
+
+/**
+ * Nearest active site whose radius contains the point
+ * Used to ask for a reason before an off-site punch; the database does the
+ * authoritative match when the punch is saved.
+ */
+export const findMatchingSite = (sites: Site[], lat: number, lng: number): Site | null => {
+  let match: Site | null = null;
+  let matchDistance = Infinity;
+
+  sites
+    .filter((site) => site.is_active)
+    .forEach((site) => {
+      const distance = distanceInMeters(lat, lng, site.lat, site.lng);
+      if (distance <= site.radius_meters && distance < matchDistance) {
+        match = site;
+        matchDistance = distance;
+      }
+    });
+
+  return match;
+};
+
+/**
+ * Whether a punch at this point needs a reason (there are sites and none contain it)
+ */
+export const isOutsideAllSites = (sites: Site[], lat: number, lng: number): boolean =>
+  sites.some((site) => site.is_active) && !findMatchingSite(sites, lat, lng);
+
+/**
+ * Fetch sites, active ones first
+ */
+export const fetchSites = async (includeInactive: boolean = false): Promise<Site[]> => {
+  let query = supabase
+    .from('sites')
+    .select('*')
+    .order('is_active', { ascending: false })
+    .order('name', { ascending: true });
+
+  if (!includeInactive) {
+    query = query.eq('is_active', true);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Fetch sites by id (e.g. the sites matched by a work log), keyed by id
+ */
+export const fetchSitesByIds = async (ids: (string | null | undefined)[]): Promise<Map<string, Site>> => {
+  const uniqueIds = Array.from(new Set(ids.filter((id): id is string => Boolean(id))));
+  if (uniqueIds.length === 0) return new Map();
+
+  const { data, error } = await supabase
+    .from('sites')
+    .select('*')
+    .in('id', uniqueIds);
+
+  if (error) throw error;
+  return new Map((data || []).map((site) => [site.id, site]));
+};
+
+/**
+ * Add or update a site (supervisors only, enforced by RLS)
+ */
+export const saveSite = async (site: Site): Promise<Site> => {
+  if (!site.name.trim()) {
+    throw new Error('Site name is required.');
+  }
+  if (!Number.isFinite(site.lat) || !Number.isFinite(site.lng) || Math.abs(site.lat) > 90 || Math.abs(site.lng) > 180) {
+    throw new Error('Enter a valid latitude and longitude.');
+  }
+  if (!Number.isFinite(site.radius_meters) || site.radius_meters < 10) {
+    throw new Error('Radius must be at least 10 metres.');
+  }
+
+  const { id, created_at, ...fields } = site;
+  const payload = { ...fields, name: fields.name.trim(), address: fields.address?.trim() || null };
+
+  const { data, error } = id
+    ? await supabase.from('sites').update(payload).eq('id', id).select().single()
+    : await supabase.from('sites').insert([payload]).select().single();
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Delete a site
+ * Work logs matched to it keep their flags but lose the site name.
+ */
+export const deleteSite = async (siteId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('sites')
+    .delete()
+    .eq('id', siteId);
+
+  if (error) throw error;
+};
+
+/**
+ * Fetch punches made outside every site since the start of the month (supervisors see every driver)
+ */
+export const fetchOffSitePunches = async (since: Date = startOfMonth(new Date())): Promise<WorkLog[]> => {
+  const { data, error } = await supabase
+    .from('work_logs')
+    .select('*')
+    .or('clock_in_outside_geofence.eq.true,clock_out_outside_geofence.eq.true')
+    .gte('clock_in', since.toISOString())
+    .order('clock_in', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
@@ -0,0 +1,115 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { supabase } from '../supabaseClient';
+import {
+  calculateEis,
+  calculateEpf,
+  calculatePcb,
+  calculateSocso,
+  calculateStatutoryDeductions,
+  DEFAULT_STATUTORY_SETTINGS,
+  fetchStatutorySettings,
+} from './statutoryService';
+
+vi.mock('../supabaseClient', () => ({ supabase: {} }));
+
+describe('calculateEpf', () => {
+  it('takes wages at the top of their RM20 band and rounds each share up', () => {
+    expect(calculateEpf(3000)).toEqual({ employee: 330, employer: 390 });
+    expect(calculateEpf(3005)).toEqual({ employee: 333, employer: 393 });
+  });
+
+  it('drops the employer rate to 12% above RM5,000', () => {
+    expect(calculateEpf(5000)).toEqual({ employee: 550, employer: 650 });
+    expect(calculateEpf(5050)).toEqual({ employee: 561, employer: 612 });
+  });
+
+  it('takes nothing from wages up to RM10', () => {
+    expect(calculateEpf(10)).toEqual({ employee: 0, employer: 0 });
+  });
+});
+
+describe('calculateSocso and calculateEis', () => {
+  it('use the middle of the RM100 band, rounded to 5 sen', () => {
+    expect(calculateSocso(3000)).toEqual({ employee: 14.75, employer: 51.65 });
+    expect(calculateEis(3000)).toEqual({ employee: 5.9, employer: 5.9 });
+  });
+
+  it('stop at the RM6,000 insured wage ceiling', () => {
+    expect(calculateSocso(6000)).toEqual({ employee: 29.75, employer: 104.15 });
+    expect(calculateSocso(9000)).toEqual(calculateSocso(6000));
+    expect(calculateEis(9000)).toEqual({ employee: 11.9, employer: 11.9 });
+  });
+
+  it('take nothing without wages', () => {
+    expect(calculateSocso(0)).toEqual({ employee: 0, employer: 0 });
+    expect(calculateEis(0)).toEqual({ employee: 0, employer: 0 });
+  });
+});
+
+describe('calculatePcb', () => {
+  it('deducts nothing when the rebate covers the tax', () => {
+    expect(calculatePcb(3000, 330)).toBe(0);
+  });
+
+  it('caps EPF relief at RM4,000 a year', () => {
+    expect(calculatePcb(5000, 550)).toBe(110);
+    expect(calculatePcb(5000, 400)).toBe(110);
+  });
+});
+
+describe('calculateStatutoryDeductions', () => {
+  const gross = {
+    basicSalary: 3000,
+    totalOTPay: 500,
+    foodAllowance: 0,
+    fullAttendanceReward: 300,
+    outstationMealAllowances: 30,
+    approvedClaims: 12.5,
+    grandTotal: 3842.5,
+  };
+
+  it('works each contribution out from its own wage components', () => {
+    const deductions = calculateStatutoryDeductions(gross, DEFAULT_STATUTORY_SETTINGS);
+
+    // EPF leaves out OT; SOCSO and EIS include it; PCB also counts meal allowances
+    expect(deductions.epfEmployee).toBe(363);
+    expect(deductions.epfEmployer).toBe(429);
+    expect(deductions.socsoEmployee).toBe(18.75);
+    expect(deductions.socsoEmployer).toBe(65.65);
+    expect(deductions.eisEmployee).toBe(7.5);
+    expect(deductions.pcb).toBe(11.6);
+    expect(deductions.totalEmployee).toBe(400.85);
+    expect(deductions.totalEmployer).toBe(502.15);
+  });
+
+  it('follows the configured components', () => {
+    const deductions = calculateStatutoryDeductions(gross, {
+      ...DEFAULT_STATUTORY_SETTINGS,
+      epf_wage_components: ['basic_salary', 'ot_pay'],
+    });
+
+    expect(deductions.epfEmployee).toBe(385);
+  });
+});
+
+describe('fetchStatutorySettings', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  const failWith = (error: { code: string; message: string }) => {
+    const query = { select: () => query, maybeSingle: async () => ({ data: null, error }) };
+    Object.assign(supabase, { from: () => query });
+  };
+
+  it('uses the defaults before the statutory migration has run', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    failWith({ code: 'PGRST205', message: "Could not find the table 'public.statutory_settings'" });
+
+    await expect(fetchStatutorySettings()).resolves.toEqual(DEFAULT_STATUTORY_SETTINGS);
+  });
+
+  it('rethrows any other error rather than deducting with the defaults', async () => {
+    failWith({ code: '42501', message: 'permission denied for table statutory_settings' });
+
+    await expect(fetchStatutorySettings()).rejects.toMatchObject({ code: '42501' });
+  });
+});
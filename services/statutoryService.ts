@@ -0,0 +1,251 @@
+import { supabase } from '../supabaseClient';
+import { MonthlySummary, StatutoryDeductions, StatutorySettings, WageComponent } from '../types';
+
+/**
+ * Statutory deductions
+ * Estimates of the monthly EPF, SOCSO, EIS and PCB lines for a Malaysian
+ * employee under 60 (EPF Third Schedule, SOCSO Category 1, EIS, and PCB for a
+ * resident with no reliefs other than the individual and EPF reliefs). The
+ * payroll provider's figures prevail where they differ.
+ */
+
+/**
+ * Display labels for each wage component
+ */
+export const WAGE_COMPONENT_LABELS: Record<WageComponent, string> = {
+  basic_salary: 'Basic Salary',
+  ot_pay: 'OT Pay',
+  food_allowance: 'Food Allowance',
+  attendance_allowance: 'Attendance Allowance',
+  outstation_meal_allowance: 'Outstation Meal Allowance',
+  claims: 'Claims',
+};
+
+/**
+ * Settings used until statutory_settings has been created
+ * EPF leaves out overtime; no contribution counts reimbursed claims.
+ */
+export const DEFAULT_STATUTORY_SETTINGS: StatutorySettings = {
+  epf_wage_components: ['basic_salary', 'food_allowance', 'attendance_allowance'],
+  socso_wage_components: ['basic_salary', 'ot_pay', 'food_allowance', 'attendance_allowance'],
+  eis_wage_components: ['basic_salary', 'ot_pay', 'food_allowance', 'attendance_allowance'],
+  pcb_wage_components: ['basic_salary', 'ot_pay', 'food_allowance', 'attendance_allowance', 'outstation_meal_allowance'],
+};
+
+export const NO_STATUTORY_DEDUCTIONS: StatutoryDeductions = {
+  epfEmployee: 0,
+  epfEmployer: 0,
+  socsoEmployee: 0,
+  socsoEmployer: 0,
+  eisEmployee: 0,
+  eisEmployer: 0,
+  pcb: 0,
+  totalEmployee: 0,
+  totalEmployer: 0,
+};
+
+// EPF: employer pays 13% up to RM 5,000 and 12% above
+const EPF_EMPLOYEE_RATE = 0.11;
+const EPF_EMPLOYER_RATE = 0.13;
+const EPF_EMPLOYER_RATE_ABOVE_THRESHOLD = 0.12;
+const EPF_RATE_THRESHOLD = 5000;
+const EPF_MIN_WAGES = 10; // No contribution on wages up to RM 10
+
+// SOCSO (Category 1) and EIS share the insured wage ceiling
+const SOCSO_EMPLOYEE_RATE = 0.005;
+const SOCSO_EMPLOYER_RATE = 0.0175;
+const EIS_RATE = 0.002; // Employee and employer each
+const INSURED_WAGE_CEILING = 6000;
+
+// PCB: individual relief, EPF relief cap and the rebate for low chargeable income
+const PCB_INDIVIDUAL_RELIEF = 9000;
+const PCB_EPF_RELIEF_CAP = 4000;
+const PCB_REBATE = 400;
+const PCB_REBATE_LIMIT = 35000;
+const PCB_MIN_DEDUCTION = 10; // Monthly tax below RM 10 is not deducted
+
+// Resident income tax bands: [chargeable income from, rate]
+const TAX_BANDS: [number, number][] = [
+  [0, 0],
+  [5000, 0.01],
+  [20000, 0.03],
+  [35000, 0.06],
+  [50000, 0.11],
+  [70000, 0.19],
+  [100000, 0.25],
+  [400000, 0.26],
+  [600000, 0.28],
+  [2000000, 0.30],
+];
+
+const roundToCents = (amount: number): number => Math.round(amount * 100) / 100;
+
+// SOCSO and EIS tables are in 5 sen steps
+const roundToFiveSen = (amount: number): number => Math.round(amount * 20 + 1e-6) / 20;
+
+// The monthly pay figures the deductions are worked out from
+type GrossPay = Omit<MonthlySummary, 'deductions' | 'netPay'>;
+
+/**
+ * Amount of the month's pay that counts as wages for a contribution
+ */
+export const getWages = (summary: GrossPay, components: WageComponent[]): number => {
+  const amounts: Record<WageComponent, number> = {
+    basic_salary: summary.basicSalary,
+    ot_pay: summary.totalOTPay,
+    food_allowance: summary.foodAllowance,
+    attendance_allowance: summary.fullAttendanceReward,
+    outstation_meal_allowance: summary.outstationMealAllowances,
+    claims: summary.approvedClaims,
+  };
+  return components.reduce((sum, component) => sum + amounts[component], 0);
+};
+
+/**
+ * EPF contributions from the Third Schedule
+ * Wages are taken at the top of their band (RM 20 bands up to RM 5,000, RM 100
+ * above) and each share is rounded up to the next ringgit.
+ */
+export const calculateEpf = (wages: number): { employee: number; employer: number } => {
+  if (wages <= EPF_MIN_WAGES) return { employee: 0, employer: 0 };
+
+  const bandTop = wages <= EPF_RATE_THRESHOLD
+    ? Math.ceil(wages / 20) * 20
+    : Math.ceil(wages / 100) * 100;
+  const employerRate = bandTop <= EPF_RATE_THRESHOLD ? EPF_EMPLOYER_RATE : EPF_EMPLOYER_RATE_ABOVE_THRESHOLD;
+
+  return {
+    employee: Math.ceil(roundToCents(bandTop * EPF_EMPLOYEE_RATE)),
+    employer: Math.ceil(roundToCents(bandTop * employerRate)),
+  };
+};
+
+/**
+ * Insured wage used by the SOCSO and EIS tables: the middle of the wage's
+ * RM 100 band, capped at the ceiling
+ */
+const getInsuredWage = (wages: number): number => {
+  if (wages <= 0) return 0;
+  const bandTop = Math.ceil(Math.min(wages, INSURED_WAGE_CEILING) / 100) * 100;
+  return bandTop - 50;
+};
+
+/**
+ * SOCSO Category 1 (employment injury and invalidity) contributions
+ */
+export const calculateSocso = (wages: number): { employee: number; employer: number } => {
+  const insuredWage = getInsuredWage(wages);
+  return {
+    employee: roundToFiveSen(insuredWage * SOCSO_EMPLOYEE_RATE),
+    employer: roundToFiveSen(insuredWage * SOCSO_EMPLOYER_RATE),
+  };
+};
+
+/**
+ * Employment Insurance System contributions (the same amount each)
+ */
+export const calculateEis = (wages: number): { employee: number; employer: number } => {
+  const contribution = roundToFiveSen(getInsuredWage(wages) * EIS_RATE);
+  return { employee: contribution, employer: contribution };
+};
+
+/**
+ * Income tax on a year's chargeable income, before rebates
+ */
+const calculateAnnualTax = (chargeableIncome: number): number => {
+  let tax = 0;
+  TAX_BANDS.forEach(([from, rate], index) => {
+    const to = index + 1 < TAX_BANDS.length ? TAX_BANDS[index + 1][0] : Infinity;
+    if (chargeableIncome > from) tax += (Math.min(chargeableIncome, to) - from) * rate;
+  });
+  return tax;
+};
+
+/**
+ * Monthly tax deduction (PCB/MTD)
+ * The month's pay is treated as the regular monthly pay for the whole year.
+ * @param wages Pay subject to tax this month
+ * @param epfEmployee Employee EPF this month (relieved up to the annual cap)
+ */
+export const calculatePcb = (wages: number, epfEmployee: number): number => {
+  const annualEpfRelief = Math.min(epfEmployee * 12, PCB_EPF_RELIEF_CAP);
+  const chargeableIncome = wages * 12 - annualEpfRelief - PCB_INDIVIDUAL_RELIEF;
+  if (chargeableIncome <= 0) return 0;
+
+  const rebate = chargeableIncome <= PCB_REBATE_LIMIT ? PCB_REBATE : 0;
+  const monthlyTax = Math.max(0, calculateAnnualTax(chargeableIncome) - rebate) / 12;
+  if (monthlyTax < PCB_MIN_DEDUCTION) return 0;
+
+  // Rounded up to the next 5 sen
+  return Math.ceil(roundToCents(monthlyTax) * 20 - 1e-6) / 20;
+};
+
+/**
+ * All statutory deduction lines for a month's pay
+ */
+export const calculateStatutoryDeductions = (
+  summary: GrossPay,
+  settings: StatutorySettings = DEFAULT_STATUTORY_SETTINGS
+): StatutoryDeductions => {
+  const epf = calculateEpf(getWages(summary, settings.epf_wage_components));
+  const socso = calculateSocso(getWages(summary, settings.socso_wage_components));
+  const eis = calculateEis(getWages(summary, settings.eis_wage_components));
+  const pcb = calculatePcb(getWages(summary, settings.pcb_wage_components), epf.employee);
+
+  return {
+    epfEmployee: epf.employee,
+    epfEmployer: epf.employer,
+    socsoEmployee: socso.employee,
+    socsoEmployer: socso.employer,
+    eisEmployee: eis.employee,
+    eisEmployer: eis.employer,
+    pcb,
+    totalEmployee: roundToCents(epf.employee + socso.employee + eis.employee + pcb),
+    totalEmployer: roundToCents(epf.employer + socso.employer + eis.employer),
+  };
+};
+
+// PostgREST (table not in the schema cache) and Postgres (undefined table) codes
+const MISSING_TABLE_CODES = ['PGRST205', '42P01'];
+
+const SETTINGS_COLUMNS = 'epf_wage_components, socso_wage_components, eis_wage_components, pcb_wage_components, updated_at';
+
+/**
+ * Fetch the fleet-wide wage components for each contribution
+ */
+export const fetchStatutorySettings = async (): Promise<StatutorySettings> => {
+  const { data, error } = await supabase
+    .from('statutory_settings')
+    .select(SETTINGS_COLUMNS)
+    .maybeSingle();
+
+  if (error) {
+    // Databases without the statutory migration use the default components;
+    // any other failure must not silently change the deductions
+    if (!MISSING_TABLE_CODES.includes(error.code)) throw error;
+    console.error('Error fetching statutory settings:', error);
+    return DEFAULT_STATUTORY_SETTINGS;
+  }
+  return data || DEFAULT_STATUTORY_SETTINGS;
+};
+
+/**
+ * Save the fleet-wide wage components (admins only, enforced by RLS)
+ */
+export const saveStatutorySettings = async (settings: StatutorySettings): Promise<StatutorySettings> => {
+  const { data, error } = await supabase
+    .from('statutory_settings')
+    .update({
+      epf_wage_components: settings.epf_wage_components,
+      socso_wage_components: settings.socso_wage_components,
+      eis_wage_components: settings.eis_wage_components,
+      pcb_wage_components: settings.pcb_wage_components,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', true)
+    .select(SETTINGS_COLUMNS)
+    .single();
+
+  if (error) throw error;
+  return data;
+};
@@ -0,0 +1,244 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { supabase } from '../supabaseClient';
+import { calculateOvertime, fetchCompletedLogsInRange, getUnpaidBreaks, roundToBlocks } from './timeService';
+import { setPublicHolidays } from './holidayService';
+import { DEFAULT_PAY_PROFILE } from './payProfileService';
+import { at, FRIDAY, makeLog, WEEKDAY, WEEKEND } from './__fixtures__/payroll';
+import { fakeSupabase } from './__fixtures__/supabase';
+
+vi.mock('../supabaseClient', () => ({ supabase: {} }));
+
+// Default profile: RM14.40 an hour, so a 30-minute block is RM10.80 at 1.5x,
+// RM14.40 at 2x and RM21.60 at 3x
+describe('roundToBlocks', () => {
+  it('keeps remainders within the 7-minute grace', () => {
+    expect(roundToBlocks(30)).toBe(30);
+    expect(roundToBlocks(37)).toBe(30);
+  });
+
+  it('rounds remainders past the grace up to the next 30-minute block', () => {
+    expect(roundToBlocks(38)).toBe(60);
+    expect(roundToBlocks(59)).toBe(60);
+  });
+
+  it('pays nothing for under 8 minutes', () => {
+    expect(roundToBlocks(7)).toBe(0);
+    expect(roundToBlocks(8)).toBe(30);
+  });
+});
+
+describe('calculateOvertime', () => {
+  afterEach(() => setPublicHolidays([]));
+
+  it('pays no OT for the first 9 hours of a weekday', () => {
+    const breakdown = calculateOvertime(at(WEEKDAY, 8), at(WEEKDAY, 17));
+
+    expect(breakdown.dayType).toBe('weekday');
+    expect(breakdown.fixedOTMinutes).toBe(540);
+    expect(breakdown.otMinutes1_5x).toBe(0);
+    expect(breakdown.totalOTAmount).toBe(0);
+  });
+
+  it('pays weekday minutes after 9 hours at 1.5x', () => {
+    const breakdown = calculateOvertime(at(WEEKDAY, 8), at(WEEKDAY, 19));
+
+    expect(breakdown.fixedOTMinutes).toBe(540);
+    expect(breakdown.otMinutes1_5x).toBe(120);
+    expect(breakdown.paidMinutes1_5x).toBe(120);
+    expect(breakdown.totalOTAmount).toBeCloseTo(43.2);
+  });
+
+  it('rounds weekday OT to 30-minute blocks with the 7-minute grace', () => {
+    const withinGrace = calculateOvertime(at(WEEKDAY, 8), at(WEEKDAY, 18, 7));
+    const pastGrace = calculateOvertime(at(WEEKDAY, 8), at(WEEKDAY, 18, 8));
+
+    expect(withinGrace.otMinutes1_5x).toBe(67);
+    expect(withinGrace.paidMinutes1_5x).toBe(60);
+    expect(withinGrace.totalOTAmount).toBeCloseTo(21.6);
+    expect(pastGrace.otMinutes1_5x).toBe(68);
+    expect(pastGrace.paidMinutes1_5x).toBe(90);
+    expect(pastGrace.totalOTAmount).toBeCloseTo(32.4);
+  });
+
+  it('pays every weekend minute at 1.5x', () => {
+    const breakdown = calculateOvertime(at(WEEKEND, 9), at(WEEKEND, 13));
+
+    expect(breakdown.dayType).toBe('weekend');
+    expect(breakdown.fixedOTMinutes).toBe(0);
+    expect(breakdown.otMinutes1_5x).toBe(240);
+    expect(breakdown.totalOTAmount).toBeCloseTo(86.4);
+  });
+
+  it('pays the first 9 public holiday hours at 2x and the rest at 3x', () => {
+    const breakdown = calculateOvertime(at(WEEKDAY, 8), at(WEEKDAY, 20), false, true);
+
+    expect(breakdown.dayType).toBe('public_holiday');
+    expect(breakdown.otMinutes2x).toBe(540);
+    expect(breakdown.otMinutes3x).toBe(180);
+    expect(breakdown.otAmount2x).toBeCloseTo(259.2);
+    expect(breakdown.otAmount3x).toBeCloseTo(129.6);
+    expect(breakdown.totalOTAmount).toBeCloseTo(388.8);
+  });
+
+  it('treats days in the holiday calendar as public holidays', () => {
+    setPublicHolidays(['2025-01-06']);
+
+    const breakdown = calculateOvertime(at(WEEKDAY, 8), at(WEEKDAY, 12));
+
+    expect(breakdown.dayType).toBe('public_holiday');
+    expect(breakdown.otMinutes2x).toBe(240);
+    expect(breakdown.totalOTAmount).toBeCloseTo(115.2);
+  });
+
+  it('counts minutes worked earlier the same day towards the 9 hours', () => {
+    const breakdown = calculateOvertime(at(WEEKDAY, 13), at(WEEKDAY, 18), false, undefined, 360);
+
+    expect(breakdown.fixedOTMinutes).toBe(180);
+    expect(breakdown.otMinutes1_5x).toBe(120);
+    expect(breakdown.totalOTAmount).toBeCloseTo(43.2);
+  });
+
+  it('moves public holiday minutes to 3x once the day has 9 hours', () => {
+    const breakdown = calculateOvertime(at(WEEKDAY, 14), at(WEEKDAY, 18), false, true, 480);
+
+    expect(breakdown.otMinutes2x).toBe(60);
+    expect(breakdown.otMinutes3x).toBe(180);
+  });
+
+  it('adds the RM30 meal allowance for an outstation overnight', () => {
+    const breakdown = calculateOvertime(at(WEEKDAY, 8), at(WEEKDAY, 19), true);
+
+    expect(breakdown.mealAllowance).toBe(30);
+    expect(breakdown.totalOTAmount).toBeCloseTo(43.2);
+    expect(breakdown.totalAmount).toBeCloseTo(73.2);
+  });
+
+  it('pays no meal allowance when not outstation', () => {
+    const breakdown = calculateOvertime(at(WEEKDAY, 8), at(WEEKDAY, 19));
+
+    expect(breakdown.mealAllowance).toBe(0);
+    expect(breakdown.totalAmount).toBeCloseTo(43.2);
+  });
+
+  it('splits a cross-midnight shift into days rated by their own day type', () => {
+    // Friday 20:00 to Saturday 06:00: 4 standard weekday hours, then 6 weekend hours at 1.5x
+    const breakdown = calculateOvertime(at(FRIDAY, 20), at(WEEKEND, 6));
+
+    expect(breakdown.segments.map((segment) => [segment.payDay, segment.dayType, segment.minutes])).toEqual([
+      ['2025-01-03', 'weekday', 240],
+      ['2025-01-04', 'weekend', 360],
+    ]);
+    expect(breakdown.dayType).toBe('weekday');
+    expect(breakdown.fixedOTMinutes).toBe(240);
+    expect(breakdown.otMinutes1_5x).toBe(360);
+    expect(breakdown.totalOTAmount).toBeCloseTo(129.6);
+  });
+
+  it('keeps a shift on one pay day when it ends before the day boundary', () => {
+    // With a 06:00 boundary the whole shift belongs to Friday: 9 standard hours, then 1 hour at 1.5x
+    const profile = { ...DEFAULT_PAY_PROFILE, day_boundary_minutes: 360 };
+    const breakdown = calculateOvertime(at(FRIDAY, 20), at(WEEKEND, 6), false, undefined, 0, profile);
+
+    expect(breakdown.segments).toHaveLength(1);
+    expect(breakdown.segments[0].payDay).toBe('2025-01-03');
+    expect(breakdown.fixedOTMinutes).toBe(540);
+    expect(breakdown.otMinutes1_5x).toBe(60);
+    expect(breakdown.totalOTAmount).toBeCloseTo(21.6);
+  });
+
+  it('splits at the day boundary rather than midnight', () => {
+    // With a 04:00 boundary, Friday runs until 04:00 Saturday
+    const profile = { ...DEFAULT_PAY_PROFILE, day_boundary_minutes: 240 };
+    const breakdown = calculateOvertime(at(FRIDAY, 20), at(WEEKEND, 6), false, undefined, 0, profile);
+
+    expect(breakdown.segments.map((segment) => [segment.payDay, segment.dayType, segment.minutes])).toEqual([
+      ['2025-01-03', 'weekday', 480],
+      ['2025-01-04', 'weekend', 120],
+    ]);
+    expect(breakdown.otMinutes1_5x).toBe(120);
+    expect(breakdown.totalOTAmount).toBeCloseTo(43.2);
+  });
+
+  it('applies earlier minutes to the pay day they were worked on', () => {
+    const breakdown = calculateOvertime(at(FRIDAY, 20), at(WEEKEND, 6), false, undefined, { '2025-01-03': 480 });
+
+    expect(breakdown.segments[0].priorMinutes).toBe(480);
+    expect(breakdown.segments[0].fixedOTMinutes).toBe(60);
+    expect(breakdown.segments[0].otMinutes1_5x).toBe(180);
+    expect(breakdown.segments[1].priorMinutes).toBe(0);
+  });
+});
+
+describe('unpaid breaks', () => {
+  // One hour off automatically once a session passes 6 hours
+  const autoBreakProfile = { ...DEFAULT_PAY_PROFILE, auto_break_after_minutes: 360, auto_break_minutes: 60 };
+
+  it('deducts the automatic break before the 9 hours are counted', () => {
+    const breakdown = calculateOvertime(at(WEEKDAY, 8), at(WEEKDAY, 20), false, undefined, 0, autoBreakProfile);
+
+    expect(breakdown.duration).toBe(720);
+    expect(breakdown.breakMinutes).toBe(60);
+    expect(breakdown.fixedOTMinutes).toBe(540);
+    expect(breakdown.otMinutes1_5x).toBe(120);
+    expect(breakdown.totalOTAmount).toBeCloseTo(43.2);
+  });
+
+  it('takes no automatic break from sessions up to the threshold', () => {
+    const breakdown = calculateOvertime(at(WEEKDAY, 8), at(WEEKDAY, 14), false, undefined, 0, autoBreakProfile);
+
+    expect(breakdown.breakMinutes).toBe(0);
+  });
+
+  it('never runs the automatic break past clock-out', () => {
+    const unpaidBreaks = getUnpaidBreaks(at(WEEKDAY, 8), at(WEEKDAY, 14, 30), null, autoBreakProfile);
+
+    expect(unpaidBreaks).toEqual([{ start: at(WEEKDAY, 14), end: at(WEEKDAY, 14, 30) }]);
+  });
+
+  it('deducts logged breaks instead of the automatic break', () => {
+    const breaks = [{ start: at(WEEKDAY, 12).toISOString(), end: at(WEEKDAY, 12, 30).toISOString() }];
+
+    const breakdown = calculateOvertime(at(WEEKDAY, 8), at(WEEKDAY, 20), false, undefined, 0, autoBreakProfile, undefined, breaks);
+
+    expect(breakdown.breakMinutes).toBe(30);
+    expect(breakdown.otMinutes1_5x).toBe(150);
+    expect(breakdown.totalOTAmount).toBeCloseTo(54);
+  });
+
+  it('ends a break still open at clock-out', () => {
+    const breaks = [{ start: at(WEEKDAY, 19).toISOString(), end: null }];
+
+    const breakdown = calculateOvertime(at(WEEKDAY, 8), at(WEEKDAY, 20), false, undefined, 0, DEFAULT_PAY_PROFILE, undefined, breaks);
+
+    expect(breakdown.breakMinutes).toBe(60);
+    expect(breakdown.otMinutes1_5x).toBe(120);
+  });
+
+  it('takes a break across midnight off each day it falls on', () => {
+    const breaks = [{ start: at(FRIDAY, 23, 30).toISOString(), end: at(WEEKEND, 0, 30).toISOString() }];
+
+    const breakdown = calculateOvertime(at(FRIDAY, 20), at(WEEKEND, 6), false, undefined, 0, DEFAULT_PAY_PROFILE, undefined, breaks);
+
+    expect(breakdown.segments.map((segment) => [segment.minutes, segment.breakMinutes])).toEqual([
+      [210, 30],
+      [330, 30],
+    ]);
+    expect(breakdown.otMinutes1_5x).toBe(330);
+    expect(breakdown.totalOTAmount).toBeCloseTo(118.8);
+  });
+});
+
+describe('fetchCompletedLogsInRange', () => {
+  it('reads past the server row limit page by page', async () => {
+    // Two short sessions a day for a year and a half: more rows than one response holds
+    const logs = Array.from({ length: 1100 }, (_, index) => {
+      const clockIn = new Date(2025, 0, 1 + Math.floor(index / 2), index % 2 === 0 ? 8 : 14);
+      return makeLog(clockIn, new Date(clockIn.getTime() + 4 * 60 * 60 * 1000));
+    });
+    Object.assign(supabase, fakeSupabase({ work_logs: logs }));
+
+    const fetched = await fetchCompletedLogsInRange(new Date(2025, 0, 1), new Date(2027, 0, 1), 'driver-1');
+
+    expect(fetched).toHaveLength(1100);
+  });
+});
@@ -1,87 +1,53 @@
-import { differenceInMinutes, startOfMonth, endOfMonth, isSaturday, isSunday, format } from 'date-fns';
+import { differenceInMinutes, startOfMonth, endOfMonth, isSaturday, isSunday, format, addDays, addMinutes } from 'date-fns';
 import { supabase } from '../supabaseClient';
-import { WorkLog, OTCalculationBreakdown, DayType } from '../types';
+import { WorkLog, OTCalculationBreakdown, OTDaySegment, DayType, PayProfile, MalaysianState, BreakPeriod } from '../types';
+import { DEFAULT_PAY_PROFILE } from './payProfileService';
+import { isCalendarPublicHoliday, loadPublicHolidays } from './holidayService';
+import { autoCloseStaleSessions } from './sessionLimitService';
+import { reverseGeocode } from './geocodingService';
 
 /**
  * Constants
+ * Package-specific values default to DEFAULT_PAY_PROFILE; per-driver values
+ * come from the pay profile in effect on the day worked.
  */
-const BASIC_SALARY = 3000;
+const BASIC_SALARY = DEFAULT_PAY_PROFILE.basic_salary;
 const WORK_DAYS_PER_MONTH = 26;
 const HOURS_PER_DAY = 8;
 // Package-specific base hourly rate agreed by user.
-const BASE_HOURLY_RATE = 14.4;
+const BASE_HOURLY_RATE = DEFAULT_PAY_PROFILE.base_hourly_rate;
 
-const BLOCK_MINUTES = 30; // Minimum block for OT calculation
+const BLOCK_MINUTES = DEFAULT_PAY_PROFILE.block_minutes; // Minimum block for OT calculation
 
 // Rate multipliers
 const RATE_1X = 1.0;
-const RATE_1_5X = 1.5;
-const RATE_2X = 2.0;
-const RATE_3X = 3.0;
+const RATE_1_5X = DEFAULT_PAY_PROFILE.rate_weekday_ot;
+const RATE_2X = DEFAULT_PAY_PROFILE.rate_public_holiday;
+const RATE_3X = DEFAULT_PAY_PROFILE.rate_public_holiday_ot;
 
 // Thresholds in minutes
-const WEEKDAY_FIXED_OT_MINUTES = 540; // 9 hours
-const PUBLIC_HOLIDAY_FIRST_TIER_MINUTES = 540; // 9 hours
+const WEEKDAY_FIXED_OT_MINUTES = DEFAULT_PAY_PROFILE.weekday_standard_minutes; // 9 hours
+const PUBLIC_HOLIDAY_FIRST_TIER_MINUTES = DEFAULT_PAY_PROFILE.public_holiday_first_tier_minutes; // 9 hours
 
-const MEAL_ALLOWANCE = 30; // RM 30 for outstation overnight
+const MEAL_ALLOWANCE = DEFAULT_PAY_PROFILE.meal_allowance; // RM 30 for outstation overnight
 
-/**
- * List of public holidays (YYYY-MM-DD format)
- * This can be extended or fetched from an API/database
- * For now, using Malaysia public holidays as example
- */
-let PUBLIC_HOLIDAYS: string[] = [
-  // Add your public holidays here, e.g.:
-  // '2024-01-01', // New Year
-  // '2024-01-28', // Chinese New Year
-  // etc.
-];
-
-/**
- * Set the list of public holidays
- * @param holidays Array of dates in YYYY-MM-DD format
- */
-export const setPublicHolidays = (holidays: string[]): void => {
-  PUBLIC_HOLIDAYS = [...holidays];
-};
-
-/**
- * Add public holidays to the existing list
- * @param holidays Array of dates in YYYY-MM-DD format
- */
-export const addPublicHolidays = (holidays: string[]): void => {
-  PUBLIC_HOLIDAYS = Array.from(new Set([...PUBLIC_HOLIDAYS, ...holidays]));
-};
-
-/**
- * Get the current list of public holidays
- * @returns Array of public holiday dates in YYYY-MM-DD format
- */
-export const getPublicHolidays = (): string[] => {
-  return [...PUBLIC_HOLIDAYS];
-};
-
-/**
- * Check if a date is a public holiday
- */
-const isPublicHoliday = (date: Date): boolean => {
-  const dateStr = format(date, 'yyyy-MM-dd');
-  return PUBLIC_HOLIDAYS.includes(dateStr);
-};
+// Rows per request; PostgREST caps a single response
+const PAGE_SIZE = 1000;
 
 /**
  * Determine the day type (weekday, weekend, or public holiday)
  * @param date The date to check
  * @param isPublicHolidayOverride Optional override to manually set public holiday status
+ * @param state Optional state (e.g. from the clock-in postcode) for state-specific holidays
  */
-export const getDayType = (date: Date, isPublicHolidayOverride?: boolean): DayType => {
+export const getDayType = (date: Date, isPublicHolidayOverride?: boolean, state?: MalaysianState): DayType => {
   // If manually set as public holiday, use that
   if (isPublicHolidayOverride === true) {
     return 'public_holiday';
   }
   
-  // Otherwise, auto-detect
-  if (isPublicHoliday(date)) {
+  // Otherwise, auto-detect from the public holiday calendar
+  if (isCalendarPublicHoliday(date, state)) {
     return 'public_holiday';
   }
   if (isSaturday(date) || isSunday(date)) {
@@ -91,52 +57,180 @@ export const getDayType = (date: Date, isPublicHolidayOverride?: boolean): DayTy
 };
 
 /**
- * Get full location address string from coordinates using reverse geocoding
- * @param lat Latitude
- * @param lng Longitude
- * @returns Full address string or formatted coordinates if geocoding fails
+ * Round OT minutes to 30-minute blocks with 7-minute grace.
+ * - Remainder 0-7 mins: do not round up
+ * - Remainder 8-29 mins: round up to next 30-min block
+ * Block size and grace come from the pay profile when provided.
  */
-export const getFullLocationAddress = async (lat: number, lng: number): Promise<string> => {
-  try {
-    const response = await fetch(
-      `https://nominatim.openstreetmap.org/reverse?format=json&lat=${lat}&lon=${lng}&addressdetails=1`
-    );
-    const data = await response.json();
-    
-    if (data.address) {
-      const addr = data.address;
-      // Build a readable address string
-      const parts: string[] = [];
-      
-      if (addr.road) parts.push(addr.road);
-      if (addr.suburb || addr.neighbourhood) parts.push(addr.suburb || addr.neighbourhood);
-      if (addr.city || addr.town || addr.village) parts.push(addr.city || addr.town || addr.village);
-      if (addr.postcode) parts.push(addr.postcode);
-      if (addr.state) parts.push(addr.state);
-      
-      return parts.length > 0 ? parts.join(', ') : data.display_name || `${lat}, ${lng}`;
-    }
-    
-    return data.display_name || `${lat}, ${lng}`;
-  } catch (error) {
-    console.error("Error fetching full location address:", error);
-    return `${lat.toFixed(6)}, ${lng.toFixed(6)}`;
+export const roundToBlocks = (
+  minutes: number,
+  blockMinutes: number = BLOCK_MINUTES,
+  graceMinutes: number = DEFAULT_PAY_PROFILE.block_grace_minutes
+): number => {
+  if (minutes <= 0) return 0;
+
+  const fullBlocks = Math.floor(minutes / blockMinutes);
+  const remainder = minutes % blockMinutes;
+  const extraBlock = remainder > graceMinutes ? 1 : 0;
+
+  return (fullBlocks + extraBlock) * blockMinutes;
+};
+
+/**
+ * Pay day a moment belongs to (YYYY-MM-DD)
+ * With a day boundary of e.g. 240 minutes, 02:00 on Saturday still counts as Friday.
+ */
+export const getPayDay = (date: Date, dayBoundaryMinutes: number = 0): string =>
+  format(addMinutes(date, -dayBoundaryMinutes), 'yyyy-MM-dd');
+
+/**
+ * Split a shift into per-pay-day parts at each day boundary
+ * A shift from Friday 8pm to Saturday 6am becomes Friday 8pm-midnight and Saturday midnight-6am.
+ */
+export const splitShiftIntoDays = (
+  clockIn: Date,
+  clockOut: Date,
+  dayBoundaryMinutes: number = 0
+): { payDay: string; start: Date; end: Date }[] => {
+  const parts: { payDay: string; start: Date; end: Date }[] = [];
+
+  let start = clockIn;
+  while (start < clockOut) {
+    const payDay = getPayDay(start, dayBoundaryMinutes);
+    const nextBoundary = addMinutes(addDays(new Date(`${payDay}T00:00:00`), 1), dayBoundaryMinutes);
+    const end = nextBoundary < clockOut ? nextBoundary : clockOut;
+    parts.push({ payDay, start, end });
+    start = end;
   }
+
+  return parts;
 };
 
 /**
- * Round OT minutes to 30-minute blocks with 7-minute grace.
- * - Remainder 0-7 mins: do not round up
- * - Remainder 8-29 mins: round up to next 30-min block
+ * Unpaid break periods of a completed session under a pay profile
+ * Logged breaks are unpaid as recorded (a break still open at clock-out ends there).
+ * With no logged breaks, a session longer than auto_break_after_minutes loses
+ * auto_break_minutes straight after that mark, never going past clock-out.
  */
-const roundToBlocks = (minutes: number): number => {
-  if (minutes <= 0) return 0;
+export const getUnpaidBreaks = (
+  clockIn: Date,
+  clockOut: Date,
+  breaks: BreakPeriod[] | null | undefined,
+  profile: PayProfile = DEFAULT_PAY_PROFILE
+): { start: Date; end: Date }[] => {
+  const logged = (breaks || [])
+    .map((period) => ({
+      start: new Date(Math.max(new Date(period.start).getTime(), clockIn.getTime())),
+      end: new Date(Math.min(period.end ? new Date(period.end).getTime() : clockOut.getTime(), clockOut.getTime())),
+    }))
+    .filter((period) => period.end > period.start);
+
+  if ((breaks || []).length > 0) return logged;
+
+  const autoStart = addMinutes(clockIn, profile.auto_break_after_minutes);
+  if (profile.auto_break_minutes <= 0 || autoStart >= clockOut) return [];
+
+  const autoEnd = addMinutes(autoStart, profile.auto_break_minutes);
+  return [{ start: autoStart, end: autoEnd < clockOut ? autoEnd : clockOut }];
+};
 
-  const fullBlocks = Math.floor(minutes / BLOCK_MINUTES);
-  const remainder = minutes % BLOCK_MINUTES;
-  const extraBlock = remainder > 7 ? 1 : 0;
+// Whole minutes of the unpaid breaks that fall between start and end
+const breakMinutesWithin = (unpaidBreaks: { start: Date; end: Date }[], start: Date, end: Date): number =>
+  unpaidBreaks.reduce((total, period) => {
+    const overlapStart = period.start > start ? period.start : start;
+    const overlapEnd = period.end < end ? period.end : end;
+    return overlapEnd > overlapStart ? total + differenceInMinutes(overlapEnd, overlapStart) : total;
+  }, 0);
 
-  return (fullBlocks + extraBlock) * BLOCK_MINUTES;
+/**
+ * Total minutes worked on each pay day by a set of completed sessions
+ * Used as the "earlier today" minutes for sessions that follow them. Unpaid breaks
+ * are left out, using the break policy of the profile given.
+ */
+export const sumMinutesByPayDay = (
+  sessions: { clock_in: string; clock_out: string | null; breaks?: BreakPeriod[] | null }[],
+  profile: PayProfile = DEFAULT_PAY_PROFILE
+): Record<string, number> => {
+  const totals: Record<string, number> = {};
+
+  sessions.forEach((session) => {
+    if (!session.clock_out) return;
+    const clockIn = new Date(session.clock_in);
+    const clockOut = new Date(session.clock_out);
+    const unpaidBreaks = getUnpaidBreaks(clockIn, clockOut, session.breaks, profile);
+
+    splitShiftIntoDays(clockIn, clockOut, profile.day_boundary_minutes)
+      .forEach(({ payDay, start, end }) => {
+        const minutes = differenceInMinutes(end, start) - breakMinutesWithin(unpaidBreaks, start, end);
+        totals[payDay] = (totals[payDay] || 0) + minutes;
+      });
+  });
+
+  return totals;
+};
+
+/**
+ * Rate the part of a shift that falls on one pay day
+ */
+const rateDaySegment = (
+  payDay: string,
+  start: Date,
+  end: Date,
+  minutes: number,
+  breakMinutes: number,
+  dayType: DayType,
+  priorMinutes: number,
+  profile: PayProfile
+): OTDaySegment => {
+  const segment: OTDaySegment = {
+    payDay,
+    start: start.toISOString(),
+    end: end.toISOString(),
+    minutes,
+    breakMinutes,
+    dayType,
+    priorMinutes,
+    fixedOTMinutes: 0,
+    otMinutes1_5x: 0,
+    otMinutes2x: 0,
+    otMinutes3x: 0,
+    paidMinutes1_5x: 0,
+    paidMinutes2x: 0,
+    paidMinutes3x: 0,
+    otAmount1_5x: 0,
+    otAmount2x: 0,
+    otAmount3x: 0,
+    totalOTAmount: 0,
+  };
+
+  if (dayType === 'weekday') {
+    // Weekdays: first 9 hours of the day standard work, then OT at 1.5x
+    const standardMinutes = Math.max(0, Math.min(minutes, profile.weekday_standard_minutes - priorMinutes));
+    segment.fixedOTMinutes = standardMinutes;
+    segment.otMinutes1_5x = minutes - standardMinutes;
+  } else if (dayType === 'weekend') {
+    // Weekends: all overtime at 1.5x
+    segment.otMinutes1_5x = minutes;
+  } else {
+    // Public Holidays: first 9 hours of the day at 2.0x, after that 3.0x
+    const firstTierMinutes = Math.max(0, Math.min(minutes, profile.public_holiday_first_tier_minutes - priorMinutes));
+    segment.otMinutes2x = firstTierMinutes;
+    segment.otMinutes3x = minutes - firstTierMinutes;
+  }
+
+  // Amounts are rounded to 30-minute blocks per day
+  const round = (otMinutes: number) => roundToBlocks(otMinutes, profile.block_minutes, profile.block_grace_minutes);
+  segment.paidMinutes1_5x = round(segment.otMinutes1_5x);
+  segment.paidMinutes2x = round(segment.otMinutes2x);
+  segment.paidMinutes3x = round(segment.otMinutes3x);
+
+  const rate1_5x = dayType === 'weekend' ? profile.rate_weekend : profile.rate_weekday_ot;
+  segment.otAmount1_5x = (segment.paidMinutes1_5x / 60) * profile.base_hourly_rate * rate1_5x;
+  segment.otAmount2x = (segment.paidMinutes2x / 60) * profile.base_hourly_rate * profile.rate_public_holiday;
+  segment.otAmount3x = (segment.paidMinutes3x / 60) * profile.base_hourly_rate * profile.rate_public_holiday_ot;
+  segment.totalOTAmount = segment.otAmount1_5x + segment.otAmount2x + segment.otAmount3x;
+
+  return segment;
 };
 
 /**
@@ -148,127 +242,91 @@ const roundToBlocks = (minutes: number): number => {
  * - Public Holidays: First 9 hours = 2.0x, After 9 hours = 3.0x
  * - Outstation Overnight: +RM 30 meal allowance per day
  * - Minimum Block: 30-minute units
+ * Thresholds, multipliers, rates and the allowance are taken from the pay profile
+ * (defaults shown above). The state (from the clock-in postcode) enables
+ * state-specific public holidays.
+ *
+ * Shifts that cross the profile's day boundary (midnight by default) are split
+ * into per-day segments, each rated by its own day type and the minutes already
+ * worked that day. The public holiday override only applies to the clock-in day.
+ * Unpaid breaks (see getUnpaidBreaks) are taken off each day before the
+ * thresholds are applied.
+ * @param priorMinutes Minutes worked earlier on each pay day (YYYY-MM-DD keys);
+ *                     a plain number applies to the clock-in day only
+ * @param breaks Breaks logged during the session
  */
 export const calculateOvertime = (
   clockIn: Date,
   clockOut: Date,
   isOutstationOvernight: boolean = false,
   isPublicHolidayOverride?: boolean,
-  cumulativeMinutesWorkedToday: number = 0 // Cumulative minutes worked earlier in the same day
+  priorMinutes: number | Record<string, number> = 0, // Cumulative minutes worked earlier in the same day
+  profile: PayProfile = DEFAULT_PAY_PROFILE,
+  state?: MalaysianState,
+  breaks?: BreakPeriod[] | null
 ): OTCalculationBreakdown => {
   const totalMinutes = differenceInMinutes(clockOut, clockIn);
-  const dayType = getDayType(clockIn, isPublicHolidayOverride);
+  const unpaidBreaks = totalMinutes > 0 ? getUnpaidBreaks(clockIn, clockOut, breaks, profile) : [];
+  const clockInPayDay = getPayDay(clockIn, profile.day_boundary_minutes);
+  const getPriorMinutes = (payDay: string): number =>
+    typeof priorMinutes === 'number'
+      ? (payDay === clockInPayDay ? priorMinutes : 0)
+      : priorMinutes[payDay] || 0;
+
+  // Rate each day of the shift separately
+  const parts = totalMinutes > 0 ? splitShiftIntoDays(clockIn, clockOut, profile.day_boundary_minutes) : [];
+  let minutesAssigned = 0;
+  const segments = parts.map(({ payDay, start, end }, index) => {
+    // The last part takes the remainder so segment minutes add up to the shift
+    const minutes = index === parts.length - 1
+      ? totalMinutes - minutesAssigned
+      : differenceInMinutes(end, start);
+    minutesAssigned += minutes;
+    const breakMinutes = Math.min(minutes, breakMinutesWithin(unpaidBreaks, start, end));
+
+    const dayType = getDayType(
+      new Date(`${payDay}T00:00:00`),
+      index === 0 ? isPublicHolidayOverride : undefined,
+      state
+    );
+    return rateDaySegment(payDay, start, end, minutes - breakMinutes, breakMinutes, dayType, getPriorMinutes(payDay), profile);
+  });
+
+  const sum = (pick: (segment: OTDaySegment) => number) =>
+    segments.reduce((total, segment) => total + pick(segment), 0);
+
+  const fixedOTMinutes = sum((segment) => segment.fixedOTMinutes);
+  const otMinutes1_5x = sum((segment) => segment.otMinutes1_5x);
+  const otMinutes2x = sum((segment) => segment.otMinutes2x);
+  const otMinutes3x = sum((segment) => segment.otMinutes3x);
 
-  // Initialize breakdown
   const breakdown: OTCalculationBreakdown = {
     duration: totalMinutes,
-    dayType,
-    fixedOTHours: 0,
-    fixedOTMinutes: 0,
+    breakMinutes: sum((segment) => segment.breakMinutes),
+    dayType: segments[0]?.dayType || getDayType(clockIn, isPublicHolidayOverride, state),
+    fixedOTHours: fixedOTMinutes / 60,
+    fixedOTMinutes,
     otHours1x: 0,
-    otHours1_5x: 0,
-    otHours2x: 0,
-    otHours3x: 0,
+    otHours1_5x: otMinutes1_5x / 60,
+    otHours2x: otMinutes2x / 60,
+    otHours3x: otMinutes3x / 60,
     otMinutes1x: 0,
-    otMinutes1_5x: 0,
-    otMinutes2x: 0,
-    otMinutes3x: 0,
+    otMinutes1_5x,
+    otMinutes2x,
+    otMinutes3x,
+    paidMinutes1_5x: sum((segment) => segment.paidMinutes1_5x),
+    paidMinutes2x: sum((segment) => segment.paidMinutes2x),
+    paidMinutes3x: sum((segment) => segment.paidMinutes3x),
     otAmount1x: 0,
-    otAmount1_5x: 0,
-    otAmount2x: 0,
-    otAmount3x: 0,
-    mealAllowance: isOutstationOvernight ? MEAL_ALLOWANCE : 0,
-    totalOTAmount: 0,
+    otAmount1_5x: sum((segment) => segment.otAmount1_5x),
+    otAmount2x: sum((segment) => segment.otAmount2x),
+    otAmount3x: sum((segment) => segment.otAmount3x),
+    mealAllowance: isOutstationOvernight ? profile.meal_allowance : 0,
+    totalOTAmount: sum((segment) => segment.totalOTAmount),
     totalAmount: 0,
+    segments,
   };
 
-  if (totalMinutes <= 0) {
-    breakdown.totalAmount = breakdown.mealAllowance;
-    return breakdown;
-  }
-
-  let remainingMinutes = totalMinutes;
-
-  if (dayType === 'weekday') {
-    // Weekdays: first 9 hours standard work, then OT at 1.5x
-    const totalCumulativeMinutes = cumulativeMinutesWorkedToday + remainingMinutes;
-
-    if (cumulativeMinutesWorkedToday >= WEEKDAY_FIXED_OT_MINUTES) {
-      breakdown.otMinutes1_5x = remainingMinutes;
-      breakdown.otHours1_5x = remainingMinutes / 60;
-    } else if (totalCumulativeMinutes > WEEKDAY_FIXED_OT_MINUTES) {
-      const minutesInFixedWork = WEEKDAY_FIXED_OT_MINUTES - cumulativeMinutesWorkedToday;
-      breakdown.fixedOTMinutes = minutesInFixedWork;
-      breakdown.fixedOTHours = minutesInFixedWork / 60;
-
-      const otMinutes = remainingMinutes - minutesInFixedWork;
-      breakdown.otMinutes1_5x = otMinutes;
-      breakdown.otHours1_5x = otMinutes / 60;
-    } else {
-      breakdown.fixedOTMinutes = remainingMinutes;
-      breakdown.fixedOTHours = remainingMinutes / 60;
-    }
-  } else if (dayType === 'weekend') {
-    // Weekends: all overtime at 1.5x
-    breakdown.otMinutes1_5x = remainingMinutes;
-    breakdown.otHours1_5x = remainingMinutes / 60;
-  } else if (dayType === 'public_holiday') {
-    // Public Holidays: First 9 hours = 2.0x, After 9 hours = 3.0x
-    // Calculate cumulative hours including previous sessions today
-    const totalCumulativeMinutes = cumulativeMinutesWorkedToday + remainingMinutes;
-    
-    if (cumulativeMinutesWorkedToday >= PUBLIC_HOLIDAY_FIRST_TIER_MINUTES) {
-      // Already worked 9+ hours today - all current session at 3.0x
-      breakdown.otMinutes3x = remainingMinutes;
-      breakdown.otHours3x = remainingMinutes / 60;
-    } else if (totalCumulativeMinutes > PUBLIC_HOLIDAY_FIRST_TIER_MINUTES) {
-      // Current session crosses the 9-hour threshold
-      const minutesAt2x = PUBLIC_HOLIDAY_FIRST_TIER_MINUTES - cumulativeMinutesWorkedToday;
-      breakdown.otMinutes2x = minutesAt2x;
-      breakdown.otHours2x = minutesAt2x / 60;
-      
-      const otMinutes = remainingMinutes - minutesAt2x;
-      breakdown.otMinutes3x = otMinutes;
-      breakdown.otHours3x = otMinutes / 60;
-    } else {
-      // Still within first 9 hours - all at 2.0x
-      breakdown.otMinutes2x = remainingMinutes;
-      breakdown.otHours2x = remainingMinutes / 60;
-    }
-  }
-
-  // Calculate amounts (rounded to 30-minute blocks)
-  if (breakdown.otMinutes1x > 0) {
-    const roundedMinutes = roundToBlocks(breakdown.otMinutes1x);
-    const hours = roundedMinutes / 60;
-    breakdown.otAmount1x = hours * BASE_HOURLY_RATE * RATE_1X;
-  }
-
-  if (breakdown.otMinutes1_5x > 0) {
-    const roundedMinutes = roundToBlocks(breakdown.otMinutes1_5x);
-    const hours = roundedMinutes / 60;
-    breakdown.otAmount1_5x = hours * BASE_HOURLY_RATE * RATE_1_5X;
-  }
-
-  if (breakdown.otMinutes2x > 0) {
-    const roundedMinutes = roundToBlocks(breakdown.otMinutes2x);
-    const hours = roundedMinutes / 60;
-    breakdown.otAmount2x = hours * BASE_HOURLY_RATE * RATE_2X;
-  }
-
-  if (breakdown.otMinutes3x > 0) {
-    const roundedMinutes = roundToBlocks(breakdown.otMinutes3x);
-    const hours = roundedMinutes / 60;
-    breakdown.otAmount3x = hours * BASE_HOURLY_RATE * RATE_3X;
-  }
-
-  // Calculate totals
-  breakdown.totalOTAmount = 
-    breakdown.otAmount1x +
-    breakdown.otAmount1_5x +
-    breakdown.otAmount2x +
-    breakdown.otAmount3x;
-
   breakdown.totalAmount = breakdown.totalOTAmount + breakdown.mealAllowance;
 
   return breakdown;
@@ -281,40 +339,46 @@ export const performClockIn = async (
   userId: string,
   location?: { lat: number, lng: number, postcode: string },
   checkInLocation?: string,
-  isPublicHoliday?: boolean
+  isPublicHoliday?: boolean,
+  clockInTime: Date = new Date(), // Device time of the punch (earlier when synced from the offline queue)
+  outsideReason?: string // Why the driver clocked in outside every site
 ) => {
-  const clockInTime = new Date();
   const clockInTimeStr = clockInTime.toISOString();
   
-  // Determine day type with manual override if provided
-  const dayType = getDayType(clockInTime, isPublicHoliday);
-  
   // If location string not provided but coordinates are, fetch it
   let fullLocation = checkInLocation;
   if (!fullLocation && location?.lat && location?.lng) {
-    fullLocation = await getFullLocationAddress(location.lat, location.lng);
+    fullLocation = (await reverseGeocode(location.lat, location.lng)).address;
   }
 
   const { data, error } = await supabase
     .from('work_logs')
     .insert([
       {
+        // Day type, duration and OT are filled in by the database
         user_id: userId,
         clock_in: clockInTimeStr,
-        duration_minutes: 0,
-        overtime_amount: 0,
         clock_in_lat: location?.lat,
         clock_in_lng: location?.lng,
         clock_in_postcode: location?.postcode,
         check_in_location: fullLocation,
         is_public_holiday: isPublicHoliday || false,
-        day_type: dayType
+        clock_in_outside_reason: outsideReason?.trim() || null,
       }
     ])
     .select()
     .single();
 
-  if (error) throw error;
+  if (error) {
+    // Unique index allows only one open session per driver
+    if (error.code === '23505') {
+      throw Object.assign(
+        new Error('You already have an open session. Clock out before clocking in again.'),
+        { code: error.code }
+      );
+    }
+    throw error;
+  }
   return data;
 };
 
@@ -323,203 +387,98 @@ export const performClockIn = async (
  */
 export const performClockOut = async (
   logId: string,
-  clockInTimeStr: string,
   location?: { lat: number, lng: number, postcode: string },
   isOutstationOvernight: boolean = false,
-  checkOutLocation?: string
+  checkOutLocation?: string,
+  clockOut: Date = new Date(), // Device time of the punch (earlier when synced from the offline queue)
+  outsideReason?: string // Why the driver clocked out outside every site
 ) => {
-  // Fetch existing work log to get stored public holiday status
-  const { data: existingLog, error: fetchError } = await supabase
-    .from('work_logs')
-    .select('is_public_holiday, user_id')
-    .eq('id', logId)
-    .single();
-
-  if (fetchError) {
-    console.error('Error fetching work log:', fetchError);
-  }
-
-  const clockIn = new Date(clockInTimeStr);
-  const clockOut = new Date(); // Now
-  const clockOutTimeStr = clockOut.toISOString();
-
-  // Use stored public holiday status if available
-  const isPublicHoliday = existingLog?.is_public_holiday || false;
-  
-  // Recalculate day_type based on clock_in date and is_public_holiday to ensure consistency
-  // This fixes cases where day_type might have been incorrectly stored (e.g., old data)
-  const dayType = getDayType(clockIn, isPublicHoliday);
-  
-  // Calculate cumulative minutes worked earlier in the same day (before current session)
-  // Get the date in YYYY-MM-DD format for comparison
-  const dateStr = format(clockIn, 'yyyy-MM-dd');
-  const dayStart = new Date(dateStr + 'T00:00:00');
-  const dayEnd = new Date(dateStr + 'T23:59:59');
-  
-  let cumulativeMinutes = 0;
-  if (existingLog?.user_id) {
-    // Fetch all completed work logs for the same day, excluding the current one
-    const { data: sameDayLogs, error: sameDayError } = await supabase
-      .from('work_logs')
-      .select('duration_minutes, clock_in')
-      .eq('user_id', existingLog.user_id)
-      .not('clock_out', 'is', null)
-      .neq('id', logId) // Exclude current log
-      .gte('clock_in', dayStart.toISOString())
-      .lte('clock_in', dayEnd.toISOString());
-    
-    if (!sameDayError && sameDayLogs) {
-      // Sum up all durations from earlier sessions today
-      cumulativeMinutes = sameDayLogs.reduce((sum, log) => sum + (log.duration_minutes || 0), 0);
-    }
-  }
-  
-  const calculation = calculateOvertime(clockIn, clockOut, isOutstationOvernight, isPublicHoliday, cumulativeMinutes);
-
   // If location string not provided but coordinates are, fetch it
   let fullLocation = checkOutLocation;
   if (!fullLocation && location?.lat && location?.lng) {
-    fullLocation = await getFullLocationAddress(location.lat, location.lng);
+    fullLocation = (await reverseGeocode(location.lat, location.lng)).address;
   }
 
-  const { data, error } = await supabase
-    .from('work_logs')
-    .update({
-      clock_out: clockOutTimeStr,
-      duration_minutes: calculation.duration,
-      overtime_amount: calculation.totalOTAmount, // Use total OT amount (excluding meal allowance for OT field)
-      clock_out_lat: location?.lat,
-      clock_out_lng: location?.lng,
-      clock_out_postcode: location?.postcode,
-      check_out_location: fullLocation,
-      is_outstation: isOutstationOvernight,
-      day_type: dayType // Update day_type to ensure consistency with calculation
-    })
-    .eq('id', logId)
-    .select()
-    .single();
+  // Duration, day type and OT are calculated by the database with the pay rules
+  // in effect on the clock-in date
+  const { data, error } = await supabase.rpc('clock_out_work_log', {
+    p_log_id: logId,
+    p_clock_out: clockOut.toISOString(),
+    p_is_outstation: isOutstationOvernight,
+    p_clock_out_lat: location?.lat ?? null,
+    p_clock_out_lng: location?.lng ?? null,
+    p_clock_out_postcode: location?.postcode ?? null,
+    p_check_out_location: fullLocation ?? null,
+    p_outside_reason: outsideReason?.trim() || null,
+  });
 
   if (error) throw error;
   return data;
 };
 
 /**
- * Fetch Current Active Session (Not clocked out yet)
+ * Break the driver is on right now, if any
  */
-export const fetchActiveSession = async (userId: string): Promise<WorkLog | null> => {
-  const { data, error } = await supabase
-    .from('work_logs')
-    .select('*')
-    .eq('user_id', userId)
-    .is('clock_out', null)
-    .maybeSingle(); // Use maybeSingle to avoid 406 error if no rows
+export const getOpenBreak = (log: WorkLog): BreakPeriod | null => {
+  const last = log.breaks?.[log.breaks.length - 1];
+  return last && !last.end ? last : null;
+};
+
+/**
+ * Start a break in an open session (server time; needs a connection)
+ */
+export const startBreak = async (logId: string): Promise<WorkLog> => {
+  const { data, error } = await supabase.rpc('start_work_log_break', { p_log_id: logId });
 
   if (error) throw error;
   return data;
 };
 
 /**
- * Fetch Monthly Summary
+ * End the break in progress (server time; needs a connection)
  */
-export const fetchMonthlySummary = async (userId: string) => {
-  const now = new Date();
-  const start = startOfMonth(now).toISOString();
-  const end = endOfMonth(now).toISOString();
-
-  const { data, error } = await supabase
-    .from('work_logs')
-    .select('id, clock_in, clock_out, is_outstation, is_public_holiday, duration_minutes')
-    .eq('user_id', userId)
-    .gte('clock_in', start)
-    .lte('clock_in', end)
-    .not('clock_out', 'is', null);
+export const endBreak = async (logId: string): Promise<WorkLog> => {
+  const { data, error } = await supabase.rpc('end_work_log_break', { p_log_id: logId });
 
   if (error) throw error;
-
-  if (!data || data.length === 0) return 0;
-
-  // Recalculate OT using current rules and cumulative-per-day logic.
-  const sortedLogs = [...data].sort(
-    (a, b) => new Date(a.clock_in).getTime() - new Date(b.clock_in).getTime()
-  );
-  const cumulativeByDate = new Map<string, number>();
-
-  const total = sortedLogs.reduce((sum, log) => {
-    const clockIn = new Date(log.clock_in);
-    const clockOut = new Date(log.clock_out);
-    const dateKey = format(clockIn, 'yyyy-MM-dd');
-    const previousMinutes = cumulativeByDate.get(dateKey) || 0;
-
-    const breakdown = calculateOvertime(
-      clockIn,
-      clockOut,
-      Boolean(log.is_outstation),
-      Boolean(log.is_public_holiday),
-      previousMinutes
-    );
-
-    cumulativeByDate.set(dateKey, previousMinutes + (log.duration_minutes || 0));
-    return sum + breakdown.totalOTAmount;
-  }, 0);
-
-  return total;
+  return data;
 };
 
 /**
- * Fetch Recent Activity
+ * Fetch Current Active Session (Not clocked out yet)
  */
-export const fetchRecentLogs = async (userId: string): Promise<WorkLog[]> => {
+export const fetchActiveSession = async (userId: string): Promise<WorkLog | null> => {
+  // Sessions past the hard cap are closed first so they never show as running
+  await autoCloseStaleSessions();
+
   const { data, error } = await supabase
     .from('work_logs')
     .select('*')
     .eq('user_id', userId)
-    .not('clock_out', 'is', null)
+    .is('clock_out', null)
     .order('clock_in', { ascending: false })
-    .limit(5);
+    .limit(1) // Guard against duplicate open sessions from before the unique index
+    .maybeSingle(); // Use maybeSingle to avoid 406 error if no rows
 
   if (error) throw error;
-  if (!data || data.length === 0) return [];
-
-  // Recalculate displayed OT per entry so recent activity reflects current rules.
-  const recalculatedLogs = await Promise.all(
-    data.map(async (log) => {
-      const clockIn = new Date(log.clock_in);
-      const clockOut = log.clock_out ? new Date(log.clock_out) : null;
-      if (!clockOut) return log;
-
-      const dateStr = format(clockIn, 'yyyy-MM-dd');
-      const dayStart = new Date(`${dateStr}T00:00:00`);
-      const dayEnd = new Date(`${dateStr}T23:59:59`);
-
-      const { data: sameDayLogs } = await supabase
-        .from('work_logs')
-        .select('duration_minutes, clock_in')
-        .eq('user_id', userId)
-        .not('clock_out', 'is', null)
-        .neq('id', log.id)
-        .gte('clock_in', dayStart.toISOString())
-        .lte('clock_in', dayEnd.toISOString())
-        .lt('clock_in', log.clock_in);
-
-      const cumulativeMinutes =
-        sameDayLogs?.reduce((sum, item) => sum + (item.duration_minutes || 0), 0) || 0;
-
-      const breakdown = calculateOvertime(
-        clockIn,
-        clockOut,
-        Boolean(log.is_outstation),
-        Boolean(log.is_public_holiday),
-        cumulativeMinutes
-      );
+  return data;
+};
 
-      return {
-        ...log,
-        overtime_amount: breakdown.totalOTAmount,
-      };
-    })
-  );
+/**
+ * Fetch every open session (supervisors see every driver), latest first
+ * Stale sessions are closed once for everyone rather than once per driver.
+ */
+export const fetchOpenSessions = async (): Promise<WorkLog[]> => {
+  await autoCloseStaleSessions();
+
+  const { data, error } = await supabase
+    .from('work_logs')
+    .select('*')
+    .is('clock_out', null)
+    .order('clock_in', { ascending: false });
 
-  return recalculatedLogs;
+  if (error) throw error;
+  return data || [];
 };
 
 /**
@@ -530,6 +489,9 @@ export const fetchMonthlyLogs = async (userId: string, year: number, month: numb
   const start = startOfMonth(targetDate).toISOString();
   const end = endOfMonth(targetDate).toISOString();
 
+  // Make sure the holiday calendar covers this month for day type detection
+  await loadPublicHolidays(year);
+
   const { data, error } = await supabase
     .from('work_logs')
     .select('*')
@@ -543,6 +505,30 @@ export const fetchMonthlyLogs = async (userId: string, year: number, month: numb
   return data || [];
 };
 
+/**
+ * Fetch every completed log that started in [from, to), oldest first
+ * @param userId Limit to one driver; omit for every driver the caller can see
+ */
+export const fetchCompletedLogsInRange = async (from: Date, to: Date, userId?: string): Promise<WorkLog[]> => {
+  const logs: WorkLog[] = [];
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    let query = supabase
+      .from('work_logs')
+      .select('*')
+      .not('clock_out', 'is', null)
+      .gte('clock_in', from.toISOString())
+      .lt('clock_in', to.toISOString())
+      .order('clock_in', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+    if (userId) query = query.eq('user_id', userId);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    logs.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return logs;
+  }
+};
+
 /**
  * Exported constants for external use
  */
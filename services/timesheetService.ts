@@ -0,0 +1,138 @@
+import { format } from 'date-fns';
+import { supabase } from '../supabaseClient';
+import { PayrollResult, Timesheet, TimesheetStatus } from '../types';
+
+/**
+ * Display labels for each timesheet status
+ */
+export const TIMESHEET_STATUS_LABELS: Record<TimesheetStatus, string> = {
+  submitted: 'Submitted',
+  approved: 'Approved',
+  rejected: 'Rejected',
+};
+
+const toPeriodStart = (year: number, month: number): string =>
+  format(new Date(year, month - 1, 1), 'yyyy-MM-dd'); // month is 1-based
+
+/**
+ * Whether a timesheet closes its month (no further changes to its logs)
+ */
+export const isClosed = (timesheet: Timesheet | null | undefined): boolean =>
+  timesheet?.status === 'approved';
+
+/**
+ * Fetch a driver's timesheet for a month, if one was submitted
+ */
+export const fetchTimesheet = async (userId: string, year: number, month: number): Promise<Timesheet | null> => {
+  const { data, error } = await supabase
+    .from('timesheets')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('period_start', toPeriodStart(year, month))
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Fetch a driver's approved timesheets for a range of months of one year
+ * @param fromMonth First month, 1-based
+ * @param toMonth Last month, 1-based (inclusive)
+ */
+export const fetchApprovedTimesheets = async (
+  userId: string,
+  year: number,
+  fromMonth: number,
+  toMonth: number
+): Promise<Timesheet[]> => {
+  const { data, error } = await supabase
+    .from('timesheets')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('status', 'approved')
+    .gte('period_start', toPeriodStart(year, fromMonth))
+    .lte('period_start', toPeriodStart(year, toMonth));
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Fetch approved timesheets for the months from one date to another
+ * @param userId Limit to one driver; omit for every driver the caller can see
+ */
+export const fetchApprovedTimesheetsInRange = async (from: Date, to: Date, userId?: string): Promise<Timesheet[]> => {
+  let query = supabase
+    .from('timesheets')
+    .select('*')
+    .eq('status', 'approved')
+    .gte('period_start', toPeriodStart(from.getFullYear(), from.getMonth() + 1))
+    .lte('period_start', toPeriodStart(to.getFullYear(), to.getMonth() + 1));
+  if (userId) query = query.eq('user_id', userId);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Fetch timesheets waiting for approval (supervisors see every driver)
+ */
+export const fetchSubmittedTimesheets = async (): Promise<Timesheet[]> => {
+  const { data, error } = await supabase
+    .from('timesheets')
+    .select('*')
+    .eq('status', 'submitted')
+    .order('submitted_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Submit the signed-in driver's month for approval (or resubmit a rejected one)
+ */
+export const submitTimesheet = async (year: number, month: number): Promise<Timesheet> => {
+  const { data, error } = await supabase.rpc('submit_timesheet', {
+    p_period_start: toPeriodStart(year, month),
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Approve a timesheet, freezing the month's payroll as calculated by the caller
+ * (supervisors only). review_timesheet checks the payroll against the stored work
+ * logs, leave and claims first and refuses it if they no longer match.
+ */
+export const approveTimesheet = async (
+  timesheetId: string,
+  payroll: PayrollResult,
+  reviewNotes?: string
+): Promise<Timesheet> => {
+  const { data, error } = await supabase.rpc('review_timesheet', {
+    p_timesheet_id: timesheetId,
+    p_approve: true,
+    p_review_notes: reviewNotes?.trim() || null,
+    p_snapshot: payroll,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+/**
+ * Send a timesheet back to the driver (supervisors only)
+ */
+export const rejectTimesheet = async (timesheetId: string, reviewNotes?: string): Promise<Timesheet> => {
+  const { data, error } = await supabase.rpc('review_timesheet', {
+    p_timesheet_id: timesheetId,
+    p_approve: false,
+    p_review_notes: reviewNotes?.trim() || null,
+  });
+
+  if (error) throw error;
+  return data;
+};
@@ -0,0 +1,31 @@
+import { describe, expect, it, vi } from 'vitest';
+import { supabase } from '../supabaseClient';
+import { validateWorkLogImport } from './workLogSpreadsheetService';
+import { fakeSupabase } from './__fixtures__/supabase';
+
+vi.mock('../supabaseClient', () => ({ supabase: {} }));
+
+describe('validateWorkLogImport', () => {
+  it('reads quoted locations with commas and newlines from a CSV file', async () => {
+    Object.assign(supabase, fakeSupabase());
+    const text = [
+      'clock_in,clock_out,day_type,is_public_holiday,is_outstation,check_in_location,check_out_location',
+      '2025-01-06 08:00,2025-01-06 19:00,weekday,no,yes,"Lot 5, Jalan Kebun","Port Klang,',
+      'Gate 3"',
+    ].join('\n');
+
+    const { rows, errors } = await validateWorkLogImport('driver-1', new File([text], 'logs.csv'));
+
+    expect(errors).toEqual([]);
+    expect(rows).toEqual([{
+      rowNumber: 2,
+      clock_in: new Date(2025, 0, 6, 8).toISOString(),
+      clock_out: new Date(2025, 0, 6, 19).toISOString(),
+      day_type: 'weekday',
+      is_public_holiday: false,
+      is_outstation: true,
+      check_in_location: 'Lot 5, Jalan Kebun',
+      check_out_location: 'Port Klang,\nGate 3',
+    }]);
+  });
+});
@@ -0,0 +1,345 @@
+import { format, parse, isValid } from 'date-fns';
+import ExcelJS from 'exceljs';
+import { supabase } from '../supabaseClient';
+import { MonthlyLogRecord, MonthlySummary, DayType, WorkLogImportRow, WorkLogImportError } from '../types';
+import { getDayType } from './timeService';
+import { loadPublicHolidays } from './holidayService';
+import { parseCsv } from './csvService';
+
+const DAY_TYPES: DayType[] = ['weekday', 'weekend', 'public_holiday'];
+
+/**
+ * Columns of the exported Detailed Records sheet
+ */
+const EXPORT_HEADERS = [
+  'Date',
+  'Day Type',
+  'Clock In',
+  'Clock Out',
+  'Duration (min)',
+  'Check In Location',
+  'Check Out Location',
+  'Public Holiday',
+  'Outstation',
+  'OT 1.5x (min)',
+  'OT 1.5x (RM)',
+  'OT 2x (min)',
+  'OT 2x (RM)',
+  'OT 3x (min)',
+  'OT 3x (RM)',
+  'Total OT (RM)',
+  'Meal Allowance (RM)',
+  'Total (RM)',
+];
+
+/**
+ * Columns expected in an import file (header row, any order)
+ * clock_in and clock_out are required; the rest are optional.
+ */
+export const IMPORT_HEADERS = [
+  'clock_in',
+  'clock_out',
+  'day_type',
+  'is_public_holiday',
+  'is_outstation',
+  'check_in_location',
+  'check_out_location',
+];
+
+/**
+ * Build one spreadsheet row per work log with the recalculated OT breakdown
+ */
+const toExportRows = (records: MonthlyLogRecord[]): (string | number)[][] =>
+  records.map((record) => {
+    const log = record.workLog;
+    const breakdown = record.breakdown;
+    const round2 = (value: number | undefined) => Number((value || 0).toFixed(2));
+
+    return [
+      record.date,
+      record.dayType,
+      format(new Date(log.clock_in), 'yyyy-MM-dd HH:mm'),
+      log.clock_out ? format(new Date(log.clock_out), 'yyyy-MM-dd HH:mm') : '',
+      log.duration_minutes,
+      log.check_in_location || log.clock_in_postcode || '',
+      log.check_out_location || log.clock_out_postcode || '',
+      record.isPublicHoliday ? 'Yes' : 'No',
+      record.isOutstation ? 'Yes' : 'No',
+      breakdown?.otMinutes1_5x || 0,
+      round2(breakdown?.otAmount1_5x),
+      breakdown?.otMinutes2x || 0,
+      round2(breakdown?.otAmount2x),
+      breakdown?.otMinutes3x || 0,
+      round2(breakdown?.otAmount3x),
+      round2(record.otAmount),
+      round2(record.allowanceAmount),
+      round2(record.otAmount + record.allowanceAmount),
+    ];
+  });
+
+/**
+ * Trigger a browser download for a generated file
+ */
+const downloadBlob = (blob: Blob, filename: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Quote a CSV cell when it contains a delimiter, quote or newline
+ */
+const escapeCsvCell = (value: string | number): string => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Export a month of work logs as CSV
+ */
+export const exportWorkLogsCsv = (records: MonthlyLogRecord[], year: number, month: number): void => {
+  const lines = [EXPORT_HEADERS, ...toExportRows(records)].map((row) => row.map(escapeCsvCell).join(','));
+  // BOM so Excel opens the file as UTF-8
+  const blob = new Blob(['\uFEFF' + lines.join('\r\n')], { type: 'text/csv;charset=utf-8' });
+  downloadBlob(blob, `work-logs-${year}-${String(month).padStart(2, '0')}.csv`);
+};
+
+/**
+ * Export a month of work logs as XLSX (Detailed Records + Summary sheets)
+ */
+export const exportWorkLogsXlsx = async (
+  records: MonthlyLogRecord[],
+  summary: MonthlySummary,
+  year: number,
+  month: number
+): Promise<void> => {
+  const workbook = new ExcelJS.Workbook();
+  workbook.created = new Date();
+
+  const detail = workbook.addWorksheet('Detailed Records');
+  detail.addRow(EXPORT_HEADERS).font = { bold: true };
+  toExportRows(records).forEach((row) => detail.addRow(row));
+  detail.columns.forEach((column, index) => {
+    column.width = index === 5 || index === 6 ? 40 : 16;
+  });
+  detail.views = [{ state: 'frozen', ySplit: 1 }];
+
+  const summarySheet = workbook.addWorksheet('Summary');
+  summarySheet.addRow(['Item', 'Amount (RM)']).font = { bold: true };
+  summarySheet.addRow(['Basic Salary', summary.basicSalary]);
+  summarySheet.addRow(['Total OT Pay', Number(summary.totalOTPay.toFixed(2))]);
+  summarySheet.addRow(['Outstation Meal Allowance', summary.outstationMealAllowances]);
+  summarySheet.addRow(['Attendance Allowance', summary.fullAttendanceReward]);
+  summarySheet.addRow(['Food Allowance', summary.foodAllowance]);
+  summarySheet.addRow(['Approved Claims', Number(summary.approvedClaims.toFixed(2))]);
+  summarySheet.addRow(['Grand Total', Number(summary.grandTotal.toFixed(2))]).font = { bold: true };
+  summarySheet.getColumn(1).width = 30;
+  summarySheet.getColumn(2).width = 16;
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  const blob = new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+  downloadBlob(blob, `work-logs-${year}-${String(month).padStart(2, '0')}.xlsx`);
+};
+
+/**
+ * Read the first worksheet of an XLSX file into rows of cells
+ */
+const readXlsxRows = async (file: File): Promise<(string | Date)[][]> => {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(await file.arrayBuffer());
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  const rows: (string | Date)[][] = [];
+  sheet.eachRow({ includeEmpty: false }, (row) => {
+    const cells: (string | Date)[] = [];
+    row.eachCell({ includeEmpty: true }, (cell, colNumber) => {
+      const value = cell.value;
+      cells[colNumber - 1] = value instanceof Date ? value : cell.text;
+    });
+    rows.push(Array.from(cells, (value) => value ?? ''));
+  });
+  return rows;
+};
+
+/**
+ * Parse a timestamp cell (ISO, "yyyy-MM-dd HH:mm[:ss]" or an Excel date)
+ */
+const parseTimestamp = (value: string | Date | undefined): Date | null => {
+  if (value instanceof Date) {
+    if (!isValid(value)) return null;
+    // Excel stores wall-clock time without a zone; ExcelJS returns it as UTC
+    return new Date(
+      value.getUTCFullYear(), value.getUTCMonth(), value.getUTCDate(),
+      value.getUTCHours(), value.getUTCMinutes(), value.getUTCSeconds()
+    );
+  }
+  const text = (value || '').trim();
+  if (!text) return null;
+
+  for (const pattern of ['yyyy-MM-dd HH:mm:ss', 'yyyy-MM-dd HH:mm', 'd/M/yyyy HH:mm', 'd/M/yyyy h:mm a']) {
+    const parsed = parse(text, pattern, new Date());
+    if (isValid(parsed)) return parsed;
+  }
+
+  const iso = new Date(text);
+  return isValid(iso) ? iso : null;
+};
+
+const parseBoolean = (value: string | Date | undefined): boolean => {
+  const text = String(value ?? '').trim().toLowerCase();
+  return ['true', 'yes', 'y', '1'].includes(text);
+};
+
+/**
+ * Parse and validate an uploaded file of historical work logs
+ * Checks every row for unreadable timestamps, clock_out before clock_in, invalid
+ * or mismatching day types, and overlaps with other rows or with existing logs.
+ * @returns Valid rows (only meaningful when errors is empty) and all errors found
+ */
+export const validateWorkLogImport = async (
+  userId: string,
+  file: File
+): Promise<{ rows: WorkLogImportRow[]; errors: WorkLogImportError[] }> => {
+  const isXlsx = file.name.toLowerCase().endsWith('.xlsx');
+  const table = isXlsx ? await readXlsxRows(file) : parseCsv(await file.text());
+
+  const errors: WorkLogImportError[] = [];
+  if (table.length < 2) {
+    return { rows: [], errors: [{ rowNumber: 1, message: 'File has no data rows' }] };
+  }
+
+  const header = table[0].map((cell) => String(cell).trim().toLowerCase());
+  const column = (name: string) => header.indexOf(name);
+  if (column('clock_in') === -1 || column('clock_out') === -1) {
+    return { rows: [], errors: [{ rowNumber: 1, message: `Header must include clock_in and clock_out (columns: ${IMPORT_HEADERS.join(', ')})` }] };
+  }
+
+  // Load holiday calendars for every year in the file before checking day types
+  const years = new Set<number>();
+  table.slice(1).forEach((cells) => {
+    const clockIn = parseTimestamp(cells[column('clock_in')]);
+    if (clockIn) years.add(clockIn.getFullYear());
+  });
+  await Promise.all(Array.from(years).map((year) => loadPublicHolidays(year)));
+
+  const rows: WorkLogImportRow[] = [];
+  table.slice(1).forEach((cells, index) => {
+    const rowNumber = index + 2;
+    const cell = (name: string) => (column(name) === -1 ? undefined : cells[column(name)]);
+
+    const clockIn = parseTimestamp(cell('clock_in'));
+    const clockOut = parseTimestamp(cell('clock_out'));
+    if (!clockIn || !clockOut) {
+      errors.push({ rowNumber, message: `Unreadable ${!clockIn ? 'clock_in' : 'clock_out'} "${String(cell(!clockIn ? 'clock_in' : 'clock_out') ?? '')}"` });
+      return;
+    }
+    if (clockOut <= clockIn) {
+      errors.push({ rowNumber, message: 'clock_out is before or equal to clock_in' });
+      return;
+    }
+
+    const isPublicHoliday = parseBoolean(cell('is_public_holiday'));
+    const rawDayType = String(cell('day_type') ?? '').trim().toLowerCase();
+    const expectedDayType = getDayType(clockIn, isPublicHoliday);
+    let dayType = expectedDayType;
+    if (rawDayType) {
+      if (!DAY_TYPES.includes(rawDayType as DayType)) {
+        errors.push({ rowNumber, message: `Invalid day_type "${rawDayType}" (use weekday, weekend or public_holiday)` });
+        return;
+      }
+      // public_holiday is accepted as a manual override; other types must match the date
+      if (rawDayType !== 'public_holiday' && rawDayType !== expectedDayType) {
+        errors.push({ rowNumber, message: `day_type "${rawDayType}" does not match ${format(clockIn, 'EEE d MMM yyyy')} (${expectedDayType})` });
+        return;
+      }
+      dayType = rawDayType as DayType;
+    }
+
+    rows.push({
+      rowNumber,
+      clock_in: clockIn.toISOString(),
+      clock_out: clockOut.toISOString(),
+      day_type: dayType,
+      is_public_holiday: isPublicHoliday || dayType === 'public_holiday',
+      is_outstation: parseBoolean(cell('is_outstation')),
+      check_in_location: String(cell('check_in_location') ?? '').trim() || undefined,
+      check_out_location: String(cell('check_out_location') ?? '').trim() || undefined,
+    });
+  });
+
+  // Overlaps between rows of the file
+  const sorted = [...rows].sort((a, b) => a.clock_in.localeCompare(b.clock_in));
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i].clock_in < sorted[i - 1].clock_out) {
+      errors.push({ rowNumber: sorted[i].rowNumber, message: `Overlaps row ${sorted[i - 1].rowNumber}` });
+    }
+  }
+
+  // Overlaps with logs already in work_logs
+  if (sorted.length > 0) {
+    const { data: existing, error } = await supabase
+      .from('work_logs')
+      .select('clock_in, clock_out')
+      .eq('user_id', userId)
+      .lte('clock_in', sorted[sorted.length - 1].clock_out)
+      .or(`clock_out.is.null,clock_out.gte.${sorted[0].clock_in}`);
+
+    if (error) throw error;
+
+    rows.forEach((row) => {
+      const clash = (existing || []).find((log) => {
+        const logOut = log.clock_out || new Date().toISOString();
+        return new Date(row.clock_in) < new Date(logOut) && new Date(log.clock_in) < new Date(row.clock_out);
+      });
+      if (clash) {
+        errors.push({ rowNumber: row.rowNumber, message: `Overlaps existing log starting ${format(new Date(clash.clock_in), 'd MMM yyyy h:mm a')}` });
+      }
+    });
+  }
+
+  errors.sort((a, b) => a.rowNumber - b.rowNumber);
+  return { rows, errors };
+};
+
+/**
+ * Import validated rows for a driver (supervisors only)
+ * Rows go through import_work_logs(), which checks clock order and overlaps with
+ * the driver's stored logs again on the server, and inserts them oldest first so
+ * earlier sessions on the same day count towards the later ones.
+ * Duration, day type and OT are calculated by the database the same way as at
+ * clock-out.
+ * @returns Number of logs inserted
+ */
+export const importWorkLogs = async (userId: string, rows: WorkLogImportRow[]): Promise<number> => {
+  if (rows.length === 0) return 0;
+
+  const { data, error } = await supabase.rpc('import_work_logs', {
+    p_user_id: userId,
+    p_logs: rows.map((row) => ({
+      clock_in: row.clock_in,
+      clock_out: row.clock_out,
+      check_in_location: row.check_in_location,
+      check_out_location: row.check_out_location,
+      is_public_holiday: row.is_public_holiday,
+      is_outstation: row.is_outstation,
+    })),
+  });
+
+  if (error) throw error;
+  return data || 0;
+};
+
+/**
+ * Download an empty import template
+ */
+export const downloadImportTemplate = (): void => {
+  const example = ['2026-01-05 08:00', '2026-01-05 19:30', 'weekday', 'no', 'no', 'Depot', 'Customer site'];
+  const blob = new Blob([[IMPORT_HEADERS, example].map((row) => row.join(',')).join('\r\n')], { type: 'text/csv;charset=utf-8' });
+  downloadBlob(blob, 'work-logs-import-template.csv');
+};
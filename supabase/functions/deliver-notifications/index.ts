@@ -0,0 +1,223 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import webpush from 'npm:web-push@3';
+
+/**
+ * Reminder delivery (Supabase Edge Function)
+ * Run every minute by pg_cron (see database_notifications.sql). Queues due
+ * reminders for every driver, then sends each pending one by Web Push to the
+ * driver's subscribed devices, or by email when push is off or no device is
+ * subscribed. Email goes through a pluggable mailer chosen by MAILER; until one
+ * is configured the console mailer only logs the message. A reminder is only marked with a channel once that channel
+ * accepted it; failed sends are released with the error and retried on the
+ * next run, and reminders with nowhere to go are closed with the reason.
+ *
+ * Secrets:
+ * - SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY (set by Supabase)
+ * - VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY, VAPID_SUBJECT (mailto: or https: contact)
+ * - MAILER: console (default), resend or webhook
+ * - RESEND_API_KEY, EMAIL_FROM (resend mailer)
+ * - MAILER_URL (webhook mailer: the message is posted there as JSON)
+ */
+
+type Channel = 'push' | 'email';
+
+interface Notification {
+  id: string;
+  user_id: string;
+  title: string;
+  body: string;
+}
+
+interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+interface Mailer {
+  name: string;
+  configured: boolean;
+  send: (message: EmailMessage) => Promise<void>;
+}
+
+interface Preferences {
+  push_enabled: boolean;
+  email_enabled: boolean;
+}
+
+// Matches the column defaults for drivers who never saved preferences
+const DEFAULT_PREFERENCES: Preferences = { push_enabled: true, email_enabled: true };
+
+const BATCH_SIZE = 100;
+
+const env = (name: string): string | undefined => Deno.env.get(name) || undefined;
+
+const supabase = createClient(env('SUPABASE_URL')!, env('SUPABASE_SERVICE_ROLE_KEY')!, {
+  auth: { persistSession: false },
+});
+
+const pushConfigured = Boolean(env('VAPID_PUBLIC_KEY') && env('VAPID_PRIVATE_KEY') && env('VAPID_SUBJECT'));
+if (pushConfigured) {
+  webpush.setVapidDetails(env('VAPID_SUBJECT')!, env('VAPID_PUBLIC_KEY')!, env('VAPID_PRIVATE_KEY')!);
+}
+
+/**
+ * Push to every device the driver subscribed; subscriptions the push service
+ * reports as gone are removed
+ * @returns Whether at least one device accepted the push
+ */
+const sendPush = async (notification: Notification): Promise<boolean> => {
+  const { data: subscriptions, error } = await supabase
+    .from('push_subscriptions')
+    .select('id, endpoint, p256dh, auth')
+    .eq('user_id', notification.user_id);
+  if (error) throw error;
+
+  const payload = JSON.stringify({ id: notification.id, title: notification.title, body: notification.body, url: '/' });
+  let sent = false;
+  let lastError: unknown = null;
+
+  for (const subscription of subscriptions || []) {
+    try {
+      await webpush.sendNotification(
+        { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+        payload
+      );
+      sent = true;
+    } catch (err: any) {
+      if (err?.statusCode === 404 || err?.statusCode === 410) {
+        await supabase.from('push_subscriptions').delete().eq('id', subscription.id);
+      } else {
+        lastError = err;
+      }
+    }
+  }
+
+  if (!sent && lastError) throw lastError;
+  return sent;
+};
+
+/**
+ * Local stand-in: logs the email instead of sending it
+ * Used until a mailer is configured, so reminders are not retried forever.
+ */
+const consoleMailer: Mailer = {
+  name: 'console',
+  configured: true,
+  send: async (message) => {
+    console.info(`[mail] To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`);
+  },
+};
+
+/**
+ * Sends through the Resend API
+ */
+const resendMailer: Mailer = {
+  name: 'resend',
+  configured: Boolean(env('RESEND_API_KEY') && env('EMAIL_FROM')),
+  send: async (message) => {
+    const response = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${env('RESEND_API_KEY')}` },
+      body: JSON.stringify({ from: env('EMAIL_FROM'), ...message }),
+    });
+    if (!response.ok) throw new Error(`Email provider returned ${response.status}: ${await response.text()}`);
+  },
+};
+
+/**
+ * Posts the email as JSON to MAILER_URL, a relay that holds the provider's credentials
+ */
+const webhookMailer: Mailer = {
+  name: 'webhook',
+  configured: Boolean(env('MAILER_URL')),
+  send: async (message) => {
+    const response = await fetch(env('MAILER_URL')!, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(message),
+    });
+    if (!response.ok) throw new Error(`Mailer returned ${response.status}`);
+  },
+};
+
+const MAILERS: Record<string, Mailer> = {
+  [consoleMailer.name]: consoleMailer,
+  [resendMailer.name]: resendMailer,
+  [webhookMailer.name]: webhookMailer,
+};
+
+const selectMailer = (): Mailer => {
+  const chosen = MAILERS[env('MAILER') || consoleMailer.name];
+  if (chosen?.configured) return chosen;
+  console.warn(`Mailer "${env('MAILER')}" is unknown or missing its settings; logging emails instead`);
+  return consoleMailer;
+};
+
+const mailer = selectMailer();
+
+/**
+ * Email the reminder to the driver's sign-in address
+ * @returns Whether the driver has an address to send to
+ */
+const sendEmail = async (notification: Notification): Promise<boolean> => {
+  const { data, error } = await supabase.auth.admin.getUserById(notification.user_id);
+  if (error) throw error;
+  const to = data.user?.email;
+  if (!to) return false;
+
+  await mailer.send({ to, subject: notification.title, text: notification.body });
+  return true;
+};
+
+/**
+ * Send one reminder by the driver's preferred channel
+ * @returns The channel that accepted it, or null when there was nothing to send it by
+ */
+const deliver = async (notification: Notification, preferences: Preferences): Promise<Channel | null> => {
+  if (preferences.push_enabled && pushConfigured && await sendPush(notification)) return 'push';
+  if (preferences.email_enabled && await sendEmail(notification)) return 'email';
+  return null;
+};
+
+Deno.serve(async () => {
+  const { data: queued, error: queueError } = await supabase.rpc('queue_notification_reminders');
+  if (queueError) return Response.json({ error: queueError.message }, { status: 500 });
+
+  const { data: claimed, error: claimError } = await supabase.rpc('claim_pending_notifications', { p_limit: BATCH_SIZE });
+  if (claimError) return Response.json({ error: claimError.message }, { status: 500 });
+  const notifications = (claimed || []) as Notification[];
+
+  const userIds = Array.from(new Set(notifications.map((notification) => notification.user_id)));
+  const { data: preferenceRows, error: preferencesError } = userIds.length > 0
+    ? await supabase.from('notification_preferences').select('user_id, push_enabled, email_enabled').in('user_id', userIds)
+    : { data: [], error: null };
+  if (preferencesError) return Response.json({ error: preferencesError.message }, { status: 500 });
+  const preferencesByUser = new Map((preferenceRows || []).map((row) => [row.user_id, row as Preferences]));
+
+  let delivered = 0;
+  let failed = 0;
+  for (const notification of notifications) {
+    try {
+      const preferences = preferencesByUser.get(notification.user_id) || DEFAULT_PREFERENCES;
+      const channel = await deliver(notification, preferences);
+      const skipped = !channel && (preferences.push_enabled || preferences.email_enabled)
+        ? 'No subscribed device or email address'
+        : null;
+      await supabase
+        .from('notifications')
+        .update({ channel, delivery_error: skipped })
+        .eq('id', notification.id);
+      if (channel) delivered++;
+    } catch (err: any) {
+      console.error(`Error delivering reminder ${notification.id}:`, err);
+      failed++;
+      await supabase
+        .from('notifications')
+        .update({ delivered_at: null, delivery_error: err?.message || String(err) })
+        .eq('id', notification.id);
+    }
+  }
+
+  return Response.json({ queued, delivered, failed });
+});
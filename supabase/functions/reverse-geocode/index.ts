@@ -0,0 +1,123 @@
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+/**
+ * Reverse geocoding (Supabase Edge Function)
+ * Called by the app with { lat, lng } for a punch location. Answers from
+ * geocode_cache when the rounded coordinate is known, otherwise asks Nominatim
+ * and caches complete answers. Only this function writes the cache, so every
+ * entry comes from the provider and no driver can set the address (and with it
+ * the state used for public holidays) that others get for a location.
+ *
+ * Secrets:
+ * - SUPABASE_URL, SUPABASE_ANON_KEY, SUPABASE_SERVICE_ROLE_KEY (set by Supabase)
+ * - GEOCODING_EMAIL (contact address sent to Nominatim, as its usage policy asks)
+ */
+
+interface GeocodeResult {
+  address: string;
+  postcode: string;
+}
+
+const UNKNOWN_POSTCODE = 'Unknown';
+
+// Nominatim's usage policy: identify the application and send at most one request per second
+const NOMINATIM_URL = 'https://nominatim.openstreetmap.org/reverse';
+const NOMINATIM_MIN_INTERVAL_MS = 1000;
+const USER_AGENT = 'driver-ot-tracker';
+
+const env = (name: string): string | undefined => Deno.env.get(name) || undefined;
+
+const admin = createClient(env('SUPABASE_URL')!, env('SUPABASE_SERVICE_ROLE_KEY')!, {
+  auth: { persistSession: false },
+});
+
+const formatCoordinates = (lat: number, lng: number): string => `${lat.toFixed(6)}, ${lng.toFixed(6)}`;
+
+const toCacheKey = (lat: number, lng: number) => ({
+  lat_key: Number(lat.toFixed(4)),
+  lng_key: Number(lng.toFixed(4)),
+});
+
+let lastNominatimRequest = 0;
+
+const reverseWithNominatim = async (lat: number, lng: number): Promise<GeocodeResult | null> => {
+  const wait = lastNominatimRequest + NOMINATIM_MIN_INTERVAL_MS - Date.now();
+  if (wait > 0) await new Promise((resolve) => setTimeout(resolve, wait));
+  lastNominatimRequest = Date.now();
+
+  const params = new URLSearchParams({
+    format: 'json',
+    lat: String(lat),
+    lon: String(lng),
+    addressdetails: '1',
+  });
+  if (env('GEOCODING_EMAIL')) params.set('email', env('GEOCODING_EMAIL')!);
+
+  const response = await fetch(`${NOMINATIM_URL}?${params}`, {
+    headers: { 'Accept-Language': 'en', 'User-Agent': USER_AGENT },
+  });
+  if (!response.ok) throw new Error(`Nominatim returned ${response.status}`);
+  const data = await response.json();
+  if (!data.address && !data.display_name) return null;
+
+  const addr = data.address || {};
+  // Build a readable address string
+  const parts: string[] = [];
+  if (addr.road) parts.push(addr.road);
+  if (addr.suburb || addr.neighbourhood) parts.push(addr.suburb || addr.neighbourhood);
+  if (addr.city || addr.town || addr.village) parts.push(addr.city || addr.town || addr.village);
+  if (addr.postcode) parts.push(addr.postcode);
+  if (addr.state) parts.push(addr.state);
+
+  return {
+    address: parts.length > 0 ? parts.join(', ') : data.display_name || formatCoordinates(lat, lng),
+    postcode: addr.postcode || UNKNOWN_POSTCODE,
+  };
+};
+
+const isCoordinate = (value: unknown, limit: number): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && Math.abs(value) <= limit;
+
+Deno.serve(async (request) => {
+  // Only signed-in users may spend the provider's rate limit
+  const caller = createClient(env('SUPABASE_URL')!, env('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: request.headers.get('Authorization') || '' } },
+    auth: { persistSession: false },
+  });
+  const { data: auth, error: authError } = await caller.auth.getUser();
+  if (authError || !auth.user) return Response.json({ error: 'Not signed in' }, { status: 401 });
+
+  const { lat, lng } = await request.json().catch(() => ({}));
+  if (!isCoordinate(lat, 90) || !isCoordinate(lng, 180)) {
+    return Response.json({ error: 'lat and lng must be valid coordinates' }, { status: 400 });
+  }
+
+  const key = toCacheKey(lat, lng);
+  const { data: cached, error: cacheError } = await admin
+    .from('geocode_cache')
+    .select('address, postcode')
+    .eq('lat_key', key.lat_key)
+    .eq('lng_key', key.lng_key)
+    .maybeSingle();
+  if (cacheError) console.error('Error reading geocode cache:', cacheError);
+  if (cached) return Response.json(cached);
+
+  let result: GeocodeResult | null;
+  try {
+    result = await reverseWithNominatim(lat, lng);
+  } catch (err: any) {
+    console.error('Error reverse geocoding location:', err);
+    return Response.json({ error: err?.message || String(err) }, { status: 502 });
+  }
+  if (!result) return Response.json({ address: formatCoordinates(lat, lng), postcode: UNKNOWN_POSTCODE });
+
+  // Only complete answers are cached, so "Unknown" is retried next time; the first answer is kept
+  if (result.postcode !== UNKNOWN_POSTCODE) {
+    const { error } = await admin
+      .from('geocode_cache')
+      .upsert([{ ...key, ...result, provider: 'nominatim' }], { onConflict: 'lat_key,lng_key', ignoreDuplicates: true });
+    if (error) console.error('Error writing geocode cache:', error);
+  }
+
+  return Response.json(result);
+});
@@ -19,8 +19,63 @@ export interface WorkLog {
   is_outstation?: boolean; // Boolean to trigger RM 30 meal allowance
   is_public_holiday?: boolean; // Boolean to mark if the day is a public holiday
   day_type?: DayType; // Weekday, Weekend, or PublicHoliday
+  review_status?: WorkLogReviewStatus | null; // Set by the long-shift safeguards
+  auto_closed_at?: string | null; // When the session was auto-closed at the hard cap
+
+  // OT breakdown stored by the database when the session is closed
+  ot_minutes_1_5x?: number | null;
+  ot_minutes_2x?: number | null;
+  ot_minutes_3x?: number | null;
+  meal_allowance?: number | null;
+  ot_segments?: WorkLogOTSegment[] | null;
+  break_minutes?: number | null; // Unpaid break minutes deducted before OT
+
+  // Breaks taken during the session, oldest first (written by start/end break)
+  breaks?: BreakPeriod[] | null;
+
+  // Geofence matching, set by the database
+  clock_in_site_id?: string | null;
+  clock_out_site_id?: string | null;
+  clock_in_outside_geofence?: boolean;
+  clock_out_outside_geofence?: boolean;
+  clock_in_outside_reason?: string | null; // Driver's reason for punching outside every site
+  clock_out_outside_reason?: string | null;
+
+  // Outstation decision, set by the database (is_outstation holds the result that is paid)
+  outstation_declared?: boolean; // Driver's own answer
+  outstation_override?: boolean | null; // Set by a supervisor; null = use the rule
+  outstation_rule?: OutstationRule | null;
+  outstation_distance_km?: number | null; // Furthest punch from the home depot
+  outstation_overnight?: boolean | null; // Session ran through the overnight window
+}
+
+// A break within a session; end is null while the driver is still on the break
+export interface BreakPeriod {
+  start: string; // ISO timestamp
+  end: string | null; // ISO timestamp
+}
+
+// auto: distance and overnight rule; declared: driver's answer; supervisor: override
+export type OutstationRule = 'auto' | 'declared' | 'supervisor';
+
+// Per-day part of a session as stored in work_logs.ot_segments
+export interface WorkLogOTSegment {
+  pay_day: string; // YYYY-MM-DD
+  start: string;
+  end: string;
+  minutes: number; // Worked minutes, after unpaid breaks
+  break_minutes?: number;
+  day_type: DayType;
+  prior_minutes: number;
+  ot_minutes_1_5x: number;
+  ot_minutes_2x: number;
+  ot_minutes_3x: number;
+  ot_amount: number;
 }
 
+// flagged: longer than the max session length; needs_review: hit the hard cap, OT held
+export type WorkLogReviewStatus = 'flagged' | 'needs_review';
+
 export interface OTSummary {
   totalAmount: number;
   totalHours: number;
@@ -29,7 +84,8 @@ export interface OTSummary {
 export type DayType = 'weekday' | 'weekend' | 'public_holiday';
 
 export interface OTCalculationBreakdown {
-  duration: number; // Total minutes worked
+  duration: number; // Total minutes from clock-in to clock-out
+  breakMinutes: number; // Unpaid break minutes deducted before OT
   dayType: DayType;
   
   // Weekday/weekend breakdown
@@ -46,6 +102,11 @@ export interface OTCalculationBreakdown {
   otMinutes1_5x: number;
   otMinutes2x: number;
   otMinutes3x: number;
+
+  // Paid minutes after rounding each day to 30-minute blocks
+  paidMinutes1_5x: number;
+  paidMinutes2x: number;
+  paidMinutes3x: number;
   
   // Amounts (rounded to 30-minute blocks)
   otAmount1x: number;
@@ -59,6 +120,31 @@ export interface OTCalculationBreakdown {
   // Totals
   totalOTAmount: number;
   totalAmount: number; // Including all allowances
+
+  // Per-day parts of the shift (one entry unless it crosses a day boundary)
+  segments: OTDaySegment[];
+}
+
+// Part of a shift that falls on a single pay day, rated by that day's own type
+export interface OTDaySegment {
+  payDay: string; // YYYY-MM-DD
+  start: string; // ISO timestamp
+  end: string; // ISO timestamp
+  minutes: number; // Worked minutes, after unpaid breaks
+  breakMinutes: number; // Unpaid break minutes on this pay day
+  dayType: DayType;
+  priorMinutes: number; // Minutes already worked earlier on this pay day
+  fixedOTMinutes: number; // Weekday standard work (no OT pay)
+  otMinutes1_5x: number; // Weekday or weekend OT
+  otMinutes2x: number;
+  otMinutes3x: number;
+  paidMinutes1_5x: number; // After rounding to blocks
+  paidMinutes2x: number;
+  paidMinutes3x: number;
+  otAmount1_5x: number;
+  otAmount2x: number;
+  otAmount3x: number;
+  totalOTAmount: number;
 }
 
 export interface MonthlySummary {
@@ -67,7 +153,40 @@ export interface MonthlySummary {
   foodAllowance: number; // RM 0 (fixed)
   fullAttendanceReward: number; // RM 300 attendance allowance (full if no leave)
   outstationMealAllowances: number; // Outstation overnight meal allowances
-  grandTotal: number;
+  approvedClaims: number; // Approved mileage, toll, parking and fuel claims
+  grandTotal: number; // Gross pay
+  deductions: StatutoryDeductions; // Estimated from the gross (see statutoryService)
+  netPay: number; // Gross pay less the employee's deductions
+}
+
+// Pay components that can count as wages for a statutory contribution
+export type WageComponent =
+  | 'basic_salary'
+  | 'ot_pay'
+  | 'food_allowance'
+  | 'attendance_allowance'
+  | 'outstation_meal_allowance'
+  | 'claims';
+
+// Fleet-wide choice of wage components per contribution
+export interface StatutorySettings {
+  epf_wage_components: WageComponent[];
+  socso_wage_components: WageComponent[];
+  eis_wage_components: WageComponent[];
+  pcb_wage_components: WageComponent[];
+  updated_at?: string;
+}
+
+export interface StatutoryDeductions {
+  epfEmployee: number;
+  epfEmployer: number;
+  socsoEmployee: number;
+  socsoEmployer: number;
+  eisEmployee: number;
+  eisEmployer: number;
+  pcb: number; // Monthly tax deduction (employee only)
+  totalEmployee: number; // Deducted from the driver's pay
+  totalEmployer: number; // Paid by the company on top of gross pay
 }
 
 export interface MonthlyLogRecord {
@@ -81,4 +200,382 @@ export interface MonthlyLogRecord {
   isPublicHoliday: boolean;
   isOutstation: boolean;
   workLog: WorkLog;
+  breakdown?: OTCalculationBreakdown; // Per-rate OT breakdown from calculateOvertime
+  payProfile?: PayProfile; // Pay rules the breakdown was calculated with
+}
+
+// Input to the payroll engine: everything needed to pay one driver for a period
+export interface PayrollInput {
+  logs: WorkLog[]; // Completed logs being paid
+  leaves: LeaveRecord[];
+  profiles: PayProfile[]; // All of the driver's pay profiles (OT uses the one in effect each day)
+  monthProfile: PayProfile; // Profile for the monthly package (salary, allowances)
+  earlierLogs?: WorkLog[]; // Logs just before the period; they only count towards same-day minutes
+  claims?: Claim[]; // Claims on the logs being paid (only approved ones are paid)
+  statutorySettings?: StatutorySettings; // Wage components for deductions (defaults when omitted)
+}
+
+export interface PayrollResult {
+  records: MonthlyLogRecord[];
+  summary: MonthlySummary;
+  monthProfile: PayProfile;
+}
+
+// One month of a driver's year, for the analytics view
+export interface MonthlyAnalytics {
+  month: number; // 1-based
+  summary: MonthlySummary;
+  shiftCount: number;
+  workedMinutes: number; // Session time less unpaid breaks
+  averageShiftMinutes: number;
+  paidMinutes1_5x: number;
+  paidMinutes2x: number;
+  paidMinutes3x: number;
+  outstationCount: number;
+}
+
+export interface YearAnalytics {
+  year: number;
+  months: MonthlyAnalytics[]; // January up to the last month with data (the current month this year)
+  totals: Omit<MonthlyAnalytics, 'month'>; // Year to date
+}
+
+export type LeaveType = 'medical' | 'annual' | 'emergency' | 'late';
+
+export interface LeaveRecord {
+  id: string;
+  user_id: string;
+  leave_date: string; // YYYY-MM-DD
+  leave_type: LeaveType;
+  notes?: string | null;
+  recorded_by?: string | null; // Driver or supervisor who recorded the leave
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PayProfile {
+  id?: string;
+  user_id?: string;
+  name: string;
+  effective_from: string; // YYYY-MM-DD, rules apply from this date onwards
+
+  // Monthly package
+  basic_salary: number;
+  food_allowance: number;
+  full_attendance_reward: number;
+  meal_allowance: number; // Per outstation overnight
+  mileage_rate_per_km: number; // Paid per km of approved mileage claims
+
+  // OT rules
+  base_hourly_rate: number;
+  weekday_standard_minutes: number; // Standard work before weekday OT starts
+  public_holiday_first_tier_minutes: number; // Minutes paid at the first public holiday tier
+  rate_weekday_ot: number;
+  rate_weekend: number;
+  rate_public_holiday: number;
+  rate_public_holiday_ot: number;
+  block_minutes: number; // OT rounding block
+  block_grace_minutes: number; // Remainder ignored before rounding up
+  day_boundary_minutes: number; // Minutes after midnight at which a new pay day starts
+
+  // Break policy: sessions longer than auto_break_after_minutes with no logged
+  // breaks lose auto_break_minutes (0 turns automatic deduction off)
+  auto_break_after_minutes: number;
+  auto_break_minutes: number;
+}
+
+// Malaysian state codes; 'ALL' marks a nationwide holiday
+export type MalaysianState =
+  | 'JHR' | 'KDH' | 'KTN' | 'MLK' | 'NSN' | 'PHG' | 'PNG' | 'PRK'
+  | 'PLS' | 'SBH' | 'SWK' | 'SGR' | 'TRG' | 'KUL' | 'LBN' | 'PJY';
+
+export interface PublicHoliday {
+  id?: string;
+  holiday_date: string; // YYYY-MM-DD
+  state: MalaysianState | 'ALL';
+  name: string;
+  created_at?: string;
+}
+
+export interface PayslipOTLine {
+  label: string;
+  multiplier: number;
+  hourlyRate: number; // Base hourly rate x multiplier
+  minutes: number; // Actual OT minutes
+  roundedMinutes: number; // Minutes paid after block rounding
+  amount: number;
+}
+
+export interface Payslip {
+  employeeName: string;
+  periodLabel: string; // e.g. "November 2026"
+  year: number;
+  month: number; // 1-based
+  generatedAt: string; // ISO timestamp
+  daysWorked: number;
+  totalMinutesWorked: number;
+  outstationTrips: number;
+  summary: MonthlySummary;
+  otLines: PayslipOTLine[];
+  records: MonthlyLogRecord[];
+}
+
+export interface WorkLogImportRow {
+  rowNumber: number; // Line/row in the uploaded file (1-based, header = 1)
+  clock_in: string; // ISO timestamp
+  clock_out: string; // ISO timestamp
+  day_type: DayType;
+  is_public_holiday: boolean;
+  is_outstation: boolean;
+  check_in_location?: string;
+  check_out_location?: string;
+}
+
+export interface WorkLogImportError {
+  rowNumber: number;
+  message: string;
+}
+
+export type UserRole = 'driver' | 'supervisor' | 'admin';
+
+// UI language: English, Bahasa Malaysia or Chinese
+export type Language = 'en' | 'ms' | 'zh';
+
+export interface UserProfile {
+  id: string;
+  email: string | null;
+  full_name: string | null;
+  role: UserRole;
+  home_site_id?: string | null; // Depot outstation distance is measured from
+  language?: Language | null; // UI language the user picked (null: not chosen yet)
+  created_at?: string;
+}
+
+export interface FleetDriverStatus {
+  profile: UserProfile;
+  activeSession: WorkLog | null;
+  monthToDateOT: number;
+}
+
+export type CorrectionStatus = 'pending' | 'approved' | 'rejected';
+
+export interface WorkLogCorrection {
+  id: string;
+  work_log_id: string;
+  user_id: string;
+  requested_clock_in: string; // ISO timestamp
+  requested_clock_out: string; // ISO timestamp
+  reason: string;
+  status: CorrectionStatus;
+  reviewed_by?: string | null;
+  reviewed_at?: string | null;
+  review_notes?: string | null;
+  created_at: string;
+  work_log?: Pick<WorkLog, 'clock_in' | 'clock_out' | 'duration_minutes' | 'overtime_amount'> | null; // Embedded when listing for review
+}
+
+export type ClaimCategory = 'mileage' | 'toll' | 'parking' | 'fuel';
+
+export type ClaimStatus = 'pending' | 'approved' | 'rejected';
+
+export interface Claim {
+  id: string;
+  work_log_id: string;
+  user_id: string;
+  category: ClaimCategory;
+  distance_km?: number | null; // Mileage claims only
+  amount: number; // For mileage, set by the database from the pay profile rate
+  description?: string | null;
+  receipt_path?: string | null; // Path in the claim-receipts Storage bucket
+  status: ClaimStatus;
+  reviewed_by?: string | null;
+  reviewed_at?: string | null;
+  review_notes?: string | null;
+  created_at: string;
+  work_log?: Pick<WorkLog, 'clock_in' | 'clock_out'> | null; // Embedded when listing for review
+}
+
+export type TimesheetStatus = 'submitted' | 'approved' | 'rejected';
+
+// A driver's month submitted for approval; approved months are closed
+export interface Timesheet {
+  id: string;
+  user_id: string;
+  period_start: string; // YYYY-MM-01
+  status: TimesheetStatus;
+  submitted_at: string;
+  reviewed_by?: string | null;
+  reviewed_at?: string | null;
+  review_notes?: string | null;
+  snapshot?: PayrollResult | null; // Payroll frozen on approval
+}
+
+export type WorkLogAuditAction = 'update' | 'delete' | 'correction' | 'recalculation';
+
+export interface WorkLogAuditEntry {
+  id: string;
+  work_log_id: string;
+  user_id: string;
+  changed_by: string | null;
+  action: WorkLogAuditAction;
+  correction_id: string | null;
+  recalculation_id?: string | null; // Bulk recalculation run that made the change
+  before_values: Partial<WorkLog> | null;
+  after_values: Partial<WorkLog> | null;
+  created_at: string;
+}
+
+export type PunchType = 'clock_in' | 'clock_out';
+
+export type PunchStatus = 'pending' | 'conflict';
+
+export interface QueuedPunch {
+  id: string; // Local id; a queued clock-in also serves as the local session id
+  user_id: string;
+  type: PunchType;
+  timestamp: string; // Device time of the punch (ISO)
+  location: { lat: number; lng: number } | null; // GPS fix at the time of the punch
+  work_log_id?: string; // Clock-out only: server log id, or the id of a queued clock-in
+  is_public_holiday?: boolean; // Clock-in only
+  is_outstation?: boolean; // Clock-out only
+  outside_reason?: string; // Reason for punching outside every site
+  status: PunchStatus;
+  conflict_message?: string;
+}
+
+export interface SessionLimits {
+  max_session_hours: number; // Sessions longer than this are flagged
+  hard_cap_hours: number; // Open sessions are auto-closed at this length
+  updated_at?: string;
+}
+
+export interface OutstationSettings {
+  min_distance_km: number; // A punch this far from the home depot counts as away
+  overnight_start: string; // HH:mm, local time
+  overnight_end: string; // HH:mm, may be earlier than the start (window crosses midnight)
+  updated_at?: string;
+}
+
+export interface RouteSettings {
+  enabled: boolean; // Sample locations while a session is open
+  sample_interval_seconds: number;
+  retention_days: number; // Points older than this are deleted
+  updated_at?: string;
+}
+
+// A location sampled while a work session was open
+export interface WorkLogPoint {
+  id?: number;
+  work_log_id: string;
+  user_id: string;
+  recorded_at: string; // ISO timestamp
+  lat: number;
+  lng: number;
+  accuracy_meters?: number | null;
+}
+
+// Client-side preview of the database outstation rule
+export interface OutstationSuggestion {
+  isOutstation: boolean;
+  distanceKm: number; // Furthest known punch from the home depot
+  overnight: boolean; // Session runs through the overnight window
+  homeSite: Site;
+}
+
+export type SiteType = 'depot' | 'customer';
+
+export interface Site {
+  id?: string;
+  name: string;
+  site_type: SiteType;
+  address?: string | null;
+  lat: number;
+  lng: number;
+  radius_meters: number;
+  is_active: boolean;
+  created_at?: string;
+}
+
+// A shift a supervisor planned for a driver
+export interface PlannedShift {
+  id?: string;
+  user_id: string;
+  shift_start: string; // ISO timestamp
+  shift_end: string; // ISO timestamp
+  site_id?: string | null;
+  route?: string | null; // Route or customer
+  expected_outstation: boolean;
+  notes?: string | null;
+  created_by?: string | null;
+  created_at?: string;
+  updated_at?: string;
+}
+
+// Planned vs. actual for one work log
+export interface ShiftComparison {
+  shift: PlannedShift;
+  plannedMinutes: number;
+  actualMinutes: number;
+  lateMinutes: number; // Minutes after the planned start (0 when on time)
+  earlyLeaveMinutes: number; // Minutes before the planned end (0 when not early)
+  isLate: boolean; // Late beyond the grace period
+  leftEarly: boolean; // Left early beyond the grace period
+}
+
+// A log whose stored OT or day type differs from a recalculation under the current rules
+export interface RecalculationChange {
+  workLog: WorkLog;
+  storedAmount: number;
+  recalculatedAmount: number;
+  storedDayType?: DayType | null;
+  recalculatedDayType: DayType;
+  monthClosed: boolean; // In a month closed by an approved timesheet: left unchanged
+}
+
+// One bulk recalculation written back to the database
+export interface RecalculationRun {
+  id: string;
+  requested_by?: string | null;
+  user_id?: string | null; // NULL when the whole fleet was recalculated
+  range_start: string; // yyyy-MM-dd
+  range_end: string; // yyyy-MM-dd, inclusive
+  requested_count: number;
+  changed_count: number;
+  skipped_closed_count: number;
+  created_at: string;
+}
+
+export type NotificationKind ='long_session' | 'missed_clock_in' | 'month_review';
+export type NotificationChannel = 'push' | 'email';
+
+// Which reminders a driver receives, and how
+export interface NotificationPreferences {
+  push_enabled: boolean;
+  email_enabled: boolean; // Used when push is off or unavailable on the device
+  remind_long_session: boolean;
+  long_session_hours: number;
+  remind_missed_clock_in: boolean;
+  missed_clock_in_minutes: number; // After the rostered start
+  remind_month_review: boolean;
+  updated_at?: string;
+}
+
+// A reminder queued for a driver
+export interface AppNotification {
+  id: string;
+  user_id: string;
+  kind: NotificationKind;
+  reference: string; // Work log id, planned shift id or month (yyyy-MM-dd)
+  title: string;
+  body: string;
+  created_at: string;
+  delivered_at?: string | null;
+  channel?: NotificationChannel | null; // NULL once delivered: both channels were off
+  delivery_error?: string | null;
+}
+
+// Result of reverse-geocoding a punch location
+export interface GeocodeResult {
+  address: string; // Readable address, or formatted coordinates when none is found
+  postcode: string; // "Unknown" when the provider could not tell
 }